@@ -0,0 +1,159 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { CheckCircle, AlertTriangle, Lightbulb, BookOpen } from "lucide-react";
+import type { PracticeResponseEvaluation } from "@shared/schema";
+
+interface AnswerBreakdownCardProps {
+  evaluations: PracticeResponseEvaluation[];
+}
+
+const RUBRIC_CRITERIA: Array<{ key: keyof PracticeResponseEvaluation; label: string }> = [
+  { key: 'relevanceScore', label: 'Relevance' },
+  { key: 'starStructureScore', label: 'STAR Structure' },
+  { key: 'specificEvidenceScore', label: 'Specific Evidence' },
+  { key: 'roleAlignmentScore', label: 'Role Alignment' },
+  { key: 'outcomeOrientedScore', label: 'Outcome Oriented' },
+  { key: 'communicationScore', label: 'Communication' },
+  { key: 'problemSolvingScore', label: 'Problem Solving' },
+  { key: 'culturalFitScore', label: 'Cultural Fit' },
+  { key: 'learningAgilityScore', label: 'Learning Agility' },
+];
+
+const STAR_COMPONENTS = ['situation', 'task', 'action', 'result'] as const;
+
+const scoreColor = (score: number) =>
+  score >= 4 ? 'bg-green-500' : score >= 3 ? 'bg-yellow-500' : 'bg-red-500';
+
+const ratingClass = (rating: string | null) =>
+  rating === 'Pass' ? 'text-green-600 border-green-200' :
+  rating === 'Borderline' ? 'text-yellow-600 border-yellow-200' :
+  'text-red-600 border-red-200';
+
+export function AnswerBreakdownCard({ evaluations }: AnswerBreakdownCardProps) {
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <h3 className="text-xl font-semibold text-gray-900 mb-4">Answer-by-Answer Breakdown</h3>
+
+        <Accordion type="single" collapsible className="w-full">
+          {evaluations.map((evaluation) => {
+            const starScores = (evaluation.starScores || {}) as Record<string, number>;
+            const feedback = (evaluation.detailedFeedback || {}) as {
+              strengths?: string[];
+              weaknesses?: string[];
+              suggestions?: string[];
+            };
+            const overall = parseFloat(evaluation.weightedOverallScore || '0');
+
+            return (
+              <AccordionItem key={evaluation.id} value={evaluation.id}>
+                <AccordionTrigger className="text-left">
+                  <div className="flex items-center justify-between w-full pr-4 gap-4">
+                    <span className="text-sm font-medium text-gray-900">
+                      Q{evaluation.questionNumber}. {evaluation.questionText}
+                    </span>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <span className="text-sm font-semibold">{overall.toFixed(1)}/5</span>
+                      {evaluation.overallRating && (
+                        <Badge variant="outline" className={ratingClass(evaluation.overallRating)}>
+                          {evaluation.overallRating}
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                </AccordionTrigger>
+                <AccordionContent className="space-y-5">
+                  {/* Answer */}
+                  <p className="text-sm text-gray-700 bg-gray-50 p-3 rounded whitespace-pre-wrap">
+                    {evaluation.responseText}
+                  </p>
+
+                  {/* Rubric Scores */}
+                  <div className="grid sm:grid-cols-2 gap-x-6 gap-y-2">
+                    {RUBRIC_CRITERIA.map(({ key, label }) => {
+                      const score = parseFloat(String(evaluation[key] ?? '0'));
+                      return (
+                        <div key={key} className="flex items-center justify-between text-sm">
+                          <span className="text-gray-600 w-32">{label}</span>
+                          <div className="flex-1 bg-gray-200 rounded-full h-2 mx-3">
+                            <div
+                              className={`h-2 rounded-full ${scoreColor(score)}`}
+                              style={{ width: `${(score / 5) * 100}%` }}
+                            />
+                          </div>
+                          <span className="font-medium w-10 text-right">{score.toFixed(1)}</span>
+                        </div>
+                      );
+                    })}
+                  </div>
+
+                  {/* STAR Breakdown */}
+                  <div>
+                    <h4 className="text-sm font-semibold text-gray-900 mb-2">STAR Breakdown</h4>
+                    <div className="grid grid-cols-4 gap-2">
+                      {STAR_COMPONENTS.map((component) => (
+                        <div key={component} className="text-center p-2 border border-gray-200 rounded">
+                          <div className="text-xs text-gray-500 capitalize">{component}</div>
+                          <div className="text-lg font-semibold">{Number(starScores[component] || 0).toFixed(1)}</div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Feedback */}
+                  {feedback.strengths && feedback.strengths.length > 0 && (
+                    <div>
+                      <h4 className="text-sm font-semibold text-green-600 mb-2 flex items-center">
+                        <CheckCircle className="w-4 h-4 mr-2" />
+                        Strengths
+                      </h4>
+                      <ul className="space-y-1 text-sm text-gray-700 list-disc pl-5">
+                        {feedback.strengths.map((item, index) => <li key={index}>{item}</li>)}
+                      </ul>
+                    </div>
+                  )}
+                  {feedback.weaknesses && feedback.weaknesses.length > 0 && (
+                    <div>
+                      <h4 className="text-sm font-semibold text-yellow-600 mb-2 flex items-center">
+                        <AlertTriangle className="w-4 h-4 mr-2" />
+                        Areas for Improvement
+                      </h4>
+                      <ul className="space-y-1 text-sm text-gray-700 list-disc pl-5">
+                        {feedback.weaknesses.map((item, index) => <li key={index}>{item}</li>)}
+                      </ul>
+                    </div>
+                  )}
+                  {feedback.suggestions && feedback.suggestions.length > 0 && (
+                    <div>
+                      <h4 className="text-sm font-semibold text-primary mb-2 flex items-center">
+                        <Lightbulb className="w-4 h-4 mr-2" />
+                        Suggestions
+                      </h4>
+                      <ul className="space-y-1 text-sm text-gray-700 list-disc pl-5">
+                        {feedback.suggestions.map((item, index) => <li key={index}>{item}</li>)}
+                      </ul>
+                    </div>
+                  )}
+
+                  {/* Model Answer */}
+                  {evaluation.modelAnswer && (
+                    <div>
+                      <h4 className="text-sm font-semibold text-gray-900 mb-2 flex items-center">
+                        <BookOpen className="w-4 h-4 mr-2" />
+                        Model Answer
+                      </h4>
+                      <p className="text-sm text-gray-700 bg-blue-50 p-3 rounded whitespace-pre-wrap">
+                        {evaluation.modelAnswer}
+                      </p>
+                    </div>
+                  )}
+                </AccordionContent>
+              </AccordionItem>
+            );
+          })}
+        </Accordion>
+      </CardContent>
+    </Card>
+  );
+}
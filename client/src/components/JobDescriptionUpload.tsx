@@ -6,12 +6,12 @@ import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { toast } from "@/hooks/use-toast";
 import { Upload, FileText, Trash2, Download } from "lucide-react";
-import type { JobDescription } from "@shared/schema";
+import type { JobDescriptionSummary } from "@shared/schema";
 
 interface JobDescriptionUploadProps {
   userId: string;
   selectedJobDescriptionId?: string;
-  onJobDescriptionSelect?: (jobDescription: JobDescription | null) => void;
+  onJobDescriptionSelect?: (jobDescription: JobDescriptionSummary | null) => void;
 }
 
 export default function JobDescriptionUpload({ 
@@ -24,7 +24,7 @@ export default function JobDescriptionUpload({
   const queryClient = useQueryClient();
 
   // Fetch user's job descriptions
-  const { data: jobDescriptions = [], isLoading } = useQuery({
+  const { data: jobDescriptions = [], isLoading } = useQuery<JobDescriptionSummary[]>({
     queryKey: ['/api/job-descriptions/user', userId],
     queryFn: async () => {
       const response = await fetch(`/api/job-descriptions/user/${userId}`);
@@ -105,14 +105,14 @@ export default function JobDescriptionUpload({
     const allowedTypes = [
       'application/pdf',
       'text/plain',
-      'application/msword',
       'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
     ];
     
-    if (!allowedTypes.includes(file.type)) {
+    const hasAllowedExtension = /\.(pdf|txt|docx)$/i.test(file.name);
+    if (!allowedTypes.includes(file.type) && !hasAllowedExtension) {
       toast({
         title: "Invalid File Type",
-        description: "Please upload a PDF, TXT, DOC, or DOCX file.",
+        description: "Please upload a PDF, TXT, or DOCX file.",
         variant: "destructive",
       });
       return;
@@ -155,7 +155,7 @@ export default function JobDescriptionUpload({
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
-  const formatDate = (date: string): string => {
+  const formatDate = (date: string | Date): string => {
     return new Date(date).toLocaleDateString('en-US', {
       year: 'numeric',
       month: 'short',
@@ -189,12 +189,12 @@ export default function JobDescriptionUpload({
             {uploadMutation.isPending ? 'Uploading...' : 'Drop your job description here or click to browse'}
           </p>
           <p className="text-xs text-gray-500">
-            Supports PDF, TXT, DOC, DOCX files up to 10MB
+            Supports PDF, TXT, DOCX files up to 10MB
           </p>
           <input
             ref={fileInputRef}
             type="file"
-            accept=".pdf,.txt,.doc,.docx"
+            accept=".pdf,.txt,.docx"
             onChange={(e) => handleFileUpload(e.target.files)}
             className="hidden"
             disabled={uploadMutation.isPending}
@@ -211,7 +211,7 @@ export default function JobDescriptionUpload({
         ) : (
           <div className="space-y-2">
             <Label className="text-sm font-medium">Uploaded Job Descriptions</Label>
-            {jobDescriptions.map((jd: JobDescription) => (
+            {jobDescriptions.map((jd) => (
               <div
                 key={jd.id}
                 className={`
@@ -227,7 +227,7 @@ export default function JobDescriptionUpload({
                       {jd.fileName}
                     </p>
                     <p className="text-xs text-gray-500">
-                      {formatFileSize(jd.fileSize || 0)} • Uploaded {jd.uploadedAt ? formatDate(jd.uploadedAt.toISOString()) : 'Unknown'}
+                      {formatFileSize(jd.fileSize || 0)} • Uploaded {jd.uploadedAt ? formatDate(jd.uploadedAt) : 'Unknown'}
                     </p>
                   </div>
                 </div>
@@ -0,0 +1,76 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle2, Lightbulb, MessageSquare } from "lucide-react";
+import type { PracticeQuestionEvaluationSummary } from "@shared/schema";
+
+interface QuestionEvaluationsCardProps {
+  evaluations: PracticeQuestionEvaluationSummary[];
+}
+
+const RATING_STYLES: Record<PracticeQuestionEvaluationSummary['overallRating'], string> = {
+  'Pass': "bg-green-100 text-green-800 hover:bg-green-100",
+  'Borderline': "bg-yellow-100 text-yellow-800 hover:bg-yellow-100",
+  'Needs Improvement': "bg-red-100 text-red-800 hover:bg-red-100",
+};
+
+export function QuestionEvaluationsCard({ evaluations }: QuestionEvaluationsCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <MessageSquare className="w-5 h-5 mr-2 text-blue-600" />
+          Question-by-Question Feedback
+        </CardTitle>
+        <CardDescription>
+          Each answer scored against the question it responded to
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {evaluations.map((evaluation) => (
+          <div key={evaluation.questionNumber} className="p-4 border border-gray-200 rounded-lg space-y-3">
+            <div className="flex items-start justify-between gap-4">
+              <p className="text-sm font-medium text-gray-900">
+                Q{evaluation.questionNumber}. {evaluation.questionText}
+              </p>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <span className="text-sm font-semibold text-gray-700">
+                  {evaluation.weightedOverallScore.toFixed(1)}/5
+                </span>
+                <Badge className={RATING_STYLES[evaluation.overallRating]}>
+                  {evaluation.overallRating}
+                </Badge>
+              </div>
+            </div>
+
+            <p className="text-sm text-gray-600 bg-gray-50 p-3 rounded line-clamp-4">
+              {evaluation.responseText}
+            </p>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              {evaluation.strengths.length > 0 && (
+                <ul className="space-y-1">
+                  {evaluation.strengths.map((strength, index) => (
+                    <li key={index} className="flex items-start gap-2 text-sm text-gray-700">
+                      <CheckCircle2 className="w-4 h-4 text-green-600 flex-shrink-0 mt-0.5" />
+                      {strength}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {evaluation.suggestions.length > 0 && (
+                <ul className="space-y-1">
+                  {evaluation.suggestions.map((suggestion, index) => (
+                    <li key={index} className="flex items-start gap-2 text-sm text-gray-700">
+                      <Lightbulb className="w-4 h-4 text-yellow-600 flex-shrink-0 mt-0.5" />
+                      {suggestion}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,87 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle2, XCircle, FileText } from "lucide-react";
+import type { SessionRequirementCoverage } from "@shared/schema";
+
+interface RequirementCoverageCardProps {
+  coverage: SessionRequirementCoverage;
+}
+
+export function RequirementCoverageCard({ coverage }: RequirementCoverageCardProps) {
+  const total = coverage.covered.length + coverage.missed.length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <FileText className="w-5 h-5 mr-2 text-indigo-600" />
+          Job Requirement Coverage
+        </CardTitle>
+        <CardDescription>
+          Your answers addressed {coverage.covered.length} of {total} requirements from the job description
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Session-level summary */}
+        <div className="grid md:grid-cols-2 gap-4">
+          <div>
+            <h4 className="text-sm font-medium text-green-700 mb-2">Covered</h4>
+            {coverage.covered.length > 0 ? (
+              <ul className="space-y-1">
+                {coverage.covered.map((requirement) => (
+                  <li key={requirement} className="flex items-start gap-2 text-sm text-gray-700">
+                    <CheckCircle2 className="w-4 h-4 text-green-600 flex-shrink-0 mt-0.5" />
+                    {requirement}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">No requirements were clearly addressed yet.</p>
+            )}
+          </div>
+          <div>
+            <h4 className="text-sm font-medium text-red-700 mb-2">Not yet addressed</h4>
+            {coverage.missed.length > 0 ? (
+              <ul className="space-y-1">
+                {coverage.missed.map((requirement) => (
+                  <li key={requirement} className="flex items-start gap-2 text-sm text-gray-700">
+                    <XCircle className="w-4 h-4 text-red-500 flex-shrink-0 mt-0.5" />
+                    {requirement}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">Every requirement was addressed at least once.</p>
+            )}
+          </div>
+        </div>
+
+        {/* Per-answer breakdown */}
+        {coverage.answers.length > 0 && (
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium text-gray-900">By answer</h4>
+            {coverage.answers.map((answer, index) => (
+              <div key={index} className="p-3 border border-gray-200 rounded-lg">
+                <p className="text-sm font-medium text-gray-800 mb-2">
+                  Q{answer.questionNumber ?? index + 1}. {answer.questionText}
+                </p>
+                <div className="flex flex-wrap gap-1">
+                  {answer.covered.map((requirement) => (
+                    <Badge key={`covered-${requirement}`} className="bg-green-100 text-green-800 hover:bg-green-100">
+                      {requirement}
+                    </Badge>
+                  ))}
+                  {answer.missed.map((requirement) => (
+                    <Badge key={`missed-${requirement}`} variant="outline" className="text-gray-500">
+                      {requirement}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -43,13 +43,13 @@ export default function ResetPasswordForm({ onBackToLogin }: ResetPasswordFormPr
           </div>
           <CardTitle className="text-2xl">Check Your Email</CardTitle>
           <CardDescription>
-            We've sent password reset instructions to {email}
+            If an account exists for {email}, we've sent password reset instructions
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="text-center text-sm text-gray-600 space-y-2">
             <p>If you don't see the email in your inbox, please check your spam folder.</p>
-            <p>The reset link will expire in 24 hours for security reasons.</p>
+            <p>The reset link will expire in 1 hour and can only be used once.</p>
           </div>
           
           <Button 
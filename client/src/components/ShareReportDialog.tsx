@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, Eye, Link2, Loader2, XCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface ShareLink {
+  id: string;
+  status: 'active' | 'expired' | 'revoked';
+  expiresAt: string | null;
+  revokedAt: string | null;
+  viewCount: number;
+  lastViewedAt: string | null;
+  createdAt: string;
+}
+
+interface ShareReportDialogProps {
+  sessionId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EXPIRY_OPTIONS = [
+  { value: "7", label: "7 days" },
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "never", label: "Never" },
+];
+
+const STATUS_STYLES: Record<ShareLink['status'], string> = {
+  active: "bg-green-100 text-green-800",
+  expired: "bg-gray-100 text-gray-700",
+  revoked: "bg-red-100 text-red-800",
+};
+
+/**
+ * Create, copy and revoke public links to an anonymized copy of an interview evaluation
+ */
+export default function ShareReportDialog({ sessionId, open, onOpenChange }: ShareReportDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [expiry, setExpiry] = useState("30");
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null);
+  const linksKey = [`/api/perform/sessions/${sessionId}/shares`];
+
+  const { data: links = [], isLoading } = useQuery<ShareLink[]>({
+    queryKey: linksKey,
+    enabled: open,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/perform/sessions/${sessionId}/share`, {
+        expiresInDays: expiry === "never" ? null : Number(expiry),
+      });
+      return await response.json() as { url: string };
+    },
+    onSuccess: ({ url }) => {
+      setCreatedUrl(url);
+      queryClient.invalidateQueries({ queryKey: linksKey });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to create a share link. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (shareId: string) => {
+      await apiRequest("DELETE", `/api/perform/shares/${shareId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: linksKey });
+      toast({
+        title: "Link revoked",
+        description: "Anyone opening that link will no longer see your report.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to revoke the link. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyUrl = async () => {
+    if (!createdUrl) return;
+    try {
+      await navigator.clipboard.writeText(createdUrl);
+      toast({ title: "Link copied", description: "Send it to your coach or mentor." });
+    } catch {
+      toast({ title: "Copy failed", description: "Select the link and copy it manually.", variant: "destructive" });
+    }
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setCreatedUrl(null);
+    onOpenChange(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share Your Report</DialogTitle>
+          <DialogDescription>
+            The link shows your rubric scores, badge and strengths only - never your name, company, answers or written feedback.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-end gap-3">
+            <div className="flex-1">
+              <label className="text-sm font-medium text-gray-700">Link expires after</label>
+              <Select value={expiry} onValueChange={setExpiry}>
+                <SelectTrigger className="mt-1" data-testid="share-expiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPIRY_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={() => createMutation.mutate()} disabled={createMutation.isPending} data-testid="create-share-link">
+              {createMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Link2 className="w-4 h-4 mr-2" />}
+              Create Link
+            </Button>
+          </div>
+
+          {createdUrl && (
+            <div className="p-3 bg-green-50 border border-green-200 rounded-lg space-y-2">
+              <p className="text-sm text-green-800">Copy this link now - for your privacy it can't be shown again.</p>
+              <div className="flex gap-2">
+                <Input value={createdUrl} readOnly onFocus={(e) => e.target.select()} data-testid="share-url" />
+                <Button variant="outline" size="icon" onClick={copyUrl} aria-label="Copy link">
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Your links</h4>
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading...</p>
+            ) : links.length === 0 ? (
+              <p className="text-sm text-gray-500">You haven't shared this report yet.</p>
+            ) : (
+              <div className="space-y-2 max-h-60 overflow-y-auto">
+                {links.map(link => (
+                  <div key={link.id} className="flex items-center justify-between p-2 border rounded-lg text-sm">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <Badge className={STATUS_STYLES[link.status]}>{link.status}</Badge>
+                        <span className="text-gray-600">Created {new Date(link.createdAt).toLocaleDateString()}</span>
+                      </div>
+                      <div className="flex items-center gap-3 text-xs text-gray-500 mt-1">
+                        <span className="flex items-center gap-1"><Eye className="w-3 h-3" />{link.viewCount} views</span>
+                        <span>{link.expiresAt ? `Expires ${new Date(link.expiresAt).toLocaleDateString()}` : "No expiry"}</span>
+                      </div>
+                    </div>
+                    {link.status === 'active' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-red-600"
+                        onClick={() => revokeMutation.mutate(link.id)}
+                        disabled={revokeMutation.isPending}
+                      >
+                        <XCircle className="w-4 h-4 mr-1" />
+                        Revoke
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
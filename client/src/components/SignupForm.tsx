@@ -15,6 +15,7 @@ interface SignupFormProps {
 export default function SignupForm({ onSuccess, onSwitchToLogin }: SignupFormProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
   const [formData, setFormData] = useState({
     email: "",
     password: "",
@@ -27,6 +28,7 @@ export default function SignupForm({ onSuccess, onSwitchToLogin }: SignupFormPro
     e.preventDefault();
     setIsLoading(true);
     setError("");
+    setNotice("");
     
     // Validate passwords match
     if (formData.password !== formData.confirmPassword) {
@@ -51,6 +53,12 @@ export default function SignupForm({ onSuccess, onSwitchToLogin }: SignupFormPro
       });
       
       if (response.ok) {
+        const result = await response.json();
+        // Accounts that must confirm their email get no session until they do
+        if (result.verificationRequired) {
+          setNotice(result.message || "Check your email to confirm your address, then sign in");
+          return;
+        }
         onSuccess();
         window.location.href = '/dashboard';
       }
@@ -79,6 +87,13 @@ export default function SignupForm({ onSuccess, onSwitchToLogin }: SignupFormPro
             <AlertDescription>{error}</AlertDescription>
           </Alert>
         )}
+
+        {notice && (
+          <Alert data-testid="alert-verify-email">
+            <CheckCircle className="h-4 w-4" />
+            <AlertDescription>{notice}</AlertDescription>
+          </Alert>
+        )}
         
         <form onSubmit={handleSubmit} className="space-y-4">
           <div className="grid grid-cols-2 gap-4">
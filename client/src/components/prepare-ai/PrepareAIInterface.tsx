@@ -29,16 +29,19 @@ import {
   Clock,
   X,
   BarChart3,
-  Globe
+  Globe,
+  Settings
 } from 'lucide-react';
 import { io, type Socket } from 'socket.io-client';
+import RecordingSettingsDialog from './RecordingSettingsDialog';
 
 interface Message {
   id: string;
-  type: 'question' | 'response';
+  type: 'question' | 'follow-up' | 'response';
   content: string;
   timestamp: Date;
   isAudio?: boolean;
+  audioUrl?: string; // stored recording of a voice answer, for replay
   evaluation?: {
     starScore: number;
     feedback: string;
@@ -57,6 +60,12 @@ interface SessionData {
   currentQuestionId?: string;
 }
 
+// The interviewer's probe still waiting for an answer, from a response's follow-up exchanges
+function pendingFollowUpQuestion(followUps: Array<{ question: string; answer: string | null }> | undefined): string | null {
+  const last = followUps?.[followUps.length - 1];
+  return last && last.answer === null ? last.question : null;
+}
+
 interface PrepareAIInterfaceProps {
   initialSession?: Partial<SessionData>;
   onSessionChange?: (session: SessionData) => void;
@@ -84,8 +93,10 @@ export default function PrepareAIInterface({
   const [voiceEnabled, setVoiceEnabled] = useState(true);
   const [speechRate, setSpeechRate] = useState(1.0);
   const [selectedVoice, setSelectedVoice] = useState<string>('');
+  const [showRecordingSettings, setShowRecordingSettings] = useState(false);
   const [hasJoinedSession, setHasJoinedSession] = useState(false);
   const [isGeneratingQuestion, setIsGeneratingQuestion] = useState(false);
+  const [awaitingFollowUp, setAwaitingFollowUp] = useState(false);
 
   // Feedback panel state - store history of evaluations per question
   const [evaluationHistory, setEvaluationHistory] = useState<Array<{
@@ -114,6 +125,7 @@ export default function PrepareAIInterface({
   const totalQuestionsLimitRef = useRef(totalQuestionsLimit);
   const hasJoinedSessionRef = useRef(hasJoinedSession);
   const isGeneratingQuestionRef = useRef(isGeneratingQuestion);
+  const awaitingFollowUpRef = useRef(awaitingFollowUp);
   
   // Update refs on every render to prevent stale closures
   sessionStatusRef.current = sessionStatus;
@@ -121,6 +133,7 @@ export default function PrepareAIInterface({
   totalQuestionsLimitRef.current = totalQuestionsLimit;
   hasJoinedSessionRef.current = hasJoinedSession;
   isGeneratingQuestionRef.current = isGeneratingQuestion;
+  awaitingFollowUpRef.current = awaitingFollowUp;
 
   // Helper function to get language display name
   const getLanguageName = (code: string) => {
@@ -199,6 +212,7 @@ export default function PrepareAIInterface({
   const audioChunksRef = useRef<Blob[]>([]);
   const speechSynthesis = useRef<SpeechSynthesis | null>(null);
   const currentUtteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
+  const serverAudioRef = useRef<HTMLAudioElement | null>(null);
 
   // Initialize WebSocket connection
   useEffect(() => {
@@ -211,17 +225,15 @@ export default function PrepareAIInterface({
     socket.on('connect', () => {
       console.log('WebSocket connected for AI prepare session');
       
-      // Step 1: Authenticate with the WebSocket service
-      if (user?.id) {
-        socket.emit('prepare:authenticate', { 
-          userId: user.id
-        });
-      } else {
-        console.error('❌ No user ID available for WebSocket authentication');
-      }
+      // Step 1: Confirm authentication (the server identifies us from the session cookie)
+      socket.emit('prepare:authenticate');
     });
 
     socket.on('prepare:message', (message: any) => {
+      if (message.type === 'follow-up') {
+        askFollowUp(message.data.followUp.question);
+        return;
+      }
       if (message.type === 'system') {
         switch (message.data.status) {
           case 'authenticated':
@@ -254,6 +266,15 @@ export default function PrepareAIInterface({
           case 'voice-processing':
             console.log('🎤 Voice processing started...');
             break;
+          case 'voice-recording-saved': {
+            // Attach the replay link to the newest voice answer that doesn't have one yet
+            const recordingUrl = message.data.recordingUrl;
+            setMessages(prev => {
+              const index = prev.map(msg => !!msg.isAudio && !msg.audioUrl).lastIndexOf(true);
+              return index === -1 ? prev : prev.map((msg, i) => i === index ? { ...msg, audioUrl: recordingUrl } : msg);
+            });
+            break;
+          }
         }
       }
     });
@@ -391,7 +412,8 @@ export default function PrepareAIInterface({
           speechRate: config.speechRate || '1.0',
           difficultyLevel: config.difficultyLevel || 'intermediate',
           focusAreas: config.focusAreas || ['behavioral', 'situational'],
-          questionCategories: config.questionCategories || ['general']
+          questionCategories: config.questionCategories || ['general'],
+          followUpsPerQuestion: config.followUpsPerQuestion
         })
       });
 
@@ -434,6 +456,7 @@ export default function PrepareAIInterface({
 
     // Cancel any ongoing speech
     speechSynthesis.current.cancel();
+    serverAudioRef.current?.pause();
 
     const utterance = new SpeechSynthesisUtterance(text);
     utterance.rate = speechRate;
@@ -474,6 +497,10 @@ export default function PrepareAIInterface({
         
         utterance.voice = googleVoice || microsoftVoice || matchingVoices[0];
         console.log(`🎙️ Auto-selected voice for ${lang}: ${utterance.voice.name}`);
+      } else {
+        // Many devices have no Thai, Vietnamese or Filipino voice; let the server read it instead
+        playServerAudio(text);
+        return;
       }
     }
 
@@ -485,12 +512,49 @@ export default function PrepareAIInterface({
     speechSynthesis.current.speak(utterance);
   };
 
+  // Server-side text-to-speech for languages the browser can't speak
+  const playServerAudio = async (text: string) => {
+    if (!session) return;
+
+    try {
+      const response = await fetch('/api/prepare-ai/voice/synthesize', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ sessionId: session.id, text: text.slice(0, 1000), rate: speechRate })
+      });
+      if (!response.ok) throw new Error(`Synthesis failed with status ${response.status}`);
+
+      const audioUrl = URL.createObjectURL(await response.blob());
+      const audio = new Audio(audioUrl);
+      const finish = () => {
+        setIsSpeaking(false);
+        URL.revokeObjectURL(audioUrl);
+      };
+      audio.onplay = () => setIsSpeaking(true);
+      audio.onended = finish;
+      audio.onerror = finish;
+
+      serverAudioRef.current?.pause();
+      serverAudioRef.current = audio;
+      await audio.play();
+    } catch (error) {
+      console.error('Server speech synthesis failed:', error);
+      setIsSpeaking(false);
+    }
+  };
+
   // Stop speech
   const stopSpeech = () => {
     if (speechSynthesis.current) {
       speechSynthesis.current.cancel();
       setIsSpeaking(false);
     }
+    if (serverAudioRef.current) {
+      serverAudioRef.current.pause();
+      serverAudioRef.current = null;
+      setIsSpeaking(false);
+    }
   };
 
   // Voice recording
@@ -580,8 +644,10 @@ export default function PrepareAIInterface({
       socket.emit('prepare:voice-end', {
         sessionId: session.id,
         questionId: session.currentQuestionId,
-        totalChunks: totalChunks
+        totalChunks: totalChunks,
+        followUp: awaitingFollowUpRef.current
       });
+      setAwaitingFollowUp(false);
       
       console.log(`✅ Voice data sent via WebSocket: ${totalChunks} chunks`);
       
@@ -599,6 +665,20 @@ export default function PrepareAIInterface({
     }
   };
 
+  // Show and speak the interviewer's follow-up; the next answer goes to it rather than to a new question
+  const askFollowUp = (question: string) => {
+    setAwaitingFollowUp(true);
+    setMessages(prev => [...prev, {
+      id: crypto.randomUUID(),
+      type: 'follow-up',
+      content: question,
+      timestamp: new Date()
+    }]);
+    if (voiceEnabled && session?.voiceEnabled) {
+      speakText(question);
+    }
+  };
+
   // Text response submission
   const submitTextResponse = async () => {
     if (!currentResponse.trim() || !session?.id || !session?.currentQuestionId) return;
@@ -613,6 +693,8 @@ export default function PrepareAIInterface({
 
     setMessages(prev => [...prev, responseMessage]);
     setIsLoading(true);
+    const followUp = awaitingFollowUpRef.current;
+    setAwaitingFollowUp(false);
 
     try {
       const response = await fetch(`/api/prepare-ai/sessions/${session.id}/respond`, {
@@ -622,7 +704,8 @@ export default function PrepareAIInterface({
           questionId: session.currentQuestionId,
           responseText: currentResponse,
           responseLanguage: session.preferredLanguage || 'en',
-          inputMethod: 'text'
+          inputMethod: 'text',
+          followUp
         })
       });
 
@@ -650,18 +733,25 @@ export default function PrepareAIInterface({
           timestamp: new Date()
         };
         
-        setEvaluationHistory(prev => [...prev, historyEntry]);
-        
-        // Generate next question after showing evaluation (with completion guard using refs)
-        const timeoutId = setTimeout(() => {
-          const currentCount = messagesRef.current.filter(m => m.type === 'question').length;
-          if (sessionStatusRef.current === 'active' && currentCount < totalQuestionsLimitRef.current) {
-            generateNextQuestion();
-          }
-        }, 2000);
-        
-        // Store timeout for cleanup
-        pendingTimeoutsRef.current.push(timeoutId);
+        // A follow-up answer re-evaluates the same response, so it replaces that question's entry
+        setEvaluationHistory(prev => [...prev.filter(entry => entry.questionId !== historyEntry.questionId), historyEntry]);
+
+        // The interviewer probes a weak answer before moving on
+        const followUpQuestion = pendingFollowUpQuestion(evaluationData.followUps);
+        if (followUpQuestion) {
+          askFollowUp(followUpQuestion);
+        } else {
+          // Generate next question after showing evaluation (with completion guard using refs)
+          const timeoutId = setTimeout(() => {
+            const currentCount = messagesRef.current.filter(m => m.type === 'question').length;
+            if (sessionStatusRef.current === 'active' && currentCount < totalQuestionsLimitRef.current) {
+              generateNextQuestion();
+            }
+          }, 2000);
+          
+          // Store timeout for cleanup
+          pendingTimeoutsRef.current.push(timeoutId);
+        }
       } else {
         console.log('❌ DEBUG: No evaluation data - result.success:', result.success, 'result.data:', !!result.data);
       }
@@ -677,6 +767,8 @@ export default function PrepareAIInterface({
   // Submit voice response for evaluation after transcription
   const submitVoiceResponseForEvaluation = async (transcription: string, questionId: string) => {
     if (!session?.id) return;
+    const followUp = awaitingFollowUpRef.current;
+    setAwaitingFollowUp(false);
 
     try {
       const response = await fetch(`/api/prepare-ai/sessions/${session.id}/respond`, {
@@ -686,7 +778,8 @@ export default function PrepareAIInterface({
           questionId: questionId,
           responseText: transcription,
           responseLanguage: session.preferredLanguage || 'en',
-          inputMethod: 'voice'
+          inputMethod: 'voice',
+          followUp
         })
       });
 
@@ -715,18 +808,25 @@ export default function PrepareAIInterface({
           timestamp: new Date()
         };
         
-        setEvaluationHistory(prev => [...prev, historyEntry]);
-        
-        // Generate next question after showing evaluation (with completion guard using refs)
-        const timeoutId = setTimeout(() => {
-          const currentCount = messagesRef.current.filter(m => m.type === 'question').length;
-          if (sessionStatusRef.current === 'active' && currentCount < totalQuestionsLimitRef.current) {
-            generateNextQuestion();
-          }
-        }, 2000);
-        
-        // Store timeout for cleanup
-        pendingTimeoutsRef.current.push(timeoutId);
+        // A follow-up answer re-evaluates the same response, so it replaces that question's entry
+        setEvaluationHistory(prev => [...prev.filter(entry => entry.questionId !== historyEntry.questionId), historyEntry]);
+
+        // The interviewer probes a weak answer before moving on
+        const followUpQuestion = pendingFollowUpQuestion(evaluationData.followUps);
+        if (followUpQuestion) {
+          askFollowUp(followUpQuestion);
+        } else {
+          // Generate next question after showing evaluation (with completion guard using refs)
+          const timeoutId = setTimeout(() => {
+            const currentCount = messagesRef.current.filter(m => m.type === 'question').length;
+            if (sessionStatusRef.current === 'active' && currentCount < totalQuestionsLimitRef.current) {
+              generateNextQuestion();
+            }
+          }, 2000);
+          
+          // Store timeout for cleanup
+          pendingTimeoutsRef.current.push(timeoutId);
+        }
       }
       
     } catch (error) {
@@ -911,6 +1011,7 @@ export default function PrepareAIInterface({
     setMessages([]);
     setCurrentResponse('');
     setEvaluationHistory([]);
+    setAwaitingFollowUp(false);
     setSessionStatus('idle');
     setSession(null);
     setHasJoinedSession(false);
@@ -1138,6 +1239,11 @@ export default function PrepareAIInterface({
                   Stop Speaking
                 </Button>
               )}
+
+              <Button variant="ghost" size="sm" onClick={() => setShowRecordingSettings(true)} data-testid="button-recording-settings">
+                <Settings className="w-4 h-4 mr-2" />
+                Recordings
+              </Button>
             </div>
 
             <div className="text-sm text-gray-500">
@@ -1147,6 +1253,8 @@ export default function PrepareAIInterface({
         </CardContent>
       </Card>
 
+      <RecordingSettingsDialog open={showRecordingSettings} onOpenChange={setShowRecordingSettings} />
+
       {/* Main Content Grid: Chat + Feedback Panel */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         {/* Chat Messages - Left Side (col-span-2) */}
@@ -1172,16 +1280,16 @@ export default function PrepareAIInterface({
               >
                 <div
                   className={`max-w-[70%] rounded-lg p-4 ${
-                    message.type === 'question'
+                    message.type !== 'response'
                       ? 'bg-blue-50 border border-blue-200'
                       : 'bg-green-50 border border-green-200'
                   }`}
                 >
                   <div className="flex items-start space-x-2">
                     <div className={`w-8 h-8 rounded-full flex items-center justify-center ${
-                      message.type === 'question' ? 'bg-blue-500' : 'bg-green-500'
+                      message.type !== 'response' ? 'bg-blue-500' : 'bg-green-500'
                     }`}>
-                      {message.type === 'question' ? (
+                      {message.type !== 'response' ? (
                         <Bot className="w-4 h-4 text-white" />
                       ) : (
                         <User className="w-4 h-4 text-white" />
@@ -1189,10 +1297,20 @@ export default function PrepareAIInterface({
                     </div>
                     <div className="flex-1">
                       <p className="text-sm font-medium mb-1">
-                        {message.type === 'question' ? 'AI Interviewer' : 'You'}
+                        {message.type === 'response' ? 'You' : 'AI Interviewer'}
+                        {message.type === 'follow-up' && ' (Follow-up)'}
                         {message.isAudio && ' (Voice)'}
                       </p>
                       <p className="text-gray-800" data-testid={`text-message-${message.id}`}>{message.content}</p>
+                      {message.audioUrl && (
+                        <audio
+                          controls
+                          preload="none"
+                          src={message.audioUrl}
+                          className="mt-2 w-full h-8"
+                          data-testid={`audio-message-${message.id}`}
+                        />
+                      )}
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,147 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface RecordingSettings {
+  storeRecordings: boolean;
+  retentionDays: number | null;
+}
+
+interface RecordingSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const RETENTION_OPTIONS = [
+  { value: "7", label: "7 days" },
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "forever", label: "Until I delete them" },
+];
+
+const SETTINGS_KEY = ["/api/prepare-ai/voice/recording-settings"];
+
+/**
+ * Choose whether recorded voice answers are kept for replay, and for how long
+ */
+export default function RecordingSettingsDialog({ open, onOpenChange }: RecordingSettingsDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [storeRecordings, setStoreRecordings] = useState(true);
+  const [retention, setRetention] = useState("90");
+
+  const { data, isLoading } = useQuery<{ data: RecordingSettings }>({
+    queryKey: SETTINGS_KEY,
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (!data) return;
+    setStoreRecordings(data.data.storeRecordings);
+    setRetention(data.data.retentionDays === null ? "forever" : String(data.data.retentionDays));
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", "/api/prepare-ai/voice/recording-settings", {
+        storeRecordings,
+        retentionDays: retention === "forever" ? null : Number(retention),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SETTINGS_KEY });
+      toast({
+        title: "Recording settings saved",
+        description: storeRecordings
+          ? "Your voice answers will be kept for replay."
+          : "Your voice answers won't be kept, and stored recordings were deleted.",
+      });
+      onOpenChange(false);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to save recording settings. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Options not in the list (e.g. a server default) still need to show
+  const retentionOptions = RETENTION_OPTIONS.some(option => option.value === retention)
+    ? RETENTION_OPTIONS
+    : [{ value: retention, label: `${retention} days` }, ...RETENTION_OPTIONS];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Voice Recordings</DialogTitle>
+          <DialogDescription>
+            Recorded answers can be replayed next to their transcript and feedback. Only you can play them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-gray-500" />
+          </div>
+        ) : (
+          <div className="space-y-5">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="store-recordings">Keep my voice answers</Label>
+              <Switch
+                id="store-recordings"
+                checked={storeRecordings}
+                onCheckedChange={setStoreRecordings}
+                data-testid="switch-store-recordings"
+              />
+            </div>
+
+            <div>
+              <Label className={storeRecordings ? "" : "text-gray-400"}>Delete recordings after</Label>
+              <Select value={retention} onValueChange={setRetention} disabled={!storeRecordings}>
+                <SelectTrigger className="mt-1" data-testid="select-retention">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {retentionOptions.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500 mt-1">Applies to recordings you already have, too.</p>
+            </div>
+
+            {!storeRecordings && data?.data.storeRecordings && (
+              <p className="text-sm text-red-600">Saving will delete all of your stored recordings.</p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => saveMutation.mutate()} disabled={isLoading || saveMutation.isPending}>
+            {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
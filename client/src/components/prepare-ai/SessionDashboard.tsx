@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -23,7 +24,8 @@ import {
   ExternalLink,
   Play,
   Pause,
-  RotateCcw
+  RotateCcw,
+  SkipForward
 } from 'lucide-react';
 
 interface SessionStats {
@@ -59,18 +61,264 @@ interface SessionProgress {
   status: 'active' | 'paused' | 'completed';
 }
 
+interface DeliverySummary {
+  answers: number;
+  wordsPerMinute: number | null;
+  pace: 'slow' | 'good' | 'fast' | null;
+  speakingTimeRatio: number | null;
+  fillerCount: number;
+  fillerRate: number; // per 100 words
+  topFillers: { filler: string; count: number }[];
+  longPauses: number;
+  longPausesPerAnswer: number;
+  longestPauseSeconds: number | null;
+}
+
+interface SessionAnalytics {
+  overallPerformance: {
+    averageStarScore: number;
+    scoreChange: number;
+    starComponents: Record<string, number>;
+  };
+  categoryScores: Record<string, { averageScore: number; questionsAnswered: number }>;
+  improvementOverTime: { questionNumber: number; category: string; score: number; timeTaken: number }[];
+  voiceMetrics: {
+    voiceResponses: number;
+    totalAudioSeconds: number;
+    averageAudioDuration: number;
+    averageTranscriptionConfidence: number | null;
+    wordsPerMinute: number | null;
+    delivery?: DeliverySummary | null;
+  };
+  strengthsIdentified: string[];
+  areasForImprovement: string[];
+  totalSessionTime: number; // seconds
+  averageResponseTime: string | null; // seconds
+  questionsAnswered: number;
+  questionsSkipped: number;
+  updatedAt: string;
+}
+
 interface SessionDashboardProps {
   userId?: string;
   currentSession?: SessionProgress;
+  analyticsSessionId?: string; // defaults to the current session
   onResumeSession?: (sessionId: string) => void;
   onStartNewSession?: () => void;
   onViewSession?: (sessionId: string) => void;
   className?: string;
 }
 
+const getScoreColor = (score: number) => {
+  if (score >= 4) return 'text-green-600';
+  if (score >= 3) return 'text-yellow-600';
+  return 'text-red-600';
+};
+
+const PACE_LABELS: Record<NonNullable<DeliverySummary['pace']>, { label: string; className: string }> = {
+  slow: { label: 'A little slow', className: 'text-yellow-600' },
+  good: { label: 'Good pace', className: 'text-green-600' },
+  fast: { label: 'Too fast', className: 'text-red-600' },
+};
+
+function DeliveryPanel({ delivery }: { delivery: DeliverySummary }) {
+  const pace = delivery.pace ? PACE_LABELS[delivery.pace] : null;
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-medium flex items-center">
+        <Mic className="w-4 h-4 mr-2 text-indigo-600" />
+        Speaking Delivery
+        <span className="ml-2 text-xs font-normal text-gray-500">
+          {delivery.answers} voice {delivery.answers === 1 ? 'answer' : 'answers'}
+        </span>
+      </h4>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+        <div>
+          <p className="text-gray-600 mb-1">Pace</p>
+          <p className="text-xl font-bold">{delivery.wordsPerMinute ?? '-'} <span className="text-sm font-normal">wpm</span></p>
+          {pace && <p className={`mt-1 ${pace.className}`}>{pace.label}</p>}
+        </div>
+        <div>
+          <p className="text-gray-600 mb-1">Filler Words</p>
+          <p className="text-xl font-bold">{delivery.fillerCount}</p>
+          <p className="mt-1 text-gray-500">{delivery.fillerRate} per 100 words</p>
+        </div>
+        <div>
+          <p className="text-gray-600 mb-1">Long Pauses</p>
+          <p className="text-xl font-bold">{delivery.longPauses}</p>
+          <p className="mt-1 text-gray-500">
+            {delivery.longestPauseSeconds != null ? `Longest ${delivery.longestPauseSeconds.toFixed(1)}s` : 'None over 2s'}
+          </p>
+        </div>
+        <div>
+          <p className="text-gray-600 mb-1">Speaking Time</p>
+          <p className="text-xl font-bold">
+            {delivery.speakingTimeRatio != null ? `${Math.round(delivery.speakingTimeRatio * 100)}%` : '-'}
+          </p>
+          {delivery.speakingTimeRatio != null && (
+            <Progress value={delivery.speakingTimeRatio * 100} className="h-2 mt-2" />
+          )}
+        </div>
+      </div>
+      {delivery.topFillers.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {delivery.topFillers.map(({ filler, count }) => (
+            <Badge key={filler} variant="outline" className="text-gray-700">
+              "{filler}" × {count}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SessionAnalyticsPanel({ sessionId }: { sessionId: string }) {
+  const { data, isLoading, error } = useQuery<{ success: boolean; data: SessionAnalytics }>({
+    queryKey: [`/api/prepare-ai/sessions/${sessionId}/analytics`],
+  });
+  const analytics = data?.data;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <BarChart3 className="w-5 h-5 mr-2 text-indigo-600" />
+          Session Analytics
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading && (
+          <div className="animate-pulse space-y-3">
+            <div className="h-4 bg-gray-200 rounded w-1/2" />
+            <div className="h-8 bg-gray-200 rounded w-3/4" />
+          </div>
+        )}
+
+        {!isLoading && (error || !analytics) && (
+          <p className="text-sm text-gray-500">
+            Analytics will appear here once you pause or complete this session.
+          </p>
+        )}
+
+        {analytics && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <p className="text-gray-600 mb-1">Average STAR Score</p>
+                <p className={`text-xl font-bold ${getScoreColor(analytics.overallPerformance.averageStarScore)}`}>
+                  {analytics.overallPerformance.averageStarScore.toFixed(1)}/5
+                </p>
+                {analytics.improvementOverTime.length > 1 && (
+                  <div className="flex items-center mt-1">
+                    {analytics.overallPerformance.scoreChange >= 0 ? (
+                      <TrendingUp className="w-4 h-4 text-green-500 mr-1" />
+                    ) : (
+                      <TrendingDown className="w-4 h-4 text-red-500 mr-1" />
+                    )}
+                    <span className={analytics.overallPerformance.scoreChange >= 0 ? 'text-green-600' : 'text-red-600'}>
+                      {analytics.overallPerformance.scoreChange > 0 ? '+' : ''}
+                      {analytics.overallPerformance.scoreChange.toFixed(1)} later vs earlier
+                    </span>
+                  </div>
+                )}
+              </div>
+              <div>
+                <p className="text-gray-600 mb-1">Answered</p>
+                <p className="text-xl font-bold">{analytics.questionsAnswered}</p>
+                <div className="flex items-center mt-1 text-gray-500">
+                  <SkipForward className="w-4 h-4 mr-1" />
+                  {analytics.questionsSkipped} skipped
+                </div>
+              </div>
+              <div>
+                <p className="text-gray-600 mb-1">Avg. Response Time</p>
+                <p className="text-xl font-bold">{Math.round(Number(analytics.averageResponseTime) || 0)}s</p>
+                <div className="flex items-center mt-1 text-gray-500">
+                  <Clock className="w-4 h-4 mr-1" />
+                  {Math.round(analytics.totalSessionTime / 60)}m total
+                </div>
+              </div>
+              <div>
+                <p className="text-gray-600 mb-1">Voice Answers</p>
+                <p className="text-xl font-bold">{analytics.voiceMetrics.voiceResponses}</p>
+                <div className="flex items-center mt-1 text-gray-500">
+                  <Mic className="w-4 h-4 mr-1" />
+                  {analytics.voiceMetrics.wordsPerMinute != null
+                    ? `${analytics.voiceMetrics.wordsPerMinute} wpm`
+                    : 'No audio'}
+                  {analytics.voiceMetrics.averageTranscriptionConfidence != null &&
+                    `, ${Math.round(analytics.voiceMetrics.averageTranscriptionConfidence * 100)}% clarity`}
+                </div>
+              </div>
+            </div>
+
+            {analytics.voiceMetrics.delivery && (
+              <>
+                <Separator />
+                <DeliveryPanel delivery={analytics.voiceMetrics.delivery} />
+              </>
+            )}
+
+            <Separator />
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="space-y-3">
+                <h4 className="text-sm font-medium">By Category</h4>
+                {Object.entries(analytics.categoryScores).map(([category, { averageScore, questionsAnswered }]) => (
+                  <div key={category} className="space-y-1">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="capitalize">{category}</span>
+                      <span className={getScoreColor(averageScore)}>
+                        {averageScore.toFixed(1)}/5 · {questionsAnswered} {questionsAnswered === 1 ? 'question' : 'questions'}
+                      </span>
+                    </div>
+                    <Progress value={(averageScore / 5) * 100} className="h-2" />
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-3">
+                <h4 className="text-sm font-medium">Score by Question</h4>
+                <div className="flex items-end space-x-1 h-24">
+                  {analytics.improvementOverTime.map((point) => (
+                    <div
+                      key={point.questionNumber}
+                      className="flex-1 bg-indigo-400 rounded-t"
+                      style={{ height: `${Math.max((point.score / 5) * 100, 4)}%` }}
+                      title={`Q${point.questionNumber} (${point.category}): ${point.score}/5`}
+                    />
+                  ))}
+                </div>
+                <div className="flex justify-between text-xs text-gray-500">
+                  <span>Q{analytics.improvementOverTime[0]?.questionNumber ?? '-'}</span>
+                  <span>Q{analytics.improvementOverTime[analytics.improvementOverTime.length - 1]?.questionNumber ?? '-'}</span>
+                </div>
+              </div>
+            </div>
+
+            {(analytics.strengthsIdentified.length > 0 || analytics.areasForImprovement.length > 0) && (
+              <div className="flex flex-wrap gap-2">
+                {analytics.strengthsIdentified.map((strength) => (
+                  <Badge key={strength} variant="outline" className="text-green-600">{strength}</Badge>
+                ))}
+                {analytics.areasForImprovement.map((area) => (
+                  <Badge key={area} variant="outline" className="text-amber-600">{area}</Badge>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function SessionDashboard({
   userId,
   currentSession,
+  analyticsSessionId = currentSession?.currentSessionId,
   onResumeSession,
   onStartNewSession,
   onViewSession,
@@ -148,12 +396,6 @@ export default function SessionDashboard({
     }
   };
 
-  const getScoreColor = (score: number) => {
-    if (score >= 4) return 'text-green-600';
-    if (score >= 3) return 'text-yellow-600';
-    return 'text-red-600';
-  };
-
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'completed': return 'bg-green-500';
@@ -245,6 +487,9 @@ export default function SessionDashboard({
         </Card>
       )}
 
+      {/* Per-session Analytics */}
+      {analyticsSessionId && <SessionAnalyticsPanel sessionId={analyticsSessionId} />}
+
       {/* Key Statistics */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
         <Card>
@@ -85,6 +85,7 @@ interface SessionConfig {
   voiceEnabled: boolean;
   difficulty?: 'beginner' | 'intermediate' | 'advanced';
   industry?: string;
+  followUpsPerQuestion?: number;
 }
 
 interface SessionSetupProps {
@@ -108,7 +109,8 @@ export default function SessionSetup({
     language: safeInitialConfig.language || 'en',
     voiceEnabled: safeInitialConfig.voiceEnabled ?? true,
     difficulty: safeInitialConfig.difficulty || 'intermediate',
-    industry: safeInitialConfig.industry || ''
+    industry: safeInitialConfig.industry || '',
+    followUpsPerQuestion: safeInitialConfig.followUpsPerQuestion ?? 1
   });
 
   const [showAdvanced, setShowAdvanced] = useState(false);
@@ -344,6 +346,28 @@ export default function SessionSetup({
               </Select>
             </div>
 
+            {/* Follow-up Questions */}
+            <div className="space-y-2">
+              <Label>Follow-up Questions</Label>
+              <Select
+                value={String(config.followUpsPerQuestion)}
+                onValueChange={(value) => handleConfigChange('followUpsPerQuestion', Number(value))}
+              >
+                <SelectTrigger data-testid="select-follow-ups">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="0">None</SelectItem>
+                  <SelectItem value="1">Up to 1 per question</SelectItem>
+                  <SelectItem value="2">Up to 2 per question</SelectItem>
+                  <SelectItem value="3">Up to 3 per question</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-gray-600">
+                The interviewer probes answers with a vague action or result before moving on
+              </p>
+            </div>
+
             {/* Industry (Optional) */}
             <div className="space-y-2">
               <Label htmlFor="industry">Industry (Optional)</Label>
@@ -7,6 +7,7 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import ScenarioTable from "@/components/admin/scenario-table";
 import CreateScenario from "./create-scenario";
+import ErrorLogPage from "./error-log";
 import { 
   ClipboardList, 
   Play, 
@@ -14,7 +15,8 @@ import {
   TrendingUp, 
   Plus, 
   Search,
-  ArrowLeft 
+  ArrowLeft,
+  AlertTriangle
 } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 
@@ -73,6 +75,7 @@ export default function AdminDashboard() {
 
       <Switch>
         <Route path="/admin/create-scenario" component={CreateScenario} />
+        <Route path="/admin/errors" component={ErrorLogPage} />
         <Route>
           <AdminOverview 
             searchTerm={searchTerm}
@@ -133,10 +136,16 @@ function AdminOverview({
             <h2 className="text-3xl font-bold text-gray-900">Scenario Management</h2>
             <p className="text-gray-600">Create and manage interview practice scenarios</p>
           </div>
-          <Button onClick={() => setLocation("/admin/create-scenario")}>
-            <Plus className="w-4 h-4 mr-2" />
-            Create New Scenario
-          </Button>
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" onClick={() => setLocation("/admin/errors")}>
+              <AlertTriangle className="w-4 h-4 mr-2" />
+              Error Log
+            </Button>
+            <Button onClick={() => setLocation("/admin/create-scenario")}>
+              <Plus className="w-4 h-4 mr-2" />
+              Create New Scenario
+            </Button>
+          </div>
         </div>
       </div>
 
@@ -0,0 +1,349 @@
+import { Fragment, useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertTriangle, ArrowLeft, Download, Search, ShieldCheck, Activity } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { ErrorLog } from "@shared/schema";
+
+const PAGE_SIZE = 50;
+
+const TIME_WINDOWS = [
+  { value: '24', label: 'Last 24 hours' },
+  { value: '168', label: 'Last 7 days' },
+  { value: '720', label: 'Last 30 days' },
+];
+
+const HEALTH_COLORS = {
+  healthy: 'bg-green-100 text-green-800',
+  degraded: 'bg-yellow-100 text-yellow-800',
+  failing: 'bg-red-100 text-red-800',
+};
+
+interface ErrorLogBreakdown {
+  key: string;
+  count: number;
+  fallbacks: number;
+  lastSeenAt: string;
+}
+
+interface ErrorLogSummary {
+  total: number;
+  fallbacks: number;
+  byComponent: ErrorLogBreakdown[];
+  byError: ErrorLogBreakdown[];
+  byDay: ErrorLogBreakdown[];
+}
+
+interface FallbackReport {
+  windowHours: number;
+  totalErrors: number;
+  fallbackSuccessRate: number;
+  componentStatus: Record<string, keyof typeof HEALTH_COLORS>;
+  recommendations: string[];
+}
+
+export default function ErrorLogPage() {
+  const [, setLocation] = useLocation();
+  const [hours, setHours] = useState('24');
+  const [component, setComponent] = useState('all');
+  const [fallback, setFallback] = useState('all');
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(0);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // Recomputed per render so the window slides forward on refetch
+  const params = new URLSearchParams();
+  params.set('from', new Date(Date.now() - Number(hours) * 60 * 60 * 1000).toISOString());
+  if (component !== 'all') params.set('component', component);
+  if (fallback !== 'all') params.set('fallbackUsed', fallback);
+  if (search.trim()) params.set('search', search.trim());
+
+  const filterKey = [hours, component, fallback, search.trim()];
+
+  const { data: errors, isLoading } = useQuery<{ data: ErrorLog[]; total: number }>({
+    queryKey: ['/api/admin/errors', ...filterKey, page],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/admin/errors?${params.toString()}&limit=${PAGE_SIZE}&offset=${page * PAGE_SIZE}`);
+      return response.json();
+    }
+  });
+
+  const { data: summary } = useQuery<{ data: ErrorLogSummary }>({
+    queryKey: ['/api/admin/errors/summary', ...filterKey],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/admin/errors/summary?${params.toString()}`);
+      return response.json();
+    }
+  });
+
+  const { data: report } = useQuery<{ data: FallbackReport }>({
+    queryKey: ['/api/admin/errors/report', hours],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/admin/errors/report?hours=${hours}`);
+      return response.json();
+    }
+  });
+
+  const entries = errors?.data ?? [];
+  const total = errors?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const summaryData = summary?.data;
+  const reportData = report?.data;
+  const components = Object.keys(reportData?.componentStatus ?? {});
+
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(0);
+  };
+
+  return (
+    <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <div className="mb-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-3xl font-bold text-gray-900">Error Log</h2>
+            <p className="text-gray-600">Errors recorded across the platform, kept across restarts</p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" asChild>
+              <a href={`/api/admin/errors/export?${params.toString()}&format=csv`}>
+                <Download className="w-4 h-4 mr-2" />
+                CSV
+              </a>
+            </Button>
+            <Button variant="outline" asChild>
+              <a href={`/api/admin/errors/export?${params.toString()}&format=json`}>
+                <Download className="w-4 h-4 mr-2" />
+                JSON
+              </a>
+            </Button>
+            <Button variant="outline" onClick={() => setLocation("/admin")}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Errors</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{summaryData?.total ?? '—'}</div>
+            <p className="text-xs text-muted-foreground">
+              Matching the current filters
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Recovered by Fallback</CardTitle>
+            <ShieldCheck className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {summaryData && summaryData.total > 0
+                ? `${Math.round((summaryData.fallbacks / summaryData.total) * 100)}%`
+                : '—'}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {summaryData?.fallbacks ?? 0} errors served a fallback
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Component Health</CardTitle>
+            <Activity className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-wrap gap-2">
+              {Object.entries(reportData?.componentStatus ?? {}).map(([name, status]) => (
+                <Badge key={name} className={HEALTH_COLORS[status]}>
+                  {name}: {status}
+                </Badge>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Most common errors and recommendations */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Most Common Errors</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {summaryData?.byError.length ? (
+              <ul className="space-y-2">
+                {summaryData.byError.slice(0, 8).map((item) => (
+                  <li key={item.key} className="flex items-center justify-between text-sm">
+                    <span className="font-mono truncate mr-4">{item.key}</span>
+                    <Badge variant="secondary">{item.count}</Badge>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500">No errors in this window</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Recommendations</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-2 text-sm">
+              {(reportData?.recommendations ?? []).map((recommendation) => (
+                <li key={recommendation}>{recommendation}</li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Error table */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Errors</CardTitle>
+            <div className="flex items-center space-x-4">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+                <Input
+                  placeholder="Search messages..."
+                  value={search}
+                  onChange={(e) => updateFilter(setSearch)(e.target.value)}
+                  className="pl-10 w-64"
+                />
+              </div>
+              <Select value={component} onValueChange={updateFilter(setComponent)}>
+                <SelectTrigger className="w-44">
+                  <SelectValue placeholder="All Components" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Components</SelectItem>
+                  {components.map((name) => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={fallback} onValueChange={updateFilter(setFallback)}>
+                <SelectTrigger className="w-44">
+                  <SelectValue placeholder="Any Outcome" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any Outcome</SelectItem>
+                  <SelectItem value="true">Fallback Used</SelectItem>
+                  <SelectItem value="false">No Fallback</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={hours} onValueChange={updateFilter(setHours)}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIME_WINDOWS.map((window) => (
+                    <SelectItem key={window.value} value={window.value}>{window.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>Component</TableHead>
+                <TableHead>Operation</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Message</TableHead>
+                <TableHead>Fallback</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-gray-500 py-8">Loading errors...</TableCell>
+                </TableRow>
+              ) : entries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-gray-500 py-8">No errors found</TableCell>
+                </TableRow>
+              ) : entries.map((entry) => (
+                <Fragment key={entry.id}>
+                  <TableRow
+                    className="cursor-pointer"
+                    onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                  >
+                    <TableCell className="whitespace-nowrap text-sm">{new Date(entry.createdAt).toLocaleString()}</TableCell>
+                    <TableCell>{entry.component}</TableCell>
+                    <TableCell className="font-mono text-sm">{entry.operation}</TableCell>
+                    <TableCell className="text-sm">{entry.errorType}</TableCell>
+                    <TableCell className="max-w-md truncate text-sm">{entry.message}</TableCell>
+                    <TableCell>
+                      {entry.fallbackUsed ? <Badge variant="secondary">Yes</Badge> : <Badge variant="outline">No</Badge>}
+                    </TableCell>
+                  </TableRow>
+                  {expandedId === entry.id && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="bg-gray-50">
+                        <div className="space-y-2 text-sm">
+                          <p className="whitespace-pre-wrap">{entry.message}</p>
+                          <p className="text-gray-500">
+                            User: {entry.userId || '—'} · Session: {entry.sessionId || '—'} · Correlation ID: {entry.correlationId || '—'}
+                          </p>
+                          {entry.context != null && (
+                            <pre className="text-xs bg-white border rounded p-2 overflow-x-auto">
+                              {JSON.stringify(entry.context, null, 2)}
+                            </pre>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              ))}
+            </TableBody>
+          </Table>
+          <div className="flex items-center justify-between px-6 py-4 border-t">
+            <span className="text-sm text-gray-600">
+              {total} errors · page {page + 1} of {pageCount}
+            </span>
+            <div className="space-x-2">
+              <Button variant="outline" size="sm" disabled={page === 0} onClick={() => setPage(page - 1)}>
+                Previous
+              </Button>
+              <Button variant="outline" size="sm" disabled={page + 1 >= pageCount} onClick={() => setPage(page + 1)}>
+                Next
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
@@ -9,7 +9,7 @@ import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { toast } from "@/hooks/use-toast";
 import { Phone, Users, TrendingUp, Code, Building } from "lucide-react";
-import type { InterviewType, JobDescription } from "@shared/schema";
+import type { InterviewType, JobDescriptionSummary } from "@shared/schema";
 import JobDescriptionUpload from "@/components/JobDescriptionUpload";
 import TechnicalCategorySelector from "@/components/TechnicalCategorySelector";
 import LanguageSelector from "@/components/LanguageSelector";
@@ -84,7 +84,7 @@ export default function Home() {
   const [selectedType, setSelectedType] = useState<InterviewType | ''>('');
   const [position, setPosition] = useState('');
   const [company, setCompany] = useState('');
-  const [selectedJobDescription, setSelectedJobDescription] = useState<JobDescription | null>(null);
+  const [selectedJobDescription, setSelectedJobDescription] = useState<JobDescriptionSummary | null>(null);
   const [selectedIndustry, setSelectedIndustry] = useState<string>('');
   const [selectedLanguage, setSelectedLanguage] = useState<string>('en');
 
@@ -60,8 +60,23 @@ const THRESHOLDS = {
   AI_INSIGHTS: 2         // Need 2+ total sessions for AI insights
 } as const;
 
+type SessionModule = 'Interview' | 'Practice' | 'AI Prepare';
+
+// Badge colours for the module a data point came from
+const MODULE_BADGE_CLASSES: Record<SessionModule, string> = {
+  'Interview': 'text-blue-600 border-blue-200 bg-blue-50',
+  'Practice': 'text-green-600 border-green-200 bg-green-50',
+  'AI Prepare': 'text-purple-600 border-purple-200 bg-purple-50'
+};
+
+const MODULE_DOT_CLASSES: Record<SessionModule, string> = {
+  'Interview': 'bg-blue-500',
+  'Practice': 'bg-green-500',
+  'AI Prepare': 'bg-purple-500'
+};
+
 interface DashboardStats {
-  // Combined metrics (Interview + Practice)
+  // Combined metrics (Interview + Practice + AI Prepare)
   totalSessions: number;
   completedSessions: number;
   totalQuestions: number;
@@ -69,6 +84,12 @@ interface DashboardStats {
   averageStarScore?: number;
   totalPracticeTime: number;
   improvementRate: number;
+  scoreTrend?: {
+    direction: 'up' | 'down' | 'stable' | 'insufficient-data';
+    slopePerWeek: number | null;
+    rSquared: number | null;
+    samples: number;
+  };
   voiceUsagePercent?: number;
   strongestSkills: string[];
   improvementAreas: string[];
@@ -76,7 +97,7 @@ interface DashboardStats {
     id: string;
     date: string;
     scenario?: string;
-    sessionType?: 'Interview' | 'Practice';
+    sessionType?: SessionModule;
     jobTitle?: string;
     companyName?: string;
     interviewStage?: string;
@@ -90,21 +111,41 @@ interface DashboardStats {
     date: string;
     score: number;
     category: string;
+    sessionType?: SessionModule;
   }>;
   skillBreakdown: Array<{
     skill: string;
-    score: number;
-    trend: 'up' | 'down' | 'stable';
+    score: number | null; // null until a session has scored this skill
+    samples?: number;
+    trend: 'up' | 'down' | 'stable' | 'insufficient-data';
+    slopePerWeek?: number | null;
+    confidence?: 'high' | 'medium' | 'low' | 'insufficient-data';
+    sources?: SessionModule[];
   }>;
+  // Speaking delivery across AI Prepare voice answers
+  delivery?: {
+    answers: number;
+    wordsPerMinute: number | null;
+    pace: 'slow' | 'good' | 'fast' | null;
+    speakingTimeRatio: number | null;
+    fillerCount: number;
+    fillerRate: number;
+    topFillers: Array<{ filler: string; count: number }>;
+    longPauses: number;
+    longPausesPerAnswer: number;
+    longestPauseSeconds: number | null;
+  } | null;
   
   // Module-specific metrics
   interviewSessions?: number;
   practiceSessions?: number;
   practiceQuestions?: number;
+  aiPrepareSessions?: number;
+  aiPrepareQuestions?: number;
   
   // Session type breakdown for charts
   sessionTypeBreakdown?: Array<{
-    type: 'Interview' | 'Practice';
+    type: SessionModule;
     count: number;
     percentage: number;
   }>;
@@ -403,13 +444,11 @@ export default function Dashboard() {
                 {dashboardStats.sessionTypeBreakdown.map((sessionType, index) => (
                   <div key={sessionType.type} className="flex items-center justify-between">
                     <div className="flex items-center">
-                      <div className={`w-3 h-3 rounded-full mr-3 ${
-                        sessionType.type === 'Interview' ? 'bg-blue-500' : 'bg-green-500'
-                      }`} />
+                      <div className={`w-3 h-3 rounded-full mr-3 ${MODULE_DOT_CLASSES[sessionType.type]}`} />
                       <span className="text-sm font-medium">{sessionType.type} Sessions</span>
                     </div>
                     <div className="flex items-center space-x-2">
-                      <Badge variant="outline" className={sessionType.type === 'Interview' ? 'text-blue-600' : 'text-green-600'}>
+                      <Badge variant="outline" className={MODULE_BADGE_CLASSES[sessionType.type]}>
                         {sessionType.count}
                       </Badge>
                       <span className="text-xs text-gray-500">{sessionType.percentage}%</span>
@@ -451,6 +490,18 @@ export default function Dashboard() {
                     </Badge>
                   </div>
                 </div>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center">
+                    <div className="w-3 h-3 rounded-full mr-3 bg-purple-500" />
+                    <span className="text-sm font-medium">AI Prepare Sessions</span>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Badge variant="outline" className="text-purple-600">
+                      {dashboardStats.aiPrepareSessions || 0}
+                    </Badge>
+                    <span className="text-xs text-gray-500">{dashboardStats.aiPrepareQuestions || 0} answers</span>
+                  </div>
+                </div>
                 {dashboardStats.voiceUsagePercent && dashboardStats.voiceUsagePercent > 0 && (
                   <div className="flex items-center justify-between">
                     <div className="flex items-center">
@@ -502,11 +553,7 @@ export default function Dashboard() {
                         {session.sessionType && (
                           <Badge 
                             variant="outline" 
-                            className={`text-xs ${
-                              session.sessionType === 'Interview' 
-                                ? 'text-blue-600 border-blue-200 bg-blue-50' 
-                                : 'text-green-600 border-green-200 bg-green-50'
-                            }`}
+                            className={`text-xs ${MODULE_BADGE_CLASSES[session.sessionType]}`}
                           >
                             {session.sessionType}
                           </Badge>
@@ -697,6 +744,64 @@ export default function Dashboard() {
               </CardContent>
             </Card>
           </div>
+
+          {dashboardStats.delivery && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <Mic className="w-5 h-5 mr-2 text-purple-600" />
+                  Speaking Delivery
+                </CardTitle>
+                <CardDescription>
+                  From {dashboardStats.delivery.answers} AI Prepare voice {dashboardStats.delivery.answers === 1 ? 'answer' : 'answers'}, alongside your content scores above
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="p-4 border rounded-lg">
+                    <p className="text-sm text-gray-600">Pace</p>
+                    <p className="text-2xl font-bold">{dashboardStats.delivery.wordsPerMinute ?? '-'} <span className="text-sm font-normal">wpm</span></p>
+                    {dashboardStats.delivery.pace && (
+                      <p className={`text-xs mt-1 ${
+                        dashboardStats.delivery.pace === 'good' ? 'text-green-600' :
+                        dashboardStats.delivery.pace === 'fast' ? 'text-red-600' :
+                        'text-yellow-600'
+                      }`}>
+                        {dashboardStats.delivery.pace === 'good' ? 'Good pace (100-170 wpm)' :
+                         dashboardStats.delivery.pace === 'fast' ? 'Too fast' : 'A little slow'}
+                      </p>
+                    )}
+                  </div>
+                  <div className="p-4 border rounded-lg">
+                    <p className="text-sm text-gray-600">Filler Words</p>
+                    <p className="text-2xl font-bold">{dashboardStats.delivery.fillerRate}</p>
+                    <p className="text-xs text-gray-500 mt-1">per 100 words ({dashboardStats.delivery.fillerCount} total)</p>
+                  </div>
+                  <div className="p-4 border rounded-lg">
+                    <p className="text-sm text-gray-600">Long Pauses</p>
+                    <p className="text-2xl font-bold">{dashboardStats.delivery.longPausesPerAnswer}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      per answer{dashboardStats.delivery.longestPauseSeconds != null && `, longest ${dashboardStats.delivery.longestPauseSeconds.toFixed(1)}s`}
+                    </p>
+                  </div>
+                  <div className="p-4 border rounded-lg">
+                    <p className="text-sm text-gray-600">Speaking Time</p>
+                    <p className="text-2xl font-bold">
+                      {dashboardStats.delivery.speakingTimeRatio != null ? `${Math.round(dashboardStats.delivery.speakingTimeRatio * 100)}%` : '-'}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">of answer time</p>
+                  </div>
+                </div>
+                {dashboardStats.delivery.topFillers.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-4">
+                    {dashboardStats.delivery.topFillers.map(({ filler, count }) => (
+                      <Badge key={filler} variant="outline">"{filler}" × {count}</Badge>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
         </TabsContent>
         
         <TabsContent value="skills" className="space-y-6">
@@ -710,30 +815,54 @@ export default function Dashboard() {
                 </CardHeader>
                 <CardContent>
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    {dashboardStats.skillBreakdown.map((skill: any, index: number) => (
+                    {dashboardStats.skillBreakdown.map((skill, index) => (
                       <div key={index} className="p-4 border rounded-lg">
                         <div className="flex items-center justify-between mb-2">
                           <span className="font-medium text-gray-900">{skill.skill}</span>
-                          <div className="flex items-center space-x-2">
-                            <span className={`text-lg font-bold ${
-                              skill.score >= 4 ? 'text-green-600' : 
-                              skill.score >= 3 ? 'text-yellow-600' : 
-                              'text-red-600'
-                            }`}>
-                              {skill.score.toFixed(1)}/5
-                            </span>
-                            {skill.trend === 'up' && <TrendingUp className="w-4 h-4 text-green-500" />}
-                            {skill.trend === 'down' && <ArrowDown className="w-4 h-4 text-red-500" />}
-                          </div>
+                          {skill.score === null ? (
+                            <span className="text-sm text-gray-500">Not enough data yet</span>
+                          ) : (
+                            <div className="flex items-center space-x-2">
+                              <span className={`text-lg font-bold ${
+                                skill.score >= 4 ? 'text-green-600' : 
+                                skill.score >= 3 ? 'text-yellow-600' : 
+                                'text-red-600'
+                              }`}>
+                                {skill.score.toFixed(1)}/5
+                              </span>
+                              {skill.trend === 'up' && <TrendingUp className="w-4 h-4 text-green-500" />}
+                              {skill.trend === 'down' && <ArrowDown className="w-4 h-4 text-red-500" />}
+                            </div>
+                          )}
                         </div>
-                        <Progress 
-                          value={(skill.score / 5) * 100} 
-                          className={`h-2 ${
-                            skill.score >= 4 ? '[&>[data-state="complete"]:bg-green-500' : 
-                            skill.score >= 3 ? '[&>[data-state="complete"]:bg-yellow-500' : 
-                            '[&>[data-state="complete"]:bg-red-500'
-                          }`}
-                        />
+                        {skill.sources && skill.sources.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mb-2">
+                            {skill.sources.map((source: SessionModule) => (
+                              <Badge key={source} variant="outline" className={`text-xs ${MODULE_BADGE_CLASSES[source]}`}>
+                                {source}
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                        {skill.score !== null && (
+                          <>
+                            <Progress 
+                              value={(skill.score / 5) * 100} 
+                              className={`h-2 ${
+                                skill.score >= 4 ? '[&>[data-state="complete"]:bg-green-500' : 
+                                skill.score >= 3 ? '[&>[data-state="complete"]:bg-yellow-500' : 
+                                '[&>[data-state="complete"]:bg-red-500'
+                              }`}
+                            />
+                            <p className="text-xs text-gray-500 mt-2">
+                              {skill.samples ?? 0} {skill.samples === 1 ? 'score' : 'scores'}
+                              {skill.confidence && skill.confidence !== 'insufficient-data' && ` · ${skill.confidence} confidence`}
+                              {skill.trend === 'insufficient-data'
+                                ? ' · trend needs more sessions'
+                                : skill.slopePerWeek != null && ` · ${skill.slopePerWeek >= 0 ? '+' : ''}${skill.slopePerWeek.toFixed(2)}/week`}
+                            </p>
+                          </>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -749,21 +878,21 @@ export default function Dashboard() {
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center">
                     <div className="p-4 bg-green-50 rounded-lg border border-green-200">
                       <div className="text-2xl font-bold text-green-600 mb-1">
-                        {dashboardStats.skillBreakdown.filter((s: any) => s.score >= 4).length}
+                        {dashboardStats.skillBreakdown.filter(s => s.score !== null && s.score >= 4).length}
                       </div>
                       <p className="text-sm text-green-700">Strong Skills</p>
                       <p className="text-xs text-green-600">Score ≥ 4.0</p>
                     </div>
                     <div className="p-4 bg-yellow-50 rounded-lg border border-yellow-200">
                       <div className="text-2xl font-bold text-yellow-600 mb-1">
-                        {dashboardStats.skillBreakdown.filter((s: any) => s.score >= 3 && s.score < 4).length}
+                        {dashboardStats.skillBreakdown.filter(s => s.score !== null && s.score >= 3 && s.score < 4).length}
                       </div>
                       <p className="text-sm text-yellow-700">Developing Skills</p>
                       <p className="text-xs text-yellow-600">Score 3.0-3.9</p>
                     </div>
                     <div className="p-4 bg-red-50 rounded-lg border border-red-200">
                       <div className="text-2xl font-bold text-red-600 mb-1">
-                        {dashboardStats.skillBreakdown.filter((s: any) => s.score < 3).length}
+                        {dashboardStats.skillBreakdown.filter(s => s.score !== null && s.score < 3).length}
                       </div>
                       <p className="text-sm text-red-700">Focus Areas</p>
                       <p className="text-xs text-red-600">Score &lt; 3.0</p>
@@ -826,7 +955,9 @@ export default function Dashboard() {
             <CardHeader>
               <CardTitle>Performance Trends</CardTitle>
               <CardDescription>
-                {dashboardStats.improvementRate > 0 ? 
+                {dashboardStats.scoreTrend?.direction === 'insufficient-data' ?
+                  'Complete more scored sessions on different days to see a trend' :
+                  dashboardStats.improvementRate > 0 ? 
                   `Improving at ${Math.abs(dashboardStats.improvementRate).toFixed(1)}% rate` :
                   dashboardStats.improvementRate < 0 ?
                   `Declining at ${Math.abs(dashboardStats.improvementRate).toFixed(1)}% rate` :
@@ -840,7 +971,7 @@ export default function Dashboard() {
                   {dashboardStats.performanceTrends.slice(0, 5).map((trend: any, index: number) => (
                     <div key={index} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
                       <div className="flex items-center space-x-3">
-                        <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
+                        <div className={`w-2 h-2 rounded-full ${MODULE_DOT_CLASSES[trend.sessionType as SessionModule] || 'bg-blue-500'}`}></div>
                         <span className="text-sm font-medium">{trend.date}</span>
                         <span className="text-xs text-gray-500">{trend.sessionType || 'Session'}</span>
                       </div>
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useParams, Link } from "wouter";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -27,18 +27,18 @@ import {
   FileText,
   Zap
 } from "lucide-react";
-import { useToast } from "@/hooks/use-toast";
 import InterviewScoreCharts from "@/components/InterviewScoreCharts";
 import DetailedFeedbackCards from "@/components/DetailedFeedbackCards";
 import ProtectedRoute from "@/components/ProtectedRoute";
+import ShareReportDialog from "@/components/ShareReportDialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useAssessmentTranslation } from "@/hooks/useAssessmentTranslation";
 import type { AiEvaluationResult } from "@shared/schema";
 
 export default function PerformEvaluation() {
   const { sessionId } = useParams();
-  const { toast } = useToast();
   const [activeTab, setActiveTab] = useState("overview");
+  const [shareOpen, setShareOpen] = useState(false);
   const {
     currentLanguage,
     t,
@@ -107,21 +107,6 @@ export default function PerformEvaluation() {
     enabled: !!sessionId,
   });
 
-  // Share progress mutation
-  const shareProgressMutation = useMutation({
-    mutationFn: async () => {
-      return await fetch(`/api/perform/sessions/${sessionId}/share`, {
-        method: "POST",
-      });
-    },
-    onSuccess: () => {
-      toast({
-        title: "Progress Shared!",
-        description: "Your anonymized performance has been shared with the community.",
-      });
-    },
-  });
-
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -558,8 +543,8 @@ export default function PerformEvaluation() {
       <div className="flex justify-center space-x-4 pt-8">
         <Button
           variant="outline"
-          onClick={() => shareProgressMutation.mutate()}
-          disabled={shareProgressMutation.isPending}
+          onClick={() => setShareOpen(true)}
+          data-testid="share-progress"
         >
           <Share className="w-4 h-4 mr-2" />
           Share Progress
@@ -571,6 +556,8 @@ export default function PerformEvaluation() {
           </Button>
         </Link>
       </div>
+
+      {sessionId && <ShareReportDialog sessionId={sessionId} open={shareOpen} onOpenChange={setShareOpen} />}
       </div>
     </ProtectedRoute>
   );
@@ -38,7 +38,9 @@ import { useToast } from "@/hooks/use-toast";
 import { useAssessmentTranslation } from "@/hooks/useAssessmentTranslation";
 import InterviewScoreCharts from "@/components/InterviewScoreCharts";
 import { StructuredFeedbackCard } from "@/components/StructuredFeedbackCard";
-import type { PracticeReport } from "@shared/schema";
+import { RequirementCoverageCard } from "@/components/RequirementCoverageCard";
+import { QuestionEvaluationsCard } from "@/components/QuestionEvaluationsCard";
+import type { PracticeReport, PracticeQuestionEvaluationSummary, SessionRequirementCoverage } from "@shared/schema";
 
 interface AssessmentData extends PracticeReport {
   // Extended data from comprehensive evaluation
@@ -132,6 +134,10 @@ export default function PracticeAssessment() {
   const improvements = Array.isArray(report.improvements) ? report.improvements : [];
   const keyInsights = Array.isArray(report.keyInsights) ? report.keyInsights : [];
   const recommendedActions = Array.isArray(report.recommendedActions) ? report.recommendedActions : [];
+  const requirementCoverage = report.requirementCoverage as SessionRequirementCoverage | null;
+  const questionEvaluations = Array.isArray(report.questionEvaluations)
+    ? report.questionEvaluations as PracticeQuestionEvaluationSummary[]
+    : [];
   
   // Session statistics
   const totalResponses = report.totalResponses || session?.messages?.filter((m: any) => m.messageType === 'user_response').length || 0;
@@ -549,6 +555,12 @@ export default function PracticeAssessment() {
             responseText={`${t('completed')} ${totalResponses} ${t('questions').toLowerCase()} in ${formatDuration(sessionDuration)}`}
             language={sessionLanguage}
           />
+          {questionEvaluations.length > 0 && (
+            <QuestionEvaluationsCard evaluations={questionEvaluations} />
+          )}
+          {requirementCoverage && (
+            <RequirementCoverageCard coverage={requirementCoverage} />
+          )}
         </TabsContent>
 
         {/* Practice Drills Tab */}
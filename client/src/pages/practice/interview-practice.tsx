@@ -23,7 +23,7 @@ const STAGE_ICONS = {
 
 interface ChatMessage {
   id: string;
-  messageType: "ai_question" | "user_response";
+  messageType: "ai_question" | "ai_follow_up" | "user_response";
   content: string;
   timestamp: Date;
   questionNumber?: number;
@@ -94,6 +94,11 @@ export default function InterviewPractice() {
       if (voiceEnabled && questionText) {
         speakAIResponse(questionText);
       }
+
+      // A follow-up probes the last answer; the interview stays on the same question
+      if (data?.data?.followUp) {
+        return;
+      }
       
       const questionCount = session?.currentQuestionNumber || currentQuestionNumber;
       
@@ -149,10 +154,12 @@ export default function InterviewPractice() {
       console.log('🔍 SEND-MESSAGE-MUTATION: voiceMetadata:', voiceMetadata);
       console.log(`🔍 SEND-MESSAGE-MUTATION: sessionId: ${sessionId}, questionNumber: ${currentQuestionNumber}`);
       
+      // Tag the answer with the number of the question it responds to so evaluation can pair them
+      const latestQuestion = messages.filter(m => m.messageType === 'ai_question').slice(-1)[0];
       const requestBody = { 
         content,
-        questionNumber: currentQuestionNumber,
-        questionContext: messages.filter(m => m.messageType === 'ai_question').slice(-1)[0]?.content || "",
+        questionNumber: latestQuestion?.questionNumber ?? currentQuestionNumber,
+        questionContext: latestQuestion?.content || "",
         inputMethod: voiceMetadata ? 'voice' : 'text',
         voiceMetadata: voiceMetadata ? {
           transcriptionMethod: voiceMetadata.method,
@@ -480,7 +487,7 @@ export default function InterviewPractice() {
   useEffect(() => {
     if (voiceEnabled && messages.length > 0) {
       const latestMessage = messages[messages.length - 1];
-      if (latestMessage.messageType === 'ai_question' && !isSpeaking) {
+      if (latestMessage.messageType !== 'user_response' && !isSpeaking) {
         // Add a small delay to ensure the UI has updated
         setTimeout(() => {
           speakAIResponse(latestMessage.content);
@@ -653,7 +660,7 @@ export default function InterviewPractice() {
                         {/* Message Bubble */}
                         <div className={`flex ${message.messageType === 'user_response' ? 'justify-end' : 'justify-start'}`}>
                           <div className={`max-w-[85%] rounded-lg p-4 ${
-                            message.messageType === 'ai_question'
+                            message.messageType !== 'user_response'
                               ? 'bg-blue-50 border border-blue-200'
                               : 'bg-green-50 border border-green-200'
                           }`}>
@@ -661,16 +668,16 @@ export default function InterviewPractice() {
                             <div className="flex items-center justify-between mb-2">
                               <div className="flex items-center space-x-2">
                                 <div className={`w-7 h-7 rounded-full flex items-center justify-center ${
-                                  message.messageType === 'ai_question' ? 'bg-blue-500' : 'bg-green-500'
+                                  message.messageType !== 'user_response' ? 'bg-blue-500' : 'bg-green-500'
                                 }`}>
-                                  {message.messageType === 'ai_question' ? (
+                                  {message.messageType !== 'user_response' ? (
                                     <Bot className="w-4 h-4 text-white" />
                                   ) : (
                                     <User className="w-4 h-4 text-white" />
                                   )}
                                 </div>
                                 <span className="font-medium text-sm">
-                                  {message.messageType === 'ai_question' ? 'AI Interviewer' : 'You'}
+                                  {message.messageType !== 'user_response' ? 'AI Interviewer' : 'You'}
                                 </span>
                                 {(message as any).inputMethod === 'voice' && (
                                   <Badge variant="outline" className="text-xs">
@@ -684,7 +691,7 @@ export default function InterviewPractice() {
                                   <Clock className="w-3 h-3 mr-1" />
                                   {message.timestamp ? new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false }) : 'Just now'}
                                 </span>
-                                {message.messageType === 'ai_question' && voiceEnabled && (
+                                {message.messageType !== 'user_response' && voiceEnabled && (
                                   <Button
                                     variant="ghost"
                                     size="sm"
@@ -701,9 +708,11 @@ export default function InterviewPractice() {
                             <div className="text-gray-800 leading-relaxed">
                               {message.questionNumber && (
                                 <div className="text-xs text-gray-500 mb-2">
-                                  {message.messageType === 'ai_question' 
+                                  {message.messageType === 'ai_follow_up'
+                                    ? `Follow-up to Question ${message.questionNumber}`
+                                    : message.messageType === 'ai_question'
                                     ? `Question ${message.questionNumber}`
-                                    : `Response to Question ${message.questionNumber - 1}`
+                                    : `Response to Question ${message.questionNumber}`
                                   }
                                 </div>
                               )}
@@ -12,11 +12,29 @@ import {
   Share, 
   CheckCircle, 
   AlertTriangle, 
-  Lightbulb 
+  Lightbulb,
+  FileText
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/auth-utils";
-import type { InterviewSessionWithScenario } from "@shared/schema";
+import { AnswerBreakdownCard } from "@/components/AnswerBreakdownCard";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { InterviewSessionWithScenario, PracticeResponseEvaluation } from "@shared/schema";
+
+type TranscriptFormat = "txt" | "md" | "docx" | "json";
+
+const TRANSCRIPT_FORMATS: Array<{ format: TranscriptFormat; label: string }> = [
+  { format: "txt", label: "Plain text (.txt)" },
+  { format: "md", label: "Markdown (.md)" },
+  { format: "docx", label: "Word (.docx)" },
+  { format: "json", label: "JSON (.json)" },
+];
 
 export default function PostInterviewAssessment() {
   const { sessionId } = useParams<{ sessionId: string }>();
@@ -27,6 +45,12 @@ export default function PostInterviewAssessment() {
     queryKey: [`/api/practice/sessions/${sessionId}`],
   });
 
+  const { data: evaluationsResponse } = useQuery<{ success: boolean; data: PracticeResponseEvaluation[] }>({
+    queryKey: [`/api/practice/sessions/${sessionId}/evaluations`],
+    enabled: session?.status === 'completed',
+  });
+  const evaluations = evaluationsResponse?.data || [];
+
   // Handle unauthorized errors
   useEffect(() => {
     if (error && isUnauthorizedError(error as Error)) {
@@ -41,9 +65,10 @@ export default function PostInterviewAssessment() {
     }
   }, [error, toast]);
 
-  const handleDownloadTranscript = async () => {
+  const handleDownloadTranscript = async (format: TranscriptFormat = "txt", translate = false) => {
     try {
-      const response = await fetch(`/api/practice/sessions/${sessionId}/transcript`, {
+      const params = new URLSearchParams({ format, translate: String(translate) });
+      const response = await fetch(`/api/practice/sessions/${sessionId}/transcript?${params}`, {
         credentials: "include",
       });
 
@@ -56,7 +81,7 @@ export default function PostInterviewAssessment() {
       const a = document.createElement('a');
       a.style.display = 'none';
       a.href = url;
-      a.download = `interview-transcript-${sessionId}.txt`;
+      a.download = `interview-transcript-${sessionId}.${format}`;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
@@ -70,6 +95,35 @@ export default function PostInterviewAssessment() {
     }
   };
 
+  const handleDownloadReport = async () => {
+    try {
+      const response = await fetch(`/api/practice/sessions/${sessionId}/report.pdf`, {
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to download report");
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.style.display = 'none';
+      a.href = url;
+      a.download = `interview-report-${sessionId}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error downloading report:", error);
+      toast({
+        title: "Error",
+        description: "Failed to download the PDF report. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handlePracticeAgain = () => {
     setLocation("/practice");
   };
@@ -314,6 +368,11 @@ export default function PostInterviewAssessment() {
               )}
             </CardContent>
           </Card>
+
+          {/* Answer-by-Answer Drill-down */}
+          {evaluations.length > 0 && (
+            <AnswerBreakdownCard evaluations={evaluations} />
+          )}
         </div>
 
         <div className="space-y-6">
@@ -349,13 +408,37 @@ export default function PostInterviewAssessment() {
             <CardContent className="p-6">
               <h3 className="font-semibold text-gray-900 mb-4">What's Next?</h3>
               <div className="space-y-3">
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="outline"
+                      className="w-full justify-start"
+                      data-testid="download-transcript"
+                    >
+                      <Download className="w-4 h-4 mr-2" />
+                      Download Transcript
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="start">
+                    {TRANSCRIPT_FORMATS.map(({ format, label }) => (
+                      <DropdownMenuItem key={format} onClick={() => handleDownloadTranscript(format)}>
+                        {label}
+                      </DropdownMenuItem>
+                    ))}
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onClick={() => handleDownloadTranscript("docx", true)}>
+                      Word with English translation
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
                 <Button
-                  onClick={handleDownloadTranscript}
+                  onClick={handleDownloadReport}
                   variant="outline"
                   className="w-full justify-start"
+                  data-testid="download-report-pdf"
                 >
-                  <Download className="w-4 h-4 mr-2" />
-                  Download Transcript
+                  <FileText className="w-4 h-4 mr-2" />
+                  Download PDF Report
                 </Button>
                 <Button
                   onClick={() => setLocation(`/perform/evaluation/${sessionId}`)}
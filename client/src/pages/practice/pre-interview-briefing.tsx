@@ -4,7 +4,7 @@ import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Briefcase, Lightbulb, ArrowLeft, Play, Globe } from "lucide-react";
+import { Briefcase, Lightbulb, ArrowLeft, Play, Globe, MessageSquare } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/auth-utils";
 import type { InterviewScenario } from "@shared/schema";
@@ -57,6 +57,8 @@ const translations = {
     autoSave: 'Auto-save:',
     enabled: 'Enabled',
     interviewLanguageLabel: 'Interview Language',
+    followUpsLabel: 'Follow-up Questions per Answer',
+    followUpsNone: 'None',
     startInterview: 'Start Interview',
     backToScenarios: 'Back to Scenarios',
     minutes: 'minutes'
@@ -90,6 +92,8 @@ const translations = {
     autoSave: 'Auto-simpan:',
     enabled: 'Diaktifkan',
     interviewLanguageLabel: 'Bahasa Temuduga',
+    followUpsLabel: 'Soalan Susulan bagi Setiap Jawapan',
+    followUpsNone: 'Tiada',
     startInterview: 'Mulakan Temuduga',
     backToScenarios: 'Kembali ke Senario',
     minutes: 'minit'
@@ -123,6 +127,8 @@ const translations = {
     autoSave: 'บันทึกอัตโนมัติ:',
     enabled: 'เปิดใช้งาน',
     interviewLanguageLabel: 'ภาษาการสัมภาษณ์',
+    followUpsLabel: 'คำถามต่อเนื่องต่อคำตอบ',
+    followUpsNone: 'ไม่มี',
     startInterview: 'เริ่มการสัมภาษณ์',
     backToScenarios: 'กลับไปยังสถานการณ์',
     minutes: 'นาที'
@@ -156,6 +162,8 @@ const translations = {
     autoSave: 'Simpan otomatis:',
     enabled: 'Diaktifkan',
     interviewLanguageLabel: 'Bahasa Wawancara',
+    followUpsLabel: 'Pertanyaan Lanjutan per Jawaban',
+    followUpsNone: 'Tidak ada',
     startInterview: 'Mulai Wawancara',
     backToScenarios: 'Kembali ke Skenario',
     minutes: 'menit'
@@ -189,6 +197,8 @@ const translations = {
     autoSave: 'Tự động lưu:',
     enabled: 'Đã bật',
     interviewLanguageLabel: 'Ngôn Ngữ Phỏng Vấn',
+    followUpsLabel: 'Câu Hỏi Tiếp Nối cho Mỗi Câu Trả Lời',
+    followUpsNone: 'Không có',
     startInterview: 'Bắt Đầu Phỏng Vấn',
     backToScenarios: 'Quay Lại Kịch Bản',
     minutes: 'phút'
@@ -222,6 +232,8 @@ const translations = {
     autoSave: 'Auto-save:',
     enabled: 'Nakabukas',
     interviewLanguageLabel: 'Wika ng Interview',
+    followUpsLabel: 'Karagdagang Tanong bawat Sagot',
+    followUpsNone: 'Wala',
     startInterview: 'Simulan ang Interview',
     backToScenarios: 'Bumalik sa mga Scenario',
     minutes: 'minuto'
@@ -255,6 +267,8 @@ const translations = {
     autoSave: 'အလိုအလျောက် သိမ်းဆည်းခြင်း:',
     enabled: 'ဖွင့်ထားသည်',
     interviewLanguageLabel: 'အင်တာဗျူး ဘာသာစကား',
+    followUpsLabel: 'အဖြေတစ်ခုစီအတွက် နောက်ဆက်တွဲမေးခွန်းများ',
+    followUpsNone: 'မရှိ',
     startInterview: 'အင်တာဗျူး စတင်ပါ',
     backToScenarios: 'အခြေအနေများသို့ ပြန်သွားပါ',
     minutes: 'မိနစ်'
@@ -288,6 +302,8 @@ const translations = {
     autoSave: 'រក្សាទុកស្វ័យប្រវត្តិ:',
     enabled: 'បើកដំណើរការ',
     interviewLanguageLabel: 'ភាសាសម្ភាសន៍',
+    followUpsLabel: 'សំណួរបន្តសម្រាប់ចម្លើយនីមួយៗ',
+    followUpsNone: 'គ្មាន',
     startInterview: 'ចាប់ផ្តើមសម្ភាសន៍',
     backToScenarios: 'ត្រលប់ទៅស្ថានការណ៍',
     minutes: 'នាទី'
@@ -321,6 +337,8 @@ const translations = {
     autoSave: 'ບັນທຶກອັດຕະໂນມັດ:',
     enabled: 'ເປີດໃຊ້ງານ',
     interviewLanguageLabel: 'ພາສາການສໍາພາດ',
+    followUpsLabel: 'ຄໍາຖາມຕໍ່ເນື່ອງຕໍ່ຄໍາຕອບ',
+    followUpsNone: 'ບໍ່ມີ',
     startInterview: 'ເລີ່ມການສໍາພາດ',
     backToScenarios: 'ກັບໄປຫາສະຖານະການ',
     minutes: 'ນາທີ'
@@ -354,6 +372,8 @@ const translations = {
     autoSave: '自动保存：',
     enabled: '已启用',
     interviewLanguageLabel: '面试语言',
+    followUpsLabel: '每个回答的追问次数',
+    followUpsNone: '无',
     startInterview: '开始面试',
     backToScenarios: '返回情景',
     minutes: '分钟'
@@ -370,6 +390,7 @@ export default function PreInterviewBriefing() {
     const jobContextStr = sessionStorage.getItem('jobContext');
     return jobContextStr ? JSON.parse(jobContextStr) : { jobPosition: '', companyName: '', interviewLanguage: 'en' };
   });
+  const [followUpsPerQuestion, setFollowUpsPerQuestion] = useState(1);
 
   // Get current language and translations
   const currentLanguage = jobContext.interviewLanguage || 'en';
@@ -438,6 +459,7 @@ export default function PreInterviewBriefing() {
           difficultyLevel: "intermediate",
           preferredLanguage: jobContext.interviewLanguage || 'en',
           totalQuestions: 25,
+          followUpsPerQuestion,
         }),
       });
 
@@ -680,6 +702,26 @@ export default function PreInterviewBriefing() {
                     </SelectContent>
                   </Select>
                 </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-gray-700 flex items-center">
+                    <MessageSquare className="w-4 h-4 mr-2" />
+                    {t.followUpsLabel}
+                  </label>
+                  <Select
+                    value={String(followUpsPerQuestion)}
+                    onValueChange={(value) => setFollowUpsPerQuestion(Number(value))}
+                  >
+                    <SelectTrigger className="w-full" data-testid="select-follow-ups">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="0">{t.followUpsNone}</SelectItem>
+                      <SelectItem value="1">1</SelectItem>
+                      <SelectItem value="2">2</SelectItem>
+                      <SelectItem value="3">3</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
               
               <div className="mt-6 space-y-3">
@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { KeyRound, Loader2, AlertCircle, CheckCircle } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+export default function ResetPassword() {
+  const [, setLocation] = useLocation();
+  const token = new URLSearchParams(window.location.search).get("token") || "";
+
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [isComplete, setIsComplete] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await apiRequest("POST", "/api/auth/reset-password", { token, newPassword });
+      setIsComplete(true);
+    } catch (error: any) {
+      // apiRequest errors look like "400: {json}"
+      const body = error.message?.replace(/^\d+:\s*/, "") || "";
+      try {
+        setError(JSON.parse(body).message);
+      } catch {
+        setError(body || "Failed to reset password. Please try again.");
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <Card className="w-full max-w-md mx-auto">
+        {isComplete ? (
+          <>
+            <CardHeader className="text-center">
+              <div className="w-12 h-12 bg-green-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                <CheckCircle className="w-6 h-6 text-green-600" />
+              </div>
+              <CardTitle className="text-2xl">Password Updated</CardTitle>
+              <CardDescription>You can now sign in with your new password</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button className="w-full" onClick={() => setLocation("/")} data-testid="button-go-to-login">
+                Back to Sign In
+              </Button>
+            </CardContent>
+          </>
+        ) : (
+          <>
+            <CardHeader className="text-center">
+              <div className="w-12 h-12 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                <KeyRound className="w-6 h-6 text-blue-600" />
+              </div>
+              <CardTitle className="text-2xl">Choose a New Password</CardTitle>
+              <CardDescription>Enter a new password for your account</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {!token && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>This reset link is missing its token. Please request a new one.</AlertDescription>
+                </Alert>
+              )}
+              {error && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="new-password">New Password</Label>
+                  <Input
+                    id="new-password"
+                    type="password"
+                    value={newPassword}
+                    onChange={(e) => setNewPassword(e.target.value)}
+                    required
+                    disabled={isLoading || !token}
+                    data-testid="input-new-password"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="confirm-password">Confirm Password</Label>
+                  <Input
+                    id="confirm-password"
+                    type="password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    required
+                    disabled={isLoading || !token}
+                    data-testid="input-confirm-password"
+                  />
+                </div>
+
+                <Button type="submit" className="w-full" disabled={isLoading || !token} data-testid="button-reset-password">
+                  {isLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Reset Password
+                </Button>
+              </form>
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
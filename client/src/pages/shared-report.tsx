@@ -0,0 +1,156 @@
+import { useQuery } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { AlertCircle, Award, CheckCircle2, Loader2, Trophy } from "lucide-react";
+
+interface SharedReport {
+  snapshot: {
+    version: number;
+    jobPosition: string | null;
+    interviewStage: string | null;
+    language: string | null;
+    completedAt: string | null;
+    overallScore: number | null;
+    rating: string | null;
+    badge: string | null;
+    rubric: Array<{ criterion: string; weight: number; score: number | null }>;
+    strengths: string[];
+  };
+  expiresAt: string | null;
+}
+
+function formatStage(stage: string): string {
+  return stage.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+}
+
+/**
+ * Public, read-only view of an anonymized interview report opened from a share link
+ */
+export default function SharedReportPage() {
+  const { token } = useParams();
+
+  const { data, isLoading, isError } = useQuery<SharedReport>({
+    queryKey: [`/api/public/reports/${token}`],
+    enabled: !!token,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <Loader2 className="w-8 h-8 text-purple-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (isError || !data) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+        <Card className="w-full max-w-md mx-auto">
+          <CardHeader className="text-center">
+            <div className="w-12 h-12 rounded-full bg-red-100 flex items-center justify-center mx-auto mb-4">
+              <AlertCircle className="w-6 h-6 text-red-600" />
+            </div>
+            <CardTitle className="text-2xl">Report Unavailable</CardTitle>
+            <CardDescription>
+              This link is invalid, has expired or was revoked by its owner.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  const { snapshot, expiresAt } = data;
+  const scorePercentage = snapshot.overallScore !== null ? (snapshot.overallScore / 5) * 100 : 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-10 px-4">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div>
+          <p className="text-sm text-gray-500">Shared interview practice report</p>
+          <h1 className="text-3xl font-bold text-gray-900">
+            {snapshot.jobPosition || "Interview Practice"}
+          </h1>
+          <p className="text-gray-600">
+            {[
+              snapshot.interviewStage && formatStage(snapshot.interviewStage),
+              snapshot.completedAt && `Completed ${new Date(snapshot.completedAt).toLocaleDateString()}`,
+            ].filter(Boolean).join(" • ")}
+          </p>
+        </div>
+
+        <Card className="bg-gradient-to-r from-purple-600 to-indigo-600 text-white">
+          <CardContent className="p-6 flex items-center justify-between">
+            <div>
+              <h2 className="text-2xl font-bold mb-2">Overall Performance</h2>
+              {snapshot.rating && <p className="text-purple-100 text-lg">{snapshot.rating}</p>}
+              <div className="flex items-center space-x-4 mt-4">
+                <div className="flex items-center space-x-2">
+                  <Trophy className="w-5 h-5" />
+                  <span>Score: {snapshot.overallScore !== null ? `${snapshot.overallScore.toFixed(1)}/5.0` : "N/A"}</span>
+                </div>
+                {snapshot.badge && (
+                  <Badge variant="secondary" className="bg-white/20 text-white border-white/30">
+                    <Award className="w-4 h-4 mr-2" />
+                    {snapshot.badge}
+                  </Badge>
+                )}
+              </div>
+            </div>
+            {snapshot.overallScore !== null && (
+              <div className="text-right">
+                <div className="text-4xl font-bold mb-2">{scorePercentage.toFixed(0)}%</div>
+                <Progress value={scorePercentage} className="w-32 bg-white/20" />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Rubric Scores</CardTitle>
+            <CardDescription>Each criterion is scored from 1 to 5; weights show its share of the overall score</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {snapshot.rubric.map(item => (
+              <div key={item.criterion}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="font-medium text-gray-800">
+                    {item.criterion} <span className="text-gray-500 font-normal">({item.weight}%)</span>
+                  </span>
+                  <span className="text-gray-700">{item.score !== null ? `${item.score.toFixed(1)}/5` : "Not scored"}</span>
+                </div>
+                <Progress value={item.score !== null ? (item.score / 5) * 100 : 0} />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        {snapshot.strengths.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Strengths</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ul className="space-y-2">
+                {snapshot.strengths.map((strength, index) => (
+                  <li key={index} className="flex items-start space-x-2">
+                    <CheckCircle2 className="w-4 h-4 text-green-600 mt-1 shrink-0" />
+                    <span className="text-gray-700">{strength}</span>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
+
+        <p className="text-center text-xs text-gray-500">
+          This report is anonymized and read-only.
+          {expiresAt && ` The link expires on ${new Date(expiresAt).toLocaleDateString()}.`}
+        </p>
+      </div>
+    </div>
+  );
+}
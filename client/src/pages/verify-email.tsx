@@ -0,0 +1,70 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, CheckCircle, AlertCircle } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+export default function VerifyEmail() {
+  const [, setLocation] = useLocation();
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying');
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get("token");
+    if (!token) {
+      setStatus('failed');
+      setError("This verification link is missing its token.");
+      return;
+    }
+
+    apiRequest("POST", "/api/auth/verify-email", { token })
+      .then(() => {
+        setStatus('verified');
+        queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      })
+      .catch((error: any) => {
+        // apiRequest errors look like "400: {json}"
+        const body = error.message?.replace(/^\d+:\s*/, "") || "";
+        try {
+          setError(JSON.parse(body).message);
+        } catch {
+          setError(body || "We couldn't verify your email. Please try again.");
+        }
+        setStatus('failed');
+      });
+  }, []);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <Card className="w-full max-w-md mx-auto">
+        <CardHeader className="text-center">
+          <div className={`w-12 h-12 rounded-full flex items-center justify-center mx-auto mb-4 ${
+            status === 'failed' ? 'bg-red-100' : status === 'verified' ? 'bg-green-100' : 'bg-blue-100'
+          }`}>
+            {status === 'verifying' && <Loader2 className="w-6 h-6 text-blue-600 animate-spin" />}
+            {status === 'verified' && <CheckCircle className="w-6 h-6 text-green-600" />}
+            {status === 'failed' && <AlertCircle className="w-6 h-6 text-red-600" />}
+          </div>
+          <CardTitle className="text-2xl">
+            {status === 'verifying' && "Confirming Your Email"}
+            {status === 'verified' && "Email Confirmed"}
+            {status === 'failed' && "Verification Failed"}
+          </CardTitle>
+          <CardDescription>
+            {status === 'verifying' && "Please wait a moment..."}
+            {status === 'verified' && "Thanks! Your email address has been confirmed."}
+            {status === 'failed' && error}
+          </CardDescription>
+        </CardHeader>
+        {status !== 'verifying' && (
+          <CardContent>
+            <Button className="w-full" onClick={() => setLocation("/")} data-testid="button-continue">
+              Continue
+            </Button>
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+}
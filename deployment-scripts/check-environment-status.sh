@@ -57,7 +57,7 @@ echo "2. CRITICAL ENVIRONMENT VARIABLES"
 echo "=================================="
 
 # Check critical environment variables
-critical_vars=("DATABASE_URL" "SESSION_SECRET" "NODE_ENV" "WS_ALLOWED_ORIGINS")
+critical_vars=("DATABASE_URL" "SESSION_SECRET" "NODE_ENV" "WS_ALLOWED_ORIGINS" "APP_BASE_URL")
 
 for var in "${critical_vars[@]}"; do
     value=$(aws elasticbeanstalk describe-configuration-settings \
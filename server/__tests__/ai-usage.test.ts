@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Request, Response } from 'express';
+
+const storageMock = vi.hoisted(() => {
+  process.env.AI_DAILY_QUOTA_USD = '1';
+  process.env.AI_MONTHLY_QUOTA_USD = '10';
+  return {
+    recordAiUsageEvent: vi.fn(),
+    getAiUsageTotals: vi.fn(),
+  };
+});
+
+vi.mock('../storage', () => ({ storage: storageMock }));
+
+import { aiUsage } from '../services/ai-usage-service';
+import { aiQuota } from '../middleware/ai-quota';
+import { getRequestContext, runWithRequestContext } from '../services/request-context';
+
+// Mid-month, mid-day in UTC
+const NOW = new Date('2026-10-19T18:00:00.000Z');
+const MONTH_START = new Date('2026-10-01T00:00:00.000Z');
+const DAY_START = new Date('2026-10-19T00:00:00.000Z');
+
+// Spend since each period start: the month's total and today's share of it
+function spend(monthlyUsd: number, dailyUsd: number) {
+  storageMock.getAiUsageTotals.mockImplementation(async (_userId: string, since: Date) => ({
+    costUsd: since.getTime() === MONTH_START.getTime() ? monthlyUsd : dailyUsd,
+  }));
+}
+
+describe('AIUsageService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    storageMock.recordAiUsageEvent.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('record', () => {
+    it('attributes usage to the user and session of the current request', () => {
+      runWithRequestContext({ userId: 'u1', sessionId: 's1' }, () => aiUsage.record({
+        provider: 'openai',
+        model: 'gpt-4o',
+        domain: 'evaluation',
+        inputTokens: 1200,
+        outputTokens: 300,
+        estimatedCostUsd: 0.006,
+        latencyMs: 812.6,
+      }));
+
+      expect(storageMock.recordAiUsageEvent).toHaveBeenCalledWith({
+        userId: 'u1',
+        sessionId: 's1',
+        provider: 'openai',
+        model: 'gpt-4o',
+        domain: 'evaluation',
+        inputTokens: 1200,
+        outputTokens: 300,
+        audioSeconds: null,
+        estimatedCostUsd: '0.006000',
+        latencyMs: 813,
+        cached: false,
+      });
+    });
+
+    it('records calls made outside a request without a user, and never throws', async () => {
+      storageMock.recordAiUsageEvent.mockRejectedValueOnce(new Error('insert failed'));
+
+      expect(() => aiUsage.record({ provider: 'whisper', domain: 'transcription', audioSeconds: 12.345, estimatedCostUsd: 0.0012, latencyMs: 40 })).not.toThrow();
+      await vi.waitFor(() => expect(console.error).toHaveBeenCalled());
+
+      expect(storageMock.recordAiUsageEvent).toHaveBeenCalledWith(expect.objectContaining({
+        userId: null,
+        sessionId: null,
+        audioSeconds: '12.35',
+      }));
+    });
+  });
+
+  describe('checkQuota', () => {
+    it('allows users under both quotas', async () => {
+      spend(4, 0.5);
+
+      await expect(aiUsage.checkQuota('u1')).resolves.toEqual({ allowed: true, retryAfterSeconds: 0 });
+      expect(storageMock.getAiUsageTotals).toHaveBeenCalledWith('u1', MONTH_START);
+      expect(storageMock.getAiUsageTotals).toHaveBeenCalledWith('u1', DAY_START);
+    });
+
+    it('blocks once the daily quota is used up until midnight UTC', async () => {
+      spend(4, 1.00004);
+
+      const decision = await aiUsage.checkQuota('u1');
+
+      expect(decision).toMatchObject({ allowed: false, period: 'daily', limitUsd: 1, usedUsd: 1 });
+      expect(decision.resetsAt).toEqual(new Date('2026-10-20T00:00:00.000Z'));
+      expect(decision.retryAfterSeconds).toBe(6 * 60 * 60);
+    });
+
+    it('reports the monthly quota, with its later reset, when both are used up', async () => {
+      spend(10, 2);
+
+      const decision = await aiUsage.checkQuota('u1');
+
+      expect(decision).toMatchObject({ allowed: false, period: 'monthly', limitUsd: 10 });
+      expect(decision.resetsAt).toEqual(new Date('2026-11-01T00:00:00.000Z'));
+    });
+
+    it('fails open when usage totals cannot be read', async () => {
+      storageMock.getAiUsageTotals.mockRejectedValueOnce(new Error('connection refused'));
+
+      await expect(aiUsage.checkQuota('u1')).resolves.toEqual({ allowed: true, retryAfterSeconds: 0 });
+    });
+  });
+});
+
+describe('aiQuota middleware', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function mockResponse() {
+    return {
+      headers: {} as Record<string, unknown>,
+      statusCode: 200,
+      body: undefined as any,
+      setHeader(name: string, value: unknown) { this.headers[name] = value; return this; },
+      status(code: number) { this.statusCode = code; return this; },
+      json(body: unknown) { this.body = body; return this; },
+    };
+  }
+
+  it('answers 429 with the reset time once the quota is used up', async () => {
+    spend(4, 1.5);
+    const res = mockResponse();
+    const next = vi.fn();
+
+    await aiQuota({ user: { id: 'u1' }, params: {} } as unknown as Request, res as unknown as Response, next);
+
+    expect(res.statusCode).toBe(429);
+    expect(res.headers['Retry-After']).toBe(6 * 60 * 60);
+    expect(res.body).toMatchObject({ error: 'AI usage quota exceeded', period: 'daily' });
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('runs the rest of the request with the user and session for usage attribution', async () => {
+    spend(0, 0);
+    const res = mockResponse();
+    let context;
+    const next = vi.fn(() => { context = getRequestContext(); });
+
+    await aiQuota({ user: { id: 'u1' }, params: { sessionId: 's1' } } as unknown as Request, res as unknown as Response, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(context).toEqual({ userId: 'u1', sessionId: 's1' });
+  });
+
+  it('skips the check for anonymous requests', async () => {
+    const next = vi.fn();
+
+    await aiQuota({ params: {} } as unknown as Request, mockResponse() as unknown as Response, next);
+
+    expect(storageMock.getAiUsageTotals).not.toHaveBeenCalled();
+    expect(next).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { getAppBaseUrl } from '../services/app-url';
+
+describe('getAppBaseUrl', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('uses APP_BASE_URL without a trailing slash', () => {
+    vi.stubEnv('APP_BASE_URL', 'https://app.example.com/');
+    expect(getAppBaseUrl()).toBe('https://app.example.com');
+
+    vi.stubEnv('APP_BASE_URL', 'https://example.com/coach//');
+    expect(getAppBaseUrl()).toBe('https://example.com/coach');
+  });
+
+  it('rejects a malformed or non-http APP_BASE_URL', () => {
+    vi.stubEnv('APP_BASE_URL', 'not a url');
+    expect(() => getAppBaseUrl()).toThrow();
+
+    vi.stubEnv('APP_BASE_URL', 'javascript:alert(1)');
+    expect(() => getAppBaseUrl()).toThrow(/http\(s\)/);
+  });
+
+  it('requires APP_BASE_URL in production', () => {
+    vi.stubEnv('APP_BASE_URL', '');
+    vi.stubEnv('NODE_ENV', 'production');
+    expect(() => getAppBaseUrl()).toThrow(/APP_BASE_URL must be set/);
+  });
+
+  it('falls back to localhost in development', () => {
+    vi.stubEnv('APP_BASE_URL', '');
+    vi.stubEnv('NODE_ENV', 'development');
+    vi.stubEnv('PORT', '5050');
+    expect(getAppBaseUrl()).toBe('http://localhost:5050');
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import type { DeliveryMetrics } from '@shared/schema';
+import {
+  countFillers,
+  deliveryAnalysis,
+  segmentWords,
+  speechIntervalsFromPcm
+} from '../services/delivery-analysis-service';
+
+const SAMPLE_RATE = 16000;
+
+// 16-bit mono PCM: a 440 Hz tone for each `true` second, digital silence for each `false` one
+function pcm(seconds: boolean[]): Buffer {
+  const buffer = Buffer.alloc(seconds.length * SAMPLE_RATE * 2);
+  seconds.forEach((voiced, second) => {
+    if (!voiced) return;
+    for (let i = 0; i < SAMPLE_RATE; i++) {
+      const sample = Math.round(Math.sin((2 * Math.PI * 440 * i) / SAMPLE_RATE) * 0.3 * 32767);
+      buffer.writeInt16LE(sample, (second * SAMPLE_RATE + i) * 2);
+    }
+  });
+  return buffer;
+}
+
+function fillersIn(text: string, language: string): Record<string, number> {
+  return countFillers(segmentWords(text, language), language);
+}
+
+describe('countFillers', () => {
+  it('counts single words and phrases in a spaced language, not words that merely contain them', () => {
+    expect(fillersIn('Um, basically I mean we, you know, shipped the umbrella app lah', 'en')).toEqual({
+      um: 1,
+      basically: 1,
+      'i mean': 1,
+      'you know': 1,
+      lah: 1
+    });
+  });
+
+  it('counts Thai fillers written without spaces, preferring the longest match', () => {
+    expect(fillersIn('เอ่อ ผมคิดว่าแบบว่าทีมเราทำงานได้ดีมาก แบบ เร็วมาก', 'th')).toEqual({
+      'เอ่อ': 1,
+      'แบบว่า': 1,
+      'แบบ': 1
+    });
+  });
+
+  it('counts Chinese fillers written without spaces', () => {
+    expect(fillersIn('那个我觉得就是说这个项目嗯很成功', 'zh-sg')).toEqual({
+      '那个': 1,
+      '就是说': 1,
+      '这个': 1,
+      '嗯': 1
+    });
+  });
+
+  it('finds nothing in a fluent answer', () => {
+    expect(fillersIn('I led the migration and cut deploy time in half', 'en')).toEqual({});
+  });
+});
+
+describe('speechIntervalsFromPcm', () => {
+  it('returns voiced stretches separated by silence', () => {
+    const intervals = speechIntervalsFromPcm(pcm([true, false, false, false, true, true]));
+
+    expect(intervals).toHaveLength(2);
+    expect(intervals[0].start).toBe(0);
+    expect(intervals[0].end).toBeCloseTo(1, 1);
+    expect(intervals[1].start).toBeCloseTo(4, 1);
+    expect(intervals[1].end).toBeCloseTo(6, 1);
+  });
+
+  it('returns nothing for a buffer shorter than one frame', () => {
+    expect(speechIntervalsFromPcm(Buffer.alloc(100))).toEqual([]);
+  });
+});
+
+describe('DeliveryAnalysisService.measure', () => {
+  const input = { text: 'we shipped the new checkout flow on time', language: 'en', words: [] };
+
+  it('reports long pauses between voiced stretches but not leading or trailing silence', () => {
+    const intervals = speechIntervalsFromPcm(pcm([false, true, false, false, false, true, false, false, false]));
+    const metrics = deliveryAnalysis.measure({ ...input, durationSeconds: 9 }, intervals, 'audio');
+
+    expect(metrics.longPauses).toBe(1);
+    expect(metrics.pauses[0].start).toBeCloseTo(2, 1);
+    expect(metrics.pauses[0].end).toBeCloseTo(5, 1);
+    expect(metrics.longestPauseSeconds).toBeCloseTo(3, 1);
+    expect(metrics.speakingSeconds).toBeCloseTo(2, 1);
+  });
+
+  it('does not count a short gap as a pause', () => {
+    const intervals = speechIntervalsFromPcm(pcm([true, false, true]));
+    const metrics = deliveryAnalysis.measure({ ...input, durationSeconds: 3 }, intervals, 'audio');
+
+    expect(metrics.longPauses).toBe(0);
+    expect(metrics.longestPauseSeconds).toBeNull();
+  });
+
+  it('has no pace when the answer has no duration', () => {
+    const metrics = deliveryAnalysis.measure({ ...input, durationSeconds: 0 }, null, 'transcript');
+
+    expect(metrics.wordCount).toBe(8);
+    expect(metrics.wordsPerMinute).toBeNull();
+    expect(metrics.pace).toBeNull();
+    expect(metrics.speakingTimeRatio).toBeNull();
+  });
+});
+
+describe('DeliveryAnalysisService.summarize', () => {
+  const metrics = (overrides: Partial<DeliveryMetrics>): DeliveryMetrics => ({
+    source: 'transcript',
+    durationSeconds: 0,
+    wordCount: 0,
+    wordsPerMinute: null,
+    pace: null,
+    speakingSeconds: null,
+    speakingTimeRatio: null,
+    fillerCount: 0,
+    fillerRate: 0,
+    fillers: {},
+    longPauses: 0,
+    longestPauseSeconds: null,
+    pauses: [],
+    ...overrides
+  });
+
+  it('returns null without answers', () => {
+    expect(deliveryAnalysis.summarize([])).toBeNull();
+  });
+
+  it('has no pace when no answer has a duration', () => {
+    const summary = deliveryAnalysis.summarize([metrics({ wordCount: 40 }), metrics({ wordCount: 25 })]);
+
+    expect(summary?.totalSeconds).toBe(0);
+    expect(summary?.wordsPerMinute).toBeNull();
+    expect(summary?.pace).toBeNull();
+    expect(summary?.speakingTimeRatio).toBeNull();
+  });
+
+  it('weights pace and fillers by answer length', () => {
+    const summary = deliveryAnalysis.summarize([
+      metrics({ durationSeconds: 60, wordCount: 150, fillerCount: 3, fillers: { um: 2, basically: 1 } }),
+      metrics({ durationSeconds: 30, wordCount: 30, fillerCount: 2, fillers: { um: 2 } })
+    ]);
+
+    expect(summary?.wordsPerMinute).toBe(120);
+    expect(summary?.pace).toBe('good');
+    expect(summary?.fillerRate).toBe(2.8);
+    expect(summary?.topFillers).toEqual([{ filler: 'um', count: 4 }, { filler: 'basically', count: 1 }]);
+  });
+});
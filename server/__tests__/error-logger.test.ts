@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const storageMock = vi.hoisted(() => ({
+  listErrorLogs: vi.fn(),
+}));
+
+vi.mock('../storage', () => ({ storage: storageMock }));
+
+import { errorLogger } from '../services/error-logger';
+
+function entry(overrides: Record<string, unknown>) {
+  return {
+    createdAt: new Date('2026-10-19T12:00:00.000Z'),
+    component: 'api',
+    operation: 'request',
+    errorType: 'Error',
+    message: 'Something failed',
+    fallbackUsed: false,
+    userId: null,
+    sessionId: null,
+    correlationId: null,
+    ...overrides
+  };
+}
+
+// Data rows of the export, split into cells (no cell in these fixtures contains a comma inside quotes)
+async function exportedRows(entries: Array<Record<string, unknown>>): Promise<string[]> {
+  storageMock.listErrorLogs.mockResolvedValue({ entries, total: entries.length });
+  const csv = await errorLogger.exportErrors('csv');
+  return csv.split('\n').slice(1);
+}
+
+describe('ErrorLogger.exportErrors (csv)', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('prefixes values spreadsheets would run as formulas', async () => {
+    const rows = await exportedRows([
+      entry({ message: '=HYPERLINK("http://evil.example","x")' }),
+      entry({ message: '+1+1' }),
+      entry({ message: '-2+3' }),
+      entry({ message: '@SUM(A1)' }),
+      entry({ message: '\tcmd' })
+    ]);
+
+    expect(rows[0]).toContain(`"'=HYPERLINK(""http://evil.example"",""x"")"`);
+    expect(rows[1].split(',')[4]).toBe(`'+1+1`);
+    expect(rows[2].split(',')[4]).toBe(`'-2+3`);
+    expect(rows[3].split(',')[4]).toBe(`'@SUM(A1)`);
+    expect(rows[4].split(',')[4]).toBe(`'\tcmd`);
+  });
+
+  it('leaves ordinary values alone and quotes separators', async () => {
+    const [row] = await exportedRows([entry({ message: 'Timeout, retrying', userId: 'user-1' })]);
+
+    expect(row).toBe('2026-10-19T12:00:00.000Z,api,request,Error,"Timeout, retrying",false,user-1,,');
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import type { FollowUpExchange, PracticeMessage } from '@shared/schema';
+import {
+  followUps,
+  DEFAULT_FOLLOW_UPS_PER_QUESTION,
+  MAX_FOLLOW_UPS_PER_QUESTION
+} from '../services/follow-up-service';
+
+let nextId = 0;
+function message(messageType: string, content: string, questionNumber: number, probedElement: string | null = null): PracticeMessage {
+  return {
+    id: `msg-${++nextId}`,
+    sessionId: 'session-1',
+    messageType,
+    content,
+    questionNumber,
+    inputMethod: 'text',
+    language: 'en',
+    probedElement,
+    responseTime: null,
+    timestamp: null,
+    createdAt: null
+  };
+}
+
+describe('FollowUpService', () => {
+  describe('limit', () => {
+    it('falls back to the default and clamps to 0..MAX', () => {
+      expect(followUps.limit(undefined)).toBe(DEFAULT_FOLLOW_UPS_PER_QUESTION);
+      expect(followUps.limit(null)).toBe(DEFAULT_FOLLOW_UPS_PER_QUESTION);
+      expect(followUps.limit(Number.NaN)).toBe(DEFAULT_FOLLOW_UPS_PER_QUESTION);
+      expect(followUps.limit(-2)).toBe(0);
+      expect(followUps.limit(2.7)).toBe(2);
+      expect(followUps.limit(99)).toBe(MAX_FOLLOW_UPS_PER_QUESTION);
+    });
+  });
+
+  describe('weakElements', () => {
+    it('lists weak action and result scores, weakest first', () => {
+      expect(followUps.weakElements({ action: 1, result: 2 })).toEqual(['action', 'result']);
+      expect(followUps.weakElements({ action: 2, result: 2 })).toEqual(['result', 'action']);
+      expect(followUps.weakElements({ action: '2', result: 4 })).toEqual(['action']);
+    });
+
+    it('ignores strong, missing and non-numeric scores', () => {
+      expect(followUps.weakElements({ action: 3, result: 5 })).toEqual([]);
+      expect(followUps.weakElements({ action: 0, result: 'n/a' })).toEqual([]);
+      expect(followUps.weakElements(null)).toEqual([]);
+    });
+  });
+
+  describe('nextProbe', () => {
+    it('probes the weakest element first', () => {
+      expect(followUps.nextProbe({ action: 2, result: 1 }, [], 1, 'en')).toEqual({
+        element: 'result',
+        question: 'What was the measurable outcome?',
+        answer: null
+      });
+    });
+
+    it('returns null when nothing is weak or the limit is reached', () => {
+      expect(followUps.nextProbe({ action: 4, result: 4 }, [], 3, 'en')).toBeNull();
+      const asked = [{ element: 'result' as const, question: 'What was the measurable outcome?', answer: 'It shipped' }];
+      expect(followUps.nextProbe({ action: 1, result: 1 }, asked, 1, 'en')).toBeNull();
+      expect(followUps.nextProbe({ action: 1, result: 1 }, [], 0, 'en')).toBeNull();
+    });
+
+    it('covers the other weak element, then rewords a repeat probe, then stops', () => {
+      const scores = { action: 2, result: 1 };
+      const asked: FollowUpExchange[] = [];
+      for (let i = 0; i < 5; i++) {
+        const probe = followUps.nextProbe(scores, asked, 5, 'en');
+        if (!probe) break;
+        asked.push({ ...probe, answer: 'An answer' });
+      }
+
+      expect(asked.map(exchange => exchange.element)).toEqual(['result', 'action', 'result', 'action']);
+      expect(new Set(asked.map(exchange => exchange.question)).size).toBe(4);
+    });
+
+    it('uses the session language, its aliases, and English for unknown languages', () => {
+      expect(followUps.nextProbe({ result: 1 }, [], 1, 'ms')?.question).toBe('Apakah hasil yang boleh diukur?');
+      expect(followUps.nextProbe({ result: 1 }, [], 1, 'tl')?.question)
+        .toBe(followUps.nextProbe({ result: 1 }, [], 1, 'fil')?.question);
+      expect(followUps.nextProbe({ result: 1 }, [], 1, 'xx')?.question).toBe('What was the measurable outcome?');
+    });
+  });
+
+  describe('pending', () => {
+    it('is the last exchange while it has no answer', () => {
+      const open = { element: 'action' as const, question: 'What did you do?', answer: null };
+      expect(followUps.pending([open])).toBe(open);
+      expect(followUps.pending([{ ...open, answer: 'I did it' }])).toBeNull();
+      expect(followUps.pending([])).toBeNull();
+      expect(followUps.pending(undefined)).toBeNull();
+    });
+  });
+
+  describe('questionAnswerPairs', () => {
+    it('attaches follow-ups and their answers to the latest answer of each question', () => {
+      const pairs = followUps.questionAnswerPairs([
+        message('ai_question', 'Tell me about a conflict', 1),
+        message('user_response', 'First try', 1),
+        message('user_response', 'I mediated between two leads', 1),
+        message('ai_follow_up', 'What was the measurable outcome?', 1, 'result'),
+        message('user_response', 'Delivery time dropped by 20%', 1),
+        message('ai_question', 'Describe a failure', 2)
+      ]);
+
+      expect(pairs).toHaveLength(1);
+      expect(pairs[0]).toMatchObject({
+        questionNumber: 1,
+        questionText: 'Tell me about a conflict',
+        responseText: 'I mediated between two leads',
+        followUps: [{ element: 'result', question: 'What was the measurable outcome?', answer: 'Delivery time dropped by 20%' }]
+      });
+    });
+
+    it('restores probed elements so a second probe moves on to the other weak element', () => {
+      const transcript = [
+        message('ai_question', 'Tell me about a deadline you missed', 1),
+        message('user_response', 'We were late once', 1)
+      ];
+      const scores = { action: 2, result: 1 };
+
+      const first = followUps.nextProbe(scores, followUps.questionAnswerPairs(transcript)[0].followUps, 2, 'en')!;
+      transcript.push(
+        message('ai_follow_up', first.question, 1, first.element),
+        message('user_response', 'We shipped a week later', 1)
+      );
+      const second = followUps.nextProbe(scores, followUps.questionAnswerPairs(transcript)[0].followUps, 2, 'en');
+
+      expect(first.element).toBe('result');
+      expect(second).toMatchObject({ element: 'action', question: 'What specific steps did you personally take?' });
+    });
+
+    it('leaves the element out for follow-ups stored without one', () => {
+      const [pair] = followUps.questionAnswerPairs([
+        message('user_response', 'An answer', 3),
+        message('ai_follow_up', 'Can you say more?', 3)
+      ]);
+
+      expect(pair.followUps).toEqual([{ question: 'Can you say more?', answer: null }]);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { redact, Logger } from '../services/logger';
+import { runWithRequestContext } from '../services/request-context';
+
+describe('redact', () => {
+  it('masks sensitive fields whatever their casing or separators', () => {
+    expect(redact({
+      email: 'alex@example.com',
+      password: 'hunter2',
+      new_password: 'hunter3',
+      'API-Key': 'sk-123',
+      Authorization: 'Bearer abc',
+      responseText: 'In my last role I...',
+    })).toEqual({
+      email: 'alex@example.com',
+      password: '[redacted]',
+      new_password: '[redacted]',
+      'API-Key': '[redacted]',
+      Authorization: '[redacted]',
+      responseText: '[redacted]',
+    });
+  });
+
+  it('leaves empty sensitive fields visible, so a missing value can still be diagnosed', () => {
+    expect(redact({ token: null, password: undefined })).toEqual({ token: null, password: undefined });
+  });
+
+  it('masks fields in nested objects and arrays', () => {
+    expect(redact({ user: { id: 'u1', passwordHash: 'x' }, attempts: [{ answer: 'secret' }] })).toEqual({
+      user: { id: 'u1', passwordHash: '[redacted]' },
+      attempts: [{ answer: '[redacted]' }],
+    });
+  });
+
+  it('summarizes binary data instead of logging it', () => {
+    expect(redact({ chunk: Buffer.alloc(2048) })).toEqual({ chunk: '[binary 2048 bytes]' });
+    expect(redact(new Uint8Array(16))).toBe('[binary 16 bytes]');
+  });
+
+  it('truncates long strings and keeps their length', () => {
+    const result = redact('x'.repeat(600)) as string;
+
+    expect(result.startsWith('x'.repeat(500))).toBe(true);
+    expect(result.endsWith('(600 chars)')).toBe(true);
+  });
+
+  it('serializes errors and dates', () => {
+    expect(redact(new TypeError('bad input'))).toEqual({ name: 'TypeError', message: 'bad input' });
+    expect(redact(new Date('2026-10-19T00:00:00.000Z'))).toBe('2026-10-19T00:00:00.000Z');
+  });
+
+  it('stops at the maximum depth', () => {
+    expect(redact({ a: { b: { c: { d: { e: { f: 1 } } } } } })).toEqual({ a: { b: { c: { d: { e: '[truncated]' } } } } });
+  });
+});
+
+describe('Logger', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('writes bindings, request context and redacted fields on one line', () => {
+    const write = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    runWithRequestContext({ correlationId: 'req-1', userId: 'u1' }, () => {
+      new Logger().child({ component: 'auth' }).info('Login failed', { email: 'alex@example.com', password: 'hunter2' });
+    });
+
+    const line = String(write.mock.calls[0][0]);
+    expect(line).toContain('[auth] Login failed');
+    expect(line).toContain('"userId":"u1"');
+    expect(line).toContain('"password":"[redacted]"');
+    expect(line).not.toContain('hunter2');
+    expect(line).toContain('cid=req-1');
+  });
+
+  it('writes errors to stderr and skips levels below the configured one', () => {
+    const stdout = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    const stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+    const log = new Logger();
+
+    log.debug('Cache miss');
+    log.error('Evaluation failed', { error: new Error('timeout') });
+
+    expect(stdout).not.toHaveBeenCalled();
+    expect(String(stderr.mock.calls[0][0])).toContain('Evaluation failed');
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { linearRegression, performAnalytics } from '../services/perform-analytics-service';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2026, 8, 1);
+
+// One sample per `everyDays` days, starting at START
+function samples(scores: number[], everyDays = 1) {
+  return scores.map((score, i) => ({ score, at: new Date(START + i * everyDays * DAY), source: 'Practice' as const }));
+}
+
+describe('linearRegression', () => {
+  it('fits a perfect line exactly', () => {
+    const fit = linearRegression([{ x: 0, y: 1 }, { x: 1, y: 3 }, { x: 2, y: 5 }]);
+    expect(fit).not.toBeNull();
+    expect(fit!.slope).toBeCloseTo(2);
+    expect(fit!.intercept).toBeCloseTo(1);
+    expect(fit!.rSquared).toBeCloseTo(1);
+  });
+
+  it('reports a weaker fit for scattered points', () => {
+    const fit = linearRegression([{ x: 0, y: 1 }, { x: 1, y: 4 }, { x: 2, y: 2 }, { x: 3, y: 5 }]);
+    expect(fit!.slope).toBeCloseTo(1);
+    expect(fit!.rSquared).toBeGreaterThan(0);
+    expect(fit!.rSquared).toBeLessThan(1);
+  });
+
+  it('treats a flat line as a perfect fit with zero slope', () => {
+    expect(linearRegression([{ x: 0, y: 3 }, { x: 5, y: 3 }])).toEqual({ slope: 0, intercept: 3, rSquared: 1 });
+  });
+
+  it('returns null for fewer than two points or when x never varies', () => {
+    expect(linearRegression([])).toBeNull();
+    expect(linearRegression([{ x: 1, y: 2 }])).toBeNull();
+    expect(linearRegression([{ x: 4, y: 1 }, { x: 4, y: 5 }])).toBeNull();
+  });
+});
+
+describe('PerformAnalyticsService.trend', () => {
+  it('needs at least three samples spread over time', () => {
+    expect(performAnalytics.trend(samples([2, 4]))).toEqual({
+      direction: 'insufficient-data', slopePerWeek: null, rSquared: null, samples: 2
+    });
+    const sameMoment = samples([2, 3, 4], 0);
+    expect(performAnalytics.trend(sameMoment).direction).toBe('insufficient-data');
+  });
+
+  it('converts the daily slope to rubric points per week', () => {
+    // +0.5 a week, one sample a week
+    const trend = performAnalytics.trend(samples([2, 2.5, 3, 3.5], 7));
+    expect(trend).toEqual({ direction: 'up', slopePerWeek: 0.5, rSquared: 1, samples: 4 });
+  });
+
+  it('classifies falling scores as down', () => {
+    expect(performAnalytics.trend(samples([4, 3, 2])).direction).toBe('down');
+  });
+
+  it('counts changes under 0.1 points a week as stable', () => {
+    const trend = performAnalytics.trend(samples([3, 3.05, 3.1], 7));
+    expect(trend.direction).toBe('stable');
+    expect(trend.slopePerWeek).toBe(0.05);
+  });
+});
+
+describe('PerformAnalyticsService.analyze', () => {
+  it('reports the improvement of the fitted score across practice sessions', () => {
+    const practice = [2, 3, 4].map((overallScore, i) => ({
+      session: { id: `s${i}`, completedAt: new Date(START + i * 7 * DAY) },
+      report: { overallScore }
+    })) as any;
+
+    const analytics = performAnalytics.analyze({ interviews: [], practice, prepare: [] });
+
+    expect(analytics.sessionScores.map(s => s.score)).toEqual([2, 3, 4]);
+    expect(analytics.scoreTrend).toMatchObject({ direction: 'up', slopePerWeek: 1 });
+    expect(analytics.improvementRate).toBe(100);
+  });
+});
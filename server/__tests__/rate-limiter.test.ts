@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request, Response } from 'express';
+
+const storageMock = vi.hoisted(() => ({
+  hitRateLimit: vi.fn(),
+  getRateLimitLockout: vi.fn(),
+  recordRateLimitFailure: vi.fn(),
+  clearRateLimit: vi.fn(),
+}));
+
+vi.mock('../storage', () => ({ storage: storageMock }));
+
+import { rateLimiter } from '../services/rate-limiter';
+import { rateLimit } from '../middleware/rate-limit';
+
+const policy = { name: 'ai-question', limit: 3, windowSeconds: 3600 };
+
+function mockResponse() {
+  const res = {
+    headers: {} as Record<string, unknown>,
+    statusCode: 200,
+    body: undefined as unknown,
+    setHeader(name: string, value: unknown) { this.headers[name] = value; return this; },
+    status(code: number) { this.statusCode = code; return this; },
+    json(body: unknown) { this.body = body; return this; },
+  };
+  return res;
+}
+
+describe('RateLimiterService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  describe('consume', () => {
+    it('allows requests up to the limit and counts down the remainder', async () => {
+      storageMock.hitRateLimit.mockResolvedValueOnce({ hits: 3, retryAfterSeconds: 1200 });
+
+      const decision = await rateLimiter.consume(policy, 'user:1');
+
+      expect(storageMock.hitRateLimit).toHaveBeenCalledWith('ai-question:user:1', 3600);
+      expect(decision).toEqual({ allowed: true, limit: 3, remaining: 0, retryAfterSeconds: 1200 });
+    });
+
+    it('rejects the request after the limit', async () => {
+      storageMock.hitRateLimit.mockResolvedValueOnce({ hits: 4, retryAfterSeconds: 1200 });
+
+      const decision = await rateLimiter.consume(policy, 'user:1');
+
+      expect(decision.allowed).toBe(false);
+      expect(decision.remaining).toBe(0);
+    });
+
+    it('fails open when the store is unavailable', async () => {
+      storageMock.hitRateLimit.mockRejectedValueOnce(new Error('connection refused'));
+
+      const decision = await rateLimiter.consume(policy, 'user:1');
+
+      expect(decision).toEqual({ allowed: true, limit: 3, remaining: 3, retryAfterSeconds: 0 });
+    });
+  });
+
+  describe('login lockout', () => {
+    it('keys accounts case-insensitively and reports the longer of the email and IP lockouts', async () => {
+      storageMock.getRateLimitLockout.mockImplementation(async (key: string) => key.startsWith('login:ip:') ? 90 : 30);
+
+      const lockout = await rateLimiter.getLoginLockout('  Alex@Example.com ', '10.0.0.1');
+
+      expect(storageMock.getRateLimitLockout).toHaveBeenCalledWith('login:email:alex@example.com');
+      expect(storageMock.getRateLimitLockout).toHaveBeenCalledWith('login:ip:10.0.0.1');
+      expect(lockout).toBe(90);
+    });
+
+    it('returns the lockout caused by a failed login', async () => {
+      storageMock.recordRateLimitFailure.mockResolvedValueOnce({ retryAfterSeconds: 30 }).mockResolvedValueOnce(null);
+
+      await expect(rateLimiter.recordLoginFailure('alex@example.com', '10.0.0.1')).resolves.toBe(30);
+    });
+
+    it('clears only the account counter after a successful login', async () => {
+      await rateLimiter.clearLoginFailures('Alex@Example.com');
+
+      expect(storageMock.clearRateLimit).toHaveBeenCalledTimes(1);
+      expect(storageMock.clearRateLimit).toHaveBeenCalledWith('login:email:alex@example.com');
+    });
+  });
+});
+
+describe('rateLimit middleware', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('limits signed-in users by id and passes allowed requests on', async () => {
+    storageMock.hitRateLimit.mockResolvedValueOnce({ hits: 1, retryAfterSeconds: 3600 });
+    const res = mockResponse();
+    const next = vi.fn();
+
+    await rateLimit(policy)({ user: { id: 'u1' }, ip: '10.0.0.1' } as unknown as Request, res as unknown as Response, next);
+
+    expect(storageMock.hitRateLimit).toHaveBeenCalledWith('ai-question:user:u1', 3600);
+    expect(res.headers['RateLimit-Remaining']).toBe(2);
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('limits anonymous requests by IP and answers 429 with Retry-After', async () => {
+    storageMock.hitRateLimit.mockResolvedValueOnce({ hits: 4, retryAfterSeconds: 120 });
+    const res = mockResponse();
+    const next = vi.fn();
+
+    await rateLimit(policy)({ ip: '10.0.0.1' } as unknown as Request, res as unknown as Response, next);
+
+    expect(storageMock.hitRateLimit).toHaveBeenCalledWith('ai-question:ip:10.0.0.1', 3600);
+    expect(res.statusCode).toBe(429);
+    expect(res.headers['Retry-After']).toBe(120);
+    expect(res.body).toMatchObject({ error: 'Too many requests', retryAfter: 120 });
+    expect(next).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const aiRouterMock = vi.hoisted(() => ({
+  generateResponse: vi.fn(),
+}));
+
+vi.mock('../services/ai-router', () => ({ aiRouter: aiRouterMock }));
+
+import { ResponseEvaluationService } from '../services/response-evaluation-service';
+
+describe('ResponseEvaluationService.scoreStar', () => {
+  const evaluation = new ResponseEvaluationService();
+  const request = {
+    questionText: 'Tell me about a time you led a project',
+    responseText: 'When our release slipped I was responsible for the plan',
+    responseLanguage: 'en',
+    followUps: [{ element: 'result' as const, question: 'What was the measurable outcome?', answer: 'We achieved the date' }]
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+  });
+
+  it('asks for STAR scores only, with follow-up answers, in a short completion', async () => {
+    aiRouterMock.generateResponse.mockResolvedValue({
+      content: '{"situation": 4, "task": 4, "action": 2, "result": 3, "overall": 3}',
+      provider: 'openai'
+    });
+
+    await expect(evaluation.scoreStar(request)).resolves.toEqual({ situation: 4, task: 4, action: 2, result: 3, overall: 3 });
+
+    const options = aiRouterMock.generateResponse.mock.calls[0][0];
+    expect(options).toMatchObject({ domain: 'evaluation', language: 'en', maxTokens: 150 });
+    expect(options.messages[0].content).toContain('Candidate: "We achieved the date"');
+  });
+
+  it('falls back to rule-based scores, counting follow-up answers, when the reply is unusable', async () => {
+    aiRouterMock.generateResponse.mockResolvedValue({ content: '{"situation": 9}', provider: 'sealion' });
+
+    // "when", "responsible" and the follow-up's "achieved" make three of the four STAR components
+    await expect(evaluation.scoreStar(request)).resolves.toEqual({ situation: 4, task: 4, action: 4, result: 2, overall: 4 });
+  });
+
+  it('falls back to rule-based scores when every provider fails', async () => {
+    aiRouterMock.generateResponse.mockRejectedValue(new Error('All providers failed'));
+
+    await expect(evaluation.scoreStar({ ...request, followUps: [] })).resolves.toEqual({
+      situation: 4, task: 4, action: 2, result: 2, overall: 3
+    });
+  });
+});
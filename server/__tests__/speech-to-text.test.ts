@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+vi.mock('../storage', () => ({ storage: {} }));
+
+import { WhisperCppEngine } from '../services/speech-to-text';
+
+const engine = new WhisperCppEngine();
+
+// Read the way transcribe() reads whisper.cpp output: latin1, so split UTF-8 bytes survive JSON.parse
+async function fixture(name: string) {
+  return JSON.parse(await fs.readFile(path.join(import.meta.dirname, 'fixtures', name), 'latin1'));
+}
+
+describe('WhisperCppEngine.parseOutput', () => {
+  it('re-joins a Thai character split across tokens and skips special tokens', async () => {
+    const result = engine.parseOutput(await fixture('whisper-cpp-th.json'), 'th');
+
+    expect(result.text).toBe('สวัสดีครับ');
+    expect(result.words).toEqual([
+      { word: 'สวัสดี', start: 0, end: 0.8, confidence: 0.85 },
+      { word: 'ครับ', start: 0.8, end: 1.2, confidence: 0.7 }
+    ]);
+    expect(result.confidence).toBe(0.8);
+    expect(result.duration).toBe(1.2);
+    expect(result.language).toBe('th');
+  });
+
+  it('treats each complete Chinese character as a word and joins segments without spaces', async () => {
+    const result = engine.parseOutput(await fixture('whisper-cpp-zh.json'), '');
+
+    expect(result.text).toBe('你好。');
+    expect(result.words.map(word => word.word)).toEqual(['你', '好', '。']);
+    expect(result.words[0]).toEqual({ word: '你', start: 0, end: 0.3, confidence: 0.7 });
+    expect(result.language).toBe('zh');
+  });
+
+  it('groups spaced-language tokens into words at leading spaces', () => {
+    const result = engine.parseOutput({
+      result: { language: 'en' },
+      transcription: [{
+        offsets: { from: 0, to: 1500 },
+        text: ' I led the team.',
+        tokens: [
+          { text: '[_BEG_]', offsets: { from: 0, to: 0 }, p: 1 },
+          { text: ' I', offsets: { from: 0, to: 200 }, p: 0.9 },
+          { text: ' led', offsets: { from: 200, to: 600 }, p: 0.8 },
+          { text: ' the', offsets: { from: 600, to: 800 }, p: 1 },
+          { text: ' te', offsets: { from: 800, to: 1100 }, p: 0.6 },
+          { text: 'am', offsets: { from: 1100, to: 1300 }, p: 0.8 },
+          { text: '.', offsets: { from: 1300, to: 1500 }, p: 1 }
+        ]
+      }]
+    }, 'en');
+
+    expect(result.text).toBe('I led the team.');
+    expect(result.words.map(word => word.word)).toEqual(['I', 'led', 'the', 'team.']);
+    expect(result.words[3]).toEqual({ word: 'team.', start: 0.8, end: 1.5, confidence: 0.8 });
+  });
+
+  it('returns an empty result for output without segments', () => {
+    expect(engine.parseOutput({}, 'ms')).toEqual({
+      engine: 'whisper-cpp', text: '', confidence: 0, language: 'ms', duration: 0, words: []
+    });
+  });
+});
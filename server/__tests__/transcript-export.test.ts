@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { PracticeMessage, PracticeSession } from '@shared/schema';
+
+const { aiRouterMock, storageMock } = vi.hoisted(() => ({
+  aiRouterMock: {
+    generateResponse: vi.fn(),
+    resolveProviderOrder: vi.fn(() => ['sealion', 'openai']),
+  },
+  storageMock: {
+    getTranslationMemoryEntry: vi.fn(),
+    recordTranslationMemoryHit: vi.fn(),
+    upsertTranslationMemoryEntry: vi.fn(),
+  },
+}));
+
+vi.mock('../services/ai-router', () => ({ aiRouter: aiRouterMock }));
+vi.mock('../storage', () => ({ storage: storageMock }));
+
+import { transcriptExport } from '../services/transcript-export-service';
+
+const session = { id: 'session-1', preferredLanguage: 'ms', interviewStage: 'hr' } as PracticeSession;
+
+function message(index: number, content: string): PracticeMessage {
+  return {
+    id: `msg-${index}`,
+    sessionId: session.id,
+    messageType: index % 2 === 0 ? 'ai_question' : 'user_response',
+    content,
+    questionNumber: Math.floor(index / 2) + 1,
+    inputMethod: 'text',
+    language: 'ms',
+    probedElement: null,
+    responseTime: null,
+    timestamp: new Date(Date.UTC(2026, 9, 19, 10, 0, index)),
+    createdAt: null
+  };
+}
+
+describe('TranscriptExportService.build (translated)', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    storageMock.getTranslationMemoryEntry.mockResolvedValue(undefined);
+    storageMock.upsertTranslationMemoryEntry.mockResolvedValue(undefined);
+  });
+
+  it('keeps every sentence of a long English translation and remembers it whole', async () => {
+    const english = 'We had a tight deadline of three months. I split the work into weekly milestones and met the client every Friday. We launched two weeks early and cut support tickets by 30%.';
+    aiRouterMock.generateResponse.mockResolvedValue({ content: english, provider: 'sealion' });
+
+    const transcript = await transcriptExport.build(session, [message(1, 'Kami ada tarikh akhir yang ketat...')], { translate: true });
+
+    expect(transcript.entries[0].translation).toBe(english);
+    expect(storageMock.upsertTranslationMemoryEntry).toHaveBeenCalledWith(
+      expect.objectContaining({ targetLanguage: 'en', translatedText: english }),
+      { preservePinned: true }
+    );
+  });
+
+  it('strips thinking blocks and a leading label but nothing else', async () => {
+    aiRouterMock.generateResponse.mockResolvedValue({
+      content: '<think>The user wants English.</think>\nTranslation: First, I listened. Then I acted.',
+      provider: 'openai'
+    });
+
+    const transcript = await transcriptExport.build(session, [message(1, 'Pertama, saya mendengar.')], { translate: true });
+
+    expect(transcript.entries[0].translation).toBe('First, I listened. Then I acted.');
+  });
+
+  it('translates at most three messages at a time, keeping their order', async () => {
+    let active = 0;
+    let peak = 0;
+    aiRouterMock.generateResponse.mockImplementation(async ({ messages }: { messages: Array<{ content: string }> }) => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      active--;
+      return { content: `EN ${messages[1].content}`, provider: 'sealion' };
+    });
+
+    const messages = Array.from({ length: 10 }, (_, index) => message(index, `Mesej ${index}`));
+    const transcript = await transcriptExport.build(session, messages, { translate: true });
+
+    expect(peak).toBe(3);
+    expect(transcript.entries.map(entry => entry.translation)).toEqual(messages.map((_, index) => `EN Mesej ${index}`));
+  });
+});
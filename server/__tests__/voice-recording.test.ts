@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { VoiceRecording } from '@shared/schema';
+
+const storageMock = vi.hoisted(() => ({
+  linkVoiceRecordingToResponse: vi.fn(),
+}));
+
+vi.mock('../storage', () => ({ storage: storageMock }));
+
+import { parseByteRange, voiceRecordings } from '../services/voice-recording-service';
+
+describe('parseByteRange', () => {
+  it('returns null when there is no usable Range header', () => {
+    expect(parseByteRange(undefined, 1000)).toBeNull();
+    expect(parseByteRange('bytes=-', 1000)).toBeNull();
+    expect(parseByteRange('items=0-10', 1000)).toBeNull();
+    expect(parseByteRange('bytes=0-10,20-30', 1000)).toBeNull();
+  });
+
+  it('reads an explicit range', () => {
+    expect(parseByteRange('bytes=100-199', 1000)).toEqual({ start: 100, end: 199 });
+  });
+
+  it('runs an open-ended range to the last byte', () => {
+    expect(parseByteRange('bytes=500-', 1000)).toEqual({ start: 500, end: 999 });
+  });
+
+  it('clamps the end to the file size', () => {
+    expect(parseByteRange('bytes=900-5000', 1000)).toEqual({ start: 900, end: 999 });
+  });
+
+  it('serves the last N bytes for a suffix range, or the whole file when N exceeds it', () => {
+    expect(parseByteRange('bytes=-100', 1000)).toEqual({ start: 900, end: 999 });
+    expect(parseByteRange('bytes=-5000', 1000)).toEqual({ start: 0, end: 999 });
+  });
+
+  it('is unsatisfiable when the start is past the end of the file or after the range end', () => {
+    expect(parseByteRange('bytes=1000-', 1000)).toBe('unsatisfiable');
+    expect(parseByteRange('bytes=300-200', 1000)).toBe('unsatisfiable');
+    expect(parseByteRange('bytes=-10', 0)).toBe('unsatisfiable');
+  });
+});
+
+describe('VoiceRecordingService.linkResponse', () => {
+  const recording = { id: 'rec-1', userId: 'user-1' } as VoiceRecording;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('links the recording for its owner and returns the playback URL', async () => {
+    storageMock.linkVoiceRecordingToResponse.mockResolvedValue(true);
+
+    await expect(voiceRecordings.linkResponse(recording, 'user-1', 'resp-1'))
+      .resolves.toBe('/api/prepare-ai/recordings/rec-1');
+    expect(storageMock.linkVoiceRecordingToResponse)
+      .toHaveBeenCalledWith('rec-1', 'user-1', 'resp-1', '/api/prepare-ai/recordings/rec-1');
+  });
+
+  it('attaches a follow-up recording without replacing the answer\'s audio', async () => {
+    storageMock.linkVoiceRecordingToResponse.mockResolvedValue(true);
+
+    await expect(voiceRecordings.linkResponse(recording, 'user-1', 'resp-1', { followUp: true }))
+      .resolves.toBe('/api/prepare-ai/recordings/rec-1');
+    expect(storageMock.linkVoiceRecordingToResponse).toHaveBeenCalledWith('rec-1', 'user-1', 'resp-1', null);
+  });
+
+  it('returns null when the recording belongs to someone else', async () => {
+    storageMock.linkVoiceRecordingToResponse.mockResolvedValue(false);
+
+    await expect(voiceRecordings.linkResponse(recording, 'user-2', 'resp-1')).resolves.toBeNull();
+  });
+});
@@ -1,11 +1,74 @@
 import bcrypt from "bcryptjs";
 import session from "express-session";
 import crypto from "crypto";
-import type { Express, RequestHandler } from "express";
+import type { Express, Response, RequestHandler } from "express";
 import connectPg from "connect-pg-simple";
 import { storage } from "./storage";
+import { mailer } from "./services/mailer";
+import { jobDescriptionService } from "./services/job-description-service";
+import { voiceRecordings } from "./services/voice-recording-service";
+import { rateLimiter } from "./services/rate-limiter";
+import { getAppBaseUrl } from "./services/app-url";
+import type { User } from "@shared/schema";
 
-export function getSession() {
+const RESET_TOKEN_TTL_MINUTES = 60;
+const VERIFICATION_TOKEN_TTL_HOURS = 48;
+const MIN_PASSWORD_LENGTH = 8;
+
+// Emailed tokens are stored hashed so a database leak doesn't expose live links
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function sendTooManyAttempts(res: Response, retryAfterSeconds: number) {
+  res.setHeader('Retry-After', retryAfterSeconds);
+  return res.status(429).json({
+    message: `Too many failed sign-in attempts. Please try again in ${Math.ceil(retryAfterSeconds / 60)} minute(s).`,
+    code: "TOO_MANY_ATTEMPTS",
+    retryAfter: retryAfterSeconds
+  });
+}
+
+// With REQUIRE_EMAIL_VERIFICATION on, unconfirmed accounts get no session and no access
+export function isVerificationPending(user: User): boolean {
+  return process.env.REQUIRE_EMAIL_VERIFICATION === 'true' && !user.emailVerifiedAt;
+}
+
+function sendEmailNotVerified(res: Response) {
+  return res.status(403).json({
+    message: "Please confirm your email address before signing in",
+    code: "EMAIL_NOT_VERIFIED"
+  });
+}
+
+// Replace any outstanding verification link with a fresh one and email it
+async function sendVerificationEmail(user: User): Promise<void> {
+  if (!user.email) return;
+
+  await storage.invalidateEmailVerificationTokens(user.id);
+
+  const token = crypto.randomBytes(32).toString('hex');
+  await storage.createEmailVerificationToken({
+    userId: user.id,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + VERIFICATION_TOKEN_TTL_HOURS * 60 * 60 * 1000),
+  });
+
+  const verifyUrl = `${getAppBaseUrl()}/verify-email?token=${token}`;
+  await mailer.sendEmailVerificationEmail(user.email, verifyUrl, VERIFICATION_TOKEN_TTL_HOURS);
+}
+
+// One session middleware (and store connection) shared by Express and the Socket.IO handshake
+let sessionMiddleware: RequestHandler | undefined;
+
+export function getSession(): RequestHandler {
+  if (!sessionMiddleware) {
+    sessionMiddleware = createSessionMiddleware();
+  }
+  return sessionMiddleware;
+}
+
+function createSessionMiddleware(): RequestHandler {
   const sessionTtlMs = 7 * 24 * 60 * 60 * 1000; // 1 week
   const sessionTtlSeconds = Math.floor(sessionTtlMs / 1000);
   const pgStore = connectPg(session);
@@ -61,6 +124,10 @@ export async function setupSimpleAuth(app: Express) {
         return res.status(400).json({ message: "Email, password, and first name are required" });
       }
 
+      if (password.length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+      }
+
       // Check if user already exists
       const existingUser = await storage.getUserByEmail(email);
       if (existingUser) {
@@ -82,6 +149,29 @@ export async function setupSimpleAuth(app: Express) {
         passwordHash: hashedPassword
       });
 
+      // Sign-up still succeeds if the mail server is down; the user can resend later
+      try {
+        await sendVerificationEmail(user);
+      } catch (mailError) {
+        console.error("❌ Failed to send verification email:", mailError);
+      }
+
+      // The account can only sign in once the emailed link is confirmed
+      if (isVerificationPending(user)) {
+        return res.status(201).json({
+          success: true,
+          verificationRequired: true,
+          message: "Check your email to confirm your address, then sign in",
+          user: {
+            id: user.id,
+            email: user.email,
+            firstName: user.firstName,
+            lastName: user.lastName,
+            emailVerified: false
+          }
+        });
+      }
+
       // Create session
       (req.session as any).userId = user.id;
       (req.session as any).userEmail = user.email;
@@ -100,7 +190,8 @@ export async function setupSimpleAuth(app: Express) {
             id: user.id, 
             email: user.email, 
             firstName: user.firstName, 
-            lastName: user.lastName 
+            lastName: user.lastName,
+            emailVerified: false
           } 
         });
       });
@@ -128,18 +219,38 @@ export async function setupSimpleAuth(app: Express) {
         return res.status(400).json({ message: "Email and password are required" });
       }
 
+      // Refuse attempts while the account or IP is locked out
+      const lockoutSeconds = await rateLimiter.getLoginLockout(email, req.ip);
+      if (lockoutSeconds > 0) {
+        console.log("🚦 LOGIN BLOCKED: Locked out:", { email, ip: req.ip, retryAfter: lockoutSeconds });
+        return sendTooManyAttempts(res, lockoutSeconds);
+      }
+
       // Find user
       const user = await storage.getUserByEmail(email);
       if (!user || !user.passwordHash) {
         console.log("❌ LOGIN FAILED: User not found or no password hash:", { email, userExists: !!user, hasPasswordHash: !!user?.passwordHash });
-        return res.status(401).json({ message: "Invalid email or password" });
+        const retryAfter = await rateLimiter.recordLoginFailure(email, req.ip);
+        return retryAfter > 0
+          ? sendTooManyAttempts(res, retryAfter)
+          : res.status(401).json({ message: "Invalid email or password" });
       }
 
       // Verify password
       const passwordValid = await bcrypt.compare(password, user.passwordHash);
       if (!passwordValid) {
         console.log("❌ LOGIN FAILED: Invalid password for user:", user.id);
-        return res.status(401).json({ message: "Invalid email or password" });
+        const retryAfter = await rateLimiter.recordLoginFailure(email, req.ip);
+        return retryAfter > 0
+          ? sendTooManyAttempts(res, retryAfter)
+          : res.status(401).json({ message: "Invalid email or password" });
+      }
+
+      await rateLimiter.clearLoginFailures(email);
+
+      if (isVerificationPending(user)) {
+        console.log("❌ LOGIN FAILED: Email not verified for user:", user.id);
+        return sendEmailNotVerified(res);
       }
 
       // Create session
@@ -179,7 +290,8 @@ export async function setupSimpleAuth(app: Express) {
             id: user.id, 
             email: user.email, 
             firstName: user.firstName, 
-            lastName: user.lastName 
+            lastName: user.lastName,
+            emailVerified: !!user.emailVerifiedAt
           } 
         });
       });
@@ -225,6 +337,10 @@ export async function setupSimpleAuth(app: Express) {
         console.log("❌ AUTH FAILED: User not found in database:", session.userId);
         return res.status(401).json({ message: "User not found" });
       }
+      if (isVerificationPending(user)) {
+        console.log("❌ AUTH FAILED: Email not verified for user:", user.id);
+        return sendEmailNotVerified(res);
+      }
 
       console.log("✅ AUTH SUCCESS: User authenticated:", {
         userId: user.id,
@@ -239,7 +355,8 @@ export async function setupSimpleAuth(app: Express) {
         email: user.email,
         firstName: user.firstName,
         lastName: user.lastName,
-        role: user.role
+        role: user.role,
+        emailVerified: !!user.emailVerifiedAt
       });
     } catch (error) {
       console.error("❌ AUTH ERROR:", error);
@@ -258,7 +375,7 @@ export async function setupSimpleAuth(app: Express) {
     });
   });
 
-  // Forgot password endpoint (simplified version without email sending)
+  // Forgot password endpoint - emails a single-use reset link
   app.post("/api/auth/forgot-password", async (req, res) => {
     try {
       const { email } = req.body;
@@ -267,33 +384,46 @@ export async function setupSimpleAuth(app: Express) {
         return res.status(400).json({ message: "Email is required" });
       }
 
-      // Check if user exists
+      // Same response whether or not the account exists, so emails can't be enumerated
+      const genericResponse = { 
+        success: true, 
+        message: "If the email exists, reset instructions have been sent" 
+      };
+
       const user = await storage.getUserByEmail(email);
-      if (!user) {
-        // Don't reveal if email exists for security
-        return res.json({ success: true, message: "If the email exists, reset instructions have been sent" });
+      if (!user || !user.email) {
+        return res.json(genericResponse);
       }
 
-      // In a real app, you would:
-      // 1. Generate a secure reset token
-      // 2. Store it in database with expiration
-      // 3. Send email with reset link
-      
-      // For now, just simulate success
-      console.log(`Password reset requested for: ${email}`);
-      console.log(`In a real app, would send email with reset link`);
-      
-      res.json({ 
-        success: true, 
-        message: "If the email exists, reset instructions have been sent" 
+      // Only the newest link should work
+      await storage.invalidatePasswordResetTokens(user.id);
+
+      const token = crypto.randomBytes(32).toString('hex');
+      await storage.createPasswordResetToken({
+        userId: user.id,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000),
+        requestedIp: req.ip,
       });
+
+      const resetUrl = `${getAppBaseUrl()}/reset-password?token=${token}`;
+
+      // A mail failure is only logged; a distinct error would reveal that the account exists
+      try {
+        await mailer.sendPasswordResetEmail(user.email, resetUrl, RESET_TOKEN_TTL_MINUTES);
+        console.log(`🔑 Password reset link issued for user: ${user.id}`);
+      } catch (mailError) {
+        console.error("❌ Failed to send password reset email:", mailError);
+      }
+
+      res.json(genericResponse);
     } catch (error) {
       console.error("Forgot password error:", error);
       res.status(500).json({ message: "Failed to process password reset request" });
     }
   });
 
-  // Reset password endpoint (simplified version)
+  // Reset password endpoint - redeems a reset token and sets the new password
   app.post("/api/auth/reset-password", async (req, res) => {
     try {
       const { token, newPassword } = req.body;
@@ -302,14 +432,20 @@ export async function setupSimpleAuth(app: Express) {
         return res.status(400).json({ message: "Token and new password are required" });
       }
 
-      // In a real app, you would:
-      // 1. Validate the reset token
-      // 2. Check if it's not expired
-      // 3. Find the user associated with the token
-      // 4. Update their password
-      
-      // For now, just simulate success
-      console.log(`Password reset with token: ${token}`);
+      if (typeof newPassword !== 'string' || newPassword.length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+      }
+
+      const resetToken = await storage.consumePasswordResetToken(hashToken(String(token)));
+      if (!resetToken) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+
+      const hashedPassword = await bcrypt.hash(newPassword, 12);
+      await storage.updateUserPassword(resetToken.userId, hashedPassword);
+      await storage.invalidatePasswordResetTokens(resetToken.userId);
+
+      console.log(`✅ Password reset completed for user: ${resetToken.userId}`);
       
       res.json({ 
         success: true, 
@@ -320,6 +456,158 @@ export async function setupSimpleAuth(app: Express) {
       res.status(500).json({ message: "Failed to reset password" });
     }
   });
+
+  // Verify email endpoint - redeems the link sent at signup
+  app.post("/api/auth/verify-email", async (req, res) => {
+    try {
+      const { token } = req.body;
+
+      if (!token) {
+        return res.status(400).json({ message: "Token is required" });
+      }
+
+      const verificationToken = await storage.consumeEmailVerificationToken(hashToken(String(token)));
+      if (!verificationToken) {
+        return res.status(400).json({ message: "This verification link is invalid or has expired" });
+      }
+
+      await storage.markEmailVerified(verificationToken.userId);
+      console.log(`✅ Email verified for user: ${verificationToken.userId}`);
+
+      res.json({ success: true, message: "Email address confirmed" });
+    } catch (error) {
+      console.error("Verify email error:", error);
+      res.status(500).json({ message: "Failed to verify email" });
+    }
+  });
+
+  // Resend verification endpoint: by email for accounts that can't sign in until confirmed, or for the signed-in user
+  app.post("/api/auth/resend-verification", async (req, res) => {
+    try {
+      const sessionUserId = (req.session as any).userId as string | undefined;
+
+      if (!sessionUserId) {
+        const { email } = req.body ?? {};
+        if (!email) {
+          return res.status(400).json({ message: "Email is required" });
+        }
+
+        // Same response whether or not the account exists, so emails can't be enumerated
+        const genericResponse = {
+          success: true,
+          message: "If the address is registered and unconfirmed, a verification email has been sent"
+        };
+
+        const user = await storage.getUserByEmail(String(email));
+        if (user && !user.emailVerifiedAt) {
+          try {
+            await sendVerificationEmail(user);
+          } catch (mailError) {
+            console.error("❌ Failed to send verification email:", mailError);
+          }
+        }
+        return res.json(genericResponse);
+      }
+
+      const user = await storage.getUser(sessionUserId);
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      if (user.emailVerifiedAt) {
+        return res.status(400).json({ message: "Email address is already confirmed" });
+      }
+
+      await sendVerificationEmail(user);
+      res.json({ success: true, message: "Verification email sent" });
+    } catch (error) {
+      console.error("Resend verification error:", error);
+      res.status(500).json({ message: "Failed to send verification email" });
+    }
+  });
+
+  // Change password endpoint for signed-in users
+  app.put("/api/auth/password", requireAuth, async (req, res) => {
+    try {
+      const { currentPassword, newPassword } = req.body;
+
+      if (!currentPassword || !newPassword) {
+        return res.status(400).json({ message: "Current and new password are required" });
+      }
+
+      if (typeof newPassword !== 'string' || newPassword.length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({ message: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+      }
+
+      const user = await storage.getUser(req.user!.id);
+      if (!user || !user.passwordHash) {
+        return res.status(400).json({ message: "This account does not use a password" });
+      }
+
+      const passwordValid = await bcrypt.compare(currentPassword, user.passwordHash);
+      if (!passwordValid) {
+        return res.status(401).json({ message: "Current password is incorrect" });
+      }
+
+      const hashedPassword = await bcrypt.hash(newPassword, 12);
+      await storage.updateUserPassword(user.id, hashedPassword);
+      await storage.invalidatePasswordResetTokens(user.id);
+
+      console.log(`🔑 Password changed for user: ${user.id}`);
+      res.json({ success: true, message: "Password updated successfully" });
+    } catch (error) {
+      console.error("Change password error:", error);
+      res.status(500).json({ message: "Failed to change password" });
+    }
+  });
+
+  // Delete account endpoint - permanently removes the user and all their session data
+  app.delete("/api/auth/account", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(401).json({ message: "User not found" });
+      }
+
+      // Re-confirm the password so a hijacked session can't wipe the account
+      if (user.passwordHash) {
+        const { password } = req.body || {};
+        if (!password || !(await bcrypt.compare(password, user.passwordHash))) {
+          return res.status(401).json({ message: "Password is incorrect" });
+        }
+      }
+
+      // Collect uploaded files before the rows that point at them are gone
+      const jobDescriptions = await storage.getUserJobDescriptions(user.id);
+      const recordings = await storage.getVoiceRecordingsForUser(user.id);
+
+      await storage.deleteUserAccount(user.id);
+
+      for (const jobDescription of jobDescriptions) {
+        try {
+          await jobDescriptionService.deleteFile(jobDescription.storagePath);
+        } catch (fileError) {
+          console.error(`❌ Failed to delete job description file ${jobDescription.storagePath}:`, fileError);
+        }
+      }
+      for (const recording of recordings) {
+        await voiceRecordings.deleteAudio(recording);
+      }
+
+      console.log(`🗑️ Account deleted for user: ${user.id}`);
+
+      req.session.destroy((err) => {
+        if (err) {
+          console.error("Session destroy error after account deletion:", err);
+        }
+        res.clearCookie('connect.sid');
+        res.json({ success: true, message: "Account and all associated data deleted" });
+      });
+    } catch (error) {
+      console.error("Delete account error:", error);
+      res.status(500).json({ message: "Failed to delete account" });
+    }
+  });
 }
 
 export const requireAuth: RequestHandler = async (req, res, next) => {
@@ -333,6 +621,9 @@ export const requireAuth: RequestHandler = async (req, res, next) => {
     if (!user) {
       return res.status(401).json({ message: "User not found" });
     }
+    if (isVerificationPending(user)) {
+      return sendEmailNotVerified(res);
+    }
 
     req.user = {
       id: user.id,
@@ -3,7 +3,9 @@ import { drizzle as drizzleNeon, type NeonDatabase } from 'drizzle-orm/neon-serv
 import ws from "ws";
 import { Pool as PgPool } from 'pg';
 import { drizzle as drizzlePg, type NodePgDatabase } from 'drizzle-orm/node-postgres';
+import type { Logger as DrizzleLogger } from 'drizzle-orm/logger';
 import * as schema from "@shared/schema";
+import { logger } from "./services/logger";
 
 if (!process.env.DATABASE_URL) {
   throw new Error(
@@ -30,6 +32,16 @@ const resolveDriver = (): 'neon' | 'pg' => {
   }
 };
 
+// Queries are logged at debug level under the caller's correlation ID; parameters are never logged
+const queryLog = logger.child({ component: 'db' });
+const queryLogger: DrizzleLogger = {
+  logQuery(query: string, params: unknown[]): void {
+    if (queryLog.isLevelEnabled('debug')) {
+      queryLog.debug('query', { query, params: params.length });
+    }
+  },
+};
+
 type DatabaseClient =
   | { pool: NeonPool; db: NeonDatabase<typeof schema>; isNeon: true }
   | { pool: PgPool; db: NodePgDatabase<typeof schema>; isNeon: false };
@@ -37,7 +49,7 @@ type DatabaseClient =
 const createNeonClient = (url: string): DatabaseClient => {
   neonConfig.webSocketConstructor = ws;
   const pool = new NeonPool({ connectionString: url });
-  const db = drizzleNeon({ client: pool, schema });
+  const db = drizzleNeon({ client: pool, schema, logger: queryLogger });
   return { pool, db, isNeon: true };
 };
 
@@ -46,7 +58,7 @@ const createPostgresClient = (url: string): DatabaseClient => {
     connectionString: url,
     ssl: env['DB_SSL'] === 'false' ? false : { rejectUnauthorized: false },
   });
-  const db = drizzlePg(pool, { schema });
+  const db = drizzlePg(pool, { schema, logger: queryLogger });
   return { pool, db, isNeon: false };
 };
 
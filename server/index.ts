@@ -2,6 +2,9 @@ import 'dotenv/config';
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { serveStatic, log } from "./vite";
+import { requestLogging } from "./middleware/request-logging";
+import { logger } from "./services/logger";
+import { getAppBaseUrl } from "./services/app-url";
 
 const app = express();
 app.use(express.json());
@@ -9,35 +12,10 @@ app.use(express.urlencoded({ extended: false }));
 
 log(`Express env: ${app.get("env")}`, "startup");
 
-app.use((req, res, next) => {
-  const start = Date.now();
-  const path = req.path;
-  let capturedJsonResponse: Record<string, any> | undefined = undefined;
+// Fail fast on a missing or malformed APP_BASE_URL rather than on the first emailed link
+log(`Public base URL: ${getAppBaseUrl()}`, "startup");
 
-  const originalResJson = res.json;
-  res.json = function (bodyJson, ...args) {
-    capturedJsonResponse = bodyJson;
-    return originalResJson.apply(res, [bodyJson, ...args]);
-  };
-
-  res.on("finish", () => {
-    const duration = Date.now() - start;
-    if (path.startsWith("/api")) {
-      let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
-      }
-
-      if (logLine.length > 80) {
-        logLine = logLine.slice(0, 79) + "…";
-      }
-
-      log(logLine);
-    }
-  });
-
-  next();
-});
+app.use(requestLogging);
 
 (async () => {
   const server = await registerRoutes(app);
@@ -56,6 +34,7 @@ app.use((req, res, next) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
 
+    logger.error("unhandled request error", { component: "http", status, error: err });
     res.status(status).json({ message });
     throw err;
   });
@@ -0,0 +1,31 @@
+import type { RequestHandler } from "express";
+import { aiUsage } from "../services/ai-usage-service";
+import { runWithRequestContext } from "../services/request-context";
+
+/**
+ * Block AI endpoints once the user has used up their daily or monthly AI spend.
+ * Also tags the rest of the request with the session it works on, for usage attribution.
+ */
+export const aiQuota: RequestHandler = async (req, res, next) => {
+  if (!req.user?.id) {
+    return next();
+  }
+
+  const decision = await aiUsage.checkQuota(req.user.id);
+
+  if (!decision.allowed) {
+    console.log(`💸 AI ${decision.period} quota reached for user:${req.user.id} ($${decision.usedUsd} of $${decision.limitUsd})`);
+    res.setHeader('Retry-After', decision.retryAfterSeconds);
+    return res.status(429).json({
+      error: 'AI usage quota exceeded',
+      message: `You have used your ${decision.period} AI allowance. It resets at ${decision.resetsAt?.toISOString()}.`,
+      period: decision.period,
+      limitUsd: decision.limitUsd,
+      usedUsd: decision.usedUsd,
+      resetsAt: decision.resetsAt,
+      retryAfter: decision.retryAfterSeconds
+    });
+  }
+
+  runWithRequestContext({ userId: req.user.id, sessionId: req.params.sessionId || req.params.id }, next);
+};
@@ -1,6 +1,7 @@
 import type { RequestHandler } from "express";
 import { storage } from "../storage";
 import { requireAuth as simpleRequireAuth } from "../auth-simple";
+import { runWithRequestContext } from "../services/request-context";
 
 // Development flag - set to false for production
 const DEVELOPMENT_MODE = process.env.NODE_ENV === 'development';
@@ -19,11 +20,13 @@ export const requireAuth: RequestHandler = async (req, res, next) => {
       firstName: "Dev",
       lastName: "User"
     };
-    return next();
+    return runWithRequestContext({ correlationId: res.locals.correlationId, userId: req.user.id }, next);
   }
 
-  // Use simple authentication system
-  return simpleRequireAuth(req, res, next);
+  // Use simple authentication system; later handlers run with the user in the request context
+  // (the correlation ID is re-applied because session store callbacks can drop the async context)
+  return simpleRequireAuth(req, res, () =>
+    runWithRequestContext({ correlationId: res.locals.correlationId, userId: req.user?.id }, next));
 };
 
 /**
@@ -0,0 +1,55 @@
+import type { RequestHandler } from "express";
+import { rateLimiter, type RequestRatePolicy } from "../services/rate-limiter";
+
+/**
+ * Limit how often each user (or IP, for anonymous requests) can call an endpoint.
+ * Responds 429 with Retry-After once the window's allowance is used up.
+ */
+export function rateLimit(policy: RequestRatePolicy): RequestHandler {
+  return async (req, res, next) => {
+    const subject = req.user?.id ? `user:${req.user.id}` : `ip:${req.ip}`;
+    const decision = await rateLimiter.consume(policy, subject);
+
+    res.setHeader('RateLimit-Limit', decision.limit);
+    res.setHeader('RateLimit-Remaining', decision.remaining);
+
+    if (!decision.allowed) {
+      console.log(`🚦 Rate limit hit: ${policy.name} for ${subject}`);
+      res.setHeader('Retry-After', decision.retryAfterSeconds);
+      return res.status(429).json({
+        error: 'Too many requests',
+        message: `Please wait ${decision.retryAfterSeconds} seconds before trying again`,
+        retryAfter: decision.retryAfterSeconds
+      });
+    }
+
+    next();
+  };
+}
+
+// Limits for endpoints that call paid AI models
+export const aiQuestionRateLimit = rateLimit({
+  name: 'ai-question',
+  limit: Number(process.env.AI_QUESTION_RATE_LIMIT ?? 30),
+  windowSeconds: 60 * 60,
+});
+
+export const aiResponseRateLimit = rateLimit({
+  name: 'ai-response',
+  limit: Number(process.env.AI_RESPONSE_RATE_LIMIT ?? 60),
+  windowSeconds: 60 * 60,
+});
+
+// Text-to-speech playback of questions and follow-up prompts
+export const voiceSynthesisRateLimit = rateLimit({
+  name: 'voice-synthesis',
+  limit: Number(process.env.VOICE_SYNTHESIS_RATE_LIMIT ?? 120),
+  windowSeconds: 60 * 60,
+});
+
+// Public shared-report lookups, so link tokens can't be brute-forced
+export const sharedReportRateLimit = rateLimit({
+  name: 'shared-report',
+  limit: Number(process.env.SHARED_REPORT_RATE_LIMIT ?? 120),
+  windowSeconds: 60 * 60,
+});
@@ -0,0 +1,39 @@
+// Request Logging Middleware
+// Gives every request a correlation ID (echoed in X-Correlation-Id) and logs one structured line when it finishes
+
+import type { RequestHandler } from "express";
+import { newCorrelationId, runWithRequestContext } from "../services/request-context.js";
+import { logger } from "../services/logger.js";
+
+export const CORRELATION_HEADER = "X-Correlation-Id";
+
+const SLOW_REQUEST_MS = parseInt(process.env.LOG_SLOW_REQUEST_MS || "2000", 10);
+
+const requestLog = logger.child({ component: "http" });
+
+export const requestLogging: RequestHandler = (req, res, next) => {
+  const start = Date.now();
+  const correlationId = newCorrelationId(req.get(CORRELATION_HEADER));
+  res.setHeader(CORRELATION_HEADER, correlationId);
+  res.locals.correlationId = correlationId;
+
+  if (req.path.startsWith("/api")) {
+    res.on("finish", () => {
+      const durationMs = Date.now() - start;
+      const level = res.statusCode >= 500 ? "error" : res.statusCode >= 400 || durationMs >= SLOW_REQUEST_MS ? "warn" : "info";
+
+      // Bodies are never logged; use the correlation ID to find the service logs for a request
+      runWithRequestContext({ correlationId, userId: req.user?.id }, () => {
+        requestLog[level]("request completed", {
+          method: req.method,
+          path: req.path,
+          status: res.statusCode,
+          durationMs,
+          ...(durationMs >= SLOW_REQUEST_MS && { slow: true }),
+        });
+      });
+    });
+  }
+
+  runWithRequestContext({ correlationId }, next);
+};
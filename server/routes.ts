@@ -9,8 +9,10 @@ import { AIService } from "./services/ai-service";
 import { questionBankService } from "./services/question-bank-service";
 import { 
   requireAdmin,
-  requireAuth as requireAuthWithBypass
+  requireAuth as requireAuthWithBypass,
+  validateSessionOwnership
 } from "./middleware/auth-middleware";
+import { sharedReportRateLimit } from "./middleware/rate-limit";
 import { 
   insertInterviewScenarioSchema, 
   insertInterviewSessionSchema, 
@@ -22,11 +24,16 @@ import {
 } from "@shared/schema";
 import { z } from "zod";
 import { errorLogger, logAPIError } from "./services/error-logger";
+import { performAnalytics } from "./services/perform-analytics-service";
+import { sharedReports, MAX_SHARE_DAYS } from "./services/shared-report-service";
+import { getAppBaseUrl } from "./services/app-url";
 // import { // coachingRouter } from "./routes/coaching"; // QUARANTINED
 // import { coachingEngineService } from "./services/coaching-engine-service"; // QUARANTINED
 import { prepareAIRouter } from "./routes/prepare-ai";
 import practiceRouter from "./routes/practice";
 import voiceServicesRouter from "./routes/voice-services-mvp";
+import jobDescriptionsRouter from "./routes/job-descriptions";
+import adminRouter from "./routes/admin";
 import testEndpoints from "./test-endpoints";
 
 // Extend Express Request to include user property
@@ -411,8 +418,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // System health and error reporting endpoint
   app.get('/api/system/health', async (req, res) => {
     try {
-      const fallbackReport = errorLogger.generateFallbackReport();
-      const seaLionStats = errorLogger.getComponentStats('SeaLion');
+      const [fallbackReport, seaLionStats] = await Promise.all([
+        errorLogger.generateFallbackReport(),
+        errorLogger.getComponentStats('SeaLion')
+      ]);
       
       res.json({
         status: 'operational',
@@ -519,18 +528,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Step 1: Get all user sessions (from Practice, Interview, and AI Prepare modules)
       const sessionStart = Date.now();
-      const [userSessions, practiceSessions, practiceOverview] = await Promise.all([
+      const [userSessions, practiceSessions, practiceOverview, aiPrepareSessions] = await Promise.all([
         storage.getUserInterviewSessions(userId),
         storage.getUserPracticeSessions(userId),
-        storage.getPracticeOverview(userId)
+        storage.getPracticeOverview(userId),
+        storage.getUserAiPrepareSessions(userId)
       ]);
-      // Note: getUserAIPrepareSessions method doesn't exist in storage interface
-      const aiPrepareSessions: any[] = [];
       console.log(`⏱️  getUserInterviewSessions took: ${Date.now() - sessionStart}ms, found ${userSessions.length} sessions`);
       console.log(`⏱️  getUserPracticeSessions found: ${practiceSessions.length} sessions`);
+      console.log(`⏱️  getUserAiPrepareSessions found: ${aiPrepareSessions.length} sessions`);
       const completedSessions = userSessions.filter(session => session.status === 'completed');
       const completedPracticeSessions = practiceSessions.filter(session => session.status === 'completed');
-      
+      // AI Prepare answers are evaluated one at a time and sessions are often left paused,
+      // so any session with evaluated answers counts towards analytics
+      const evaluatedPrepareSessions = aiPrepareSessions.filter(session => session.responses.length > 0);
+
       // Step 1a: Fetch practice reports and messages for completed practice sessions
       const practiceReports = new Map<string, any>();
       const practiceMessages = new Map<string, any[]>();
@@ -547,37 +559,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       await Promise.all(practiceDataPromises);
       
-      // Calculate combined basic stats (Interview + Practice sessions)
-      const totalSessions = userSessions.length + practiceSessions.length;
-      const completedCount = completedSessions.length + completedPracticeSessions.length;
-      
-      // Calculate combined average score from completed sessions (5-point scale)
-      let totalScore = 0;
-      let scoreCount = 0;
-      
-      // Add Interview session scores
-      completedSessions.forEach(session => {
-        if (session.overallScore && !isNaN(Number(session.overallScore))) {
-          // Convert to 5-point scale if needed (assuming stored scores might be on 10-point scale)
-          const score = Number(session.overallScore);
-          const normalizedScore = score > 5 ? score / 2 : score; // Convert 10-point to 5-point if necessary
-          totalScore += normalizedScore;
-          scoreCount++;
-        }
-      });
+      // Calculate combined basic stats (Interview + Practice + AI Prepare sessions)
+      const totalSessions = userSessions.length + practiceSessions.length + aiPrepareSessions.length;
+      const completedCount = completedSessions.length + completedPracticeSessions.length + evaluatedPrepareSessions.length;
       
-      // Add Practice session scores from practice reports
-      completedPracticeSessions.forEach(session => {
-        const report = practiceReports.get(session.id);
-        if (report && report.overallScore && !isNaN(Number(report.overallScore))) {
-          const score = Number(report.overallScore);
-          const normalizedScore = score > 5 ? score / 2 : score; // Convert to 5-point scale if needed
-          totalScore += normalizedScore;
-          scoreCount++;
-        }
+      // Step 2: Get all evaluations in batch to avoid N+1 queries
+      const evaluationStart = Date.now();
+      const evaluations = await storage.getBatchEvaluationResults(completedSessions.map(s => s.id));
+      console.log(`⏱️  getBatchEvaluationResults took: ${Date.now() - evaluationStart}ms, found ${evaluations.length} evaluations`);
+      const evaluationsBySession = new Map(evaluations.map(evaluation => [evaluation.sessionId, evaluation]));
+
+      // Scores, trends and skill breakdown on the canonical 1-5 scale, from stored rubric scores only
+      const analytics = performAnalytics.analyze({
+        interviews: completedSessions.map(session => ({ session, evaluation: evaluationsBySession.get(session.id) })),
+        practice: completedPracticeSessions.map(session => ({ session, report: practiceReports.get(session.id) })),
+        prepare: evaluatedPrepareSessions
       });
-      
-      const averageScore = scoreCount > 0 ? totalScore / scoreCount : 0;
+      const averageScore = analytics.averageScore ?? 0;
       
       // Calculate total practice time (in minutes) - Interview + Practice sessions
       let totalPracticeTime = 0;
@@ -595,15 +593,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
           totalPracticeTime += 5;
         }
       });
+      // Add AI Prepare time from the time taken on each answer
+      evaluatedPrepareSessions.forEach(session => {
+        const seconds = session.responses.reduce((sum, response) => sum + (response.timeTaken || 0), 0);
+        totalPracticeTime += Math.floor(seconds / 60);
+      });
       
-      // Get recent sessions (last 5) - combining Interview and Practice sessions
+      // Get recent sessions (last 5) - combining Interview, Practice and AI Prepare sessions
       const allRecentSessions = [
         ...completedSessions.map(session => ({
           id: session.id,
           date: new Date(session.completedAt || session.createdAt || Date.now()).toLocaleDateString('en-GB'),
           scenario: session.scenario?.title || 'Interview Practice',
           sessionType: 'Interview' as const,
-          score: session.overallScore ? (Number(session.overallScore) > 5 ? Number(session.overallScore) / 2 : Number(session.overallScore)) : 0, // Normalize to 5-point scale
+          score: performAnalytics.interviewScore(session, evaluationsBySession.get(session.id)) ?? 0,
           duration: Math.floor((session.duration || 0) / 60), // Convert to minutes
           questionsAnswered: 0, // Would need to fetch messages separately - defaulting to 0 for now
           voiceEnabled: false // Would need to fetch messages separately - defaulting to false for now
@@ -619,24 +622,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
             date: new Date(session.completedAt || session.createdAt || Date.now()).toLocaleDateString('en-GB'),
             scenario: session.interviewStage || 'Practice Session',
             sessionType: 'Practice' as const,
-            score: report ? (Number(report.overallScore) || 0) : 0,
+            score: performAnalytics.practiceScore(report) ?? 0,
             duration: session.totalDuration ? Math.floor(session.totalDuration / 60) : 5, // Convert to minutes or estimate
             questionsAnswered: userMessages.length || session.totalQuestions || 1,
             voiceEnabled: voiceMessages.length > 0
           };
-        })
+        }),
+        ...evaluatedPrepareSessions.map(session => ({
+          id: session.id,
+          date: new Date(session.completedAt || session.updatedAt || session.createdAt || Date.now()).toLocaleDateString('en-GB'),
+          scenario: session.jobPosition || 'AI Prepare Session',
+          sessionType: 'AI Prepare' as const,
+          score: performAnalytics.prepareScore(session) ?? 0,
+          duration: Math.floor(session.responses.reduce((sum, response) => sum + (response.timeTaken || 0), 0) / 60),
+          questionsAnswered: session.responses.length,
+          voiceEnabled: session.responses.some(response => response.inputMethod === 'voice' || response.inputMethod === 'hybrid')
+        }))
       ];
       
       const recentSessions = allRecentSessions
         .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
         .slice(0, 10);
       
-      // Step 2: Get all evaluations in batch to avoid N+1 queries
-      const evaluationStart = Date.now();
-      const sessionIds = completedSessions.slice(0, 15).map(s => s.id); // Get top 15 for all analysis
-      const evaluations = await storage.getBatchEvaluationResults(sessionIds);
-      console.log(`⏱️  getBatchEvaluationResults took: ${Date.now() - evaluationStart}ms, found ${evaluations.length} evaluations`);
-
       // Get aggregated strengths and improvement areas from evaluations AND practice reports
       const strongestSkills = [];
       const improvementAreas = [];
@@ -645,7 +652,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Extract from interview session evaluations
         for (const session of completedSessions.slice(0, 10)) { // Check last 10 sessions
           try {
-            const evaluation = evaluations.find(e => e.sessionId === session.id);
+            const evaluation = evaluationsBySession.get(session.id);
             if (evaluation) {
               if (evaluation.strengths && Array.isArray(evaluation.strengths)) {
                 strongestSkills.push(...evaluation.strengths);
@@ -691,85 +698,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const uniqueStrengths = Array.from(new Set(strongestSkills)).slice(0, 5);
       const uniqueImprovementAreas = Array.from(new Set(improvementAreas)).slice(0, 5);
       
-      // Calculate improvement rate (5-point scale with 3.0 as baseline)
-      const improvementRate = completedCount > 1 ? 
-        ((averageScore - 3.0) / 3.0) * 100 : 0; // Using 3.0 as baseline for 5-point scale
-      
-      // Calculate skill breakdown from actual evaluation data
-      const skillBreakdown: Array<{ skill: string; score: number; trend: 'up' | 'down' | 'stable' }> = [];
-      const skillAverages: Record<string, number[]> = {
-        "Communication Skills": [],
-        "Problem Solving": [],
-        "STAR Structure": [],
-        "Role Alignment": []
-      };
-
-      // Helper function to normalize scores to 5-point scale
-      const normalizeScore = (score: string | number): number => {
-        const numScore = Number(score);
-        if (isNaN(numScore)) return 3.0; // Default to average if invalid
-        
-        // If score is already on 5-point scale (0-5), return as is
-        if (numScore <= 5) return Math.max(1, Math.min(5, numScore));
-        
-        // If score appears to be on 10-point scale (>5), convert to 5-point scale
-        const normalized = numScore / 2;
-        return Math.max(1, Math.min(5, normalized));
-      };
-
-      // Aggregate skill scores from evaluations with proper normalization (use cached evaluations)
-      try {
-        for (const session of completedSessions.slice(0, 15)) {
-          try {
-            const evaluation = evaluations.find(e => e.sessionId === session.id);
-            if (evaluation) {
-              if (evaluation.communicationScore) {
-                const normalized = normalizeScore(evaluation.communicationScore);
-                skillAverages["Communication Skills"].push(normalized);
-              }
-              if (evaluation.problemSolvingScore) {
-                const normalized = normalizeScore(evaluation.problemSolvingScore);
-                skillAverages["Problem Solving"].push(normalized);
-              }
-              if (evaluation.starStructureScore) {
-                const normalized = normalizeScore(evaluation.starStructureScore);
-                skillAverages["STAR Structure"].push(normalized);
-              }
-              if (evaluation.roleAlignmentScore) {
-                const normalized = normalizeScore(evaluation.roleAlignmentScore);
-                skillAverages["Role Alignment"].push(normalized);
-              }
-            }
-          } catch (evalError) {
-            continue;
-          }
-        }
-      } catch (error) {
-        console.log("Could not fetch evaluations for skill breakdown:", error);
-      }
-
-      // Calculate averages and trends for each skill
-      Object.entries(skillAverages).forEach(([skill, scores]) => {
-        if (scores.length > 0) {
-          const rawAvg = scores.reduce((a, b) => a + b, 0) / scores.length;
-          // Ensure final average is within 5-point scale bounds
-          const avg = Math.max(1, Math.min(5, rawAvg));
-          
-          const trend = scores.length > 2 ? 
-            (scores[scores.length - 1] > scores[0] ? 'up' : scores[scores.length - 1] < scores[0] ? 'down' : 'stable') : 
-            'stable';
-          skillBreakdown.push({ skill, score: avg, trend });
-        } else {
-          // Fallback values when no data available (already on 5-point scale)
-          const fallbackScore = averageScore > 0 ? averageScore + (Math.random() - 0.5) * 0.5 : 3.0 + Math.random();
-          skillBreakdown.push({ 
-            skill, 
-            score: Math.max(1, Math.min(5, fallbackScore)), 
-            trend: 'stable' as const 
-          });
-        }
-      });
-      
       // Calculate Practice-specific metrics
       const totalPracticeQuestions = completedPracticeSessions.reduce((sum, session) => {
         const messages = practiceMessages.get(session.id) || [];
@@ -779,20 +707,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // For interview sessions, we'd need to fetch messages separately
         // For now, use a default estimate
         return sum + 10; // Estimate 10 questions per interview session
-      }, 0);
+      }, 0) + evaluatedPrepareSessions.reduce((sum, session) => sum + session.responses.length, 0);
       
       const voiceEnabledSessions = allRecentSessions.filter(session => session.voiceEnabled).length;
       const voiceUsagePercent = allRecentSessions.length > 0 ? Math.round((voiceEnabledSessions / allRecentSessions.length) * 100) : 0;
 
       const dashboardData = {
-        // Combined metrics (Interview + Practice)
+        // Combined metrics (Interview + Practice + AI Prepare)
         totalSessions,
         completedSessions: completedCount,
         totalQuestions: totalPracticeQuestions,
         averageScore,
         averageStarScore: averageScore, // Use same value for STAR score
         totalPracticeTime,
-        improvementRate,
+        improvementRate: analytics.improvementRate ?? 0,
+        scoreTrend: analytics.scoreTrend,
+        scoreScale: analytics.scale,
         voiceUsagePercent,
         strongestSkills: uniqueStrengths.length > 0 ? uniqueStrengths : ['Complete more sessions to identify strengths'],
         improvementAreas: uniqueImprovementAreas.length > 0 ? uniqueImprovementAreas : ['Complete more sessions to identify areas for improvement'],
@@ -800,19 +730,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         performanceTrends: recentSessions.map(session => ({
           date: session.date,
           score: session.score,
-          category: session.scenario
+          category: session.scenario,
+          sessionType: session.sessionType
         })),
-        skillBreakdown,
+        skillBreakdown: analytics.skillBreakdown,
+        delivery: analytics.delivery,
         
         // Module-specific metrics
         interviewSessions: completedSessions.length,
         practiceSessions: completedPracticeSessions.length,
         practiceQuestions: totalPracticeQuestions,
+        aiPrepareSessions: evaluatedPrepareSessions.length,
+        aiPrepareQuestions: evaluatedPrepareSessions.reduce((sum, session) => sum + session.responses.length, 0),
         
         // Session type breakdown for charts
         sessionTypeBreakdown: [
           { type: 'Interview', count: completedSessions.length, percentage: completedCount > 0 ? Math.round((completedSessions.length / completedCount) * 100) : 0 },
-          { type: 'Practice', count: completedPracticeSessions.length, percentage: completedCount > 0 ? Math.round((completedPracticeSessions.length / completedCount) * 100) : 0 }
+          { type: 'Practice', count: completedPracticeSessions.length, percentage: completedCount > 0 ? Math.round((completedPracticeSessions.length / completedCount) * 100) : 0 },
+          { type: 'AI Prepare', count: evaluatedPrepareSessions.length, percentage: completedCount > 0 ? Math.round((evaluatedPrepareSessions.length / completedCount) * 100) : 0 }
         ]
       };
       
@@ -850,20 +785,92 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Share progress (anonymized)
-  app.post('/api/perform/sessions/:sessionId/share', requireAuth, async (req, res) => {
+  // Share progress: anonymized snapshot of the evaluation behind a public link
+  const shareLinkSchema = z.object({
+    expiresInDays: z.number().int().min(1).max(MAX_SHARE_DAYS).nullable().optional()
+  });
+
+  /**
+   * POST /api/perform/sessions/:sessionId/share
+   * Create a public link to an anonymized copy of the evaluation; the URL is only returned here
+   */
+  app.post('/api/perform/sessions/:sessionId/share', requireAuth, validateSessionOwnership, async (req, res) => {
     try {
-      // For now, just return success - in real app would share anonymized data
-      // Future: Generate anonymized progress report for sharing
-      const session = req.session;
-      console.log(`📤 User ${req.user!.id} sharing progress for session ${session.id}`);
-      res.json({ message: "Progress shared successfully" });
+      const validation = shareLinkSchema.safeParse(req.body ?? {});
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid share settings", details: validation.error.issues });
+      }
+
+      const evaluation = await storage.getEvaluationResult(req.params.sessionId);
+      if (!evaluation) {
+        return res.status(404).json({ message: "Evaluation not found" });
+      }
+
+      const { token, link, snapshot } = await sharedReports.createLink(
+        req.user!,
+        req.interviewSession,
+        evaluation,
+        validation.data.expiresInDays ?? undefined
+      );
+
+      console.log(`📤 User ${req.user!.id} shared evaluation for session ${req.params.sessionId} (link ${link.id})`);
+      res.status(201).json({ url: `${getAppBaseUrl()}/shared/${token}`, link, snapshot });
     } catch (error) {
       console.error("Error sharing progress:", error);
       res.status(500).json({ message: "Failed to share progress" });
     }
   });
 
+  /**
+   * GET /api/perform/sessions/:sessionId/shares
+   * The session's share links with their status and view counts
+   */
+  app.get('/api/perform/sessions/:sessionId/shares', requireAuth, validateSessionOwnership, async (req, res) => {
+    try {
+      res.json(await sharedReports.listLinks(req.user!.id, req.params.sessionId));
+    } catch (error) {
+      console.error("Error listing share links:", error);
+      res.status(500).json({ message: "Failed to list share links" });
+    }
+  });
+
+  /**
+   * DELETE /api/perform/shares/:shareId
+   * Revoke a share link so its URL stops working
+   */
+  app.delete('/api/perform/shares/:shareId', requireAuth, async (req, res) => {
+    try {
+      const revoked = await sharedReports.revokeLink(req.params.shareId, req.user!.id);
+      if (!revoked) {
+        return res.status(404).json({ message: "Share link not found or already revoked" });
+      }
+      res.json({ message: "Share link revoked" });
+    } catch (error) {
+      console.error("Error revoking share link:", error);
+      res.status(500).json({ message: "Failed to revoke share link" });
+    }
+  });
+
+  /**
+   * GET /api/public/reports/:token
+   * Read-only shared report; no sign-in needed
+   */
+  app.get('/api/public/reports/:token', sharedReportRateLimit, async (req, res) => {
+    try {
+      res.setHeader('Cache-Control', 'no-store');
+      res.setHeader('X-Robots-Tag', 'noindex');
+
+      const report = await sharedReports.resolve(req.params.token);
+      if (!report) {
+        return res.status(404).json({ message: "This link is invalid, has expired or has been revoked" });
+      }
+      res.json(report);
+    } catch (error) {
+      console.error("Error loading shared report:", error);
+      res.status(500).json({ message: "Failed to load shared report" });
+    }
+  });
+
   // Generate demo data for analytics dashboard
   app.post('/api/perform/generate-demo-data', requireAuth, async (req, res) => {
     try {
@@ -1795,6 +1802,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   app.use('/api/prepare-ai', requireAuthWithBypass, prepareAIRouter);
   app.use('/api/practice', requireAuthWithBypass, practiceRouter);
+  app.use('/api/job-descriptions', requireAuthWithBypass, jobDescriptionsRouter);
+  app.use('/api/admin', requireAuthWithBypass, requireAdmin, adminRouter);
   
   // Voice services routes
   app.use('/api/voice-services', voiceServicesRouter);
@@ -2587,6 +2596,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   const prepareWebSocketService = new PrepareWebSocketService(httpServer);
   
   console.log("🔌 WebSocket service initialized for AI Prepare Module");
+
+  // Delete recorded voice answers once they pass their owner's retention period
+  const { voiceRecordings } = await import("./services/voice-recording-service");
+  voiceRecordings.startRetentionSweep();
   
   return httpServer;
 }
@@ -0,0 +1,476 @@
+// Admin API Routes
+// Operator endpoints; mounted behind requireAuth and requireAdmin
+
+import { Router } from "express";
+import { z } from "zod";
+import { rateLimiter } from "../services/rate-limiter.js";
+import { storage } from "../storage.js";
+import { TranslationService } from "../services/translation-service.js";
+import { aiUsage } from "../services/ai-usage-service.js";
+import { errorLogger, MAX_EXPORT_ROWS } from "../services/error-logger.js";
+
+const router = Router();
+
+const unlockSchema = z.object({
+  email: z.string().email().optional(),
+  ip: z.string().min(1).optional(),
+}).refine((data) => data.email || data.ip, {
+  message: "Provide an email or an IP address to unlock",
+});
+
+const translationQualities = ['machine', 'approved', 'corrected', 'flagged'] as const;
+
+const translationListSchema = z.object({
+  language: z.string().min(2).max(10).optional(),
+  quality: z.enum(translationQualities).optional(),
+  pinned: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+  search: z.string().min(1).max(200).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const translationCreateSchema = z.object({
+  sourceText: z.string().trim().min(1),
+  targetLanguage: z.string().min(2).max(10),
+  translatedText: z.string().trim().min(1),
+  pinned: z.boolean().default(true),
+});
+
+const translationUpdateSchema = z.object({
+  translatedText: z.string().trim().min(1).optional(),
+  quality: z.enum(translationQualities).optional(),
+  pinned: z.boolean().optional(),
+}).refine((data) => data.translatedText !== undefined || data.quality !== undefined || data.pinned !== undefined, {
+  message: "Provide a corrected translation, a quality flag or a pinned value",
+}).refine((data) => !(data.pinned && data.quality === 'flagged'), {
+  message: "A flagged translation cannot be pinned",
+});
+
+const aiUsageReportSchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+}).refine((data) => !data.from || !data.to || data.from < data.to, {
+  message: "from must be before to",
+});
+
+const errorFiltersSchema = z.object({
+  component: z.string().min(1).max(50).optional(),
+  operation: z.string().min(1).max(100).optional(),
+  errorType: z.string().min(1).max(100).optional(),
+  userId: z.string().min(1).optional(),
+  sessionId: z.string().min(1).optional(),
+  correlationId: z.string().min(1).max(64).optional(),
+  fallbackUsed: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+  search: z.string().min(1).max(200).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+const errorListSchema = errorFiltersSchema.extend({
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const errorExportSchema = errorFiltersSchema.extend({
+  format: z.enum(['json', 'csv']).default('json'),
+});
+
+const errorReportSchema = z.object({
+  hours: z.coerce.number().int().min(1).max(24 * 90).default(24),
+});
+
+const errorCleanupSchema = z.object({
+  olderThanHours: z.coerce.number().int().min(1),
+});
+
+// ================================
+// LOGIN LOCKOUT ENDPOINTS
+// ================================
+
+/**
+ * GET /rate-limits/lockouts
+ * List accounts and IPs that are currently locked out
+ */
+router.get('/rate-limits/lockouts', async (req, res) => {
+  try {
+    const lockouts = await rateLimiter.getLockouts();
+
+    res.json({
+      success: true,
+      data: lockouts
+    });
+
+  } catch (error) {
+    console.error('❌ List lockouts error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve lockouts',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * POST /rate-limits/unlock
+ * Clear failed login attempts for an account and/or IP so it can sign in immediately
+ */
+router.post('/rate-limits/unlock', async (req, res) => {
+  try {
+    const validation = unlockSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid unlock request',
+        details: validation.error.issues
+      });
+    }
+
+    const { email, ip } = validation.data;
+
+    const unlocked = {
+      email: email ? await rateLimiter.unlockAccount(email) : false,
+      ip: ip ? await rateLimiter.unlockIp(ip) : false,
+    };
+
+    console.log(`🔓 Admin ${req.user?.id} unlocked login:`, { email, ip, unlocked });
+
+    res.json({
+      success: true,
+      data: unlocked,
+      message: unlocked.email || unlocked.ip ? 'Lockout cleared' : 'No lockout found'
+    });
+
+  } catch (error) {
+    console.error('❌ Unlock error:', error);
+    res.status(500).json({
+      error: 'Failed to clear lockout',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// ================================
+// TRANSLATION MEMORY ENDPOINTS
+// ================================
+
+/**
+ * GET /translations
+ * Browse the translation memory, most used first, filtered by language, quality, pinned or text
+ */
+router.get('/translations', async (req, res) => {
+  try {
+    const validation = translationListSchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid translation filters',
+        details: validation.error.issues
+      });
+    }
+
+    const { language, ...filters } = validation.data;
+    const { entries, total } = await storage.listTranslationMemory({ ...filters, targetLanguage: language });
+
+    res.json({
+      success: true,
+      data: entries,
+      total
+    });
+
+  } catch (error) {
+    console.error('❌ List translations error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve translations',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * POST /translations
+ * Add (or replace) the human-approved translation for a source text before the AI ever sees it
+ */
+router.post('/translations', async (req, res) => {
+  try {
+    const validation = translationCreateSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid translation',
+        details: validation.error.issues
+      });
+    }
+
+    const { sourceText, targetLanguage, translatedText, pinned } = validation.data;
+    const entry = await storage.upsertTranslationMemoryEntry({
+      sourceHash: TranslationService.hashSource(sourceText),
+      sourceText,
+      targetLanguage,
+      translatedText,
+      quality: 'approved',
+      pinned,
+      translatedBy: 'admin',
+      reviewedBy: req.user?.id ?? null,
+      reviewedAt: new Date()
+    });
+
+    console.log(`🌐 Admin ${req.user?.id} saved ${targetLanguage} translation ${entry?.id}`);
+
+    res.status(201).json({
+      success: true,
+      data: entry
+    });
+
+  } catch (error) {
+    console.error('❌ Create translation error:', error);
+    res.status(500).json({
+      error: 'Failed to save translation',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * PATCH /translations/:id
+ * Review a stored translation: correct its wording, set its quality flag and/or pin it
+ */
+router.patch('/translations/:id', async (req, res) => {
+  try {
+    const validation = translationUpdateSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid translation update',
+        details: validation.error.issues
+      });
+    }
+
+    const existing = await storage.getTranslationMemoryEntryById(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'Translation not found' });
+    }
+
+    const { translatedText, quality, pinned } = validation.data;
+    const corrected = translatedText !== undefined && translatedText !== existing.translatedText;
+
+    const entry = await storage.updateTranslationMemoryEntry(existing.id, {
+      ...(corrected && { translatedText, translatedBy: 'admin' }),
+      quality: quality ?? (corrected ? 'corrected' : existing.quality),
+      // Flagging an entry releases any pin so the AI can replace it
+      pinned: quality === 'flagged' ? false : pinned ?? existing.pinned,
+      reviewedBy: req.user?.id ?? null,
+      reviewedAt: new Date()
+    });
+
+    console.log(`🌐 Admin ${req.user?.id} reviewed translation ${existing.id}:`, { corrected, quality: entry?.quality, pinned: entry?.pinned });
+
+    res.json({
+      success: true,
+      data: entry
+    });
+
+  } catch (error) {
+    console.error('❌ Update translation error:', error);
+    res.status(500).json({
+      error: 'Failed to update translation',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// ================================
+// AI USAGE ENDPOINTS
+// ================================
+
+/**
+ * GET /ai-usage
+ * Estimated AI spend by provider, feature (domain), day and top users; defaults to the last 30 days
+ */
+router.get('/ai-usage', async (req, res) => {
+  try {
+    const validation = aiUsageReportSchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid report range',
+        details: validation.error.issues
+      });
+    }
+
+    const to = validation.data.to ?? new Date();
+    const from = validation.data.from ?? new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+    const report = await aiUsage.getSpendReport(from, to);
+
+    res.json({
+      success: true,
+      data: {
+        from,
+        to,
+        quotas: aiUsage.getQuotas(),
+        ...report
+      }
+    });
+
+  } catch (error) {
+    console.error('❌ AI usage report error:', error);
+    res.status(500).json({
+      error: 'Failed to build AI usage report',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// ================================
+// ERROR LOG ENDPOINTS
+// ================================
+
+/**
+ * GET /errors
+ * Browse persisted errors, newest first, filtered by component, operation, type, user, session, fallback, text or time range
+ */
+router.get('/errors', async (req, res) => {
+  try {
+    const validation = errorListSchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid error filters',
+        details: validation.error.issues
+      });
+    }
+
+    const { entries, total } = await storage.listErrorLogs(validation.data);
+
+    res.json({
+      success: true,
+      data: entries,
+      total
+    });
+
+  } catch (error) {
+    console.error('❌ List errors error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve errors',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /errors/summary
+ * Error counts by component, error signature and day for the same filters as GET /errors
+ */
+router.get('/errors/summary', async (req, res) => {
+  try {
+    const validation = errorFiltersSchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid error filters',
+        details: validation.error.issues
+      });
+    }
+
+    const summary = await storage.getErrorLogSummary(validation.data);
+
+    res.json({
+      success: true,
+      data: summary
+    });
+
+  } catch (error) {
+    console.error('❌ Error summary error:', error);
+    res.status(500).json({
+      error: 'Failed to summarize errors',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /errors/report
+ * Fallback report (component health, most common errors, recommendations) over the last `hours`
+ */
+router.get('/errors/report', async (req, res) => {
+  try {
+    const validation = errorReportSchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid report window',
+        details: validation.error.issues
+      });
+    }
+
+    const report = await errorLogger.generateFallbackReport(validation.data.hours);
+
+    res.json({
+      success: true,
+      data: report
+    });
+
+  } catch (error) {
+    console.error('❌ Error report error:', error);
+    res.status(500).json({
+      error: 'Failed to build error report',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /errors/export
+ * Download matching errors as JSON or CSV (newest first, capped at MAX_EXPORT_ROWS)
+ */
+router.get('/errors/export', async (req, res) => {
+  try {
+    const validation = errorExportSchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid export request',
+        details: validation.error.issues
+      });
+    }
+
+    const { format, ...filters } = validation.data;
+    const body = await errorLogger.exportErrors(format, filters);
+    const filename = `error-log-${new Date().toISOString().slice(0, 10)}.${format}`;
+
+    res.setHeader('Content-Type', format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.setHeader('X-Max-Rows', String(MAX_EXPORT_ROWS));
+    res.send(body);
+
+  } catch (error) {
+    console.error('❌ Export errors error:', error);
+    res.status(500).json({
+      error: 'Failed to export errors',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * DELETE /errors
+ * Purge errors older than `olderThanHours`
+ */
+router.delete('/errors', async (req, res) => {
+  try {
+    const validation = errorCleanupSchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid cleanup request',
+        details: validation.error.issues
+      });
+    }
+
+    const deleted = await errorLogger.clearOldErrors(validation.data.olderThanHours);
+
+    console.log(`🧹 Admin ${req.user?.id} purged ${deleted} errors older than ${validation.data.olderThanHours}h`);
+
+    res.json({
+      success: true,
+      data: { deleted }
+    });
+
+  } catch (error) {
+    console.error('❌ Purge errors error:', error);
+    res.status(500).json({
+      error: 'Failed to purge errors',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,240 @@
+// Job Description Library API Routes
+// Upload, list, download and delete job descriptions used to tailor Prepare and Practice sessions
+
+import { Router, type RequestHandler } from "express";
+import multer from "multer";
+import { storage } from "../storage.js";
+import { jobDescriptionService } from "../services/job-description-service.js";
+import type { JobDescription, JobDescriptionSummary } from "@shared/schema.js";
+
+const router = Router();
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB limit
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_FILE_SIZE },
+  fileFilter: (req, file, cb) => {
+    if (jobDescriptionService.resolveFileType(file.mimetype, file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Unsupported file type. Please upload a PDF, DOCX or TXT file.'));
+    }
+  }
+});
+
+// Surface multer failures as 400s instead of falling through to the global error handler
+const uploadSingle: RequestHandler = (req, res, next) => {
+  upload.single('jobDescription')(req, res, (err: unknown) => {
+    if (err instanceof multer.MulterError && err.code === 'LIMIT_FILE_SIZE') {
+      return res.status(400).json({ error: 'File is too large. Maximum size is 10MB.' });
+    }
+    if (err) {
+      return res.status(400).json({ error: err instanceof Error ? err.message : 'Invalid upload' });
+    }
+    next();
+  });
+};
+
+function toSummary(jobDescription: JobDescription): JobDescriptionSummary {
+  const { storagePath, ...rest } = jobDescription;
+  return {
+    ...rest,
+    fileUrl: `/api/job-descriptions/${jobDescription.id}/download`,
+  };
+}
+
+// ================================
+// JOB DESCRIPTION ENDPOINTS
+// ================================
+
+/**
+ * POST /
+ * Upload a job description file, extract its text and store it in the user's library
+ */
+router.post('/', uploadSingle, async (req, res) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const file = req.file;
+    if (!file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    const fileType = jobDescriptionService.resolveFileType(file.mimetype, file.originalname);
+    if (!fileType) {
+      return res.status(400).json({ error: 'Unsupported file type. Please upload a PDF, DOCX or TXT file.' });
+    }
+
+    let content: string;
+    try {
+      content = await jobDescriptionService.extractText(file.buffer, fileType);
+    } catch (error) {
+      console.error('❌ Job description text extraction error:', error);
+      return res.status(422).json({ error: 'Could not read text from this file. Please check that it is not corrupted or password protected.' });
+    }
+
+    if (!content) {
+      return res.status(422).json({ error: 'No readable text was found in this file. Scanned documents are not supported.' });
+    }
+
+    const sections = jobDescriptionService.parseSections(content);
+    const storagePath = await jobDescriptionService.saveFile(req.user.id, file.originalname, file.buffer);
+
+    try {
+      const jobDescription = await storage.createJobDescription({
+        userId: req.user.id,
+        fileName: file.originalname,
+        mimeType: file.mimetype,
+        fileSize: file.size,
+        storagePath,
+        content,
+        ...sections,
+      });
+
+      res.status(201).json(toSummary(jobDescription));
+    } catch (error) {
+      await jobDescriptionService.deleteFile(storagePath);
+      throw error;
+    }
+
+  } catch (error) {
+    console.error('❌ Upload job description error:', error);
+    res.status(500).json({
+      error: 'Failed to upload job description',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /user/:userId
+ * List the job descriptions in a user's library, newest first
+ */
+router.get('/user/:userId', async (req, res) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    if (req.params.userId !== req.user.id) {
+      return res.status(403).json({ error: 'Access denied to these job descriptions' });
+    }
+
+    const jobDescriptions = await storage.getUserJobDescriptions(req.user.id);
+    res.json(jobDescriptions.map(toSummary));
+
+  } catch (error) {
+    console.error('❌ List job descriptions error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve job descriptions',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /:id
+ * Return a single job description with its extracted content
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const jobDescription = await storage.getJobDescription(req.params.id);
+    if (!jobDescription) {
+      return res.status(404).json({ error: 'Job description not found' });
+    }
+
+    if (jobDescription.userId !== req.user.id) {
+      return res.status(403).json({ error: 'Access denied to this job description' });
+    }
+
+    res.json(toSummary(jobDescription));
+
+  } catch (error) {
+    console.error('❌ Get job description error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve job description',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /:id/download
+ * Download the original uploaded file
+ */
+router.get('/:id/download', async (req, res) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const jobDescription = await storage.getJobDescription(req.params.id);
+    if (!jobDescription) {
+      return res.status(404).json({ error: 'Job description not found' });
+    }
+
+    if (jobDescription.userId !== req.user.id) {
+      return res.status(403).json({ error: 'Access denied to this job description' });
+    }
+
+    res.type(jobDescription.mimeType);
+    res.download(jobDescription.storagePath, jobDescription.fileName, (err) => {
+      if (err && !res.headersSent) {
+        console.error('❌ Download job description error:', err);
+        res.status(404).json({ error: 'Job description file is no longer available' });
+      }
+    });
+
+  } catch (error) {
+    console.error('❌ Download job description error:', error);
+    res.status(500).json({
+      error: 'Failed to download job description',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * DELETE /:id
+ * Remove a job description and its file. Linked sessions keep running without it.
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const jobDescription = await storage.getJobDescription(req.params.id);
+    if (!jobDescription) {
+      return res.status(404).json({ error: 'Job description not found' });
+    }
+
+    if (jobDescription.userId !== req.user.id) {
+      return res.status(403).json({ error: 'Access denied to this job description' });
+    }
+
+    await storage.deleteJobDescription(jobDescription.id);
+    await jobDescriptionService.deleteFile(jobDescription.storagePath);
+
+    res.json({
+      success: true,
+      message: 'Job description deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('❌ Delete job description error:', error);
+    res.status(500).json({
+      error: 'Failed to delete job description',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+export default router;
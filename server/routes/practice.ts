@@ -1,16 +1,25 @@
 // Practice Module API Routes
 // RESTful endpoints for interactive practice interview sessions
 
-import { Router } from "express";
+import { Router, type RequestHandler } from "express";
 import { z } from "zod";
 import { storage } from "../storage.js";
+import { aiQuestionRateLimit, aiResponseRateLimit } from "../middleware/rate-limit.js";
+import { aiQuota } from "../middleware/ai-quota.js";
 import { 
   insertPracticeSessionSchema, 
   insertPracticeMessageSchema,
-  insertPracticeReportSchema 
+  insertPracticeReportSchema,
+  type FollowUpExchange,
+  type PracticeSessionWithMessages,
+  type PracticeQuestionEvaluationSummary
 } from "@shared/schema.js";
 import { AIQuestionGenerator } from "../services/ai-question-generator.js";
 import { ResponseEvaluationService } from "../services/response-evaluation-service.js";
+import { jobDescriptionService, type JobDescriptionContext } from "../services/job-description-service.js";
+import { practiceReportPdf } from "../services/practice-report-pdf-service.js";
+import { transcriptExport, TRANSCRIPT_FORMATS } from "../services/transcript-export-service.js";
+import { followUps, MAX_FOLLOW_UPS_PER_QUESTION } from "../services/follow-up-service.js";
 
 const router = Router();
 const questionGenerator = new AIQuestionGenerator();
@@ -25,6 +34,8 @@ const createSessionSchema = z.object({
   difficultyLevel: z.enum(["beginner", "intermediate", "advanced"]).default("intermediate"),
   preferredLanguage: z.string().default("en"),
   totalQuestions: z.number().min(1).max(30).default(20),
+  jobDescriptionId: z.string().uuid().nullable().optional(),
+  followUpsPerQuestion: z.number().int().min(0).max(MAX_FOLLOW_UPS_PER_QUESTION).optional(),
 });
 
 const userResponseSchema = z.object({
@@ -34,6 +45,38 @@ const userResponseSchema = z.object({
   questionNumber: z.number().min(1),
 });
 
+// Load the job description attached to a session, if it still exists
+async function loadJobDescriptionContext(jobDescriptionId: string | null): Promise<JobDescriptionContext | undefined> {
+  if (!jobDescriptionId) {
+    return undefined;
+  }
+  const jobDescription = await storage.getJobDescription(jobDescriptionId);
+  return jobDescription ? jobDescriptionService.toContext(jobDescription) : undefined;
+}
+
+/**
+ * A probe for the answer to the question just asked when its action or result is weak, within the session's follow-up limit.
+ * Unanswered follow-ups are never stacked.
+ */
+async function nextFollowUp(session: PracticeSessionWithMessages, questionNumber: number): Promise<FollowUpExchange | null> {
+  const limit = followUps.limit(session.followUpsPerQuestion);
+  const pair = followUps.questionAnswerPairs(session.messages).find(candidate => candidate.questionNumber === questionNumber);
+  if (!pair || pair.followUps.length >= limit || followUps.pending(pair.followUps)) {
+    return null;
+  }
+
+  // STAR scores alone decide the probe; the full rubric runs once, when the session completes
+  const language = session.preferredLanguage || 'en';
+  const starScores = await evaluationService.scoreStar({
+    questionText: pair.questionText,
+    responseText: pair.responseText,
+    responseLanguage: language,
+    followUps: pair.followUps
+  });
+
+  return followUps.nextProbe(starScores, pair.followUps, limit, language);
+}
+
 // ================================
 // PRACTICE SESSION ENDPOINTS
 // ================================
@@ -56,6 +99,13 @@ router.post('/sessions', async (req, res) => {
       });
     }
 
+    if (validation.data.jobDescriptionId) {
+      const jobDescription = await storage.getJobDescription(validation.data.jobDescriptionId);
+      if (!jobDescription || jobDescription.userId !== req.user.id) {
+        return res.status(400).json({ error: 'Job description not found' });
+      }
+    }
+
     const sessionData = {
       ...validation.data,
       userId: req.user.id,
@@ -213,7 +263,7 @@ router.post('/sessions/:id/user-response', async (req, res) => {
  * POST /sessions/:id/ai-question
  * Generate next AI question for the session
  */
-router.post('/sessions/:id/ai-question', async (req, res) => {
+router.post('/sessions/:id/ai-question', aiQuestionRateLimit, aiQuota, async (req, res) => {
   try {
     if (!req.user?.id) {
       return res.status(401).json({ error: 'User not authenticated' });
@@ -233,10 +283,40 @@ router.post('/sessions/:id/ai-question', async (req, res) => {
       return res.status(400).json({ error: 'Session is not active' });
     }
 
-    // Check if we've reached the question limit
     const currentQuestionNumber = session.currentQuestionNumber || 1;
     const totalQuestions = session.totalQuestions || 10;
-    
+    const jobDescription = await loadJobDescriptionContext(session.jobDescriptionId);
+
+    // Probe a weak action or result before moving on to the next question
+    const askedQuestionNumber = currentQuestionNumber - 1;
+    const followUp = askedQuestionNumber >= 1
+      ? await nextFollowUp(session, askedQuestionNumber)
+      : null;
+
+    if (followUp) {
+      const message = await storage.addPracticeMessage({
+        sessionId: req.params.id,
+        messageType: 'ai_follow_up' as const,
+        content: followUp.question,
+        questionNumber: askedQuestionNumber,
+        language: session.preferredLanguage || 'en',
+        probedElement: followUp.element,
+      });
+
+      return res.json({
+        success: true,
+        data: {
+          message,
+          question: { questionText: followUp.question },
+          questionNumber: askedQuestionNumber,
+          remainingQuestions: totalQuestions - askedQuestionNumber,
+          followUp: { element: followUp.element },
+        },
+        message: 'Follow-up question asked'
+      });
+    }
+
+    // Check if we've reached the question limit
     if (currentQuestionNumber > totalQuestions) {
       return res.status(400).json({ 
         error: 'Maximum questions reached',
@@ -257,6 +337,7 @@ router.post('/sessions/:id/ai-question', async (req, res) => {
       questionCategories: ['general'],
       questionNumber: currentQuestionNumber,
       adaptiveDifficulty: true,
+      jobDescription,
     };
 
     const generatedQuestion = await questionGenerator.generateQuestion(questionRequest);
@@ -305,7 +386,7 @@ router.post('/sessions/:id/ai-question', async (req, res) => {
  * POST /sessions/:id/complete
  * Complete session and generate evaluation report
  */
-router.post('/sessions/:id/complete', async (req, res) => {
+router.post('/sessions/:id/complete', aiResponseRateLimit, aiQuota, async (req, res) => {
   try {
     if (!req.user?.id) {
       return res.status(401).json({ error: 'User not authenticated' });
@@ -335,10 +416,10 @@ router.post('/sessions/:id/complete', async (req, res) => {
     const endTime = new Date();
     const duration = Math.floor((endTime.getTime() - startTime.getTime()) / 1000);
 
-    // Get user responses for evaluation
-    const userMessages = session.messages.filter(m => m.messageType === 'user_response');
+    // Pair each answer with the question it responded to
+    const questionAnswerPairs = followUps.questionAnswerPairs(session.messages);
     
-    if (userMessages.length === 0) {
+    if (questionAnswerPairs.length === 0) {
       return res.status(400).json({ 
         error: 'No responses to evaluate',
         message: 'Session must have at least one user response to complete'
@@ -346,14 +427,16 @@ router.post('/sessions/:id/complete', async (req, res) => {
     }
 
     // Generate comprehensive evaluation using enhanced Response Evaluation Service
-    console.log(`📋 Starting comprehensive evaluation for ${userMessages.length} responses`);
+    console.log(`📋 Starting comprehensive evaluation for ${questionAnswerPairs.length} responses`);
     
     // Prepare responses for evaluation
-    const responsesToEvaluate = userMessages.map((msg, index) => ({
-      questionText: session.scenarioId || `Interview question ${msg.questionNumber || index + 1}`,
-      responseText: msg.content,
-      questionCategory: session.scenarioId || 'behavioral',
-      questionType: 'behavioral'
+    const responsesToEvaluate = questionAnswerPairs.map(pair => ({
+      questionText: pair.questionText,
+      responseText: pair.responseText,
+      questionCategory: 'behavioral',
+      questionType: 'behavioral',
+      questionNumber: pair.questionNumber,
+      followUps: pair.followUps
     }));
     
     // Session context for evaluation
@@ -362,7 +445,8 @@ router.post('/sessions/:id/complete', async (req, res) => {
       companyName: session.companyName || undefined,
       experienceLevel: session.difficultyLevel || 'intermediate',
       responseLanguage: session.preferredLanguage || 'en',
-      culturalContext: session.preferredLanguage && session.preferredLanguage !== 'en' ? 'ASEAN' : undefined
+      culturalContext: session.preferredLanguage && session.preferredLanguage !== 'en' ? 'ASEAN' : undefined,
+      jobDescription: await loadJobDescriptionContext(session.jobDescriptionId)
     };
 
     let evaluationResults;
@@ -371,6 +455,7 @@ router.post('/sessions/:id/complete', async (req, res) => {
     let weaknesses: string[];
     let improvements: string[];
     let detailedFeedback: string;
+    let questionEvaluations: PracticeQuestionEvaluationSummary[] = [];
     
     // 9-Criteria scores
     let relevanceScore: number;
@@ -413,6 +498,17 @@ router.post('/sessions/:id/complete', async (req, res) => {
       
       // Generate summary feedback
       const summary = evaluationResults.sessionSummary;
+      questionEvaluations = evaluationResults.responseEvaluations.map((evaluation, index) => ({
+        questionNumber: questionAnswerPairs[index].questionNumber,
+        questionText: questionAnswerPairs[index].questionText,
+        responseText: questionAnswerPairs[index].responseText,
+        followUps: questionAnswerPairs[index].followUps,
+        weightedOverallScore: evaluation.weightedOverallScore,
+        overallRating: evaluation.overallRating,
+        strengths: evaluation.detailedFeedback.strengths.slice(0, 3),
+        suggestions: evaluation.detailedFeedback.suggestions.slice(0, 3),
+      }));
+      
       detailedFeedback = `Session completed with ${summary.totalResponses} responses. Overall performance: ${overallRating} (${overallScore}/5.0). ${summary.keyStrengths.length > 0 ? 'Key strengths: ' + summary.keyStrengths.join(', ') + '. ' : ''}${summary.criticalImprovements.length > 0 ? 'Focus areas: ' + summary.criticalImprovements.join(', ') + '.' : ''}`;
       
       console.log(`✅ Comprehensive evaluation completed: ${overallRating} (${overallScore}/5.0)`);
@@ -436,7 +532,7 @@ router.post('/sessions/:id/complete', async (req, res) => {
       strengths = ["Completed practice session", "Demonstrated engagement with questions"];
       weaknesses = ["Technical evaluation unavailable"];
       improvements = ["Continue practicing interview skills", "Focus on structured STAR responses", "Include specific metrics in examples"];
-      detailedFeedback = `Session completed with ${userMessages.length} responses. Technical evaluation temporarily unavailable, but you've demonstrated good engagement with the interview practice.`;
+      detailedFeedback = `Session completed with ${questionAnswerPairs.length} responses. Technical evaluation temporarily unavailable, but you've demonstrated good engagement with the interview practice.`;
     }
 
     // Create comprehensive evaluation report with 9-criteria scores
@@ -473,7 +569,7 @@ router.post('/sessions/:id/complete', async (req, res) => {
       
       // Session statistics and insights
       keyInsights: JSON.stringify([
-        `Completed ${userMessages.length} questions in ${Math.floor(duration / 60)} minutes`,
+        `Completed ${questionAnswerPairs.length} questions in ${Math.floor(duration / 60)} minutes`,
         `Overall performance: ${overallRating} (${overallScore}/5.0)`,
         `Pass threshold: ${overallScore >= 3.5 ? '✅ ACHIEVED' : '❌ Not reached (need ≥3.5)'}`,
         ...(evaluationResults?.sessionSummary.keyStrengths.slice(0, 2) || [])
@@ -490,17 +586,54 @@ router.post('/sessions/:id/complete', async (req, res) => {
         "Consider role-specific interview preparation"
       ]),
       
+      // Job description requirements covered and missed, per answer
+      requirementCoverage: evaluationResults?.requirementCoverage ?? null,
+      
+      // Per-question results, paired by question number
+      questionEvaluations,
+      
       // Enhanced metadata
       evaluatedBy: "comprehensive-ai",
       evaluationCompleted: true,
       criteriaVersion: "9-criteria-v1.0",
       sessionLanguage: sessionContext.responseLanguage,
-      totalResponses: userMessages.length,
+      totalResponses: questionAnswerPairs.length,
       sessionDuration: duration
     };
 
     const report = await storage.createPracticeReport(reportData);
 
+    // Keep full per-answer results for drill-down
+    if (evaluationResults) {
+      await storage.createPracticeResponseEvaluations(
+        evaluationResults.responseEvaluations.map((evaluation, index) => ({
+          sessionId: req.params.id,
+          messageId: questionAnswerPairs[index].messageId,
+          questionNumber: questionAnswerPairs[index].questionNumber,
+          questionText: questionAnswerPairs[index].questionText,
+          responseText: questionAnswerPairs[index].responseText,
+          relevanceScore: evaluation.relevanceScore.toString(),
+          starStructureScore: evaluation.starStructureScore.toString(),
+          specificEvidenceScore: evaluation.specificEvidenceScore.toString(),
+          roleAlignmentScore: evaluation.roleAlignmentScore.toString(),
+          outcomeOrientedScore: evaluation.outcomeOrientedScore.toString(),
+          communicationScore: evaluation.communicationScore.toString(),
+          problemSolvingScore: evaluation.problemSolvingScore.toString(),
+          culturalFitScore: evaluation.culturalFitScore.toString(),
+          learningAgilityScore: evaluation.learningAgilityScore.toString(),
+          weightedOverallScore: evaluation.weightedOverallScore.toString(),
+          overallRating: evaluation.overallRating,
+          starScores: evaluation.starScores,
+          detailedFeedback: evaluation.detailedFeedback,
+          modelAnswer: evaluation.modelAnswer,
+          completenessScore: evaluation.completenessScore.toString(),
+          requirementCoverage: evaluation.requirementCoverage ?? null,
+          followUps: questionAnswerPairs[index].followUps,
+          evaluatedBy: evaluation.evaluatedBy,
+        }))
+      );
+    }
+
     // Update session as completed
     await storage.updatePracticeSession(req.params.id, {
       status: 'completed',
@@ -567,6 +700,138 @@ router.get('/sessions/:id/report', async (req, res) => {
   }
 });
 
+/**
+ * GET /sessions/:id/report.pdf
+ * Download the evaluation report and full transcript as a printable PDF in the session language
+ */
+router.get('/sessions/:id/report.pdf', async (req, res) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    // Verify session ownership
+    const session = await storage.getPracticeSession(req.params.id);
+    if (!session) {
+      return res.status(404).json({ error: 'Practice session not found' });
+    }
+    if (session.userId !== req.user.id) {
+      return res.status(403).json({ error: 'Access denied to this session' });
+    }
+
+    if (!session.report) {
+      return res.status(404).json({ 
+        error: 'Report not found',
+        message: 'Complete the session first to generate a report'
+      });
+    }
+
+    const pdf = await practiceReportPdf.render({ session, report: session.report, messages: session.messages });
+    const date = (session.completedAt || session.createdAt || new Date()).toISOString().slice(0, 10);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="practice-report-${date}.pdf"`);
+    res.setHeader('Content-Length', pdf.length);
+    res.send(pdf);
+
+  } catch (error) {
+    console.error('❌ Render practice report PDF error:', error);
+    res.status(500).json({
+      error: 'Failed to render report',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+const transcriptQuerySchema = z.object({
+  format: z.enum(TRANSCRIPT_FORMATS).default('txt'),
+  translate: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+});
+
+// Translating calls the AI, so only then does the request count against the user's quota
+const quotaWhenTranslating: RequestHandler = (req, res, next) =>
+  req.query.translate === 'true' ? aiQuota(req, res, next) : next();
+
+/**
+ * GET /sessions/:sessionId/transcript?format=json|txt|md|docx&translate=true
+ * Download the ordered Q&A transcript; `translate` adds an English translation for non-English sessions
+ */
+router.get('/sessions/:sessionId/transcript', quotaWhenTranslating, async (req, res) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const validation = transcriptQuerySchema.safeParse(req.query);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid transcript options',
+        details: validation.error.issues
+      });
+    }
+
+    // Verify session ownership
+    const session = await storage.getPracticeSession(req.params.sessionId);
+    if (!session) {
+      return res.status(404).json({ error: 'Practice session not found' });
+    }
+    if (session.userId !== req.user.id) {
+      return res.status(403).json({ error: 'Access denied to this session' });
+    }
+
+    const { format, translate } = validation.data;
+    const transcript = await transcriptExport.build(session, session.messages, { translate });
+    const file = await transcriptExport.render(transcript, format);
+    const date = (session.completedAt || session.createdAt || new Date()).toISOString().slice(0, 10);
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="interview-transcript-${date}.${file.extension}"`);
+    res.send(file.body);
+
+  } catch (error) {
+    console.error('❌ Export practice transcript error:', error);
+    res.status(500).json({
+      error: 'Failed to export transcript',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /sessions/:id/evaluations
+ * Return the per-answer evaluations for a completed session, in question order
+ */
+router.get('/sessions/:id/evaluations', async (req, res) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    // Verify session ownership
+    const session = await storage.getPracticeSession(req.params.id);
+    if (!session) {
+      return res.status(404).json({ error: 'Practice session not found' });
+    }
+    if (session.userId !== req.user.id) {
+      return res.status(403).json({ error: 'Access denied to this session' });
+    }
+
+    const evaluations = await storage.getPracticeResponseEvaluations(req.params.id);
+
+    res.json({
+      success: true,
+      data: evaluations
+    });
+
+  } catch (error) {
+    console.error('❌ Get practice evaluations error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve evaluations',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // ================================
 // ANALYTICS ENDPOINTS
 // ================================
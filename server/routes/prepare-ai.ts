@@ -4,10 +4,18 @@
 import { Router } from "express";
 import { z } from "zod";
 import { PrepareAIService } from "../services/prepare-ai-service.js";
+import { FreeVoiceService } from "../services/free-voice-service.js";
+import { voiceRecordings, parseByteRange, MAX_RETENTION_DAYS } from "../services/voice-recording-service.js";
+import { MAX_FOLLOW_UPS_PER_QUESTION } from "../services/follow-up-service.js";
+import { storage } from "../storage.js";
+import type { AiPrepareQuestion } from "@shared/schema.js";
+import { aiQuestionRateLimit, aiResponseRateLimit, voiceSynthesisRateLimit } from "../middleware/rate-limit.js";
+import { aiQuota } from "../middleware/ai-quota.js";
 import { emitToSession } from "../services/realtime-gateway.js";
 
 const router = Router();
 const prepareAIService = new PrepareAIService();
+const voiceService = new FreeVoiceService();
 
 // Validation schemas
 const createSessionSchema = z.object({
@@ -23,10 +31,13 @@ const createSessionSchema = z.object({
   experienceLevel: z.enum(["entry", "intermediate", "senior", "expert"]),
   preferredLanguage: z.string().default("en"),
   voiceEnabled: z.boolean().default(true),
+  preferredVoice: z.string().max(50).optional(),
   speechRate: z.string().default("1.0"),
   difficultyLevel: z.enum(["beginner", "intermediate", "advanced", "adaptive"]).default("adaptive"),
   focusAreas: z.array(z.string()).default(["behavioral", "situational"]),
-  questionCategories: z.array(z.string()).default(["general"])
+  questionCategories: z.array(z.string()).default(["general"]),
+  jobDescriptionId: z.string().uuid().nullable().optional(),
+  followUpsPerQuestion: z.number().int().min(0).max(MAX_FOLLOW_UPS_PER_QUESTION).optional()
 });
 
 const responseSchema = z.object({
@@ -35,7 +46,27 @@ const responseSchema = z.object({
   responseLanguage: z.string().default("en"),
   inputMethod: z.enum(["voice", "text"]).default("text"),
   audioDuration: z.number().optional(),
-  transcriptionConfidence: z.string().optional()
+  transcriptionConfidence: z.string().optional(),
+  followUp: z.boolean().default(false) // answers the interviewer's pending follow-up rather than the question itself
+});
+
+// Free text is meant for follow-up prompts, so it is capped at the length of an interview question
+const MAX_SPOKEN_TEXT_LENGTH = 500;
+
+// Either one of the session's questions or free text (e.g. a follow-up prompt), read in the session's language and voice
+const synthesizeSchema = z.object({
+  sessionId: z.string().uuid(),
+  questionId: z.string().uuid().optional(),
+  text: z.string().trim().min(1).max(MAX_SPOKEN_TEXT_LENGTH).optional(),
+  voice: z.string().max(50).optional(),
+  rate: z.number().min(0.5).max(2).optional()
+}).refine(data => !!data.questionId !== !!data.text, {
+  message: 'Provide either questionId or text'
+});
+
+const recordingSettingsSchema = z.object({
+  storeRecordings: z.boolean(),
+  retentionDays: z.number().int().min(1).max(MAX_RETENTION_DAYS).nullable()
 });
 
 // Session management endpoints
@@ -53,6 +84,13 @@ router.post('/sessions', async (req, res) => {
       });
     }
 
+    if (validation.data.jobDescriptionId) {
+      const jobDescription = await storage.getJobDescription(validation.data.jobDescriptionId);
+      if (!jobDescription || jobDescription.userId !== req.user.id) {
+        return res.status(400).json({ error: 'Job description not found' });
+      }
+    }
+
     const session = await prepareAIService.createSession(req.user.id, validation.data);
     
     res.status(201).json({
@@ -131,7 +169,7 @@ router.get('/sessions', async (req, res) => {
 });
 
 // Question generation endpoints
-router.post('/sessions/:sessionId/question', async (req, res) => {
+router.post('/sessions/:sessionId/question', aiQuestionRateLimit, aiQuota, async (req, res) => {
   try {
     if (!req.user?.id) {
       return res.status(401).json({ error: 'User not authenticated' });
@@ -176,7 +214,7 @@ router.post('/sessions/:sessionId/question', async (req, res) => {
 });
 
 // Response processing endpoints
-router.post('/sessions/:sessionId/respond', async (req, res) => {
+router.post('/sessions/:sessionId/respond', aiResponseRateLimit, aiQuota, async (req, res) => {
   try {
     if (!req.user?.id) {
       return res.status(401).json({ error: 'User not authenticated' });
@@ -196,6 +234,24 @@ router.post('/sessions/:sessionId/respond', async (req, res) => {
       });
     }
 
+    if (validation.data.followUp) {
+      const response = await prepareAIService.processFollowUpAnswer(
+        req.params.sessionId,
+        validation.data.questionId,
+        validation.data.responseText,
+        { responseLanguage: validation.data.responseLanguage }
+      );
+      if (!response) {
+        return res.status(409).json({ error: 'No follow-up question is waiting for an answer' });
+      }
+
+      return res.json({
+        success: true,
+        data: response,
+        message: 'Follow-up answer processed and evaluated successfully'
+      });
+    }
+
     const response = await prepareAIService.processResponse(
       req.params.sessionId,
       validation.data.questionId,
@@ -252,6 +308,47 @@ router.get('/sessions/:sessionId/progress', async (req, res) => {
   }
 });
 
+/**
+ * GET /sessions/:sessionId/analytics
+ * Category scores, score trend, timing and voice stats computed when the session was last paused or completed
+ */
+router.get('/sessions/:sessionId/analytics', async (req, res) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    // Verify session ownership
+    const ownerId = await prepareAIService.getSessionOwner(req.params.sessionId);
+    if (!ownerId) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    if (ownerId !== req.user.id) {
+      return res.status(403).json({ error: 'Access denied to this session' });
+    }
+
+    const analytics = await prepareAIService.getSessionAnalytics(req.params.sessionId);
+    if (!analytics) {
+      return res.status(404).json({
+        error: 'Analytics not available',
+        message: 'Analytics are generated when the session is paused or completed'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: analytics
+    });
+
+  } catch (error) {
+    console.error('❌ Get session analytics error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve session analytics',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // Session control endpoints
 router.patch('/sessions/:sessionId/status', async (req, res) => {
   try {
@@ -298,6 +395,8 @@ router.delete('/sessions/:sessionId', async (req, res) => {
       return res.status(403).json({ error: 'Access denied to this session' });
     }
 
+    // Stored audio isn't covered by the database cascade
+    await voiceRecordings.removeForSession(req.params.sessionId);
     await prepareAIService.deleteSession(req.params.sessionId);
 
     res.json({
@@ -337,18 +436,57 @@ router.post('/voice/transcribe', async (req, res) => {
   }
 });
 
-router.post('/voice/synthesize', async (req, res) => {
+/**
+ * POST /api/prepare-ai/voice/synthesize
+ * Spoken audio (WAV) for a question or short text, using the session's language, preferred voice and speech rate
+ */
+router.post('/voice/synthesize', voiceSynthesisRateLimit, async (req, res) => {
   try {
     if (!req.user?.id) {
       return res.status(401).json({ error: 'User not authenticated' });
     }
 
-    // This would be implemented for RESTful fallback
-    // Primary voice processing happens via WebSocket
-    res.json({
-      success: false,
-      message: 'Voice synthesis available via WebSocket. Connect to /socket.io for real-time voice features.'
+    const validation = synthesizeSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid synthesis request',
+        details: validation.error.issues
+      });
+    }
+
+    const { sessionId, questionId, text, voice, rate } = validation.data;
+    const ownerId = await prepareAIService.getSessionOwner(sessionId);
+    if (!ownerId) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    if (ownerId !== req.user.id) {
+      return res.status(403).json({ error: 'Access denied to this session' });
+    }
+    const session = await prepareAIService.getSession(sessionId);
+
+    let spokenText = text;
+    if (questionId) {
+      const question = (session.questions as AiPrepareQuestion[]).find(q => q.id === questionId);
+      if (!question) {
+        return res.status(404).json({ error: 'Question not found in this session' });
+      }
+      spokenText = question.questionTextTranslated || question.questionText;
+    }
+
+    const audio = await voiceService.synthesizeSpeech(spokenText!, {
+      language: session.preferredLanguage || 'en',
+      voice: voice || session.preferredVoice,
+      rate: rate ?? parseFloat(session.speechRate || '1.0')
+    });
+
+    res.set({
+      'Content-Type': 'audio/wav',
+      'Cache-Control': 'private, max-age=86400',
+      'X-TTS-Engine': audio.engine,
+      'X-TTS-Voice': audio.voice,
+      'X-TTS-Duration-Ms': String(audio.duration)
     });
+    res.send(audio.audioData);
 
   } catch (error) {
     console.error('❌ Voice synthesize error:', error);
@@ -359,4 +497,148 @@ router.post('/voice/synthesize', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/prepare-ai/recordings/:recordingId
+ * Streams a recorded voice answer to its owner; supports Range requests so players can seek
+ */
+router.get('/recordings/:recordingId', async (req, res) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const recording = await storage.getVoiceRecording(req.params.recordingId);
+    if (!recording) {
+      return res.status(404).json({ error: 'Recording not found' });
+    }
+    if (recording.userId !== req.user.id) {
+      return res.status(403).json({ error: 'Access denied to this recording' });
+    }
+
+    const range = parseByteRange(req.headers.range, recording.sizeBytes);
+    if (range === 'unsatisfiable') {
+      res.set('Content-Range', `bytes */${recording.sizeBytes}`);
+      return res.status(416).end();
+    }
+
+    const stream = await voiceRecordings.open(recording, range ?? undefined);
+    res.set({
+      'Content-Type': recording.contentType,
+      'Accept-Ranges': 'bytes',
+      'Cache-Control': 'private, no-cache'
+    });
+    if (range) {
+      res.status(206).set({
+        'Content-Range': `bytes ${range.start}-${range.end}/${recording.sizeBytes}`,
+        'Content-Length': String(range.end - range.start + 1)
+      });
+    } else {
+      res.set('Content-Length', String(recording.sizeBytes));
+    }
+
+    stream.on('error', (error) => {
+      console.error('❌ Recording stream error:', error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+
+  } catch (error) {
+    console.error('❌ Get recording error:', error);
+    res.status(500).json({
+      error: 'Failed to stream recording',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * DELETE /api/prepare-ai/recordings/:recordingId
+ * Deletes a recorded answer; the transcript and feedback stay
+ */
+router.delete('/recordings/:recordingId', async (req, res) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const recording = await storage.getVoiceRecording(req.params.recordingId);
+    if (!recording) {
+      return res.status(404).json({ error: 'Recording not found' });
+    }
+    if (recording.userId !== req.user.id) {
+      return res.status(403).json({ error: 'Access denied to this recording' });
+    }
+
+    await voiceRecordings.remove(recording);
+
+    res.json({
+      success: true,
+      message: 'Recording deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('❌ Delete recording error:', error);
+    res.status(500).json({
+      error: 'Failed to delete recording',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * GET /api/prepare-ai/voice/recording-settings
+ * Whether the user's voice answers are kept, and for how many days
+ */
+router.get('/voice/recording-settings', async (req, res) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    res.json({
+      success: true,
+      data: await voiceRecordings.getSettings(req.user.id)
+    });
+
+  } catch (error) {
+    console.error('❌ Get recording settings error:', error);
+    res.status(500).json({
+      error: 'Failed to retrieve recording settings',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * PUT /api/prepare-ai/voice/recording-settings
+ * Turning recordings off deletes the ones already kept; a new retention period applies to existing recordings too
+ */
+router.put('/voice/recording-settings', async (req, res) => {
+  try {
+    if (!req.user?.id) {
+      return res.status(401).json({ error: 'User not authenticated' });
+    }
+
+    const validation = recordingSettingsSchema.safeParse(req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Invalid recording settings',
+        details: validation.error.issues
+      });
+    }
+
+    res.json({
+      success: true,
+      data: await voiceRecordings.updateSettings(req.user.id, validation.data)
+    });
+
+  } catch (error) {
+    console.error('❌ Update recording settings error:', error);
+    res.status(500).json({
+      error: 'Failed to update recording settings',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 export { router as prepareAIRouter };
\ No newline at end of file
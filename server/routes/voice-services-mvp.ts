@@ -1,8 +1,10 @@
 import { Router } from 'express';
 import { sealionService } from '../services/sealion';
 import { requireAuth } from '../auth-simple';
+import { aiQuota } from '../middleware/ai-quota';
 import multer from 'multer';
 import * as fs from 'fs';
+import { speechToText, type SttAudioFormat } from '../services/speech-to-text';
 
 const router = Router();
 
@@ -20,6 +22,14 @@ const upload = multer({
   }
 });
 
+// ffmpeg probes the content, but a matching extension helps it and the OpenAI API pick the decoder
+function audioFormatOf(file: Express.Multer.File): SttAudioFormat {
+  const subtype = file.mimetype.split('/')[1]?.split(';')[0];
+  if (subtype === 'mpeg') return 'mp3';
+  if (subtype === 'webm' || subtype === 'wav' || subtype === 'mp3' || subtype === 'ogg' || subtype === 'mp4') return subtype;
+  return 'wav';
+}
+
 // Ensure uploads directory exists
 if (!fs.existsSync('/tmp/uploads')) {
   fs.mkdirSync('/tmp/uploads', { recursive: true });
@@ -155,8 +165,8 @@ router.post('/tts', requireAuth, async (req, res) => {
   }
 });
 
-// Speech-to-Text endpoint (actual transcription using OpenAI Whisper)
-router.post('/stt', requireAuth, upload.single('audio'), async (req, res) => {
+// Speech-to-Text endpoint (transcription with the configured STT engine)
+router.post('/stt', requireAuth, aiQuota, upload.single('audio'), async (req, res) => {
   try {
     console.log('🔍 STT ENDPOINT: Request received');
     console.log('🔍 STT ENDPOINT: Content-Type:', req.headers['content-type']);
@@ -167,41 +177,28 @@ router.post('/stt', requireAuth, upload.single('audio'), async (req, res) => {
     if (req.file) {
       console.log('🎧 STT ENDPOINT: Audio file received');
       const language = req.body.language || 'en';
-      const model = req.body.model || 'whisper-1';
       
-      console.log(`🔍 STT ENDPOINT: File: ${req.file.originalname}, Size: ${req.file.size} bytes, Language: ${language}, Model: ${model}`);
+      console.log(`🔍 STT ENDPOINT: File: ${req.file.originalname}, Size: ${req.file.size} bytes, Language: ${language}`);
       
       try {
-        // Import OpenAI service dynamically
-        const { getOpenAIService } = await import('../services/openai-service');
-        
-        console.log('🔍 STT ENDPOINT: Calling OpenAI Whisper API...');
-        
-        // Use the file path directly for OpenAI API - more reliable than Buffer conversion
-        const { createReadStream } = await import('fs');
-        const fileStream = createReadStream(req.file.path);
-        
-        // Use OpenAI Whisper for transcription
-        const transcription = await getOpenAIService().transcribeAudio(fileStream, {
-          language: language,
-          model: model,
-          filename: req.file.originalname || 'recording.wav'
+        const audioBuffer = fs.readFileSync(req.file.path);
+        const transcription = await speechToText.transcribe(audioBuffer, {
+          language,
+          audioFormat: audioFormatOf(req.file)
         });
-        
-        console.log(`✅ STT ENDPOINT: Whisper transcription successful: "${transcription}"`);
-        
+
         // Clean up uploaded file
         fs.unlinkSync(req.file.path);
         
         const sttResponse = {
           success: true,
-          transcription: transcription,
-          originalTranscription: transcription,
-          language: language,
-          model: model,
-          confidence: 0.9, // OpenAI Whisper provides high confidence
-          duration: 0, // Would need to calculate from audio
-          method: 'openai-whisper',
+          transcription: transcription.text,
+          originalTranscription: transcription.text,
+          language: transcription.language,
+          confidence: transcription.confidence,
+          duration: transcription.duration,
+          words: transcription.words,
+          method: transcription.engine,
           timestamp: new Date().toISOString()
         };
 
@@ -251,7 +248,7 @@ router.post('/stt', requireAuth, upload.single('audio'), async (req, res) => {
 });
 
 // Translation endpoint
-router.post('/translate', requireAuth, async (req, res) => {
+router.post('/translate', requireAuth, aiQuota, async (req, res) => {
   try {
     const { text, targetLanguage, sourceLanguage = 'en' } = req.body;
     
@@ -136,8 +136,7 @@ router.post('/stt', requireAuth, upload.single('audio'), async (req, res) => {
       const transcriptionResult = await openaiService.transcribeAudio(audioBuffer, {
         language: language.split('-')[0], // OpenAI expects language codes like 'en', not 'en-US'
         model,
-        temperature: 0.0,
-        response_format: 'verbose_json'
+        temperature: 0.0
       });
 
       console.log(`✅ Transcription successful: "${transcriptionResult.text.substring(0, 100)}..."`);
@@ -0,0 +1,300 @@
+// AI Provider Registry
+// Text-generation backends the AIRouter can route to; each declares the languages it handles and its token cost
+
+import { OpenAI } from 'openai';
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { BedrockRuntimeClient, InvokeModelCommand } from '@aws-sdk/client-bedrock-runtime';
+import { getOpenAIService, type OpenAIService } from './openai-service';
+
+export type AIProviderName = 'sealion' | 'openai' | 'bedrock' | 'anthropic' | 'mock';
+
+export type AIDomain =
+  | 'study-plan'
+  | 'company-research'
+  | 'resource-generation'
+  | 'general'
+  | 'interview'
+  | 'question-generation'
+  | 'evaluation'
+  | 'translation'
+  | 'industry-analysis';
+
+export interface AIMessage {
+  role: string;
+  content: string;
+}
+
+export interface AIProviderRequest {
+  messages: AIMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  model?: string;
+  domain?: AIDomain;
+  language?: string;
+}
+
+export interface AIProviderCost {
+  inputPer1kTokens: number;  // USD
+  outputPer1kTokens: number; // USD
+}
+
+export interface AIProvider {
+  readonly name: AIProviderName;
+  readonly supportedLanguages: readonly string[] | 'all';
+  readonly cost: AIProviderCost;
+  readonly defaultModel: string; // used when the request doesn't name a model
+  isConfigured(): boolean;
+  generate(request: AIProviderRequest): Promise<string>;
+  healthCheck?(): Promise<unknown>;
+}
+
+// Languages SeaLion is trained for (Southeast Asian languages plus English and Chinese)
+const SEA_LANGUAGES = ['en', 'id', 'ms', 'th', 'vi', 'fil', 'tl', 'my', 'km', 'lo', 'jv', 'su', 'ta', 'zh-sg'] as const;
+
+// Domains where OpenAI gets its own tuned system prompt instead of the caller's
+const OPENAI_OPTIMIZED_DOMAINS = ['study-plan', 'company-research', 'resource-generation', 'general'] as const;
+type OpenAIOptimizedDomain = typeof OPENAI_OPTIMIZED_DOMAINS[number];
+
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 60000;
+const MAX_RETRIES = 5;
+
+async function backoff(attempt: number, reason: string): Promise<void> {
+  const delay = Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1), RETRY_MAX_DELAY_MS);
+  const jitter = Math.random() * 1000;
+  console.log(`${reason}. Retrying in ${Math.round(delay + jitter)}ms (attempt ${attempt}/${MAX_RETRIES})`);
+  await new Promise(resolve => setTimeout(resolve, delay + jitter));
+}
+
+// Claude-style APIs take the system prompt separately from the conversation
+function splitSystemPrompt(messages: AIMessage[]): { system?: string; messages: AIMessage[] } {
+  const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+  return {
+    system: system || undefined,
+    messages: messages.filter(m => m.role !== 'system').map(m => ({ role: m.role, content: m.content }))
+  };
+}
+
+/**
+ * Chat-completions messages for OpenAI-compatible APIs; unknown roles are sent as the user
+ */
+function toChatMessages(messages: AIMessage[]): ChatCompletionMessageParam[] {
+  return messages.map((message): ChatCompletionMessageParam => {
+    switch (message.role) {
+      case 'system':
+        return { role: 'system', content: message.content };
+      case 'assistant':
+        return { role: 'assistant', content: message.content };
+      default:
+        return { role: 'user', content: message.content };
+    }
+  });
+}
+
+/**
+ * AI Singapore's SeaLion models via their OpenAI-compatible API
+ */
+export class SeaLionProvider implements AIProvider {
+  readonly name = 'sealion' as const;
+  readonly supportedLanguages = SEA_LANGUAGES;
+  readonly cost = { inputPer1kTokens: 0, outputPer1kTokens: 0 };
+
+  private readonly baseUrl = 'https://api.sea-lion.ai/v1';
+  readonly defaultModel = 'aisingapore/Gemma-SEA-LION-v3-9B-IT';
+  private client: OpenAI | null = null;
+
+  isConfigured(): boolean {
+    const key = this.getApiKey();
+    return key.length > 0 && key.toLowerCase() !== 'disabled';
+  }
+
+  async generate(request: AIProviderRequest): Promise<string> {
+    if (!this.client) {
+      this.client = new OpenAI({ apiKey: this.getApiKey(), baseURL: this.baseUrl });
+    }
+
+    const completion = await this.client.chat.completions.create({
+      model: request.model || this.defaultModel,
+      messages: toChatMessages(request.messages),
+      max_tokens: request.maxTokens || 1000,
+      temperature: request.temperature ?? 0.7
+    });
+
+    const content = completion.choices[0]?.message.content || '';
+    if (!content) {
+      throw new Error('Empty response from SeaLion API');
+    }
+    return content;
+  }
+
+  private getApiKey(): string {
+    return (process.env.SEALION_API_KEY || process.env.SEA_LION_API_KEY || '').trim();
+  }
+}
+
+/**
+ * OpenAI chat completions (wraps OpenAIService, which also retries on its fallback model)
+ */
+export class OpenAIProvider implements AIProvider {
+  readonly name = 'openai' as const;
+  readonly supportedLanguages = 'all' as const;
+  readonly cost = { inputPer1kTokens: 0.0025, outputPer1kTokens: 0.01 }; // gpt-4o list price
+  readonly defaultModel = 'gpt-4o'; // OpenAIService's default
+
+  isConfigured(): boolean {
+    return Boolean(process.env.OPENAI_API_KEY);
+  }
+
+  async generate(request: AIProviderRequest): Promise<string> {
+    const service = getOpenAIService();
+    return service.generateResponse({
+      messages: this.optimizeMessages(service, request),
+      maxTokens: request.maxTokens,
+      temperature: request.temperature,
+      model: request.model
+    });
+  }
+
+  async healthCheck(): Promise<unknown> {
+    return getOpenAIService().healthCheck();
+  }
+
+  /**
+   * Replace the system prompt with OpenAI's tuned prompt for the general-purpose domains
+   */
+  private optimizeMessages(service: OpenAIService, request: AIProviderRequest): AIMessage[] {
+    const domain = request.domain;
+    if (!domain || !(OPENAI_OPTIMIZED_DOMAINS as readonly string[]).includes(domain)) {
+      return request.messages;
+    }
+
+    return [
+      { role: 'system', content: service.getOptimizedSystemPrompt(domain as OpenAIOptimizedDomain) },
+      ...request.messages.filter(m => m.role !== 'system')
+    ];
+  }
+}
+
+/**
+ * Claude on AWS Bedrock
+ */
+export class BedrockProvider implements AIProvider {
+  readonly name = 'bedrock' as const;
+  readonly supportedLanguages = 'all' as const;
+  readonly cost = { inputPer1kTokens: 0.003, outputPer1kTokens: 0.015 }; // Claude 3.5 Sonnet on Bedrock
+
+  readonly defaultModel = 'anthropic.claude-3-5-sonnet-20241022-v2:0';
+  private client: BedrockRuntimeClient | null = null;
+
+  isConfigured(): boolean {
+    return Boolean(process.env.AWS_ACCESS_KEY_ID && process.env.AWS_SECRET_ACCESS_KEY && process.env.AWS_REGION);
+  }
+
+  async generate(request: AIProviderRequest): Promise<string> {
+    if (!this.client) {
+      this.client = new BedrockRuntimeClient({
+        region: process.env.AWS_REGION,
+        credentials: {
+          accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
+          secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
+        },
+      });
+    }
+
+    const { system, messages } = splitSystemPrompt(request.messages);
+    const body = JSON.stringify({
+      anthropic_version: 'bedrock-2023-05-31',
+      max_tokens: request.maxTokens || 1024,
+      messages,
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(system && { system }),
+    });
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await this.client.send(new InvokeModelCommand({
+          modelId: request.model || this.defaultModel,
+          contentType: 'application/json',
+          accept: 'application/json',
+          body,
+        }));
+
+        if (!response.body) {
+          throw new Error('No response body from Bedrock');
+        }
+
+        const responseBody = JSON.parse(new TextDecoder().decode(response.body));
+        return responseBody.content?.[0]?.text || '';
+      } catch (error: any) {
+        const retryable = error.name === 'ThrottlingException' || error.message?.includes('throttl') ||
+          ['NetworkingError', 'ServiceException', 'InternalServerException', 'ModelTimeoutException'].includes(error.name);
+
+        if (!retryable || attempt >= MAX_RETRIES) {
+          throw new Error(`Bedrock API failed: ${error.message}`);
+        }
+        await backoff(attempt, `Bedrock ${error.name || 'error'}`);
+      }
+    }
+  }
+}
+
+/**
+ * Claude via the Anthropic Messages API
+ */
+export class AnthropicProvider implements AIProvider {
+  readonly name = 'anthropic' as const;
+  readonly supportedLanguages = 'all' as const;
+  readonly cost = { inputPer1kTokens: 0.003, outputPer1kTokens: 0.015 };
+
+  private readonly url = 'https://api.anthropic.com/v1/messages';
+  readonly defaultModel = 'claude-sonnet-4-20250514';
+
+  isConfigured(): boolean {
+    return this.getApiKey().length > 0;
+  }
+
+  async generate(request: AIProviderRequest): Promise<string> {
+    const { system, messages } = splitSystemPrompt(request.messages);
+
+    for (let attempt = 1; ; attempt++) {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': this.getApiKey(),
+          'anthropic-version': '2023-06-01',
+        },
+        body: JSON.stringify({
+          model: request.model || this.defaultModel,
+          max_tokens: request.maxTokens || 1024,
+          messages,
+          ...(request.temperature !== undefined && { temperature: request.temperature }),
+          ...(system && { system }),
+        }),
+      });
+
+      if ((response.status === 429 || response.status >= 500) && attempt < MAX_RETRIES) {
+        await backoff(attempt, `Anthropic API returned ${response.status}`);
+        continue;
+      }
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        throw new Error(`Anthropic API request failed: ${response.status} ${errorData?.error?.message || response.statusText}`);
+      }
+
+      const data = await response.json();
+      return data.content?.[0]?.text || '';
+    }
+  }
+
+  private getApiKey(): string {
+    return process.env.ANTHROPIC_API_KEY || process.env.ANTHROPIC_KEY || process.env.CLAUDE_API_KEY || '';
+  }
+}
+
+export function supportsLanguage(provider: AIProvider, language: string): boolean {
+  if (provider.supportedLanguages === 'all') return true;
+  const base = language.toLowerCase();
+  return provider.supportedLanguages.includes(base) || provider.supportedLanguages.includes(base.split('-')[0]);
+}
@@ -1,8 +1,8 @@
 // AI Question Generator Service
-// Generates contextual interview questions using OpenAI and SeaLion AI for ASEAN cultural awareness
+// Generates contextual interview questions through the AI router, with templates as the last resort
 
-import { SeaLionService } from "./sealion.js";
-import { getOpenAIService, OpenAIService } from "./openai-service.js";
+import { aiRouter, type AIProviderName } from "./ai-router.js";
+import { jobDescriptionService, type JobDescriptionContext } from "./job-description-service.js";
 
 interface QuestionGenerationRequest {
   jobPosition: string;
@@ -16,6 +16,7 @@ interface QuestionGenerationRequest {
   questionNumber: number;
   previousResponses?: any[];
   adaptiveDifficulty?: boolean;
+  jobDescription?: JobDescriptionContext;
 }
 
 interface GeneratedQuestion {
@@ -27,7 +28,7 @@ interface GeneratedQuestion {
   expectedAnswerTime: number;
   culturalContext: string;
   starMethodRelevant: boolean;
-  generatedBy: 'sealion' | 'openai' | 'fallback';
+  generatedBy: AIProviderName | 'fallback';
 }
 
 interface QuestionTemplate {
@@ -39,18 +40,9 @@ interface QuestionTemplate {
 }
 
 export class AIQuestionGenerator {
-  private seaLionService: SeaLionService;
-  private openaiService: OpenAIService | null;
   private questionTemplates: QuestionTemplate[];
 
   constructor() {
-    this.seaLionService = new SeaLionService();
-    try {
-      this.openaiService = getOpenAIService();
-    } catch (error) {
-      console.warn("⚠️ OpenAI service not available, will use SeaLion and fallback only:", error instanceof Error ? error.message : 'Unknown error');
-      this.openaiService = null;
-    }
     this.questionTemplates = this.initializeQuestionTemplates();
   }
 
@@ -61,25 +53,12 @@ export class AIQuestionGenerator {
     try {
       console.log(`🎯 Generating question ${request.questionNumber} for ${request.jobPosition} (${request.preferredLanguage})`);
 
-      // Try OpenAI first (prioritized as requested)
-      if (this.openaiService) {
-        try {
-          const openaiQuestion = await this.generateWithOpenAI(request);
-          if (openaiQuestion) return openaiQuestion;
-        } catch (error) {
-          console.warn("⚠️ OpenAI generation failed, trying SeaLion:", error instanceof Error ? error.message : 'Unknown error');
-        }
-      }
-
-      // Try SeaLion AI as fallback for ASEAN languages and cultural context
-      if (this.shouldUseSeaLion(request.preferredLanguage)) {
-        try {
-          console.log(`🌏 Using SeaLion AI as fallback for ${request.preferredLanguage} language generation`);
-          const seaLionQuestion = await this.generateWithSeaLion(request);
-          if (seaLionQuestion) return seaLionQuestion;
-        } catch (error) {
-          console.warn("⚠️ SeaLion generation failed, falling back to templates:", error instanceof Error ? error.message : 'Unknown error');
-        }
+      // Provider order (and which providers handle this language) comes from the router's rules
+      try {
+        const aiQuestion = await this.generateWithAI(request);
+        if (aiQuestion) return aiQuestion;
+      } catch (error) {
+        console.warn("⚠️ AI generation failed, falling back to templates:", error instanceof Error ? error.message : 'Unknown error');
       }
 
       // Fallback to template-based generation
@@ -92,54 +71,36 @@ export class AIQuestionGenerator {
   }
 
   /**
-   * Generate question using OpenAI
+   * Generate question using whichever AI provider the router selects
    */
-  private async generateWithOpenAI(request: QuestionGenerationRequest): Promise<GeneratedQuestion | null> {
+  private async generateWithAI(request: QuestionGenerationRequest): Promise<GeneratedQuestion | null> {
     try {
-      const prompt = this.buildOpenAIPrompt(request);
+      const prompt = this.buildQuestionPrompt(request);
       
-      const response = await this.openaiService!.generateResponse({
+      const result = await aiRouter.generateResponse({
         messages: [{ role: 'user', content: prompt }],
         maxTokens: 1000,
-        temperature: 0.7
+        temperature: 0.7,
+        domain: 'question-generation',
+        language: request.preferredLanguage
       });
 
-      return this.parseOpenAIResponse(response, request);
+      return this.parseAIResponse(result.content, request, result.provider);
 
     } catch (error) {
-      console.error("❌ OpenAI generation error:", error);
+      console.error("❌ AI question generation error:", error);
       return null;
     }
   }
 
   /**
-   * Generate question using SeaLion AI
+   * Build prompt for question generation
    */
-  private async generateWithSeaLion(request: QuestionGenerationRequest): Promise<GeneratedQuestion | null> {
-    try {
-      const prompt = this.buildSeaLionPrompt(request);
-      
-      const response = await this.seaLionService.generateResponse({
-        messages: [{ role: 'user', content: prompt }],
-        maxTokens: 1000,
-        temperature: 0.7
-      });
-
-      return this.parseSeaLionResponse(response, request);
-
-    } catch (error) {
-      console.error("❌ SeaLion generation error:", error);
-      return null;
-    }
-  }
-
-  /**
-   * Build OpenAI prompt for question generation  
-   */
-  private buildOpenAIPrompt(request: QuestionGenerationRequest): string {
+  private buildQuestionPrompt(request: QuestionGenerationRequest): string {
     const culturalContext = this.getCulturalContext(request.preferredLanguage);
     const adaptiveContext = this.getAdaptiveContext(request);
     const stageGuidance = this.getStageSpecificGuidance(request.interviewStage);
+    const jobDescriptionContext = this.getJobDescriptionContext(request);
     const languageName = this.getLanguageName(request.preferredLanguage);
     const isNonEnglish = request.preferredLanguage !== 'en';
 
@@ -157,12 +118,12 @@ Context:
 - Difficulty: ${request.difficultyLevel}
 
 ${stageGuidance}
-
+${jobDescriptionContext}
 ${culturalContext}
 ${adaptiveContext}
 
 CRITICAL REQUIREMENTS:
-1. Generate ONE excellent interview question for ${request.jobPosition}
+1. Generate ONE excellent interview question for ${request.jobPosition}${request.jobDescription ? ' that tests the focus requirement from the job description' : ''}
 2. Make it culturally appropriate for ${languageName} speakers
 3. ${isNonEnglish ? `WRITE THE MAIN QUESTION IN ${languageName.toUpperCase()}, NOT ENGLISH` : 'Write the question in English'}
 4. Include STAR method guidance if behavioral question
@@ -182,53 +143,6 @@ Response Format (JSON only, no other text):
 }`;
   }
 
-  /**
-   * Build SeaLion prompt for question generation
-   */
-  private buildSeaLionPrompt(request: QuestionGenerationRequest): string {
-    const culturalContext = this.getCulturalContext(request.preferredLanguage);
-    const adaptiveContext = this.getAdaptiveContext(request);
-    const stageGuidance = this.getStageSpecificGuidance(request.interviewStage);
-
-    return `You are an AI interview coach specializing in Southeast Asian job markets. Generate a culturally-appropriate interview question.
-
-Context:
-- Job Position: ${request.jobPosition}
-- Company: ${request.companyName || 'Tech company'}
-- Interview Stage: ${request.interviewStage}
-- Experience Level: ${request.experienceLevel}
-- Language: ${request.preferredLanguage}
-- Question Number: ${request.questionNumber}
-- Focus Areas: ${request.focusAreas.join(', ')}
-- Categories: ${request.questionCategories.join(', ')}
-- Difficulty: ${request.difficultyLevel}
-
-${stageGuidance}
-
-${culturalContext}
-${adaptiveContext}
-
-Requirements:
-1. Generate ONE interview question appropriate for ${request.jobPosition}
-2. Make it culturally relevant for ${this.getLanguageName(request.preferredLanguage)} speakers
-3. Include STAR method if behavioral question
-4. Translate to ${request.preferredLanguage} if not English
-5. Specify expected answer time (60-300 seconds)
-6. Include cultural context explanation
-
-Response Format (JSON):
-{
-  "questionText": "English question text",
-  "questionTextTranslated": "Translated question (if applicable)",
-  "questionCategory": "leadership|problem-solving|teamwork|technical|cultural",
-  "questionType": "behavioral|situational|technical|cultural",
-  "difficultyLevel": "beginner|intermediate|advanced",
-  "expectedAnswerTime": 180,
-  "culturalContext": "Brief cultural context explanation",
-  "starMethodRelevant": true|false
-}`;
-  }
-
   /**
    * Generate question from templates (fallback method)
    */
@@ -236,7 +150,10 @@ Response Format (JSON):
     const category = this.selectCategory(request);
     const template = this.getQuestionTemplate(category, request);
     
-    const questionText = this.fillTemplate(template, request);
+    const focusRequirement = this.getFocusRequirement(request);
+    const questionText = focusRequirement
+      ? `This role calls for "${focusRequirement}". Tell me about a specific situation that shows how you meet this requirement.`
+      : this.fillTemplate(template, request);
     const questionTextTranslated = this.translateQuestion(questionText, request.preferredLanguage);
     
     return {
@@ -253,9 +170,9 @@ Response Format (JSON):
   }
 
   /**
-   * Parse OpenAI response
+   * Parse AI response
    */
-  private parseOpenAIResponse(response: string, request: QuestionGenerationRequest): GeneratedQuestion {
+  private parseAIResponse(response: string, request: QuestionGenerationRequest, provider: AIProviderName): GeneratedQuestion {
     try {
       // Try to extract JSON from response
       const jsonMatch = response.match(/\{[\s\S]*\}/);
@@ -270,54 +187,23 @@ Response Format (JSON):
           expectedAnswerTime: parsed.expectedAnswerTime || 180,
           culturalContext: parsed.culturalContext || this.getCulturalContext(request.preferredLanguage),
           starMethodRelevant: parsed.starMethodRelevant ?? true,
-          generatedBy: 'openai'
+          generatedBy: provider
         };
       }
 
       // Fallback parsing for non-JSON response
-      return this.parseTextResponse(response, request, 'openai');
+      return this.parseTextResponse(response, request, provider);
 
     } catch (error) {
-      console.warn("⚠️ Error parsing OpenAI response, using text fallback");
-      return this.parseTextResponse(response, request, 'openai');
-    }
-  }
-
-  /**
-   * Parse SeaLion AI response
-   */
-  private parseSeaLionResponse(response: string, request: QuestionGenerationRequest): GeneratedQuestion {
-    try {
-      // Try to extract JSON from response
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        return {
-          questionText: parsed.questionText || 'Generated question not available',
-          questionTextTranslated: parsed.questionTextTranslated || parsed.questionText,
-          questionCategory: parsed.questionCategory || 'general',
-          questionType: parsed.questionType || 'behavioral',
-          difficultyLevel: parsed.difficultyLevel || request.difficultyLevel,
-          expectedAnswerTime: parsed.expectedAnswerTime || 180,
-          culturalContext: parsed.culturalContext || this.getCulturalContext(request.preferredLanguage),
-          starMethodRelevant: parsed.starMethodRelevant ?? true,
-          generatedBy: 'sealion'
-        };
-      }
-
-      // Fallback parsing for non-JSON response
-      return this.parseTextResponse(response, request);
-
-    } catch (error) {
-      console.warn("⚠️ Error parsing SeaLion response, using fallback");
-      return this.generateFromTemplate(request);
+      console.warn(`⚠️ Error parsing ${provider} response, using text fallback`);
+      return this.parseTextResponse(response, request, provider);
     }
   }
 
   /**
    * Parse non-JSON text response
    */
-  private parseTextResponse(response: string, request: QuestionGenerationRequest, service: 'openai' | 'sealion' = 'sealion'): GeneratedQuestion {
+  private parseTextResponse(response: string, request: QuestionGenerationRequest, service: AIProviderName): GeneratedQuestion {
     // Extract clean interview question from AI response that may contain reasoning
     const cleanedQuestion = this.extractCleanQuestion(response);
     
@@ -413,14 +299,6 @@ Response Format (JSON):
     return questionLine || 'Generated question not available';
   }
 
-  /**
-   * Check if SeaLion should be used for this language
-   */
-  private shouldUseSeaLion(language: string): boolean {
-    const seaLionLanguages = ['id', 'ms', 'th', 'vi', 'tl', 'my', 'km', 'lo', 'jv', 'su'];
-    return seaLionLanguages.includes(language) || language === 'en';
-  }
-
   /**
    * Get stage-specific guidance for interview questions
    */
@@ -489,6 +367,55 @@ STAGE FOCUS - Executive/Final Round Interview:
     return contexts[language] || contexts['en'];
   }
 
+  /**
+   * Get job description context so questions target the role's actual requirements
+   */
+  private getJobDescriptionContext(request: QuestionGenerationRequest): string {
+    const jobDescription = request.jobDescription;
+    if (!jobDescription) {
+      return '';
+    }
+
+    const formatList = (items: string[]) => items.slice(0, 8).map(item => `  - ${item}`).join('\n');
+    const sections: string[] = [];
+
+    if (jobDescription.responsibilities.length > 0) {
+      sections.push(`Key Responsibilities:\n${formatList(jobDescription.responsibilities)}`);
+    }
+    if (jobDescription.requirements.length > 0) {
+      sections.push(`Requirements:\n${formatList(jobDescription.requirements)}`);
+    }
+    if (jobDescription.skills.length > 0) {
+      sections.push(`Skills:\n${formatList(jobDescription.skills)}`);
+    }
+    if (sections.length === 0) {
+      sections.push(`Job Description Text:\n${jobDescription.excerpt}`);
+    }
+
+    const focusRequirement = this.getFocusRequirement(request);
+    const focusLine = focusRequirement
+      ? `\nFocus Requirement for this question: "${focusRequirement}"`
+      : '';
+
+    return `\nJob Description (uploaded by the candidate):\n${sections.join('\n')}${focusLine}\n`;
+  }
+
+  /**
+   * Rotate through the job description's requirements so each question targets a different one
+   */
+  private getFocusRequirement(request: QuestionGenerationRequest): string | null {
+    if (!request.jobDescription) {
+      return null;
+    }
+
+    const tracked = jobDescriptionService.getTrackedRequirements(request.jobDescription);
+    if (tracked.length === 0) {
+      return null;
+    }
+
+    return tracked[Math.max(request.questionNumber - 1, 0) % tracked.length];
+  }
+
   /**
    * Get adaptive context based on previous responses
    */
@@ -1,27 +1,72 @@
-import { sealionService } from './sealion';
-import { getOpenAIService } from './openai-service';
+import { createHash } from 'crypto';
+import {
+  SeaLionProvider,
+  OpenAIProvider,
+  BedrockProvider,
+  AnthropicProvider,
+  supportsLanguage,
+  type AIProvider,
+  type AIProviderName,
+  type AIDomain,
+  type AIMessage
+} from './ai-providers';
+import { MockProvider } from './mock-ai-provider';
+import { aiUsage } from './ai-usage-service';
+import { logger } from './logger';
+
+export type { AIProvider, AIProviderName, AIDomain } from './ai-providers';
+
+const log = logger.child({ component: 'ai-router' });
+
+export interface AIUsage {
+  inputTokens: number;  // estimated from prompt length
+  outputTokens: number; // estimated from response length
+  estimatedCostUsd: number;
+}
 
 export interface AIResponse {
   content: string;
-  provider: 'sealion' | 'openai';
+  provider: AIProviderName;
   responseTime: number;
   fallbackUsed: boolean;
+  cached: boolean;
+  usage: AIUsage;
 }
 
 export interface AIGenerationOptions {
-  messages: Array<{ role: string; content: string }>;
+  messages: AIMessage[];
   maxTokens?: number;
   temperature?: number;
   model?: string;
+  providerModels?: Partial<Record<AIProviderName, string>>; // per-provider model, takes precedence over `model`
   timeout?: number;
-  domain?: 'study-plan' | 'company-research' | 'resource-generation' | 'general';
+  domain?: AIDomain;
+  language?: string;
+  providers?: AIProviderName[]; // explicit provider order, bypasses routing rules
+}
+
+export interface AIRoutingRule {
+  domain?: AIDomain;
   language?: string;
+  providers: AIProviderName[];
 }
 
+const DEFAULT_PROVIDER_ORDER: AIProviderName[] = ['openai', 'sealion'];
+
+// Prompts in these domains were written for SeaLion, with OpenAI as the fallback
+const DEFAULT_ROUTING_RULES: AIRoutingRule[] = [
+  { domain: 'interview', providers: ['sealion', 'openai'] },
+  { domain: 'translation', providers: ['sealion', 'openai'] },
+  { domain: 'industry-analysis', providers: ['sealion', 'openai'] },
+];
+
 export class AIRouter {
-  private openaiService = getOpenAIService();
-  private failureCount: { sealion: number; openai: number } = { sealion: 0, openai: 0 };
-  private lastFailure: { sealion?: Date; openai?: Date } = {};
+  private providers = new Map<AIProviderName, AIProvider>();
+  private defaultOrder: AIProviderName[];
+  private routingRules: AIRoutingRule[];
+  private readonly mockMode = process.env.AI_MOCK === 'true'; // offline: every request goes to the mock provider
+  private failureCount = new Map<AIProviderName, number>();
+  private lastFailure = new Map<AIProviderName, Date>();
   
   // Circuit breaker settings
   private readonly FAILURE_THRESHOLD = 3;
@@ -29,24 +74,68 @@ export class AIRouter {
   private readonly DEFAULT_TIMEOUT_MS = 30000; // 30 seconds
 
   // Response caching for performance optimization
-  private cache = new Map<string, { content: string; timestamp: number; provider: string }>();
+  private cache = new Map<string, { content: string; timestamp: number; provider: AIProviderName }>();
   private readonly CACHE_TTL_MS = 10 * 60 * 1000; // 10 minutes
   private readonly MAX_CACHE_SIZE = 100;
 
   constructor() {
-    console.log('🔀 AI Router initialized with OpenAI (primary) and SeaLion (fallback)');
-    console.log('🚀 OpenAI now handles all languages; SeaLion acts as the regional fallback when available');
+    [new OpenAIProvider(), new SeaLionProvider(), new AnthropicProvider(), new BedrockProvider(), new MockProvider()]
+      .forEach(provider => this.registerProvider(provider));
+
+    this.defaultOrder = this.parseProviderList(process.env.AI_PROVIDER_ORDER) || DEFAULT_PROVIDER_ORDER;
+    // Rules from the environment come first so they win over built-in rules of the same specificity
+    this.routingRules = [...this.parseRoutingRules(process.env.AI_ROUTING_RULES), ...DEFAULT_ROUTING_RULES];
+
+    if (this.mockMode) {
+      log.info('AI_MOCK enabled: all AI requests are served by the offline mock provider');
+    }
+
+    const configured = Array.from(this.providers.values()).filter(p => p.isConfigured()).map(p => p.name);
+    log.info('AI router initialized', { defaultOrder: this.defaultOrder, configured });
     
     // Clean expired cache entries every 5 minutes
     setInterval(() => this.cleanExpiredCache(), 5 * 60 * 1000);
   }
 
   /**
-   * Generate AI content with intelligent fallback and language-based routing
+   * Add or replace a provider
+   */
+  registerProvider(provider: AIProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  getProvider(name: AIProviderName): AIProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  /**
+   * Provider order for a request: the most specific matching rule wins
+   * (domain + language, then language, then domain, then the default order)
+   */
+  resolveProviderOrder(domain?: AIDomain, language: string = 'en'): AIProviderName[] {
+    if (this.mockMode) return ['mock'];
+
+    let best: { providers: AIProviderName[]; specificity: number } | null = null;
+
+    for (const rule of this.routingRules) {
+      if (rule.domain && rule.domain !== domain) continue;
+      if (rule.language && rule.language !== language) continue;
+
+      const specificity = (rule.language ? 2 : 0) + (rule.domain ? 1 : 0);
+      if (!best || specificity > best.specificity) {
+        best = { providers: rule.providers, specificity };
+      }
+    }
+
+    return best ? best.providers : this.defaultOrder;
+  }
+
+  /**
+   * Generate AI content, trying each routed provider in turn
    */
   async generateResponse(options: AIGenerationOptions): Promise<AIResponse> {
     const startTime = Date.now();
-    let fallbackUsed = false;
+    const language = options.language || 'en';
     
     // Generate cache key based on request content
     const cacheKey = this.generateCacheKey(options);
@@ -54,86 +143,122 @@ export class AIRouter {
     // Check cache first
     const cachedResponse = this.getFromCache(cacheKey);
     if (cachedResponse) {
-      console.log(`📦 Cache hit for ${options.language || 'en'} request`);
+      log.info('AI generation served from cache', {
+        provider: cachedResponse.provider,
+        domain: options.domain || 'general',
+        language
+      });
+      aiUsage.record({
+        provider: cachedResponse.provider,
+        domain: options.domain || 'general',
+        estimatedCostUsd: 0,
+        latencyMs: Date.now() - startTime,
+        cached: true
+      });
       return {
         content: cachedResponse.content,
-        provider: cachedResponse.provider as 'sealion' | 'openai',
+        provider: cachedResponse.provider,
         responseTime: Date.now() - startTime,
-        fallbackUsed: false
+        fallbackUsed: false,
+        cached: true,
+        usage: { inputTokens: 0, outputTokens: 0, estimatedCostUsd: 0 }
       };
     }
     
-    // Determine optimal service based on language
-    const { primaryService, fallbackService } = this.determineServicePriority(options.language);
+    const order: AIProviderName[] = this.mockMode
+      ? ['mock']
+      : options.providers || this.resolveProviderOrder(options.domain, language);
+    const failures: string[] = [];
+    let attempted = 0;
+
+    for (const name of order) {
+      const provider = this.providers.get(name);
+      if (!provider || !provider.isConfigured()) {
+        continue;
+      }
+      if (!supportsLanguage(provider, language)) {
+        failures.push(`${name}: does not support ${language}`);
+        continue;
+      }
+      if (!this.isServiceAvailable(name)) {
+        failures.push(`${name}: circuit breaker open`);
+        continue;
+      }
 
-    // console.log(`🗺️ Language routing: '${options.language || 'en'}' → Primary: ${primaryService}, Fallback: ${fallbackService}`);
+      const fallbackUsed = attempted > 0 || failures.length > 0;
+      attempted++;
 
-    // Try primary service first  
-    if (this.isServiceAvailable(primaryService)) {
       try {
-        console.log(`[AI] Using ${primaryService} (primary)...`);
-        
-        const content = await this.callService(primaryService, options);
-        
+        log.debug('AI generation started', { provider: name, domain: options.domain || 'general', language, fallbackUsed });
+
+        const model = options.providerModels?.[name] ?? options.model;
+        const content = await this.callWithTimeout(
+          () => provider.generate({
+            messages: options.messages,
+            maxTokens: options.maxTokens,
+            temperature: options.temperature,
+            model,
+            domain: options.domain,
+            language
+          }),
+          options.timeout || this.DEFAULT_TIMEOUT_MS
+        );
+
         // Cache successful response
-        this.setCache(cacheKey, content, primaryService);
+        this.setCache(cacheKey, content, name);
 
         // Reset failure count on success
-        this.failureCount[primaryService] = 0;
-        delete this.lastFailure[primaryService];
+        this.failureCount.set(name, 0);
+        this.lastFailure.delete(name);
+
+        const usage = this.estimateUsage(provider, options.messages, content);
+        const responseTime = Date.now() - startTime;
+        log.info('AI generation completed', {
+          provider: name,
+          model: model ?? provider.defaultModel,
+          domain: options.domain || 'general',
+          language,
+          durationMs: responseTime,
+          fallbackUsed,
+          inputTokens: usage.inputTokens,
+          outputTokens: usage.outputTokens
+        });
+        aiUsage.record({
+          provider: name,
+          model: model ?? provider.defaultModel,
+          domain: options.domain || 'general',
+          ...usage,
+          latencyMs: responseTime
+        });
 
         return {
           content,
-          provider: primaryService,
-          responseTime: Date.now() - startTime,
-          fallbackUsed: false
+          provider: name,
+          responseTime,
+          fallbackUsed,
+          cached: false,
+          usage
         };
       } catch (error) {
-        console.warn(`⚠️ ${primaryService} failed, falling back to ${fallbackService}:`, error instanceof Error ? error.message : error);
-        this.recordFailure(primaryService);
-        fallbackUsed = true;
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        log.warn('AI provider failed', { provider: name, domain: options.domain || 'general', language, durationMs: Date.now() - startTime, error: message });
+        this.recordFailure(name);
+        failures.push(`${name}: ${message}`);
       }
-    } else {
-      console.log(`⏭️ ${primaryService} unavailable, trying ${fallbackService}`);
-      fallbackUsed = true;
     }
 
-    // Fallback to secondary service
-    if (this.isServiceAvailable(fallbackService)) {
-      try {
-        console.log(`[AI] Using ${fallbackService} (fallback)...`);
-        
-        const content = await this.callService(fallbackService, options);
-        
-        // Cache successful fallback response
-        this.setCache(cacheKey, content, fallbackService);
-
-        // Reset failure count on success
-        this.failureCount[fallbackService] = 0;
-        delete this.lastFailure[fallbackService];
-
-        return {
-          content,
-          provider: fallbackService,
-          responseTime: Date.now() - startTime,
-          fallbackUsed
-        };
-      } catch (error) {
-        console.error(`❌ ${fallbackService} also failed:`, error instanceof Error ? error.message : error);
-        this.recordFailure(fallbackService);
-        throw new Error(`Both AI services failed. ${primaryService}: ${fallbackUsed ? 'circuit breaker open or failed' : 'failed'}. ${fallbackService}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      }
+    if (attempted === 0) {
+      throw new Error(`No AI providers available for ${options.domain || 'general'}/${language} (tried ${order.join(', ')}). ${failures.join('; ')}`);
     }
-
-    throw new Error(`No AI services available. Both ${primaryService} and ${fallbackService} are unavailable.`);
+    throw new Error(`All AI providers failed. ${failures.join('; ')}`);
   }
 
   /**
    * Check service availability (circuit breaker logic)
    */
-  private isServiceAvailable(service: 'sealion' | 'openai'): boolean {
-    const failures = this.failureCount[service];
-    const lastFailure = this.lastFailure[service];
+  private isServiceAvailable(service: AIProviderName): boolean {
+    const failures = this.failureCount.get(service) || 0;
+    const lastFailure = this.lastFailure.get(service);
 
     // If failure count is below threshold, service is available
     if (failures < this.FAILURE_THRESHOLD) {
@@ -142,24 +267,25 @@ export class AIRouter {
 
     // If we're past the recovery time, reset the circuit breaker
     if (lastFailure && (Date.now() - lastFailure.getTime()) > this.RECOVERY_TIME_MS) {
-      console.log(`🔄 Resetting circuit breaker for ${service}`);
-      this.failureCount[service] = 0;
-      delete this.lastFailure[service];
+      log.info('Circuit breaker reset', { provider: service });
+      this.failureCount.set(service, 0);
+      this.lastFailure.delete(service);
       return true;
     }
 
-    console.log(`⚡ Circuit breaker open for ${service} (${failures} failures)`);
+    log.warn('Circuit breaker open', { provider: service, failures });
     return false;
   }
 
   /**
    * Record service failure for circuit breaker
    */
-  private recordFailure(service: 'sealion' | 'openai'): void {
-    this.failureCount[service]++;
-    this.lastFailure[service] = new Date();
+  private recordFailure(service: AIProviderName): void {
+    const failures = (this.failureCount.get(service) || 0) + 1;
+    this.failureCount.set(service, failures);
+    this.lastFailure.set(service, new Date());
     
-    console.log(`📊 Service failure recorded for ${service}: ${this.failureCount[service]}/${this.FAILURE_THRESHOLD}`);
+    log.debug('Provider failure recorded', { provider: service, failures, threshold: this.FAILURE_THRESHOLD });
   }
 
   /**
@@ -184,98 +310,98 @@ export class AIRouter {
   }
 
   /**
-   * Determine service priority based on language
-   * Updated: OpenAI is now PRIMARY for all languages
+   * Rough token estimate (about 4 characters per token) priced at the provider's declared cost
    */
-  private determineServicePriority(language?: string): { primaryService: 'sealion' | 'openai'; fallbackService: 'sealion' | 'openai' } {
-    // OpenAI handles all requests by default for consistent behaviour
-    return { primaryService: 'openai', fallbackService: 'sealion' };
+  private estimateUsage(provider: AIProvider, messages: AIMessage[], content: string): AIUsage {
+    const inputTokens = Math.ceil(messages.reduce((sum, m) => sum + m.content.length, 0) / 4);
+    const outputTokens = Math.ceil(content.length / 4);
+    const estimatedCostUsd =
+      (inputTokens / 1000) * provider.cost.inputPer1kTokens +
+      (outputTokens / 1000) * provider.cost.outputPer1kTokens;
+
+    return { inputTokens, outputTokens, estimatedCostUsd: Math.round(estimatedCostUsd * 1e6) / 1e6 };
   }
 
   /**
-   * Call specific AI service with proper message optimization
+   * Parse a comma-separated provider list such as "openai,sealion"
    */
-  private async callService(service: 'sealion' | 'openai', options: AIGenerationOptions): Promise<string> {
-    if (service === 'openai') {
-      // Optimize messages for OpenAI if domain is specified
-      const optimizedMessages = options.domain ? 
-        this.optimizeMessagesForOpenAI(options.messages, options.domain) : 
-        options.messages;
-
-      return await this.callWithTimeout(
-        () => this.openaiService.generateResponse({
-          messages: optimizedMessages,
-          maxTokens: options.maxTokens,
-          temperature: options.temperature,
-          model: options.model
-        }),
-        options.timeout || this.DEFAULT_TIMEOUT_MS
-      );
-    } else {
-      // Call SeaLion service with explicit language parameter
-      return await this.callWithTimeout(
-        () => sealionService.generateResponse({
-          messages: options.messages,
-          maxTokens: options.maxTokens,
-          temperature: options.temperature,
-          model: options.model,
-          language: options.language || 'en' // Pass language to SeaLion service
-        }),
-        options.timeout || this.DEFAULT_TIMEOUT_MS
-      );
+  private parseProviderList(value?: string): AIProviderName[] | undefined {
+    if (!value) return undefined;
+    const names = value.split(',').map(name => name.trim()).filter(Boolean) as AIProviderName[];
+    const unknown = names.filter(name => !this.providers.has(name));
+    if (unknown.length > 0) {
+      log.warn('Ignoring unknown AI providers', { providers: unknown });
     }
+    const known = names.filter(name => this.providers.has(name));
+    return known.length > 0 ? known : undefined;
   }
 
   /**
-   * Optimize messages for OpenAI based on domain
+   * Parse AI_ROUTING_RULES, a JSON array like [{"domain":"evaluation","language":"th","providers":["sealion","openai"]}]
    */
-  private optimizeMessagesForOpenAI(
-    messages: Array<{ role: string; content: string }>, 
-    domain: 'study-plan' | 'company-research' | 'resource-generation' | 'general'
-  ): Array<{ role: string; content: string }> {
-    const systemMessage = messages.find(m => m.role === 'system');
-    const userMessages = messages.filter(m => m.role !== 'system');
-
-    // Replace or enhance system message with OpenAI-optimized prompt
-    const optimizedSystemPrompt = this.openaiService.getOptimizedSystemPrompt(domain);
-    
-    return [
-      { role: 'system', content: optimizedSystemPrompt },
-      ...userMessages
-    ];
+  private parseRoutingRules(value?: string): AIRoutingRule[] {
+    if (!value) return [];
+    try {
+      const rules = JSON.parse(value);
+      if (!Array.isArray(rules)) {
+        throw new Error('expected an array');
+      }
+      return rules
+        .map((rule: any) => ({
+          domain: rule.domain,
+          language: rule.language,
+          providers: this.parseProviderList(Array.isArray(rule.providers) ? rule.providers.join(',') : undefined) || []
+        }))
+        .filter(rule => rule.providers.length > 0);
+    } catch (error) {
+      log.error('Invalid AI_ROUTING_RULES, using defaults', { error });
+      return [];
+    }
   }
 
   /**
    * Get service health status
    */
-  async getHealthStatus(): Promise<{
-    sealion: { available: boolean; failures: number; lastFailure?: Date };
-    openai: { available: boolean; failures: number; lastFailure?: Date; health?: any };
-  }> {
-    const openaiHealth = await this.openaiService.healthCheck().catch(() => ({ healthy: false }));
-    
-    return {
-      sealion: {
-        available: this.isServiceAvailable('sealion'),
-        failures: this.failureCount.sealion,
-        lastFailure: this.lastFailure.sealion
-      },
-      openai: {
-        available: this.isServiceAvailable('openai'),
-        failures: this.failureCount.openai,
-        lastFailure: this.lastFailure.openai,
-        health: openaiHealth
-      }
-    };
+  async getHealthStatus(): Promise<Partial<Record<AIProviderName, {
+    configured: boolean;
+    available: boolean;
+    failures: number;
+    lastFailure?: Date;
+    health?: unknown;
+  }>>> {
+    const status: Partial<Record<AIProviderName, {
+      configured: boolean;
+      available: boolean;
+      failures: number;
+      lastFailure?: Date;
+      health?: unknown;
+    }>> = {};
+
+    for (const provider of Array.from(this.providers.values())) {
+      const configured = provider.isConfigured();
+      const health = configured && provider.healthCheck
+        ? await provider.healthCheck().catch(() => ({ healthy: false }))
+        : undefined;
+
+      status[provider.name] = {
+        configured,
+        available: configured && this.isServiceAvailable(provider.name),
+        failures: this.failureCount.get(provider.name) || 0,
+        lastFailure: this.lastFailure.get(provider.name),
+        ...(health !== undefined && { health })
+      };
+    }
+
+    return status;
   }
 
   /**
    * Force reset circuit breakers (for admin/testing)
    */
   resetCircuitBreakers(): void {
-    this.failureCount = { sealion: 0, openai: 0 };
-    this.lastFailure = {};
-    console.log('🔄 All circuit breakers reset');
+    this.failureCount.clear();
+    this.lastFailure.clear();
+    log.info('All circuit breakers reset');
   }
 
   /**
@@ -287,15 +413,18 @@ export class AIRouter {
       language: options.language || 'en',
       domain: options.domain,
       maxTokens: options.maxTokens,
-      temperature: options.temperature
+      temperature: options.temperature,
+      providers: options.providers,
+      model: options.model,
+      providerModels: options.providerModels
     };
-    return Buffer.from(JSON.stringify(keyData)).toString('base64').slice(0, 64);
+    return createHash('sha256').update(JSON.stringify(keyData)).digest('hex');
   }
 
   /**
    * Get response from cache if available and not expired
    */
-  private getFromCache(key: string): { content: string; provider: string } | null {
+  private getFromCache(key: string): { content: string; provider: AIProviderName } | null {
     const cached = this.cache.get(key);
     if (!cached) return null;
     
@@ -311,7 +440,7 @@ export class AIRouter {
   /**
    * Store response in cache
    */
-  private setCache(key: string, content: string, provider: string): void {
+  private setCache(key: string, content: string, provider: AIProviderName): void {
     // Remove oldest entries if cache is full
     if (this.cache.size >= this.MAX_CACHE_SIZE) {
       const oldestKey = this.cache.keys().next().value;
@@ -341,7 +470,7 @@ export class AIRouter {
     expiredKeys.forEach(key => this.cache.delete(key));
     
     if (expiredKeys.length > 0) {
-      console.log(`🧹 Cleaned ${expiredKeys.length} expired cache entries`);
+      log.debug('Cleaned expired cache entries', { count: expiredKeys.length });
     }
   }
 }
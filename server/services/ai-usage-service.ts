@@ -0,0 +1,114 @@
+// AI Usage Service
+// Meters every AI call against the user who made it and enforces per-user daily and monthly spend quotas
+
+import { storage, type AiUsageReport } from "../storage.js";
+import { getRequestContext } from "./request-context.js";
+
+export interface AIUsageRecord {
+  provider: string;
+  model?: string;
+  domain: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  audioSeconds?: number;
+  estimatedCostUsd: number;
+  latencyMs: number;
+  cached?: boolean;
+}
+
+export type QuotaPeriod = 'daily' | 'monthly';
+
+export interface QuotaDecision {
+  allowed: boolean;
+  period?: QuotaPeriod;   // the quota that was exhausted
+  limitUsd?: number;
+  usedUsd?: number;
+  resetsAt?: Date;
+  retryAfterSeconds: number;
+}
+
+// USD of estimated spend per user; 0 disables the quota
+const QUOTAS: Record<QuotaPeriod, number> = {
+  daily: Number(process.env.AI_DAILY_QUOTA_USD ?? 1),
+  monthly: Number(process.env.AI_MONTHLY_QUOTA_USD ?? 10),
+};
+
+export class AIUsageService {
+  /**
+   * Store a usage event for the current request's user and session. Never throws.
+   */
+  record(usage: AIUsageRecord): void {
+    const { userId, sessionId } = getRequestContext();
+
+    storage.recordAiUsageEvent({
+      userId: userId ?? null,
+      sessionId: sessionId ?? null,
+      provider: usage.provider,
+      model: usage.model ?? null,
+      domain: usage.domain,
+      inputTokens: usage.inputTokens ?? 0,
+      outputTokens: usage.outputTokens ?? 0,
+      audioSeconds: usage.audioSeconds !== undefined ? usage.audioSeconds.toFixed(2) : null,
+      estimatedCostUsd: usage.estimatedCostUsd.toFixed(6),
+      latencyMs: Math.round(usage.latencyMs),
+      cached: usage.cached ?? false,
+    }).catch((error) => {
+      console.error('❌ Failed to record AI usage:', error);
+    });
+  }
+
+  /**
+   * Check the user's spend so far today and this month (UTC) against the quotas
+   */
+  async checkQuota(userId: string): Promise<QuotaDecision> {
+    try {
+      const now = new Date();
+      // Monthly first, so a user over both quotas is told the later reset time
+      const periods: Array<{ period: QuotaPeriod; start: Date; end: Date }> = [
+        {
+          period: 'monthly',
+          start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+          end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+        },
+        {
+          period: 'daily',
+          start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())),
+          end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)),
+        },
+      ];
+
+      for (const { period, start, end } of periods) {
+        const limitUsd = QUOTAS[period];
+        if (!(limitUsd > 0)) continue;
+
+        const { costUsd } = await storage.getAiUsageTotals(userId, start);
+        if (costUsd >= limitUsd) {
+          return {
+            allowed: false,
+            period,
+            limitUsd,
+            usedUsd: Number(costUsd.toFixed(4)),
+            resetsAt: end,
+            retryAfterSeconds: Math.ceil((end.getTime() - now.getTime()) / 1000),
+          };
+        }
+      }
+
+      return { allowed: true, retryAfterSeconds: 0 };
+    } catch (error) {
+      // Fail open, like the rate limiter: metering problems shouldn't block practice
+      console.error('❌ AI quota check failed:', error);
+      return { allowed: true, retryAfterSeconds: 0 };
+    }
+  }
+
+  getQuotas(): Record<QuotaPeriod, number> {
+    return { ...QUOTAS };
+  }
+
+  async getSpendReport(from: Date, to: Date): Promise<AiUsageReport> {
+    return storage.getAiUsageReport(from, to);
+  }
+}
+
+export const aiUsage = new AIUsageService();
@@ -0,0 +1,21 @@
+// App URL
+// The public base URL for links the server emails or hands out; never taken from request headers, which clients control
+
+/**
+ * APP_BASE_URL without a trailing slash; production refuses to run without it, development falls back to localhost
+ */
+export function getAppBaseUrl(): string {
+  const configured = process.env.APP_BASE_URL?.trim();
+  if (configured) {
+    const url = new URL(configured);
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      throw new Error(`APP_BASE_URL must be an http(s) URL, got ${url.protocol}`);
+    }
+    return url.origin + url.pathname.replace(/\/+$/, '');
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('APP_BASE_URL must be set in production: emailed and shared links are built from it');
+  }
+  return `http://localhost:${process.env.PORT || '5000'}`;
+}
@@ -1,4 +1,4 @@
-import { BedrockRuntimeClient, InvokeModelCommand } from "@aws-sdk/client-bedrock-runtime";
+import { aiRouter, type AIProviderName } from "./ai-router";
 
 interface InterviewerPersona {
   name: string;
@@ -37,25 +37,11 @@ interface STARAssessment {
 }
 
 class BedrockService {
-  private client: BedrockRuntimeClient;
-  private maxRetries: number = 5;
-  private baseDelay: number = 1000; // 1 second
-  private maxDelay: number = 60000; // 1 minute
   private modelId: string = "anthropic.claude-3-5-sonnet-20241022-v2:0"; // Latest Claude model on Bedrock
 
   constructor() {
-    // Check for required AWS credentials
-    if (process.env.AWS_ACCESS_KEY_ID && process.env.AWS_SECRET_ACCESS_KEY && process.env.AWS_REGION) {
-      this.client = new BedrockRuntimeClient({
-        region: process.env.AWS_REGION,
-        credentials: {
-          accessKeyId: process.env.AWS_ACCESS_KEY_ID,
-          secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY,
-        },
-      });
-    } else {
+    if (!aiRouter.getProvider('bedrock')?.isConfigured()) {
       console.warn("AWS credentials not provided. AI features will use mock responses until credentials are configured.");
-      this.client = null as any; // Will use mock responses
     }
   }
 
@@ -77,75 +63,22 @@ class BedrockService {
   }
 
   private async makeRequest(messages: any[], systemPrompt?: string, maxTokens: number = 1024): Promise<any> {
-    // If no AWS client is configured, return mock response
-    if (!this.client) {
-      await new Promise(resolve => setTimeout(resolve, 500)); // Simulate API delay
-      return {
-        content: [{ text: "Mock AI response. Please configure AWS Bedrock credentials to enable real AI interactions." }]
-      };
-    }
-
-    // Convert messages to Claude format
-    const claudeMessages = messages.map(msg => ({
-      role: msg.role,
-      content: msg.content
-    }));
-
-    const requestBody = {
-      anthropic_version: "bedrock-2023-05-31",
-      max_tokens: maxTokens,
-      messages: claudeMessages,
-      ...(systemPrompt && { system: systemPrompt }),
-    };
-
-    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
-      try {
-        const command = new InvokeModelCommand({
-          modelId: this.modelId,
-          contentType: "application/json",
-          accept: "application/json",
-          body: JSON.stringify(requestBody),
-        });
-
-        const response = await this.client.send(command);
-        
-        if (!response.body) {
-          throw new Error("No response body from Bedrock");
-        }
-
-        const responseBody = JSON.parse(new TextDecoder().decode(response.body));
-        return responseBody;
-      } catch (error: any) {
-        // Handle throttling
-        if (error.name === 'ThrottlingException' || error.message?.includes('throttl')) {
-          const delay = Math.min(this.baseDelay * Math.pow(2, attempt - 1), this.maxDelay);
-          const jitter = Math.random() * 1000; // Add up to 1 second of jitter
-          
-          console.log(`AWS Bedrock throttling detected. Retrying in ${delay + jitter}ms (attempt ${attempt}/${this.maxRetries})`);
-          await new Promise(resolve => setTimeout(resolve, delay + jitter));
-          continue;
-        }
-
-        if (attempt === this.maxRetries) {
-          console.error(`Failed to make Bedrock request after ${this.maxRetries} attempts:`, error);
-          throw new Error(`Bedrock API failed after ${this.maxRetries} retries: ${error.message}`);
-        }
-
-        // Retry on network errors or retryable service errors
-        if (error.name === 'NetworkingError' || error.name === 'ServiceException' || 
-            error.name === 'InternalServerException' || error.name === 'ModelTimeoutException') {
-          const delay = Math.min(this.baseDelay * Math.pow(2, attempt - 1), this.maxDelay);
-          const jitter = Math.random() * 1000;
-          
-          console.log(`Retryable error. Retrying in ${delay + jitter}ms (attempt ${attempt}/${this.maxRetries}): ${error.name}`);
-          await new Promise(resolve => setTimeout(resolve, delay + jitter));
-          continue;
-        }
-
-        // Don't retry on client errors
-        throw error;
-      }
-    }
+    // Without AWS credentials, answer from the mock provider instead
+    const providers: AIProviderName[] = aiRouter.getProvider('bedrock')?.isConfigured() ? ['bedrock'] : ['mock'];
+
+    const result = await aiRouter.generateResponse({
+      messages: [
+        ...(systemPrompt ? [{ role: "system", content: systemPrompt }] : []),
+        ...messages.map(msg => ({ role: msg.role, content: msg.content }))
+      ],
+      maxTokens,
+      providers,
+      providerModels: { bedrock: this.modelId },
+      domain: 'interview'
+    });
+
+    // Keep the Claude response shape the callers parse
+    return { content: [{ text: result.content }] };
   }
 
   async generateInterviewerPersona(context: InterviewContext): Promise<InterviewerPersona> {
@@ -0,0 +1,272 @@
+// Delivery Analysis Service
+// How a voice answer was spoken: pace, filler words, long pauses and speaking time, from word timestamps and the audio's energy
+
+import { execFile } from 'child_process';
+import type { DeliveryMetrics, DeliveryPace, DeliverySummary } from '@shared/schema';
+import type { SttWord } from './speech-to-text';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'delivery-analysis' });
+
+export interface DeliveryInput {
+  text: string;
+  language: string;
+  durationSeconds: number;
+  words: SttWord[];
+  audio?: Buffer; // the recorded answer in any format ffmpeg can decode
+}
+
+const LONG_PAUSE_SECONDS = 2;
+const BRIDGED_GAP_SECONDS = 0.3; // shorter silences (between words, breaths) still count as speaking
+const MAX_LISTED_PAUSES = 20;
+const TOP_FILLERS = 5;
+
+// Interview pace in words per minute; Thai and Chinese are counted in segmented words, which land in a similar range
+const PACE_RANGE = { slow: 100, fast: 170 };
+
+// Audio energy: 16 kHz mono, 30 ms frames, speech must rise this far above the recording's noise floor
+const SAMPLE_RATE = 16000;
+const FRAME_SECONDS = 0.03;
+const SPEECH_ABOVE_NOISE_DB = 10;
+const MIN_SPEECH_DB = -50;
+const DECODE_TIMEOUT_MS = 60000;
+
+// Hesitation sounds transcribed the same way whatever the language
+const HESITATIONS = ['um', 'umm', 'uh', 'uhm', 'er', 'erm', 'hmm', 'ah'];
+
+// Fillers per SUPPORTED_LANGUAGES key, including the discourse particles of Singaporean and Malaysian English
+const FILLERS: Record<string, string[]> = {
+  'en': ['you know', 'i mean', 'basically', 'sort of', 'lah', 'lor'],
+  'ms': ['lah', 'macam', 'apa nama', 'eh', 'kan'],
+  'id': ['anu', 'eh', 'gitu', 'kayak', 'apa ya', 'ya kan'],
+  'th': ['แบบ', 'แบบว่า', 'เอ่อ', 'อ่า', 'อืม', 'คือว่า'],
+  'vi': ['ờ', 'ừ', 'ừm', 'kiểu như', 'nói chung là', 'thì là'],
+  'fil': ['ano', 'kasi', 'parang', 'ganun', 'bale'],
+  'zh-sg': ['那个', '这个', '就是说', '嗯', '呃', 'lah'],
+};
+
+function round(value: number, digits = 2): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+export function paceOf(wordsPerMinute: number | null): DeliveryPace | null {
+  if (wordsPerMinute === null) return null;
+  if (wordsPerMinute < PACE_RANGE.slow) return 'slow';
+  if (wordsPerMinute > PACE_RANGE.fast) return 'fast';
+  return 'good';
+}
+
+/**
+ * Lower-cased words of a text; Intl.Segmenter also splits Thai and Chinese, which are written without spaces
+ */
+export function segmentWords(text: string, language: string): string[] {
+  let segmenter: Intl.Segmenter;
+  try {
+    segmenter = new Intl.Segmenter(language, { granularity: 'word' });
+  } catch {
+    segmenter = new Intl.Segmenter('en', { granularity: 'word' });
+  }
+  return Array.from(segmenter.segment(text.toLowerCase()))
+    .filter(segment => segment.isWordLike)
+    .map(segment => segment.segment);
+}
+
+/**
+ * Filler words and phrases in a transcript; at each position the longest match wins, so "แบบว่า" is not also counted as "แบบ"
+ */
+export function countFillers(words: string[], language: string): Record<string, number> {
+  const phrases = Array.from(new Set([...HESITATIONS, ...(FILLERS[language] || [])]))
+    .map(filler => ({ filler, tokens: segmentWords(filler, language) }))
+    .filter(({ tokens }) => tokens.length > 0)
+    .sort((a, b) => b.tokens.length - a.tokens.length);
+
+  const counts: Record<string, number> = {};
+  for (let i = 0; i < words.length;) {
+    const match = phrases.find(({ tokens }) => tokens.every((token, offset) => words[i + offset] === token));
+    if (match) {
+      counts[match.filler] = (counts[match.filler] || 0) + 1;
+      i += match.tokens.length;
+    } else {
+      i++;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Voiced stretches of 16-bit PCM, from frame loudness against the recording's own noise floor
+ */
+export function speechIntervalsFromPcm(pcm: Buffer, sampleRate = SAMPLE_RATE): Array<{ start: number; end: number }> {
+  const samplesPerFrame = Math.round(sampleRate * FRAME_SECONDS);
+  const frameCount = Math.floor(pcm.length / 2 / samplesPerFrame);
+  if (frameCount === 0) return [];
+
+  const levels: number[] = [];
+  for (let frame = 0; frame < frameCount; frame++) {
+    let sumSquares = 0;
+    for (let i = 0; i < samplesPerFrame; i++) {
+      const sample = pcm.readInt16LE((frame * samplesPerFrame + i) * 2) / 32768;
+      sumSquares += sample * sample;
+    }
+    const rms = Math.sqrt(sumSquares / samplesPerFrame);
+    levels.push(rms > 0 ? 20 * Math.log10(rms) : -100);
+  }
+
+  // The quietest tenth of the recording is taken as background noise
+  const noiseFloor = [...levels].sort((a, b) => a - b)[Math.floor(levels.length * 0.1)];
+  const threshold = Math.max(noiseFloor + SPEECH_ABOVE_NOISE_DB, MIN_SPEECH_DB);
+
+  const intervals: Array<{ start: number; end: number }> = [];
+  levels.forEach((level, frame) => {
+    if (level < threshold) return;
+    const start = frame * FRAME_SECONDS;
+    const last = intervals[intervals.length - 1];
+    if (last && start - last.end < 1e-6) last.end = start + FRAME_SECONDS;
+    else intervals.push({ start, end: start + FRAME_SECONDS });
+  });
+  return intervals;
+}
+
+/**
+ * Speaking time and long pauses from voiced intervals; silence before the first and after the last word is not a pause
+ */
+function timing(intervals: Array<{ start: number; end: number }>) {
+  const merged: Array<{ start: number; end: number }> = [];
+  for (const interval of [...intervals].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start - last.end < BRIDGED_GAP_SECONDS) last.end = Math.max(last.end, interval.end);
+    else merged.push({ ...interval });
+  }
+
+  const pauses: Array<{ start: number; end: number }> = [];
+  for (let i = 1; i < merged.length; i++) {
+    if (merged[i].start - merged[i - 1].end >= LONG_PAUSE_SECONDS) {
+      pauses.push({ start: round(merged[i - 1].end), end: round(merged[i].start) });
+    }
+  }
+
+  return {
+    speakingSeconds: merged.reduce((sum, interval) => sum + (interval.end - interval.start), 0),
+    speechEnd: merged.length > 0 ? merged[merged.length - 1].end : 0,
+    pauses
+  };
+}
+
+export class DeliveryAnalysisService {
+  private readonly ffmpeg = process.env.FFMPEG_PATH || 'ffmpeg';
+
+  async analyze(input: DeliveryInput): Promise<DeliveryMetrics> {
+    let intervals: Array<{ start: number; end: number }> | null = null;
+    let source: DeliveryMetrics['source'] = 'transcript';
+
+    if (input.audio && input.audio.length > 0) {
+      try {
+        intervals = speechIntervalsFromPcm(await this.decode(input.audio));
+        source = 'audio';
+      } catch (error) {
+        log.warn('Audio energy analysis failed; using word timestamps', { error });
+      }
+    }
+    if (!intervals && input.words.length > 0) {
+      intervals = input.words.map(word => ({ start: word.start, end: word.end }));
+      source = 'timestamps';
+    }
+
+    return this.measure(input, intervals, source);
+  }
+
+  measure(
+    input: DeliveryInput,
+    intervals: Array<{ start: number; end: number }> | null,
+    source: DeliveryMetrics['source']
+  ): DeliveryMetrics {
+    const words = segmentWords(input.text, input.language);
+    const fillers = countFillers(words, input.language);
+    const fillerCount = Object.values(fillers).reduce((sum, count) => sum + count, 0);
+
+    const measured = intervals ? timing(intervals) : null;
+    const durationSeconds = Math.max(input.durationSeconds || 0, measured?.speechEnd || 0);
+    const wordsPerMinute = durationSeconds > 0 && words.length > 0 ? Math.round(words.length / (durationSeconds / 60)) : null;
+    const speakingSeconds = measured ? Math.min(measured.speakingSeconds, durationSeconds) : null;
+
+    return {
+      source,
+      durationSeconds: round(durationSeconds),
+      wordCount: words.length,
+      wordsPerMinute,
+      pace: paceOf(wordsPerMinute),
+      speakingSeconds: speakingSeconds !== null ? round(speakingSeconds) : null,
+      speakingTimeRatio: speakingSeconds !== null && durationSeconds > 0 ? round(speakingSeconds / durationSeconds) : null,
+      fillerCount,
+      fillerRate: words.length > 0 ? round((fillerCount / words.length) * 100, 1) : 0,
+      fillers,
+      longPauses: measured?.pauses.length ?? 0,
+      longestPauseSeconds: measured && measured.pauses.length > 0
+        ? round(Math.max(...measured.pauses.map(pause => pause.end - pause.start)))
+        : null,
+      pauses: measured?.pauses.slice(0, MAX_LISTED_PAUSES) ?? []
+    };
+  }
+
+  /**
+   * Combines answers weighted by their length, so a short answer doesn't skew the pace
+   */
+  summarize(metrics: DeliveryMetrics[]): DeliverySummary | null {
+    if (metrics.length === 0) return null;
+
+    const totalSeconds = metrics.reduce((sum, m) => sum + m.durationSeconds, 0);
+    const totalWords = metrics.reduce((sum, m) => sum + m.wordCount, 0);
+    const timed = metrics.filter(m => m.speakingSeconds !== null && m.durationSeconds > 0);
+    const timedSeconds = timed.reduce((sum, m) => sum + m.durationSeconds, 0);
+    const fillerCount = metrics.reduce((sum, m) => sum + m.fillerCount, 0);
+    const longPauses = metrics.reduce((sum, m) => sum + m.longPauses, 0);
+    const longest = metrics.map(m => m.longestPauseSeconds).filter((value): value is number => value !== null);
+
+    const fillerTotals = new Map<string, number>();
+    for (const m of metrics) {
+      for (const [filler, count] of Object.entries(m.fillers)) {
+        fillerTotals.set(filler, (fillerTotals.get(filler) || 0) + count);
+      }
+    }
+
+    const wordsPerMinute = totalSeconds > 0 && totalWords > 0 ? Math.round(totalWords / (totalSeconds / 60)) : null;
+    return {
+      answers: metrics.length,
+      totalSeconds: round(totalSeconds),
+      wordsPerMinute,
+      pace: paceOf(wordsPerMinute),
+      speakingTimeRatio: timedSeconds > 0
+        ? round(timed.reduce((sum, m) => sum + m.speakingSeconds!, 0) / timedSeconds)
+        : null,
+      fillerCount,
+      fillerRate: totalWords > 0 ? round((fillerCount / totalWords) * 100, 1) : 0,
+      topFillers: Array.from(fillerTotals.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, TOP_FILLERS)
+        .map(([filler, count]) => ({ filler, count })),
+      longPauses,
+      longPausesPerAnswer: round(longPauses / metrics.length, 1),
+      longestPauseSeconds: longest.length > 0 ? Math.max(...longest) : null
+    };
+  }
+
+  // Raw 16 kHz mono 16-bit PCM on stdout, so nothing touches the disk
+  private decode(audio: Buffer): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const child = execFile(this.ffmpeg, [
+        '-hide_banner', '-loglevel', 'error',
+        '-i', 'pipe:0',
+        '-f', 's16le', '-ac', '1', '-ar', String(SAMPLE_RATE),
+        'pipe:1'
+      ], { encoding: 'buffer', timeout: DECODE_TIMEOUT_MS, maxBuffer: 256 * 1024 * 1024 }, (error, stdout, stderr) => {
+        if (error) reject(new Error(`ffmpeg failed: ${stderr.toString().trim() || error.message}`));
+        else resolve(stdout);
+      });
+      child.stdin?.on('error', () => undefined);
+      child.stdin?.end(audio);
+    });
+  }
+}
+
+export const deliveryAnalysis = new DeliveryAnalysisService();
@@ -1,21 +1,16 @@
 /**
  * Comprehensive Error Logging and Fallback Reporting System
  * For P³ Interview Academy SeaLion Integration
+ * Errors are persisted to error_logs so reports survive restarts
  */
 
-interface ErrorLog {
-  timestamp: Date;
-  component: string;
-  operation: string;
-  errorType: string;
-  message: string;
-  fallbackUsed: boolean;
-  context?: any;
-  userId?: string;
-  sessionId?: string;
-}
+import { storage, type ErrorLogFilters, type ErrorLogSummary } from '../storage';
+import { getRequestContext } from './request-context';
+import { logger } from './logger';
+import type { ErrorLog, InsertErrorLog } from '@shared/schema';
 
 interface FallbackReport {
+  windowHours: number;
   totalErrors: number;
   fallbackSuccessRate: number;
   mostCommonErrors: { error: string; count: number }[];
@@ -23,12 +18,18 @@ interface FallbackReport {
   recommendations: string[];
 }
 
-class ErrorLogger {
-  private errors: ErrorLog[] = [];
-  private readonly maxErrors = 1000; // Keep last 1000 errors
+const log = logger.child({ component: 'error-logger' });
+
+// Most recent errors scanned for message patterns when building recommendations
+const RECOMMENDATION_SAMPLE_SIZE = 500;
 
+// Export cap so a single download can't pull the whole table into memory
+export const MAX_EXPORT_ROWS = 10000;
+
+class ErrorLogger {
   /**
    * Log an error with comprehensive context
+   * Persisted in the background; user and session default to the current request's
    */
   logError(
     component: string,
@@ -39,32 +40,30 @@ class ErrorLogger {
     userId?: string,
     sessionId?: string
   ): void {
-    const errorLog: ErrorLog = {
-      timestamp: new Date(),
+    const requestContext = getRequestContext();
+    const errorLog = {
       component,
       operation,
       errorType: error?.name || error?.constructor?.name || 'UnknownError',
       message: error instanceof Error ? error.message : String(error),
       fallbackUsed,
-      context,
-      userId,
-      sessionId
+      context: this.toJson(context),
+      userId: userId ?? requestContext.userId ?? null,
+      sessionId: sessionId ?? requestContext.sessionId ?? null,
+      correlationId: requestContext.correlationId ?? null
     };
 
-    this.errors.push(errorLog);
-    
-    // Keep only recent errors
-    if (this.errors.length > this.maxErrors) {
-      this.errors = this.errors.slice(-this.maxErrors);
-    }
+    storage.recordErrorLog(errorLog).catch((persistError) => {
+      log.error('Failed to persist error log', { error: persistError });
+    });
 
-    // Console log for immediate visibility
-    console.error(`[${component}] ${operation} failed:`, {
+    // Log for immediate visibility
+    log.error(`${operation} failed`, {
+      errorComponent: component,
+      errorType: errorLog.errorType,
       error: errorLog.message,
       fallbackUsed,
-      timestamp: errorLog.timestamp.toISOString(),
-      ...(context && { context }),
-      ...(sessionId && { sessionId })
+      ...(context && { context })
     });
   }
 
@@ -78,67 +77,52 @@ class ErrorLogger {
     userId?: string,
     sessionId?: string
   ): void {
-    console.log(`[${component}] Fallback successful for ${operation}:`, {
-      timestamp: new Date().toISOString(),
-      ...(context && { context }),
-      ...(sessionId && { sessionId })
+    log.info(`Fallback successful for ${operation}`, {
+      errorComponent: component,
+      ...(context && { context })
     });
   }
 
   /**
-   * Generate comprehensive fallback report
+   * Generate comprehensive fallback report from the persisted errors of the last `windowHours`
    */
-  generateFallbackReport(): FallbackReport {
-    const recentErrors = this.errors.filter(
-      error => Date.now() - error.timestamp.getTime() < 24 * 60 * 60 * 1000 // Last 24 hours
-    );
-
-    const totalErrors = recentErrors.length;
-    const fallbacksUsed = recentErrors.filter(error => error.fallbackUsed).length;
-    const fallbackSuccessRate = totalErrors > 0 ? (fallbacksUsed / totalErrors) * 100 : 100;
+  async generateFallbackReport(windowHours: number = 24): Promise<FallbackReport> {
+    const filters: ErrorLogFilters = { from: new Date(Date.now() - windowHours * 60 * 60 * 1000) };
+    const [summary, { entries: recentErrors }] = await Promise.all([
+      storage.getErrorLogSummary(filters),
+      storage.listErrorLogs({ ...filters, limit: RECOMMENDATION_SAMPLE_SIZE })
+    ]);
 
-    // Count error types
-    const errorCounts = recentErrors.reduce((acc, error) => {
-      const key = `${error.component}.${error.operation}: ${error.errorType}`;
-      acc[key] = (acc[key] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
+    const totalErrors = summary.total;
+    const fallbackSuccessRate = totalErrors > 0 ? (summary.fallbacks / totalErrors) * 100 : 100;
 
-    const mostCommonErrors = Object.entries(errorCounts)
-      .sort(([, a], [, b]) => b - a)
+    const mostCommonErrors = summary.byError
       .slice(0, 5)
-      .map(([error, count]) => ({ error, count }));
-
-    // Analyze component health
-    const componentHealth = this.analyzeComponentHealth(recentErrors);
-
-    // Generate recommendations
-    const recommendations = this.generateRecommendations(recentErrors, fallbackSuccessRate);
+      .map(({ key, count }) => ({ error: key, count }));
 
     return {
+      windowHours,
       totalErrors,
       fallbackSuccessRate,
       mostCommonErrors,
-      componentStatus: componentHealth,
-      recommendations
+      componentStatus: this.analyzeComponentHealth(summary),
+      recommendations: this.generateRecommendations(recentErrors, totalErrors, fallbackSuccessRate)
     };
   }
 
   /**
    * Analyze health status of each component
    */
-  private analyzeComponentHealth(errors: ErrorLog[]): { [component: string]: 'healthy' | 'degraded' | 'failing' } {
-    const componentErrors = errors.reduce((acc, error) => {
-      acc[error.component] = (acc[error.component] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
+  private analyzeComponentHealth(summary: ErrorLogSummary): { [component: string]: 'healthy' | 'degraded' | 'failing' } {
+    const componentErrors = Object.fromEntries(summary.byComponent.map(({ key, count }) => [key, count]));
 
     const result: { [component: string]: 'healthy' | 'degraded' | 'failing' } = {};
 
-    // Define components
+    // Known components always appear, plus any other component that has logged errors
     const knownComponents = ['SeaLion', 'Authentication', 'Database', 'FileSystem', 'API'];
+    const components = Array.from(new Set([...knownComponents, ...Object.keys(componentErrors)]));
     
-    knownComponents.forEach(component => {
+    components.forEach(component => {
       const errorCount = componentErrors[component] || 0;
       if (errorCount === 0) {
         result[component] = 'healthy';
@@ -155,7 +139,7 @@ class ErrorLogger {
   /**
    * Generate actionable recommendations
    */
-  private generateRecommendations(errors: ErrorLog[], fallbackSuccessRate: number): string[] {
+  private generateRecommendations(errors: ErrorLog[], totalErrors: number, fallbackSuccessRate: number): string[] {
     const recommendations: string[] = [];
 
     // Check API key issues
@@ -193,7 +177,7 @@ class ErrorLogger {
     }
 
     // Performance recommendations
-    if (errors.length > 50) {
+    if (totalErrors > 50) {
       recommendations.push('📊 High error volume - consider implementing circuit breaker pattern');
     }
 
@@ -207,50 +191,75 @@ class ErrorLogger {
   /**
    * Get error statistics for specific component
    */
-  getComponentStats(component: string): {
+  async getComponentStats(component: string): Promise<{
     totalErrors: number;
     recentErrors: number;
     fallbackRate: number;
     lastError?: ErrorLog;
-  } {
-    const componentErrors = this.errors.filter(error => error.component === component);
-    const recentErrors = componentErrors.filter(
-      error => Date.now() - error.timestamp.getTime() < 60 * 60 * 1000 // Last hour
-    );
+  }> {
+    const [summary, { entries: recent, total: recentErrors }] = await Promise.all([
+      storage.getErrorLogSummary({ component }),
+      storage.listErrorLogs({ component, from: new Date(Date.now() - 60 * 60 * 1000), limit: 1 }) // Last hour
+    ]);
 
-    const fallbacksUsed = componentErrors.filter(error => error.fallbackUsed).length;
-    const fallbackRate = componentErrors.length > 0 ? (fallbacksUsed / componentErrors.length) * 100 : 0;
+    const fallbackRate = summary.total > 0 ? (summary.fallbacks / summary.total) * 100 : 0;
+    const lastError = recent[0] ?? (summary.total > 0
+      ? (await storage.listErrorLogs({ component, limit: 1 })).entries[0]
+      : undefined);
 
     return {
-      totalErrors: componentErrors.length,
-      recentErrors: recentErrors.length,
+      totalErrors: summary.total,
+      recentErrors,
       fallbackRate,
-      lastError: componentErrors[componentErrors.length - 1]
+      lastError
     };
   }
 
   /**
    * Clear old errors (cleanup)
    */
-  clearOldErrors(olderThanHours: number = 48): number {
-    const cutoff = Date.now() - (olderThanHours * 60 * 60 * 1000);
-    const initialCount = this.errors.length;
-    this.errors = this.errors.filter(error => error.timestamp.getTime() > cutoff);
-    return initialCount - this.errors.length;
+  async clearOldErrors(olderThanHours: number = 48): Promise<number> {
+    return storage.deleteErrorLogsBefore(new Date(Date.now() - olderThanHours * 60 * 60 * 1000));
   }
 
   /**
-   * Export errors for analysis
+   * Export errors for analysis, newest first (at most MAX_EXPORT_ROWS)
    */
-  exportErrors(format: 'json' | 'csv' = 'json'): string {
+  async exportErrors(format: 'json' | 'csv' = 'json', filters: ErrorLogFilters = {}): Promise<string> {
+    const { entries } = await storage.listErrorLogs({ ...filters, limit: MAX_EXPORT_ROWS, offset: 0 });
+
     if (format === 'csv') {
-      const headers = 'timestamp,component,operation,errorType,message,fallbackUsed,userId,sessionId';
-      const rows = this.errors.map(error => 
-        `${error.timestamp.toISOString()},${error.component},${error.operation},${error.errorType},"${error.message.replace(/"/g, '""')}",${error.fallbackUsed},${error.userId || ''},${error.sessionId || ''}`
-      );
+      const headers = 'timestamp,component,operation,errorType,message,fallbackUsed,userId,sessionId,correlationId';
+      const rows = entries.map(error => [
+        error.createdAt.toISOString(),
+        error.component,
+        error.operation,
+        error.errorType,
+        error.message,
+        error.fallbackUsed,
+        error.userId || '',
+        error.sessionId || '',
+        error.correlationId || ''
+      ].map(value => this.csvField(String(value))).join(','));
       return [headers, ...rows].join('\n');
     }
-    return JSON.stringify(this.errors, null, 2);
+    return JSON.stringify(entries, null, 2);
+  }
+
+  // Messages and URLs can come from users; a leading quote stops spreadsheets running them as formulas
+  private csvField(value: string): string {
+    const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  // Context is stored as jsonb; drop anything that can't be serialized (circular refs, BigInt...)
+  private toJson(context: any): InsertErrorLog['context'] {
+    if (context === undefined) return null;
+    try {
+      return JSON.parse(JSON.stringify(context));
+    } catch {
+      return { unserializable: String(context) };
+    }
   }
 }
 
@@ -0,0 +1,191 @@
+// Follow-up Service
+// Targeted interviewer probes for answers with a weak STAR action or result, asked before moving to the next question
+
+import type { FollowUpExchange, PracticeMessage, ProbedStarElement } from '@shared/schema';
+
+export const DEFAULT_FOLLOW_UPS_PER_QUESTION = 1;
+export const MAX_FOLLOW_UPS_PER_QUESTION = 3;
+
+// STAR element scores (1-5) below this get a probe
+const WEAK_SCORE = 3;
+
+// Probed in this order when both are equally weak; the result is what interviewers most often have to dig for
+const PROBED_ELEMENTS: ProbedStarElement[] = ['result', 'action'];
+
+// Probes per SUPPORTED_LANGUAGES key; each element has a second, differently worded probe for a repeat follow-up
+const PROBES: Record<string, Record<ProbedStarElement, string[]>> = {
+  'en': {
+    result: [
+      'What was the measurable outcome?',
+      'How did you know it worked? Can you share any numbers or feedback you received?'
+    ],
+    action: [
+      'What specific steps did you personally take?',
+      'Walk me through exactly what you did, and why you chose that approach.'
+    ]
+  },
+  'ms': {
+    result: [
+      'Apakah hasil yang boleh diukur?',
+      'Bagaimana anda tahu ia berjaya? Boleh kongsikan angka atau maklum balas yang anda terima?'
+    ],
+    action: [
+      'Apakah langkah khusus yang anda sendiri ambil?',
+      'Terangkan dengan tepat apa yang anda lakukan, dan mengapa anda memilih pendekatan itu.'
+    ]
+  },
+  'id': {
+    result: [
+      'Apa hasil yang dapat diukur?',
+      'Bagaimana Anda tahu hal itu berhasil? Bisakah Anda menyebutkan angka atau umpan balik yang Anda terima?'
+    ],
+    action: [
+      'Langkah spesifik apa yang Anda lakukan sendiri?',
+      'Jelaskan secara rinci apa yang Anda lakukan, dan mengapa Anda memilih pendekatan itu.'
+    ]
+  },
+  'th': {
+    result: [
+      'ผลลัพธ์ที่วัดผลได้คืออะไร?',
+      'คุณรู้ได้อย่างไรว่าได้ผล? มีตัวเลขหรือคำติชมที่ได้รับมาเล่าให้ฟังไหม?'
+    ],
+    action: [
+      'คุณลงมือทำอะไรบ้างด้วยตัวเองอย่างเจาะจง?',
+      'ช่วยอธิบายทีละขั้นว่าคุณทำอะไร และทำไมจึงเลือกวิธีนั้น'
+    ]
+  },
+  'vi': {
+    result: [
+      'Kết quả đo lường được là gì?',
+      'Làm sao bạn biết cách làm đó hiệu quả? Bạn có số liệu hoặc phản hồi nào không?'
+    ],
+    action: [
+      'Cụ thể bạn đã tự mình thực hiện những bước nào?',
+      'Hãy kể chi tiết bạn đã làm gì và vì sao bạn chọn cách đó.'
+    ]
+  },
+  'fil': {
+    result: [
+      'Ano ang nasusukat na resulta?',
+      'Paano mo nalaman na naging epektibo ito? May maibabahagi ka bang numero o feedback na natanggap mo?'
+    ],
+    action: [
+      'Anong mga partikular na hakbang ang ikaw mismo ang gumawa?',
+      'Ikuwento nang detalyado kung ano ang ginawa mo, at bakit mo pinili ang paraang iyon.'
+    ]
+  },
+  'zh-sg': {
+    result: [
+      '可衡量的结果是什么？',
+      '你怎么知道这个做法有效？能分享一些数据或收到的反馈吗？'
+    ],
+    action: [
+      '你本人具体采取了哪些步骤？',
+      '请具体说明你做了什么，以及为什么选择这种做法。'
+    ]
+  },
+};
+
+// Older sessions store Filipino as 'tl'
+const LANGUAGE_ALIASES: Record<string, string> = { 'tl': 'fil', 'zh': 'zh-sg' };
+
+export interface QuestionAnswerPair {
+  questionNumber: number;
+  questionText: string;
+  responseText: string;
+  messageId: string;
+  followUps: FollowUpExchange[];
+}
+
+export class FollowUpService {
+  /**
+   * Clamp a configured follow-up count; missing values fall back to the default
+   */
+  limit(value: number | null | undefined): number {
+    if (value === null || value === undefined || !Number.isFinite(value)) return DEFAULT_FOLLOW_UPS_PER_QUESTION;
+    return Math.max(0, Math.min(MAX_FOLLOW_UPS_PER_QUESTION, Math.floor(value)));
+  }
+
+  /**
+   * The STAR elements worth probing, weakest first
+   */
+  weakElements(starScores: Partial<Record<ProbedStarElement, unknown>> | null | undefined): ProbedStarElement[] {
+    return PROBED_ELEMENTS
+      .map(element => ({ element, score: Number(starScores?.[element]) }))
+      .filter(({ score }) => Number.isFinite(score) && score > 0 && score < WEAK_SCORE)
+      .sort((a, b) => a.score - b.score)
+      .map(({ element }) => element);
+  }
+
+  /**
+   * The next probe for an evaluated answer, or null when nothing is weak, the limit is reached or every probe was asked
+   * Elements asked about least come first, so two follow-ups cover a weak action and a weak result
+   */
+  nextProbe(
+    starScores: Partial<Record<ProbedStarElement, unknown>> | null | undefined,
+    asked: FollowUpExchange[],
+    limit: number,
+    language: string
+  ): FollowUpExchange | null {
+    if (asked.length >= limit) return null;
+
+    const probes = PROBES[LANGUAGE_ALIASES[language] || language] || PROBES['en'];
+    const timesAsked = (element: ProbedStarElement) => asked.filter(exchange => exchange.element === element).length;
+
+    const element = this.weakElements(starScores)
+      .filter(candidate => timesAsked(candidate) < probes[candidate].length)
+      .sort((a, b) => timesAsked(a) - timesAsked(b))[0];
+    if (!element) return null;
+
+    return { element, question: probes[element][timesAsked(element)], answer: null };
+  }
+
+  /**
+   * Rebuild question/answer pairs from a practice transcript by questionNumber.
+   * An answer given while a follow-up is waiting answers that follow-up; otherwise
+   * it is a new answer to the question, and the latest one wins along with its follow-ups.
+   */
+  questionAnswerPairs(messages: PracticeMessage[]): QuestionAnswerPair[] {
+    const questions = new Map<number, string>();
+    const answers = new Map<number, { message: PracticeMessage; followUps: FollowUpExchange[] }>();
+
+    for (const message of messages) {
+      if (message.questionNumber == null) continue;
+
+      if (message.messageType === 'ai_question') {
+        questions.set(message.questionNumber, message.content);
+      } else if (message.messageType === 'ai_follow_up') {
+        const element = PROBED_ELEMENTS.find(candidate => candidate === message.probedElement);
+        answers.get(message.questionNumber)?.followUps.push({ ...(element ? { element } : {}), question: message.content, answer: null });
+      } else if (message.messageType === 'user_response') {
+        const answer = answers.get(message.questionNumber);
+        const pending = this.pending(answer?.followUps);
+        if (pending) {
+          pending.answer = message.content;
+        } else {
+          answers.set(message.questionNumber, { message, followUps: [] });
+        }
+      }
+    }
+
+    return Array.from(answers.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([questionNumber, answer]) => ({
+        questionNumber,
+        questionText: questions.get(questionNumber) || `Interview question ${questionNumber}`,
+        responseText: answer.message.content,
+        messageId: answer.message.id,
+        followUps: answer.followUps,
+      }));
+  }
+
+  /**
+   * The probe still waiting for an answer, if any
+   */
+  pending(exchanges: FollowUpExchange[] | null | undefined): FollowUpExchange | null {
+    const last = exchanges?.[exchanges.length - 1];
+    return last && last.answer === null ? last : null;
+  }
+}
+
+export const followUps = new FollowUpService();
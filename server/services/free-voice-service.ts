@@ -1,16 +1,18 @@
 // Free Voice Service for AI Prepare Module
 // Provides voice synthesis and recognition using free/open-source technologies
 
+import { speechToText, type SttAudioFormat, type SttEngineName, type SttWord } from './speech-to-text';
+import { textToSpeech, type TtsEngineName } from './text-to-speech';
+
 interface TranscriptionOptions {
   language: string;
-  audioFormat: 'webm' | 'wav' | 'mp3';
+  audioFormat: SttAudioFormat;
 }
 
 interface SynthesisOptions {
   language: string;
-  voice?: string;
+  voice?: string | null;
   rate: number;
-  pitch?: number;
 }
 
 interface TranscriptionResult {
@@ -18,13 +20,18 @@ interface TranscriptionResult {
   confidence: number;
   language: string;
   duration: number;
+  words: SttWord[];
+  engine: SttEngineName;
 }
 
 interface SynthesisResult {
   audioData: Buffer;
   format: string;
-  duration: number;
+  duration: number; // milliseconds
   success: boolean;
+  engine: TtsEngineName;
+  voice: string;
+  cached: boolean;
 }
 
 export class FreeVoiceService {
@@ -37,7 +44,9 @@ export class FreeVoiceService {
       'ms': 'ms-MY',
       'th': 'th-TH',
       'vi': 'vi-VN',
+      'fil': 'fil-PH',
       'tl': 'fil-PH',
+      'zh-sg': 'zh-SG',
       'my': 'my-MM',
       'km': 'km-KH',
       'lo': 'lo-LA'
@@ -45,22 +54,21 @@ export class FreeVoiceService {
   }
 
   /**
-   * Transcribe audio to text using Web Speech API (server-side fallback)
-   * In production, this would integrate with Whisper.cpp WebAssembly
+   * Transcribe audio to text with the configured speech-to-text engine (see speech-to-text.ts)
    */
   async transcribeAudio(audioBuffer: Buffer, options: TranscriptionOptions): Promise<TranscriptionResult> {
     try {
       console.log(`🎤 Transcribing audio: ${audioBuffer.length} bytes, language: ${options.language}`);
 
-      // For MVP, return a mock transcription
-      // In production, this would use Whisper.cpp WebAssembly
-      const mockTranscription = this.generateMockTranscription(audioBuffer.length, options.language);
-      
+      const result = await speechToText.transcribe(audioBuffer, options);
+
       return {
-        transcription: mockTranscription,
-        confidence: 0.92,
-        language: options.language,
-        duration: Math.round(audioBuffer.length / 16000) // Estimate duration
+        transcription: result.text,
+        confidence: result.confidence,
+        language: result.language,
+        duration: result.duration,
+        words: result.words,
+        engine: result.engine
       };
 
     } catch (error) {
@@ -70,22 +78,22 @@ export class FreeVoiceService {
   }
 
   /**
-   * Synthesize text to speech
-   * In production, this would use local TTS engine or free APIs
+   * Synthesize text to speech with the local TTS engine (see text-to-speech.ts); repeated text comes from the audio cache
    */
   async synthesizeSpeech(text: string, options: SynthesisOptions): Promise<SynthesisResult> {
     try {
       console.log(`🔊 Synthesizing speech: "${text.substring(0, 50)}...", language: ${options.language}`);
 
-      // For MVP, return a mock audio buffer
-      // In production, this would integrate with free TTS services
-      const mockAudioBuffer = this.generateMockAudio(text, options);
-      
+      const result = await textToSpeech.synthesize(text, options);
+
       return {
-        audioData: mockAudioBuffer,
-        format: 'wav',
-        duration: Math.round(text.length * 50), // ~50ms per character estimate
-        success: true
+        audioData: result.audio,
+        format: result.format,
+        duration: result.durationMs,
+        success: true,
+        engine: result.engine,
+        voice: result.voice,
+        cached: result.cached
       };
 
     } catch (error) {
@@ -94,70 +102,6 @@ export class FreeVoiceService {
     }
   }
 
-  /**
-   * Generate mock transcription for MVP
-   */
-  private generateMockTranscription(audioLength: number, language: string): string {
-    const responses = {
-      'en': [
-        "In my previous role as a software developer, I was responsible for leading a team of five developers on a critical project to redesign our customer portal.",
-        "The situation was that our existing system was experiencing frequent downtime and user complaints were increasing significantly.",
-        "I took the initiative to implement a phased migration approach, starting with the most critical features and gradually rolling out improvements over eight weeks.",
-        "As a result, we reduced system downtime by 85% and customer satisfaction scores improved from 2.1 to 4.3 out of 5."
-      ],
-      'id': [
-        "Dalam peran sebelumnya sebagai pengembang perangkat lunak, saya bertanggung jawab memimpin tim lima developer untuk proyek penting mendesain ulang portal pelanggan.",
-        "Situasinya adalah sistem yang ada mengalami downtime yang sering dan keluhan pengguna meningkat signifikan.",
-        "Saya mengambil inisiatif untuk mengimplementasikan pendekatan migrasi bertahap, dimulai dengan fitur paling kritis dan secara bertahap meluncurkan perbaikan selama delapan minggu.",
-        "Hasilnya, kami mengurangi downtime sistem sebesar 85% dan skor kepuasan pelanggan meningkat dari 2.1 menjadi 4.3 dari 5."
-      ],
-      'ms': [
-        "Dalam peranan terdahulu sebagai pembangun perisian, saya bertanggungjawab mengetuai pasukan lima pembangun untuk projek kritikal mereka bentuk semula portal pelanggan.",
-        "Situasinya ialah sistem sedia ada mengalami masa henti yang kerap dan aduan pengguna meningkat dengan ketara.",
-        "Saya mengambil inisiatif untuk melaksanakan pendekatan migrasi berperingkat, bermula dengan ciri paling kritikal dan secara beransur-ansur melancarkan penambahbaikan selama lapan minggu.",
-        "Hasilnya, kami mengurangkan masa henti sistem sebanyak 85% dan skor kepuasan pelanggan bertambah dari 2.1 kepada 4.3 daripada 5."
-      ]
-    };
-
-    const langResponses = responses[language as keyof typeof responses] || responses['en'];
-    return langResponses[Math.floor(Math.random() * langResponses.length)];
-  }
-
-  /**
-   * Generate mock audio buffer for MVP
-   */
-  private generateMockAudio(text: string, options: SynthesisOptions): Buffer {
-    // Generate a simple mock WAV header + sine wave audio
-    const sampleRate = 22050;
-    const duration = Math.max(1, text.length * 0.05); // ~50ms per character
-    const samples = Math.floor(sampleRate * duration);
-    
-    // WAV header (44 bytes)
-    const header = Buffer.alloc(44);
-    header.write('RIFF', 0);
-    header.writeUInt32LE(36 + samples * 2, 4);
-    header.write('WAVE', 8);
-    header.write('fmt ', 12);
-    header.writeUInt32LE(16, 16);
-    header.writeUInt16LE(1, 20);
-    header.writeUInt16LE(1, 22);
-    header.writeUInt32LE(sampleRate, 24);
-    header.writeUInt32LE(sampleRate * 2, 28);
-    header.writeUInt16LE(2, 32);
-    header.writeUInt16LE(16, 34);
-    header.write('data', 36);
-    header.writeUInt32LE(samples * 2, 40);
-
-    // Generate simple audio data (sine wave)
-    const audioData = Buffer.alloc(samples * 2);
-    for (let i = 0; i < samples; i++) {
-      const sample = Math.sin(2 * Math.PI * 440 * i / sampleRate) * 0.1 * 32767;
-      audioData.writeInt16LE(sample, i * 2);
-    }
-
-    return Buffer.concat([header, audioData]);
-  }
-
   /**
    * Check if language is supported
    */
@@ -100,6 +100,7 @@ export class IndustryIntelligenceService {
       const analysisResult = await sealionService.generateResponse({
         messages: [{ role: 'user', content: analysisPrompt }],
         maxTokens: 800,
+        domain: 'industry-analysis',
         temperature: 0.5
       });
       
@@ -373,6 +374,7 @@ export class IndustryIntelligenceService {
       const aiResponse = await sealionService.generateResponse({
         messages: [{ role: 'user', content: knowledgePrompt }],
         maxTokens: 1200,
+        domain: 'industry-analysis',
         temperature: 0.5
       });
       const parsedKnowledge = this.parseIndustryKnowledge(aiResponse);
@@ -455,6 +457,7 @@ export class IndustryIntelligenceService {
       const aiResponse = await sealionService.generateResponse({
         messages: [{ role: 'user', content: companyPrompt }],
         maxTokens: 1200,
+        domain: 'industry-analysis',
         temperature: 0.5
       });
       const parsedKnowledge = this.parseCompanyKnowledge(aiResponse);
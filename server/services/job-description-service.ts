@@ -0,0 +1,222 @@
+// Job Description Service
+// File persistence, text extraction and section parsing for uploaded job descriptions
+
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import mammoth from "mammoth";
+import { PDFParse } from "pdf-parse";
+import type { JobDescription } from "@shared/schema";
+
+export type JobDescriptionFileType = "pdf" | "docx" | "txt";
+
+export interface ParsedJobDescription {
+  requirements: string[];
+  skills: string[];
+  responsibilities: string[];
+}
+
+// Job description details handed to question generation and evaluation
+export interface JobDescriptionContext extends ParsedJobDescription {
+  fileName: string;
+  excerpt: string; // leading extract of the full text, for JDs without recognisable sections
+}
+
+const MIME_TYPE_MAP: Record<string, JobDescriptionFileType> = {
+  "application/pdf": "pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+  "text/plain": "txt",
+};
+
+const EXTENSION_MAP: Record<string, JobDescriptionFileType> = {
+  ".pdf": "pdf",
+  ".docx": "docx",
+  ".txt": "txt",
+};
+
+// Headings commonly used in job postings, mapped to the section they introduce
+const SECTION_PATTERNS: Array<[keyof ParsedJobDescription, RegExp]> = [
+  ["responsibilities", /^((key|main|core) )?(responsibilities|duties|accountabilities)$|^what you('|’)?ll (do|be doing)$|^(the|your|about the) role$/i],
+  ["requirements", /^((minimum|preferred|basic|required) )?(requirements|qualifications)$|^(required )?experience$|^what (you('|’)?ll need|we('|’)?re looking for)$|^who you are$|^must[- ]haves?$/i],
+  ["skills", /^((key|technical|required|core|soft) )?(skills|competencies|skill set|tools|technologies)$|^nice[- ]to[- ]haves?$|^bonus points$/i],
+];
+
+const MAX_ITEMS_PER_SECTION = 20;
+const MAX_ITEM_LENGTH = 300;
+const MAX_EXCERPT_LENGTH = 1500;
+const MAX_TRACKED_REQUIREMENTS = 15;
+
+export class JobDescriptionService {
+  private uploadDir: string;
+
+  constructor() {
+    this.uploadDir = process.env.JOB_DESCRIPTION_UPLOAD_DIR
+      || path.resolve(process.cwd(), "uploads", "job-descriptions");
+  }
+
+  /**
+   * Resolve the file type from the reported MIME type, falling back to the extension
+   */
+  resolveFileType(mimeType: string, fileName: string): JobDescriptionFileType | null {
+    return MIME_TYPE_MAP[mimeType]
+      || EXTENSION_MAP[path.extname(fileName).toLowerCase()]
+      || null;
+  }
+
+  /**
+   * Extract plain text from an uploaded PDF, DOCX or TXT file
+   */
+  async extractText(buffer: Buffer, fileType: JobDescriptionFileType): Promise<string> {
+    let text: string;
+
+    switch (fileType) {
+      case "pdf": {
+        const parser = new PDFParse({ data: buffer });
+        try {
+          const result = await parser.getText();
+          text = result.text;
+        } finally {
+          await parser.destroy();
+        }
+        break;
+      }
+      case "docx": {
+        const result = await mammoth.extractRawText({ buffer });
+        text = result.value;
+        break;
+      }
+      case "txt":
+        text = buffer.toString("utf8");
+        break;
+    }
+
+    return this.normalizeText(text);
+  }
+
+  /**
+   * Split extracted text into requirements, skills and responsibilities using section headings
+   */
+  parseSections(text: string): ParsedJobDescription {
+    const parsed: ParsedJobDescription = {
+      requirements: [],
+      skills: [],
+      responsibilities: [],
+    };
+
+    let currentSection: keyof ParsedJobDescription | null = null;
+
+    for (const rawLine of text.split("\n")) {
+      const line = rawLine.trim();
+      if (!line) continue;
+
+      const heading = this.matchHeading(line);
+      if (heading) {
+        currentSection = heading;
+        continue;
+      }
+
+      // A short line ending in a colon starts a section we don't track
+      if (line.length < 60 && line.endsWith(":")) {
+        currentSection = null;
+        continue;
+      }
+
+      if (!currentSection || parsed[currentSection].length >= MAX_ITEMS_PER_SECTION) {
+        continue;
+      }
+
+      const item = line.replace(/^([-•*▪●◦‣–]|\d+[.)])\s*/, "").trim();
+      if (item.length > 2) {
+        parsed[currentSection].push(item.slice(0, MAX_ITEM_LENGTH));
+      }
+    }
+
+    return parsed;
+  }
+
+  /**
+   * Build the prompt context for a stored job description
+   */
+  toContext(jobDescription: JobDescription): JobDescriptionContext {
+    const asStrings = (value: unknown): string[] =>
+      Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+
+    return {
+      fileName: jobDescription.fileName,
+      requirements: asStrings(jobDescription.requirements),
+      skills: asStrings(jobDescription.skills),
+      responsibilities: asStrings(jobDescription.responsibilities),
+      excerpt: jobDescription.content.slice(0, MAX_EXCERPT_LENGTH),
+    };
+  }
+
+  /**
+   * Requirements and skills that answers are checked against for coverage
+   */
+  getTrackedRequirements(context: JobDescriptionContext): string[] {
+    const seen = new Set<string>();
+    const tracked: string[] = [];
+
+    for (const item of [...context.requirements, ...context.skills]) {
+      const key = item.toLowerCase();
+      if (!seen.has(key)) {
+        seen.add(key);
+        tracked.push(item);
+      }
+    }
+
+    return tracked.slice(0, MAX_TRACKED_REQUIREMENTS);
+  }
+
+  /**
+   * Persist the original upload and return its storage path
+   */
+  async saveFile(userId: string, fileName: string, buffer: Buffer): Promise<string> {
+    const userDir = path.join(this.uploadDir, userId);
+    await fs.mkdir(userDir, { recursive: true });
+
+    const storagePath = path.join(userDir, `${randomUUID()}${path.extname(fileName).toLowerCase()}`);
+    await fs.writeFile(storagePath, buffer);
+    return storagePath;
+  }
+
+  async deleteFile(storagePath: string): Promise<void> {
+    try {
+      await fs.unlink(storagePath);
+    } catch (error: any) {
+      if (error?.code !== "ENOENT") {
+        throw error;
+      }
+    }
+  }
+
+  private matchHeading(line: string): keyof ParsedJobDescription | null {
+    // Headings are short and don't read like sentences
+    if (line.length > 60 || /[.;]$/.test(line)) {
+      return null;
+    }
+
+    // "Requirements & Qualifications" is classified by its first part
+    const candidate = line
+      .replace(/[:#*]+/g, "")
+      .trim()
+      .split(/\s+(?:&|and|\/)\s+/)[0];
+    for (const [section, pattern] of SECTION_PATTERNS) {
+      if (pattern.test(candidate)) {
+        return section;
+      }
+    }
+    return null;
+  }
+
+  private normalizeText(text: string): string {
+    return text
+      .replace(/\r\n?/g, "\n")
+      .replace(/\u0000/g, "")
+      .replace(/[ \t]+\n/g, "\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+  }
+}
+
+export const jobDescriptionService = new JobDescriptionService();
@@ -0,0 +1,113 @@
+// Structured Logger
+// Leveled log lines tagged with the current request's correlation ID; JSON in production, one readable line in development
+
+import { getRequestContext } from "./request-context";
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Field names (compared lowercase, without separators) whose values never reach the log
+const REDACTED_FIELDS = new Set([
+  'password', 'passwordhash', 'currentpassword', 'newpassword',
+  'token', 'accesstoken', 'refreshtoken', 'tokenhash', 'apikey', 'secret', 'authorization', 'cookie',
+  'responsetext', 'answer', 'transcript', 'transcription',
+  'audio', 'audiodata', 'audiobase64', 'audiobuffer', 'audiochunk',
+]);
+
+const MAX_STRING_LENGTH = 500;
+const MAX_DEPTH = 5;
+
+function resolveLevel(value: string | undefined): LogLevel {
+  const level = value?.toLowerCase();
+  return level && level in LEVEL_ORDER ? level as LogLevel : 'info';
+}
+
+const logLevel = resolveLevel(process.env.LOG_LEVEL);
+const jsonFormat = (process.env.LOG_FORMAT || (process.env.NODE_ENV === 'production' ? 'json' : 'pretty')) === 'json';
+
+/**
+ * Copy of a log value with sensitive fields masked, binary data summarized and long strings truncated
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (value === null || value === undefined) return value;
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING_LENGTH ? `${value.slice(0, MAX_STRING_LENGTH)}… (${value.length} chars)` : value;
+  }
+  if (typeof value !== 'object') return value;
+  if (Buffer.isBuffer(value) || value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    return `[binary ${(value as ArrayBuffer).byteLength} bytes]`;
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, ...(LEVEL_ORDER[logLevel] <= LEVEL_ORDER.debug && { stack: value.stack }) };
+  }
+  if (value instanceof Date) return value.toISOString();
+  if (depth >= MAX_DEPTH) return '[truncated]';
+  if (Array.isArray(value)) return value.map(item => redact(item, depth + 1));
+
+  const result: LogFields = {};
+  for (const [key, fieldValue] of Object.entries(value)) {
+    result[key] = REDACTED_FIELDS.has(key.toLowerCase().replace(/[^a-z]/g, '')) && fieldValue != null
+      ? '[redacted]'
+      : redact(fieldValue, depth + 1);
+  }
+  return result;
+}
+
+export class Logger {
+  constructor(private readonly bindings: LogFields = {}) {}
+
+  /**
+   * Logger whose lines always carry the given fields (e.g. { component: 'ai-router' })
+   */
+  child(bindings: LogFields): Logger {
+    return new Logger({ ...this.bindings, ...bindings });
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return LEVEL_ORDER[level] >= LEVEL_ORDER[logLevel];
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields?: LogFields): void {
+    if (!this.isLevelEnabled(level)) return;
+
+    const { correlationId, userId, sessionId } = getRequestContext();
+    const entry = redact({
+      ...this.bindings,
+      ...(correlationId && { correlationId }),
+      ...(userId && { userId }),
+      ...(sessionId && { sessionId }),
+      ...fields,
+    }) as LogFields;
+
+    const stream = level === 'error' ? process.stderr : process.stdout;
+    if (jsonFormat) {
+      stream.write(JSON.stringify({ time: new Date().toISOString(), level, msg: message, ...entry }) + '\n');
+      return;
+    }
+
+    const { component, correlationId: cid, ...rest } = entry;
+    const time = new Date().toLocaleTimeString('en-US', { hour12: false });
+    const details = Object.keys(rest).length > 0 ? ` ${JSON.stringify(rest)}` : '';
+    stream.write(`${time} ${level.toUpperCase().padEnd(5)} ${component ? `[${component}] ` : ''}${message}${details}${cid ? ` cid=${cid}` : ''}\n`);
+  }
+}
+
+export const logger = new Logger();
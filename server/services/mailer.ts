@@ -0,0 +1,144 @@
+// Mailer Service
+// Transactional email behind a pluggable transport: SMTP in production, file or console output for local development and tests
+
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import nodemailer, { type Transporter } from "nodemailer";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Deliver through an SMTP relay configured with SMTP_* environment variables
+ */
+export class SmtpMailTransport implements MailTransport {
+  readonly name = "smtp";
+  private transporter: Transporter;
+
+  constructor() {
+    const port = parseInt(process.env.SMTP_PORT || "587", 10);
+
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+        : undefined,
+    });
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+/**
+ * Write each message to MAIL_OUTBOX_DIR as JSON, or print it when no directory is set
+ */
+export class FileMailTransport implements MailTransport {
+  readonly name: string;
+
+  constructor(private outboxDir?: string) {
+    this.name = outboxDir ? "file" : "console";
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    if (!this.outboxDir) {
+      console.log(`📧 [mail] To: ${message.to} | Subject: ${message.subject}\n${message.text}`);
+      return;
+    }
+
+    await fs.mkdir(this.outboxDir, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomUUID()}.json`;
+    await fs.writeFile(
+      path.join(this.outboxDir, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+    console.log(`📧 Mail to ${message.to} written to ${fileName}`);
+  }
+}
+
+function createTransport(): MailTransport {
+  const transport = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : "console");
+
+  switch (transport) {
+    case "smtp":
+      return new SmtpMailTransport();
+    case "file":
+      return new FileMailTransport(
+        process.env.MAIL_OUTBOX_DIR || path.resolve(process.cwd(), "uploads", "mail-outbox"));
+    case "console":
+      return new FileMailTransport();
+    default:
+      console.warn(`⚠️ Unknown MAIL_TRANSPORT "${transport}", printing mail to the console`);
+      return new FileMailTransport();
+  }
+}
+
+export class MailerService {
+  private transport: MailTransport;
+  private from: string;
+
+  constructor(transport: MailTransport = createTransport()) {
+    this.transport = transport;
+    this.from = process.env.MAIL_FROM || "P³ Interview Academy <no-reply@localhost>";
+    console.log(`📧 Mailer using ${this.transport.name} transport`);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.send({ ...message, from: this.from });
+  }
+
+  async sendPasswordResetEmail(to: string, resetUrl: string, expiresInMinutes: number): Promise<void> {
+    await this.send({
+      to,
+      subject: "Reset your password",
+      text: [
+        "We received a request to reset your password.",
+        "",
+        `Open this link to choose a new password: ${resetUrl}`,
+        "",
+        `The link expires in ${expiresInMinutes} minutes and can only be used once.`,
+        "If you didn't ask for this, you can ignore this email.",
+      ].join("\n"),
+      html: `
+        <p>We received a request to reset your password.</p>
+        <p><a href="${resetUrl}">Choose a new password</a></p>
+        <p>The link expires in ${expiresInMinutes} minutes and can only be used once.</p>
+        <p>If you didn't ask for this, you can ignore this email.</p>
+      `,
+    });
+  }
+
+  async sendEmailVerificationEmail(to: string, verifyUrl: string, expiresInHours: number): Promise<void> {
+    await this.send({
+      to,
+      subject: "Confirm your email address",
+      text: [
+        "Welcome to P³ Interview Academy!",
+        "",
+        `Please confirm your email address by opening this link: ${verifyUrl}`,
+        "",
+        `The link expires in ${expiresInHours} hours.`,
+      ].join("\n"),
+      html: `
+        <p>Welcome to P³ Interview Academy!</p>
+        <p><a href="${verifyUrl}">Confirm your email address</a></p>
+        <p>The link expires in ${expiresInHours} hours.</p>
+      `,
+    });
+  }
+}
+
+export const mailer = new MailerService();
@@ -0,0 +1,407 @@
+// Mock AI Provider
+// Deterministic offline responses for local development and CI: the same prompt and seed always
+// produce the same schema-valid JSON, so the real parsing code runs without network access
+
+import { createHash } from 'crypto';
+import type { AIProvider, AIProviderRequest, AIMessage } from './ai-providers';
+
+type Random = () => number;
+
+const CLASSIFICATIONS: Array<{ industry: string; pattern: RegExp; specializations: string[]; stack: string[] }> = [
+  { industry: 'finance', pattern: /bank|financ|account|audit|invest|trad(er|ing)|risk/i, specializations: ['financial-analysis', 'risk-management'], stack: ['Excel', 'SQL', 'Bloomberg'] },
+  { industry: 'healthcare', pattern: /health|medic|nurs|clinic|pharma|hospital/i, specializations: ['patient-care', 'clinical-operations'], stack: ['EHR systems', 'HL7'] },
+  { industry: 'marketing', pattern: /market|brand|content|seo|social media|growth/i, specializations: ['digital-marketing', 'campaign-management'], stack: ['Google Analytics', 'HubSpot'] },
+  { industry: 'consulting', pattern: /consult|advisor|strategy/i, specializations: ['strategy', 'stakeholder-management'], stack: ['PowerPoint', 'Excel'] },
+  { industry: 'education', pattern: /teach|lectur|tutor|educat|school/i, specializations: ['curriculum-design', 'instruction'], stack: ['LMS platforms'] },
+  { industry: 'manufacturing', pattern: /manufactur|plant|production|supply chain|logistic/i, specializations: ['operations', 'lean-manufacturing'], stack: ['SAP', 'MES'] },
+  { industry: 'retail', pattern: /retail|store|merchandis|e-?commerce|sales/i, specializations: ['customer-experience', 'merchandising'], stack: ['Shopify', 'POS systems'] },
+  { industry: 'technology', pattern: /.*/, specializations: ['software-engineering', 'system-design'], stack: ['TypeScript', 'PostgreSQL', 'AWS'] },
+];
+
+const QUESTION_TEMPLATES: Record<string, string[]> = {
+  leadership: [
+    'Tell me about a time you led a team through a difficult change as a {role}. What did you do and what was the result?',
+    'Describe a situation where you had to motivate colleagues who disagreed with your plan. How did you handle it?',
+    'Give an example of a decision you made as a {role} that your team did not initially support.',
+  ],
+  'problem-solving': [
+    'Describe the most complex problem you solved in your work as a {role}. How did you approach it?',
+    'Tell me about a time a project at {company} could have failed. What did you do to turn it around?',
+    'Walk me through how you diagnosed an issue where the root cause was not obvious.',
+  ],
+  teamwork: [
+    'Tell me about a time you worked with a cross-functional team to deliver something under a tight deadline.',
+    'Describe a conflict with a teammate and how you resolved it.',
+    'Give an example of how you helped a struggling colleague succeed.',
+  ],
+  technical: [
+    'Explain a technical decision you made as a {role} and the trade-offs you considered.',
+    'Describe a system or process you improved. How did you measure the improvement?',
+    'Tell me about a time you had to learn a new tool quickly to deliver a project.',
+  ],
+  cultural: [
+    'How have you adapted your communication style when working with colleagues from different cultures?',
+    'Tell me about a time you had to respect a hierarchy while still raising a concern.',
+    'What attracts you to the way {company} works, and how would you contribute to its culture?',
+  ],
+};
+
+const QUESTION_CATEGORIES = Object.keys(QUESTION_TEMPLATES);
+
+const PERSONAS = [
+  { name: 'Mei Ling Tan', style: 'structured and warm', personality: 'patient, analytical, encouraging' },
+  { name: 'Arjun Nair', style: 'direct and probing', personality: 'curious, precise, fair' },
+  { name: 'Siti Rahman', style: 'conversational', personality: 'empathetic, thoughtful, detail-oriented' },
+  { name: 'Nguyen Van Minh', style: 'technical deep-dive', personality: 'calm, rigorous, pragmatic' },
+];
+
+const STRENGTHS = [
+  'Clear description of the situation and context',
+  'Took personal ownership of the actions described',
+  'Connected the example to the requirements of the role',
+  'Communicated in a calm, professional tone',
+  'Showed reflection on what was learned',
+];
+
+const WEAKNESSES = [
+  'The result could be quantified more precisely',
+  'The individual contribution is sometimes hidden behind "we"',
+  'The task or goal is not stated explicitly',
+  'The answer spends too long on background before the action',
+];
+
+const SUGGESTIONS = [
+  'Open with one sentence of context, then move quickly to your task',
+  'Use "I" when describing the actions you personally took',
+  'Close with a measurable result, such as a percentage, time saved or revenue',
+  'Add a short reflection on what you would do differently next time',
+];
+
+/**
+ * Offline provider for local development and CI. Used when AI_MOCK=true, or when routed to explicitly.
+ */
+export class MockProvider implements AIProvider {
+  readonly name = 'mock' as const;
+  readonly supportedLanguages = 'all' as const;
+  readonly cost = { inputPer1kTokens: 0, outputPer1kTokens: 0 };
+  readonly defaultModel = 'mock';
+
+  private readonly seed = process.env.AI_MOCK_SEED || 'mock';
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async generate(request: AIProviderRequest): Promise<string> {
+    const prompt = request.messages.map(m => m.content).join('\n\n');
+    const random = this.createRandom(prompt);
+
+    switch (request.domain) {
+      case 'question-generation':
+        return /JSON array/i.test(prompt)
+          ? this.questionSet(prompt, random)
+          : this.question(prompt, random);
+      case 'evaluation':
+        return this.evaluation(prompt, random);
+      case 'translation':
+        return this.translation(request);
+      case 'industry-analysis':
+        return this.industryAnalysis(prompt, random);
+      case 'interview':
+        return this.interview(request.messages, random);
+      default:
+        return this.text(request, random);
+    }
+  }
+
+  /**
+   * Seeded PRNG (mulberry32) keyed on the seed and the prompt
+   */
+  private createRandom(prompt: string): Random {
+    let state = createHash('sha256').update(`${this.seed}:${prompt}`).digest().readUInt32LE(0);
+    return () => {
+      state = (state + 0x6D2B79F5) | 0;
+      let t = Math.imul(state ^ (state >>> 15), 1 | state);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  private pick<T>(items: readonly T[], random: Random): T {
+    return items[Math.floor(random() * items.length)];
+  }
+
+  private pickSome<T>(items: readonly T[], count: number, random: Random): T[] {
+    const pool = [...items];
+    const picked: T[] = [];
+    while (picked.length < count && pool.length > 0) {
+      picked.push(pool.splice(Math.floor(random() * pool.length), 1)[0]);
+    }
+    return picked;
+  }
+
+  private field(prompt: string, label: string): string | undefined {
+    const match = prompt.match(new RegExp(`${label}:\\s*"?([^"\\n]+)"?`, 'i'));
+    return match ? match[1].trim() : undefined;
+  }
+
+  private fillTemplate(template: string, prompt: string): string {
+    const role = this.field(prompt, 'Job Position') || 'professional';
+    const company = this.field(prompt, 'Company') || 'the company';
+    return template.replace('{role}', role).replace('{company}', company);
+  }
+
+  // ================================
+  // QUESTIONS
+  // ================================
+
+  private question(prompt: string, random: Random): string {
+    const requested = (this.field(prompt, 'Categories') || '').split(',').map(c => c.trim());
+    const category = requested.find(c => QUESTION_TEMPLATES[c]) || this.pick(QUESTION_CATEGORIES, random);
+    const english = this.fillTemplate(this.pick(QUESTION_TEMPLATES[category], random), prompt);
+    const language = prompt.match(/Target Language:[^(\n]*\(([^)]+)\)/)?.[1] || 'en';
+    const difficulty = this.field(prompt, 'Difficulty');
+
+    return JSON.stringify({
+      questionText: language === 'en' ? english : `[${language}] ${english}`,
+      questionTextTranslated: english,
+      questionCategory: category,
+      questionType: category === 'technical' ? 'technical' : category === 'cultural' ? 'cultural' : 'behavioral',
+      difficultyLevel: ['beginner', 'intermediate', 'advanced'].includes(difficulty || '') ? difficulty : 'intermediate',
+      expectedAnswerTime: this.pick([120, 180, 240], random),
+      culturalContext: 'Be specific about your own contribution while acknowledging the team, which is valued in Southeast Asian workplaces.',
+      starMethodRelevant: category !== 'technical'
+    });
+  }
+
+  private questionSet(prompt: string, random: Random): string {
+    const count = Math.min(Number(prompt.match(/Generate (\d+)/i)?.[1]) || 3, 20);
+    const difficulty = prompt.match(/Difficulty:\s*(beginner|intermediate|advanced)/i)?.[1];
+
+    return JSON.stringify(Array.from({ length: count }, () => {
+      const category = this.pick(QUESTION_CATEGORIES, random);
+      return {
+        question: this.fillTemplate(this.pick(QUESTION_TEMPLATES[category], random), prompt),
+        category: category === 'technical' ? 'technical' : 'behavioral',
+        difficulty: difficulty || this.pick(['beginner', 'intermediate', 'advanced'], random),
+        tags: [category, 'mock'],
+        expectedAnswerTime: this.pick([2, 3, 4], random),
+        starMethodRelevant: category !== 'technical',
+        culturalContext: 'Answer with a concrete example and a clear outcome.'
+      };
+    }));
+  }
+
+  // ================================
+  // EVALUATION
+  // ================================
+
+  /**
+   * Heuristic rubric scores so stronger answers score higher, with a little seeded variation
+   */
+  private scoreAnswer(answer: string, random: Random) {
+    const words = answer.split(/\s+/).filter(Boolean).length;
+    const lower = answer.toLowerCase();
+    const star = {
+      situation: /\b(when|while|situation|project|at my (last|previous)|last year)\b/.test(lower),
+      task: /\b(my (role|task|goal|responsibility)|i (needed|had) to|was asked)\b/.test(lower),
+      action: /\bi (led|built|created|organi[sz]ed|implemented|decided|designed|spoke|analy[sz]ed|worked)\b/.test(lower),
+      result: /\b(result|outcome|increased|reduced|improved|saved|delivered|achieved)\b/.test(lower),
+    };
+    const hasMetrics = /\d/.test(answer);
+    const base = words < 20 ? 1.5 : words < 60 ? 2.5 : words < 150 ? 3.5 : 4;
+    const score = (value: number) => Math.max(1, Math.min(5, Math.round(value + (random() - 0.5) * 0.8)));
+    const starCount = Object.values(star).filter(Boolean).length;
+
+    return {
+      star: {
+        situation: score(star.situation ? base + 0.5 : base - 1),
+        task: score(star.task ? base + 0.5 : base - 1),
+        action: score(star.action ? base + 0.5 : base - 1),
+        result: score(star.result ? base + 0.5 + (hasMetrics ? 0.5 : 0) : base - 1),
+      },
+      relevanceScore: score(base + 0.5),
+      starStructureScore: score(base - 1 + starCount * 0.5),
+      specificEvidenceScore: score(base + (hasMetrics ? 1 : -0.5)),
+      roleAlignmentScore: score(base),
+      outcomeOrientedScore: score(star.result ? base + (hasMetrics ? 1 : 0) : base - 1),
+      communicationScore: score(base + 0.5),
+      problemSolvingScore: score(base + (star.action ? 0.5 : -0.5)),
+      culturalFitScore: score(base + 0.5),
+      learningAgilityScore: score(base),
+    };
+  }
+
+  private weightedScore(scores: ReturnType<MockProvider['scoreAnswer']>): number {
+    const weighted =
+      (scores.relevanceScore + scores.starStructureScore + scores.specificEvidenceScore +
+        scores.roleAlignmentScore + scores.outcomeOrientedScore) * 0.15 +
+      (scores.communicationScore + scores.problemSolvingScore) * 0.10 +
+      (scores.culturalFitScore + scores.learningAgilityScore) * 0.05;
+    return Number(weighted.toFixed(1));
+  }
+
+  private evaluation(prompt: string, random: Random): string {
+    const answer = prompt.match(/USER RESPONSE:\s*"([\s\S]*?)"\s*\n\s*OFFICIAL/)?.[1] || '';
+    const scores = this.scoreAnswer(answer, random);
+    const overall = this.weightedScore(scores);
+    const { star, ...rubric } = scores;
+
+    const requirementsBlock = prompt.match(/JOB DESCRIPTION REQUIREMENTS[^\n]*\n((?:\d+\. .+\n?)+)/)?.[1];
+    const requirements = requirementsBlock
+      ? requirementsBlock.trim().split('\n').map(line => line.replace(/^\d+\.\s*/, '').trim())
+      : [];
+    const answerWords = new Set(answer.toLowerCase().split(/\W+/).filter(word => word.length > 3));
+    const covered = requirements.filter(requirement =>
+      requirement.toLowerCase().split(/\W+/).some(word => word.length > 3 && answerWords.has(word)));
+
+    return JSON.stringify({
+      ...rubric,
+      weightedOverallScore: overall,
+      overallRating: overall >= 3.5 ? 'Pass' : overall >= 3.0 ? 'Borderline' : 'Needs Improvement',
+      starScores: { ...star, overall: Math.round(overall) },
+      detailedFeedback: {
+        strengths: this.pickSome(STRENGTHS, 3, random),
+        weaknesses: this.pickSome(WEAKNESSES, 2, random),
+        suggestions: this.pickSome(SUGGESTIONS, 3, random),
+        culturalRelevance: 'Professional and respectful tone appropriate for the region'
+      },
+      modelAnswer: 'Situation: our team missed two release dates in a row. Task: as lead I had to restore predictability. Action: I introduced weekly planning and split work into smaller increments. Result: we shipped on time for the next six releases and cut defects by 30%.',
+      completenessScore: Math.round(overall),
+      ...(requirements.length > 0 && {
+        requirementCoverage: {
+          covered,
+          missed: requirements.filter(requirement => !covered.includes(requirement))
+        }
+      })
+    });
+  }
+
+  // ================================
+  // TRANSLATION
+  // ================================
+
+  /**
+   * Marks the text with its target language; there is no offline translation model
+   */
+  private translation(request: AIProviderRequest): string {
+    const source = [...request.messages].reverse().find(m => m.role === 'user')?.content.trim() || '';
+    const language = request.language || 'en';
+    return language === 'en' ? source : `[${language}] ${source}`;
+  }
+
+  // ================================
+  // INDUSTRY INTELLIGENCE
+  // ================================
+
+  private industryAnalysis(prompt: string, random: Random): string {
+    if (/determine the industry context/i.test(prompt)) {
+      const position = this.field(prompt, 'Job Position') || '';
+      const match = CLASSIFICATIONS.find(c => c.pattern.test(position))!;
+      return JSON.stringify({
+        primaryIndustry: match.industry,
+        confidenceScore: Number((0.7 + random() * 0.25).toFixed(2)),
+        specializations: match.specializations,
+        experienceLevel: this.field(prompt, 'Experience Level') === 'senior' ? 'senior' : 'intermediate',
+        technicalDepth: `Working knowledge of ${match.stack.join(', ')}`,
+        companyContext: {
+          type: this.pick(['startup', 'enterprise', 'consulting', 'agency'], random),
+          businessModel: 'B2B services',
+          technicalStack: match.stack,
+          regulatoryEnvironment: match.industry === 'finance' || match.industry === 'healthcare' ? 'Regulated' : 'Standard'
+        },
+        reasoning: `Classified from keywords in the job title "${position}"`
+      });
+    }
+
+    const industry = prompt.match(/knowledge for the (.+?) industry/i)?.[1];
+    const subject = industry || prompt.match(/knowledge for (.+?)\.\s/i)?.[1] || 'the company';
+    const knowledge = {
+      overview: `${subject} is a competitive, fast-moving market in Southeast Asia with strong demand for skilled professionals.`,
+      keyInsights: this.pickSome(['Customer focus drives decisions', 'Data literacy is increasingly expected', 'Regional expansion is a priority', 'Cost efficiency is under scrutiny'], 3, random),
+      currentTrends: this.pickSome(['Automation and AI adoption', 'Digital-first customer journeys', 'Sustainability reporting', 'Hybrid work'], 3, random),
+      challenges: this.pickSome(['Talent shortages', 'Regulatory change', 'Margin pressure', 'Legacy systems'], 3, random),
+      opportunities: this.pickSome(['Growing middle-class demand', 'Cross-border partnerships', 'New digital channels'], 3, random),
+      interviewFocus: ['Concrete examples with measurable outcomes', 'Collaboration across functions', 'Adaptability'],
+      commonScenarios: ['Prioritising under tight deadlines', 'Handling a difficult stakeholder', 'Improving a process'],
+      culturalNorms: 'Professional, respectful communication; show initiative while respecting hierarchy.'
+    };
+
+    if (industry) {
+      return JSON.stringify({
+        ...knowledge,
+        keyTerminology: { KPI: 'Key performance indicator', SLA: 'Service level agreement', ROI: 'Return on investment' }
+      });
+    }
+
+    return JSON.stringify({
+      ...knowledge,
+      companySize: this.pick(['medium', 'large', 'enterprise'], random),
+      businessModel: 'Subscription and services revenue across the region',
+      technicalStack: this.pick(CLASSIFICATIONS, random).stack,
+      recentNews: ['Announced regional expansion', 'Launched a new digital product'],
+      leadership: ['CEO with a background in regional operations'],
+      competitors: ['Regional incumbents', 'Global entrants']
+    });
+  }
+
+  // ================================
+  // INTERVIEW CONVERSATION
+  // ================================
+
+  private interview(messages: AIMessage[], random: Random): string {
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n');
+    const lastUser = [...messages].reverse().find(m => m.role === 'user')?.content || '';
+
+    if (/persona/i.test(system)) {
+      const persona = this.pick(PERSONAS, random);
+      const role = system.match(/for an? (.+?) position/i)?.[1] || 'this role';
+      return JSON.stringify({ ...persona, title: `Hiring Manager, ${role}` });
+    }
+
+    if (/STAR-based evaluation/i.test(lastUser)) {
+      const answers = messages.slice(0, -1).filter(m => m.role === 'user').map(m => m.content).join(' ');
+      const scores = this.scoreAnswer(answers, random);
+      const overall = this.weightedScore(scores);
+      const { star, ...rubric } = scores;
+      const rubricScores: Record<string, number | string> = {};
+      for (const [key, value] of Object.entries(rubric)) {
+        rubricScores[key] = value;
+        rubricScores[key.replace(/Score$/, 'Feedback')] = value >= 4
+          ? 'Strong, specific evidence in this area.'
+          : value >= 3 ? 'Adequate, but could be more specific.' : 'Needs clearer examples in this area.';
+      }
+
+      return JSON.stringify({
+        rubricScores,
+        weightedOverallScore: overall,
+        overallRating: overall >= 3.5 ? 'Pass' : overall >= 3.0 ? 'Borderline' : 'Fail',
+        keyStrengths: this.pickSome(STRENGTHS, 3, random),
+        areasForImprovement: this.pickSome(WEAKNESSES, 3, random),
+        actionableInsights: this.pickSome(SUGGESTIONS, 2, random),
+        summary: `Overall score ${overall}/5 across the interview.`
+      });
+    }
+
+    if (/Begin the interview/i.test(lastUser)) {
+      return 'Good morning, and thank you for joining today. Could you start by introducing yourself and telling me what drew you to this role?';
+    }
+
+    if (/next appropriate interview question/i.test(lastUser)) {
+      const category = this.pick(QUESTION_CATEGORIES, random);
+      return this.fillTemplate(this.pick(QUESTION_TEMPLATES[category], random), system);
+    }
+
+    // Content safety checks send the bare text with no system prompt
+    if (!system) {
+      return 'safe';
+    }
+
+    return this.text({ messages }, random);
+  }
+
+  private text(request: Pick<AIProviderRequest, 'messages' | 'domain'>, random: Random): string {
+    const opener = this.pick(['Here is a practical plan.', 'A focused approach works best.', 'Start with the fundamentals.'], random);
+    return `${opener} ${this.pickSome(SUGGESTIONS, 2, random).join('. ')}. (Offline mock response for ${request.domain || 'general'}.)`;
+  }
+}
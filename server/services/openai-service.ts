@@ -1,4 +1,6 @@
 import { OpenAI } from 'openai';
+import type { TranscriptionSegment, TranscriptionWord } from 'openai/resources/audio/transcriptions';
+import { aiUsage } from './ai-usage-service';
 
 export interface OpenAIConfig {
   apiKey: string;
@@ -7,6 +9,9 @@ export interface OpenAIConfig {
   fallbackModel: string;
 }
 
+// Whisper list price, billed per minute of audio
+const TRANSCRIPTION_COST_PER_MINUTE_USD = 0.006;
+
 // Default configuration for OpenAI API
 const DEFAULT_CONFIG: Omit<OpenAIConfig, 'apiKey'> = {
   defaultModel: 'gpt-4o',
@@ -77,19 +82,20 @@ export class OpenAIService {
     }
   }
 
-  // Audio transcription using OpenAI Whisper
+  // Audio transcription using OpenAI Whisper; always verbose_json, the only format that reports the billed audio length
   async transcribeAudio(audioFile: Buffer | File | NodeJS.ReadableStream, options: {
     language?: string;
     model?: string;
     prompt?: string;
     temperature?: number;
-    response_format?: 'json' | 'text' | 'srt' | 'verbose_json' | 'vtt';
+    timestamp_granularities?: Array<'word' | 'segment'>;
     filename?: string;
   } = {}): Promise<{
     text: string;
     language?: string;
     duration?: number;
-    segments?: any[];
+    segments?: TranscriptionSegment[];
+    words?: TranscriptionWord[];
   }> {
     try {
       // Handle different input types for OpenAI API
@@ -110,27 +116,34 @@ export class OpenAIService {
         (fileToUpload as any).type = 'audio/wav';
       }
 
+      const model = options.model || 'whisper-1';
+      const startTime = Date.now();
       const transcription = await this.client.audio.transcriptions.create({
         file: fileToUpload,
-        model: options.model || 'whisper-1',
+        model,
         language: options.language,
         prompt: options.prompt,
         temperature: options.temperature || 0.0,
-        response_format: options.response_format || 'verbose_json'
+        response_format: 'verbose_json',
+        timestamp_granularities: options.timestamp_granularities
       });
 
-      // Handle different response formats
-      if (options.response_format === 'text') {
-        return { text: typeof transcription === 'string' ? transcription : transcription.text ?? '' };
-      }
+      const audioSeconds = transcription.duration;
+      aiUsage.record({
+        provider: 'openai',
+        model,
+        domain: 'transcription',
+        audioSeconds,
+        estimatedCostUsd: audioSeconds ? (audioSeconds / 60) * TRANSCRIPTION_COST_PER_MINUTE_USD : 0,
+        latencyMs: Date.now() - startTime
+      });
 
-      // For verbose_json format
-      const verboseResponse = transcription as any;
       return {
-        text: verboseResponse.text || '',
-        language: verboseResponse.language,
-        duration: verboseResponse.duration,
-        segments: verboseResponse.segments
+        text: transcription.text || '',
+        language: transcription.language,
+        duration: transcription.duration,
+        segments: transcription.segments,
+        words: transcription.words
       };
 
     } catch (error) {
@@ -0,0 +1,288 @@
+// Perform Analytics Service
+// Skill breakdowns, score trends, confidence and speaking delivery for the Perform dashboard, computed only from stored scores and metrics
+
+import type {
+  AiEvaluationResult,
+  AiPrepareSessionWithResponses,
+  DeliveryMetrics,
+  DeliverySummary,
+  InterviewSession,
+  PracticeReport,
+  PracticeSession
+} from '@shared/schema';
+import { deliveryAnalysis } from './delivery-analysis-service';
+
+export type SessionModule = 'Interview' | 'Practice' | 'AI Prepare';
+export type TrendDirection = 'up' | 'down' | 'stable' | 'insufficient-data';
+export type Confidence = 'high' | 'medium' | 'low' | 'insufficient-data';
+
+// Every score this service returns is on the 1-5 rubric scale
+export const SCORE_SCALE = { min: 1, max: 5 } as const;
+
+const MIN_TREND_SAMPLES = 3;
+const STABLE_SLOPE_PER_WEEK = 0.1; // smaller weekly changes (in rubric points) count as stable
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const SKILLS = ['Communication Skills', 'Problem Solving', 'STAR Structure', 'Role Alignment', 'Relevance'] as const;
+export type Skill = typeof SKILLS[number];
+
+// Rubric column behind each skill in ai_evaluation_results and practice_reports
+const RUBRIC_SKILL_COLUMNS: Record<Skill, keyof AiEvaluationResult & keyof PracticeReport> = {
+  'Communication Skills': 'communicationScore',
+  'Problem Solving': 'problemSolvingScore',
+  'STAR Structure': 'starStructureScore',
+  'Role Alignment': 'roleAlignmentScore',
+  'Relevance': 'relevanceScore'
+};
+
+export interface PerformAnalyticsInput {
+  interviews: Array<{ session: InterviewSession; evaluation?: AiEvaluationResult }>;
+  practice: Array<{ session: PracticeSession; report?: PracticeReport }>;
+  prepare: AiPrepareSessionWithResponses[];
+}
+
+export interface ScoreTrend {
+  direction: TrendDirection;
+  slopePerWeek: number | null; // rubric points gained (or lost) per week, from a least-squares fit
+  rSquared: number | null;     // how well the line fits, 0-1
+  samples: number;
+}
+
+export interface SkillAnalytics {
+  skill: Skill;
+  score: number | null; // null when no session has scored this skill yet
+  samples: number;
+  trend: TrendDirection;
+  slopePerWeek: number | null;
+  confidence: Confidence;
+  sources: SessionModule[];
+}
+
+export interface SessionScore {
+  sessionId: string;
+  sessionType: SessionModule;
+  score: number;
+  at: Date;
+}
+
+export interface PerformAnalytics {
+  scale: typeof SCORE_SCALE;
+  averageScore: number | null;
+  sessionScores: SessionScore[]; // oldest first
+  scoreTrend: ScoreTrend;
+  improvementRate: number | null; // % change of the fitted score from the first to the latest session
+  skillBreakdown: SkillAnalytics[];
+  delivery: DeliverySummary | null; // speaking delivery across AI Prepare voice answers
+}
+
+interface Sample {
+  score: number;
+  at: Date;
+  source: SessionModule;
+}
+
+/**
+ * Least-squares line through (x, y) points; null when x doesn't vary
+ */
+export function linearRegression(points: Array<{ x: number; y: number }>): { slope: number; intercept: number; rSquared: number } | null {
+  const n = points.length;
+  if (n < 2) return null;
+
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / n;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / n;
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (const { x, y } of points) {
+    sxx += (x - meanX) ** 2;
+    sxy += (x - meanX) * (y - meanY);
+    syy += (y - meanY) ** 2;
+  }
+  if (sxx === 0) return null;
+
+  const slope = sxy / sxx;
+  return {
+    slope,
+    intercept: meanY - slope * meanX,
+    rSquared: syy === 0 ? 1 : (sxy * sxy) / (sxx * syy)
+  };
+}
+
+export class PerformAnalyticsService {
+  /**
+   * Bring a stored score onto the 1-5 scale; null for missing or non-positive values
+   * `outOf` is the scale the column is documented to use, never guessed from the value
+   */
+  toCanonicalScore(value: unknown, outOf: 5 | 10 = 5): number | null {
+    if (value === null || value === undefined || value === '') return null;
+    const score = Number(value);
+    if (!Number.isFinite(score) || score <= 0) return null;
+    const scaled = outOf === 10 ? score / 2 : score;
+    return Math.max(SCORE_SCALE.min, Math.min(SCORE_SCALE.max, scaled));
+  }
+
+  /**
+   * Overall score of an interview session: the weighted rubric score, then the legacy 1-10 evaluation score, then the session's own
+   */
+  interviewScore(session: InterviewSession, evaluation?: AiEvaluationResult): number | null {
+    return this.toCanonicalScore(evaluation?.weightedOverallScore)
+      ?? this.toCanonicalScore(evaluation?.overallScore, 10)
+      ?? this.toCanonicalScore(session.overallScore);
+  }
+
+  /**
+   * Overall score of a practice session (the report stores the weighted rubric score)
+   */
+  practiceScore(report?: PracticeReport): number | null {
+    return this.toCanonicalScore(report?.overallScore);
+  }
+
+  /**
+   * Overall score of an AI Prepare session: the mean STAR score of its evaluated answers
+   */
+  prepareScore(session: AiPrepareSessionWithResponses): number | null {
+    return this.mean(session.responses
+      .map(response => this.toCanonicalScore((response.starScores as { overall?: unknown } | null)?.overall))
+      .filter((score): score is number => score !== null));
+  }
+
+  analyze(input: PerformAnalyticsInput): PerformAnalytics {
+    const sessionScores: SessionScore[] = [];
+    const delivery: DeliveryMetrics[] = [];
+    const skillSamples = new Map<Skill, Sample[]>(SKILLS.map(skill => [skill, []]));
+    const addSkillSample = (skill: Skill, value: unknown, at: Date, source: SessionModule) => {
+      const score = this.toCanonicalScore(value);
+      if (score !== null) skillSamples.get(skill)!.push({ score, at, source });
+    };
+
+    for (const { session, evaluation } of input.interviews) {
+      const at = this.sessionDate(session.completedAt, session.updatedAt, session.createdAt);
+      const score = this.interviewScore(session, evaluation);
+      if (score !== null) sessionScores.push({ sessionId: session.id, sessionType: 'Interview', score, at });
+      if (evaluation) {
+        SKILLS.forEach(skill => addSkillSample(skill, evaluation[RUBRIC_SKILL_COLUMNS[skill]], at, 'Interview'));
+      }
+    }
+
+    for (const { session, report } of input.practice) {
+      const at = this.sessionDate(session.completedAt, session.updatedAt, session.createdAt);
+      const score = this.practiceScore(report);
+      if (score !== null) sessionScores.push({ sessionId: session.id, sessionType: 'Practice', score, at });
+      if (report) {
+        SKILLS.forEach(skill => addSkillSample(skill, report[RUBRIC_SKILL_COLUMNS[skill]], at, 'Practice'));
+      }
+    }
+
+    for (const session of input.prepare) {
+      const score = this.prepareScore(session);
+      if (score !== null) {
+        sessionScores.push({
+          sessionId: session.id,
+          sessionType: 'AI Prepare',
+          score,
+          at: this.sessionDate(session.completedAt, session.updatedAt, session.createdAt)
+        });
+      }
+      // Each answer is evaluated on its own, so each is a sample at the time it was given
+      for (const response of session.responses) {
+        const at = this.sessionDate(response.createdAt, session.updatedAt, session.createdAt);
+        addSkillSample('STAR Structure', (response.starScores as { overall?: unknown } | null)?.overall, at, 'AI Prepare');
+        addSkillSample('Relevance', response.relevanceScore, at, 'AI Prepare');
+        addSkillSample('Communication Skills', response.communicationScore, at, 'AI Prepare');
+        if (response.deliveryMetrics) delivery.push(response.deliveryMetrics as DeliveryMetrics);
+      }
+    }
+
+    sessionScores.sort((a, b) => a.at.getTime() - b.at.getTime());
+    const scoreSamples = sessionScores.map(({ score, at, sessionType }) => ({ score, at, source: sessionType }));
+
+    return {
+      scale: SCORE_SCALE,
+      averageScore: this.mean(sessionScores.map(s => s.score)),
+      sessionScores,
+      scoreTrend: this.trend(scoreSamples),
+      improvementRate: this.improvementRate(scoreSamples),
+      skillBreakdown: SKILLS.map(skill => this.skillAnalytics(skill, skillSamples.get(skill)!)),
+      delivery: deliveryAnalysis.summarize(delivery)
+    };
+  }
+
+  /**
+   * Linear trend of scores over time; needs MIN_TREND_SAMPLES samples spread over more than one moment
+   */
+  trend(samples: Sample[]): ScoreTrend {
+    const fit = samples.length >= MIN_TREND_SAMPLES ? this.fit(samples) : null;
+    if (!fit) {
+      return { direction: 'insufficient-data', slopePerWeek: null, rSquared: null, samples: samples.length };
+    }
+
+    const slopePerWeek = fit.slope * 7;
+    return {
+      direction: Math.abs(slopePerWeek) < STABLE_SLOPE_PER_WEEK ? 'stable' : slopePerWeek > 0 ? 'up' : 'down',
+      slopePerWeek: this.round(slopePerWeek),
+      rSquared: this.round(fit.rSquared),
+      samples: samples.length
+    };
+  }
+
+  /**
+   * Confidence in a skill average: more samples and less spread mean a smaller standard error
+   */
+  confidence(scores: number[]): Confidence {
+    if (scores.length === 0) return 'insufficient-data';
+    if (scores.length < 2) return 'low';
+
+    const mean = this.mean(scores)!;
+    const variance = scores.reduce((sum, score) => sum + (score - mean) ** 2, 0) / (scores.length - 1);
+    const standardError = Math.sqrt(variance / scores.length);
+
+    if (scores.length >= 8 && standardError <= 0.25) return 'high';
+    if (scores.length >= 4 && standardError <= 0.5) return 'medium';
+    return 'low';
+  }
+
+  private skillAnalytics(skill: Skill, samples: Sample[]): SkillAnalytics {
+    const scores = samples.map(s => s.score);
+    const trend = this.trend(samples);
+    const average = this.mean(scores);
+    return {
+      skill,
+      score: average === null ? null : this.round(average),
+      samples: samples.length,
+      trend: trend.direction,
+      slopePerWeek: trend.slopePerWeek,
+      confidence: this.confidence(scores),
+      sources: Array.from(new Set(samples.map(s => s.source)))
+    };
+  }
+
+  private improvementRate(samples: Sample[]): number | null {
+    const fit = samples.length >= MIN_TREND_SAMPLES ? this.fit(samples) : null;
+    if (!fit) return null;
+
+    const start = samples[0].at.getTime() / MS_PER_DAY;
+    const end = samples[samples.length - 1].at.getTime() / MS_PER_DAY;
+    const fittedStart = fit.intercept + fit.slope * start;
+    const fittedEnd = fit.intercept + fit.slope * end;
+    return fittedStart > 0 ? this.round(((fittedEnd - fittedStart) / fittedStart) * 100) : null;
+  }
+
+  // Regression of score against time in days
+  private fit(samples: Sample[]) {
+    return linearRegression(samples.map(s => ({ x: s.at.getTime() / MS_PER_DAY, y: s.score })));
+  }
+
+  private sessionDate(...candidates: Array<Date | null | undefined>): Date {
+    return candidates.find((date): date is Date => date instanceof Date) ?? new Date(0);
+  }
+
+  private mean(values: number[]): number | null {
+    return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+export const performAnalytics = new PerformAnalyticsService();
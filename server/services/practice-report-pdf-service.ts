@@ -0,0 +1,414 @@
+// Practice Report PDF Service
+// Printable PDF of a practice session's evaluation and transcript, labelled in the session language
+
+import fs from 'fs';
+import PDFDocument from 'pdfkit';
+import {
+  RUBRIC_CRITERIA,
+  SUPPORTED_LANGUAGES,
+  type PracticeMessage,
+  type PracticeReport,
+  type PracticeSession,
+  type RubricColumn,
+  type SupportedLanguage
+} from '@shared/schema';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'practice-report-pdf' });
+
+type Script = 'latin' | 'thai' | 'cjk';
+
+interface FontFile {
+  path: string;
+  face?: string; // font inside a .ttc collection
+}
+
+interface ReportLabels {
+  title: string;
+  position: string;
+  company: string;
+  stage: string;
+  completed: string;
+  duration: string;
+  minutes: string;
+  overallScore: string;
+  rubric: string;
+  weight: string;
+  notScored: string;
+  strengths: string;
+  weaknesses: string;
+  recommendedActions: string;
+  transcript: string;
+  interviewer: string;
+  candidate: string;
+  question: string;
+  followUp: string;
+  none: string;
+  page: string; // {page} and {total} are replaced
+  criteria: Record<RubricColumn, string>;
+}
+
+const LABELS: Record<SupportedLanguage, ReportLabels> = {
+  en: {
+    title: 'Practice Interview Report', position: 'Position', company: 'Company', stage: 'Interview stage',
+    completed: 'Completed', duration: 'Duration', minutes: 'min', overallScore: 'Overall score',
+    rubric: 'Evaluation by criterion', weight: 'weight', notScored: 'Not scored', strengths: 'Strengths',
+    weaknesses: 'Areas to improve', recommendedActions: 'Recommended actions', transcript: 'Interview transcript',
+    interviewer: 'Interviewer', candidate: 'You', question: 'Question', followUp: 'Follow-up', none: 'None recorded', page: 'Page {page} of {total}',
+    criteria: {
+      relevanceScore: 'Response Relevance', starStructureScore: 'STAR Structure', specificEvidenceScore: 'Specific Evidence',
+      roleAlignmentScore: 'Role Alignment', outcomeOrientedScore: 'Outcome Focus', communicationScore: 'Communication',
+      problemSolvingScore: 'Problem-Solving', culturalFitScore: 'Cultural Fit', learningAgilityScore: 'Learning Agility'
+    }
+  },
+  ms: {
+    title: 'Laporan Latihan Temu Duga', position: 'Jawatan', company: 'Syarikat', stage: 'Peringkat temu duga',
+    completed: 'Selesai', duration: 'Tempoh', minutes: 'min', overallScore: 'Skor keseluruhan',
+    rubric: 'Penilaian mengikut kriteria', weight: 'wajaran', notScored: 'Tiada skor', strengths: 'Kekuatan',
+    weaknesses: 'Aspek untuk diperbaiki', recommendedActions: 'Tindakan yang disyorkan', transcript: 'Transkrip temu duga',
+    interviewer: 'Penemu duga', candidate: 'Anda', question: 'Soalan', followUp: 'Soalan susulan', none: 'Tiada rekod', page: 'Halaman {page} daripada {total}',
+    criteria: {
+      relevanceScore: 'Kerelevanan Jawapan', starStructureScore: 'Struktur STAR', specificEvidenceScore: 'Bukti Khusus',
+      roleAlignmentScore: 'Keselarasan dengan Peranan', outcomeOrientedScore: 'Fokus Hasil', communicationScore: 'Komunikasi',
+      problemSolvingScore: 'Penyelesaian Masalah', culturalFitScore: 'Kesesuaian Budaya', learningAgilityScore: 'Ketangkasan Pembelajaran'
+    }
+  },
+  id: {
+    title: 'Laporan Latihan Wawancara', position: 'Posisi', company: 'Perusahaan', stage: 'Tahap wawancara',
+    completed: 'Selesai', duration: 'Durasi', minutes: 'mnt', overallScore: 'Skor keseluruhan',
+    rubric: 'Penilaian per kriteria', weight: 'bobot', notScored: 'Belum dinilai', strengths: 'Kekuatan',
+    weaknesses: 'Area yang perlu ditingkatkan', recommendedActions: 'Tindakan yang disarankan', transcript: 'Transkrip wawancara',
+    interviewer: 'Pewawancara', candidate: 'Anda', question: 'Pertanyaan', followUp: 'Pertanyaan lanjutan', none: 'Tidak ada catatan', page: 'Halaman {page} dari {total}',
+    criteria: {
+      relevanceScore: 'Relevansi Jawaban', starStructureScore: 'Struktur STAR', specificEvidenceScore: 'Bukti Spesifik',
+      roleAlignmentScore: 'Kesesuaian dengan Peran', outcomeOrientedScore: 'Fokus pada Hasil', communicationScore: 'Komunikasi',
+      problemSolvingScore: 'Pemecahan Masalah', culturalFitScore: 'Kecocokan Budaya', learningAgilityScore: 'Kelincahan Belajar'
+    }
+  },
+  th: {
+    title: 'รายงานการฝึกสัมภาษณ์งาน', position: 'ตำแหน่ง', company: 'บริษัท', stage: 'ขั้นตอนการสัมภาษณ์',
+    completed: 'เสร็จสิ้นเมื่อ', duration: 'ระยะเวลา', minutes: 'นาที', overallScore: 'คะแนนรวม',
+    rubric: 'ผลการประเมินตามเกณฑ์', weight: 'น้ำหนัก', notScored: 'ไม่มีคะแนน', strengths: 'จุดแข็ง',
+    weaknesses: 'จุดที่ควรพัฒนา', recommendedActions: 'สิ่งที่แนะนำให้ทำ', transcript: 'บันทึกการสัมภาษณ์',
+    interviewer: 'ผู้สัมภาษณ์', candidate: 'คุณ', question: 'คำถาม', followUp: 'คำถามต่อเนื่อง', none: 'ไม่มีข้อมูล', page: 'หน้า {page} จาก {total}',
+    criteria: {
+      relevanceScore: 'ความตรงประเด็นของคำตอบ', starStructureScore: 'โครงสร้าง STAR', specificEvidenceScore: 'หลักฐานที่เฉพาะเจาะจง',
+      roleAlignmentScore: 'ความสอดคล้องกับตำแหน่ง', outcomeOrientedScore: 'การมุ่งเน้นผลลัพธ์', communicationScore: 'การสื่อสาร',
+      problemSolvingScore: 'การแก้ปัญหา', culturalFitScore: 'ความเข้ากันได้กับวัฒนธรรมองค์กร', learningAgilityScore: 'ความสามารถในการเรียนรู้'
+    }
+  },
+  vi: {
+    title: 'Báo cáo luyện tập phỏng vấn', position: 'Vị trí', company: 'Công ty', stage: 'Vòng phỏng vấn',
+    completed: 'Hoàn thành', duration: 'Thời lượng', minutes: 'phút', overallScore: 'Điểm tổng',
+    rubric: 'Đánh giá theo tiêu chí', weight: 'trọng số', notScored: 'Chưa chấm', strengths: 'Điểm mạnh',
+    weaknesses: 'Cần cải thiện', recommendedActions: 'Hành động đề xuất', transcript: 'Bản ghi phỏng vấn',
+    interviewer: 'Người phỏng vấn', candidate: 'Bạn', question: 'Câu hỏi', followUp: 'Câu hỏi tiếp nối', none: 'Không có', page: 'Trang {page}/{total}',
+    criteria: {
+      relevanceScore: 'Mức độ liên quan', starStructureScore: 'Cấu trúc STAR', specificEvidenceScore: 'Bằng chứng cụ thể',
+      roleAlignmentScore: 'Phù hợp với vai trò', outcomeOrientedScore: 'Định hướng kết quả', communicationScore: 'Giao tiếp',
+      problemSolvingScore: 'Giải quyết vấn đề', culturalFitScore: 'Phù hợp văn hóa', learningAgilityScore: 'Khả năng học hỏi'
+    }
+  },
+  fil: {
+    title: 'Ulat ng Pagsasanay sa Panayam', position: 'Posisyon', company: 'Kumpanya', stage: 'Yugto ng panayam',
+    completed: 'Natapos', duration: 'Tagal', minutes: 'min', overallScore: 'Kabuuang iskor',
+    rubric: 'Pagsusuri ayon sa pamantayan', weight: 'bigat', notScored: 'Walang iskor', strengths: 'Mga kalakasan',
+    weaknesses: 'Mga dapat pagbutihin', recommendedActions: 'Mga inirerekomendang hakbang', transcript: 'Transcript ng panayam',
+    interviewer: 'Tagapanayam', candidate: 'Ikaw', question: 'Tanong', followUp: 'Karagdagang tanong', none: 'Walang naitala', page: 'Pahina {page} ng {total}',
+    criteria: {
+      relevanceScore: 'Kaugnayan ng Sagot', starStructureScore: 'Istruktura ng STAR', specificEvidenceScore: 'Tiyak na Ebidensya',
+      roleAlignmentScore: 'Pagkakatugma sa Tungkulin', outcomeOrientedScore: 'Pokus sa Resulta', communicationScore: 'Komunikasyon',
+      problemSolvingScore: 'Paglutas ng Problema', culturalFitScore: 'Pagkakatugma sa Kultura', learningAgilityScore: 'Bilis sa Pagkatuto'
+    }
+  },
+  'zh-sg': {
+    title: '模拟面试报告', position: '职位', company: '公司', stage: '面试阶段',
+    completed: '完成时间', duration: '时长', minutes: '分钟', overallScore: '总分',
+    rubric: '各项评估', weight: '权重', notScored: '未评分', strengths: '优势',
+    weaknesses: '待改进之处', recommendedActions: '建议行动', transcript: '面试记录',
+    interviewer: '面试官', candidate: '你', question: '问题', followUp: '追问', none: '无记录', page: '第 {page} 页，共 {total} 页',
+    criteria: {
+      relevanceScore: '回答相关性', starStructureScore: 'STAR 结构', specificEvidenceScore: '具体证据',
+      roleAlignmentScore: '岗位匹配度', outcomeOrientedScore: '结果导向', communicationScore: '沟通能力',
+      problemSolvingScore: '解决问题能力', culturalFitScore: '文化契合度', learningAgilityScore: '学习敏捷性'
+    }
+  }
+};
+
+const DATE_LOCALES: Record<SupportedLanguage, string> = {
+  en: 'en-GB', ms: 'ms-MY', id: 'id-ID', th: 'th-TH', vi: 'vi-VN', fil: 'fil-PH', 'zh-sg': 'zh-SG'
+};
+
+// Common install locations (Debian/Ubuntu, Alpine, Fedora); PDF_FONT_* overrides take precedence
+const FONT_CANDIDATES: Record<Script | 'latinBold', string[]> = {
+  latin: [
+    '/usr/share/fonts/truetype/noto/NotoSans-Regular.ttf',
+    '/usr/share/fonts/noto/NotoSans-Regular.ttf',
+    '/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf',
+    '/usr/share/fonts/dejavu/DejaVuSans.ttf',
+  ],
+  latinBold: [
+    '/usr/share/fonts/truetype/noto/NotoSans-Bold.ttf',
+    '/usr/share/fonts/noto/NotoSans-Bold.ttf',
+    '/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf',
+    '/usr/share/fonts/dejavu/DejaVuSans-Bold.ttf',
+  ],
+  thai: [
+    '/usr/share/fonts/truetype/noto/NotoSansThai-Regular.ttf',
+    '/usr/share/fonts/noto/NotoSansThai-Regular.ttf',
+    '/usr/share/fonts/google-noto/NotoSansThai-Regular.ttf',
+    '/usr/share/fonts/truetype/tlwg/Garuda.ttf',
+  ],
+  cjk: [
+    '/usr/share/fonts/opentype/noto/NotoSansCJK-Regular.ttc#NotoSansCJKsc-Regular',
+    '/usr/share/fonts/noto/NotoSansCJK-Regular.ttc#NotoSansCJKsc-Regular',
+    '/usr/share/fonts/google-noto-cjk/NotoSansCJK-Regular.ttc#NotoSansCJKsc-Regular',
+    '/usr/share/fonts/truetype/wqy/wqy-microhei.ttc#WenQuanYiMicroHei',
+  ],
+};
+
+const FONT_ENV: Record<Script | 'latinBold', string> = {
+  latin: 'PDF_FONT_LATIN',
+  latinBold: 'PDF_FONT_LATIN_BOLD',
+  thai: 'PDF_FONT_THAI',
+  cjk: 'PDF_FONT_CJK',
+};
+
+// Thai, or CJK ideographs/kana/full-width forms; everything else is set in the Latin font
+const SCRIPT_RUN = /([\u0E00-\u0E7F]+|[\u3000-\u30FF\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF\uFF00-\uFFEF]+)/;
+const THAI = /[\u0E00-\u0E7F]/;
+
+const PAGE_MARGIN = 50;
+const ACCENT = '#7c3aed';
+const MUTED = '#6b7280';
+
+export interface PracticeReportPdfInput {
+  session: PracticeSession;
+  report: PracticeReport;
+  messages: PracticeMessage[];
+}
+
+/**
+ * Report lists are stored either as jsonb arrays or as JSON-encoded strings
+ */
+function toStringList(value: unknown): string[] {
+  let list = value;
+  if (typeof value === 'string') {
+    try {
+      list = JSON.parse(value);
+    } catch {
+      return value.trim() ? [value] : [];
+    }
+  }
+  return Array.isArray(list)
+    ? list.filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+    : [];
+}
+
+function formatStage(stage: string): string {
+  return stage.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+}
+
+export class PracticeReportPdfService {
+  private fonts: Record<Script | 'latinBold', FontFile | null> | null = null;
+  private warnedScripts = new Set<Script>();
+
+  resolveLanguage(language: string | null | undefined): SupportedLanguage {
+    const code = (language || 'en').toLowerCase();
+    if (code in SUPPORTED_LANGUAGES) return code as SupportedLanguage;
+    if (code.startsWith('zh')) return 'zh-sg';
+    return 'en';
+  }
+
+  async render({ session, report, messages }: PracticeReportPdfInput): Promise<Buffer> {
+    const language = this.resolveLanguage(session.preferredLanguage);
+    const labels = LABELS[language];
+    const fonts = this.loadFonts();
+    if (language === 'vi' && !fonts.latin) {
+      // Helvetica's encoding has no Vietnamese tone marks
+      log.warn('No Unicode Latin font installed; Vietnamese text will not render correctly', { env: FONT_ENV.latin });
+    }
+
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: PAGE_MARGIN,
+      bufferPages: true,
+      info: { Title: `${labels.title} - ${session.jobPosition || formatStage(session.interviewStage)}` }
+    });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    const finished = new Promise<Buffer>((resolve, reject) => {
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    if (fonts.latin) doc.registerFont('latin', fonts.latin.path, fonts.latin.face);
+    if (fonts.latinBold) doc.registerFont('latin-bold', fonts.latinBold.path, fonts.latinBold.face);
+    if (fonts.thai) doc.registerFont('thai', fonts.thai.path, fonts.thai.face);
+    if (fonts.cjk) doc.registerFont('cjk', fonts.cjk.path, fonts.cjk.face);
+
+    const write = (text: string, options: { size?: number; bold?: boolean; color?: string; indent?: number } = {}) =>
+      this.writeText(doc, text, options);
+
+    // Header
+    write(labels.title, { size: 20, bold: true, color: ACCENT });
+    doc.moveDown(0.5);
+    const completedAt = session.completedAt || report.createdAt;
+    const details = [
+      session.jobPosition && `${labels.position}: ${session.jobPosition}`,
+      session.companyName && `${labels.company}: ${session.companyName}`,
+      `${labels.stage}: ${formatStage(session.interviewStage)}`,
+      completedAt && `${labels.completed}: ${completedAt.toLocaleDateString(DATE_LOCALES[language], { year: 'numeric', month: 'long', day: 'numeric' })}`,
+      session.totalDuration && `${labels.duration}: ${Math.max(1, Math.round(session.totalDuration / 60))} ${labels.minutes}`,
+    ].filter((line): line is string => !!line);
+    details.forEach(line => write(line, { size: 10, color: MUTED }));
+
+    const overall = Number(report.overallScore);
+    doc.moveDown();
+    write(`${labels.overallScore}: ${Number.isFinite(overall) && overall > 0 ? overall.toFixed(1) : '-'} / 5.0`, { size: 16, bold: true });
+
+    // Rubric scores with bars
+    this.heading(doc, labels.rubric);
+    const width = doc.page.width - PAGE_MARGIN * 2;
+    for (const { column, weight } of RUBRIC_CRITERIA) {
+      this.ensureSpace(doc, 36);
+      const score = Number(report[column]);
+      const scored = report[column] !== null && Number.isFinite(score) && score > 0;
+      write(`${labels.criteria[column]} (${labels.weight} ${weight}%): ${scored ? `${score.toFixed(1)} / 5` : labels.notScored}`, { size: 11 });
+      const barY = doc.y + 2;
+      doc.rect(PAGE_MARGIN, barY, width, 6).fill('#e5e7eb');
+      if (scored) doc.rect(PAGE_MARGIN, barY, width * Math.min(score, 5) / 5, 6).fill(ACCENT);
+      doc.fillColor('black');
+      doc.y = barY + 14;
+    }
+
+    this.bulletSection(doc, labels.strengths, toStringList(report.strengths), labels.none);
+    this.bulletSection(doc, labels.weaknesses, toStringList(report.weaknesses), labels.none);
+    this.bulletSection(doc, labels.recommendedActions, toStringList(report.recommendedActions), labels.none);
+
+    // Full transcript
+    doc.addPage();
+    this.heading(doc, labels.transcript);
+    if (messages.length === 0) write(labels.none, { size: 10, color: MUTED });
+    for (const message of messages) {
+      const isFollowUp = message.messageType === 'ai_follow_up';
+      const isQuestion = message.messageType === 'ai_question' || isFollowUp;
+      const speaker = isQuestion ? labels.interviewer : labels.candidate;
+      const prefix = isQuestion && message.questionNumber != null
+        ? `${isFollowUp ? labels.followUp : labels.question} ${message.questionNumber} - `
+        : '';
+      this.ensureSpace(doc, 40);
+      write(`${prefix}${speaker}`, { size: 10, bold: true, color: isQuestion ? ACCENT : '#111827' });
+      write(message.content, { size: 10, indent: 10 });
+      doc.moveDown(0.5);
+    }
+
+    // Page numbers once every page exists
+    const range = doc.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      const footer = labels.page.replace('{page}', String(i + 1)).replace('{total}', String(range.count));
+      const bottom = doc.page.margins.bottom;
+      doc.page.margins.bottom = 0; // writing inside the bottom margin would otherwise add a page
+      doc.y = doc.page.height - PAGE_MARGIN + 15;
+      this.writeText(doc, footer, { size: 8, color: MUTED, align: 'center' });
+      doc.page.margins.bottom = bottom;
+    }
+
+    doc.end();
+    return finished;
+  }
+
+  /**
+   * Write text, switching font at every Thai/CJK boundary so mixed-script lines render
+   */
+  private writeText(
+    doc: PDFKit.PDFDocument,
+    text: string,
+    options: { size?: number; bold?: boolean; color?: string; indent?: number; align?: 'left' | 'center' } = {}
+  ): void {
+    const runs = text.split(SCRIPT_RUN).filter(run => run.length > 0);
+    if (runs.length === 0) return;
+
+    doc.fontSize(options.size ?? 11).fillColor(options.color ?? 'black');
+    const x = PAGE_MARGIN + (options.indent ?? 0);
+    const width = doc.page.width - PAGE_MARGIN - x;
+
+    runs.forEach((run, index) => {
+      doc.font(this.fontFor(run, options.bold ?? false));
+      const textOptions = { continued: index < runs.length - 1, width, align: options.align ?? 'left' };
+      if (index === 0) {
+        doc.text(run, x, doc.y, textOptions);
+      } else {
+        doc.text(run, textOptions);
+      }
+    });
+    doc.fillColor('black');
+  }
+
+  private fontFor(run: string, bold: boolean): string {
+    const fonts = this.loadFonts();
+    const script: Script = THAI.test(run) ? 'thai' : SCRIPT_RUN.test(run) ? 'cjk' : 'latin';
+
+    if (script !== 'latin') {
+      if (fonts[script]) return script;
+      this.warnMissingFont(script);
+    }
+    if (bold) return fonts.latinBold ? 'latin-bold' : fonts.latin ? 'latin' : 'Helvetica-Bold';
+    return fonts.latin ? 'latin' : 'Helvetica';
+  }
+
+  private heading(doc: PDFKit.PDFDocument, text: string): void {
+    doc.moveDown();
+    this.ensureSpace(doc, 50);
+    this.writeText(doc, text, { size: 14, bold: true, color: ACCENT });
+    doc.moveDown(0.4);
+  }
+
+  private bulletSection(doc: PDFKit.PDFDocument, title: string, items: string[], empty: string): void {
+    this.heading(doc, title);
+    if (items.length === 0) {
+      this.writeText(doc, empty, { size: 10, color: MUTED });
+      return;
+    }
+    for (const item of items) {
+      this.ensureSpace(doc, 20);
+      this.writeText(doc, `• ${item}`, { size: 11, indent: 10 });
+      doc.moveDown(0.2);
+    }
+  }
+
+  private ensureSpace(doc: PDFKit.PDFDocument, height: number): void {
+    if (doc.y + height > doc.page.height - PAGE_MARGIN) doc.addPage();
+  }
+
+  private loadFonts(): Record<Script | 'latinBold', FontFile | null> {
+    if (this.fonts) return this.fonts;
+
+    const find = (role: Script | 'latinBold'): FontFile | null => {
+      const configured = process.env[FONT_ENV[role]];
+      for (const candidate of configured ? [configured, ...FONT_CANDIDATES[role]] : FONT_CANDIDATES[role]) {
+        const [path, face] = candidate.split('#');
+        if (fs.existsSync(path)) return { path, face };
+      }
+      if (configured) log.warn('Configured PDF font not found', { env: FONT_ENV[role], path: configured });
+      return null;
+    };
+
+    this.fonts = { latin: find('latin'), latinBold: find('latinBold'), thai: find('thai'), cjk: find('cjk') };
+    log.info('PDF fonts resolved', {
+      latin: this.fonts.latin?.path ?? 'Helvetica (built-in)',
+      thai: this.fonts.thai?.path ?? null,
+      cjk: this.fonts.cjk?.path ?? null,
+    });
+    return this.fonts;
+  }
+
+  private warnMissingFont(script: Script): void {
+    if (this.warnedScripts.has(script)) return;
+    this.warnedScripts.add(script);
+    log.warn('No font installed for script; text will not render correctly', { script, env: FONT_ENV[script] });
+  }
+}
+
+export const practiceReportPdf = new PracticeReportPdfService();
@@ -6,16 +6,25 @@ import {
   aiPrepareSessions, 
   aiPrepareQuestions, 
   aiPrepareResponses,
+  aiPrepareAnalytics,
   type InsertAiPrepareSession,
   type AiPrepareSession,
   type InsertAiPrepareQuestion,
   type AiPrepareQuestion,
   type InsertAiPrepareResponse,
-  type AiPrepareResponse
+  type AiPrepareResponse,
+  type AiPrepareAnalytics,
+  type InsertAiPrepareAnalytics,
+  type DeliveryMetrics,
+  type FollowUpExchange,
+  type ProbedStarElement
 } from "../../shared/schema.js";
 import { eq, desc } from "drizzle-orm";
 import { AIQuestionGenerator } from "./ai-question-generator.js";
 import { ResponseEvaluationService } from "./response-evaluation-service.js";
+import { jobDescriptionService } from "./job-description-service.js";
+import { deliveryAnalysis } from "./delivery-analysis-service.js";
+import { followUps } from "./follow-up-service.js";
 
 interface SessionConfiguration {
   jobPosition: string;
@@ -24,10 +33,13 @@ interface SessionConfiguration {
   experienceLevel: string;
   preferredLanguage?: string;
   voiceEnabled?: boolean;
+  preferredVoice?: string;
   speechRate?: string;
   difficultyLevel?: string;
   focusAreas?: string[];
   questionCategories?: string[];
+  jobDescriptionId?: string | null;
+  followUpsPerQuestion?: number;
 }
 
 interface SessionProgress {
@@ -39,6 +51,30 @@ interface SessionProgress {
   timeSpent: number;
 }
 
+interface CategoryScore {
+  averageScore: number;
+  questionsAnswered: number;
+}
+
+interface QuestionScorePoint {
+  questionNumber: number;
+  category: string;
+  score: number;
+  timeTaken: number;
+}
+
+const STAR_COMPONENTS = ['situation', 'task', 'action', 'result'] as const;
+const STRENGTH_THRESHOLD = 4;
+const IMPROVEMENT_THRESHOLD = 3;
+const FILLER_RATE_THRESHOLD = 5; // fillers per 100 words
+const LONG_PAUSES_PER_ANSWER_THRESHOLD = 2;
+
+type QuestionWithResponses = AiPrepareQuestion & { responses: AiPrepareResponse[] };
+
+// The jsonb evaluation columns as processResponse writes them
+type StoredStarScores = Partial<Record<typeof STAR_COMPONENTS[number] | 'overall', number>>;
+type StoredFeedback = { suggestions?: string[] };
+
 interface QuestionRequest {
   sessionId: string;
   userId: string;
@@ -71,10 +107,13 @@ export class PrepareAIService {
         experienceLevel: config.experienceLevel,
         preferredLanguage: config.preferredLanguage || "en",
         voiceEnabled: config.voiceEnabled ?? true,
+        preferredVoice: config.preferredVoice ?? null,
         speechRate: config.speechRate || "1.0",
         difficultyLevel: config.difficultyLevel || "adaptive",
         focusAreas: config.focusAreas || ["behavioral", "situational"],
-        questionCategories: config.questionCategories || ["general"]
+        questionCategories: config.questionCategories || ["general"],
+        jobDescriptionId: config.jobDescriptionId ?? null,
+        followUpsPerQuestion: followUps.limit(config.followUpsPerQuestion)
       };
 
       const [session] = await db.insert(aiPrepareSessions)
@@ -113,7 +152,8 @@ export class PrepareAIService {
               lastName: true,
               email: true
             }
-          }
+          },
+          jobDescription: true
         }
       });
 
@@ -186,7 +226,10 @@ export class PrepareAIService {
         questionCategories: session.questionCategories,
         questionNumber: currentQuestionNumber,
         previousResponses: request.previousResponses,
-        adaptiveDifficulty: request.adaptiveDifficulty
+        adaptiveDifficulty: request.adaptiveDifficulty,
+        jobDescription: session.jobDescription
+          ? jobDescriptionService.toContext(session.jobDescription)
+          : undefined
       });
 
       // Insert question into database
@@ -228,6 +271,7 @@ export class PrepareAIService {
       inputMethod?: 'voice' | 'text';
       audioDuration?: number;
       transcriptionConfidence?: string;
+      deliveryMetrics?: DeliveryMetrics | null;
     }
   ): Promise<AiPrepareResponse> {
     try {
@@ -239,45 +283,46 @@ export class PrepareAIService {
       }
 
       const startTime = Date.now();
+      const language = responseData.responseLanguage || session.preferredLanguage;
       
       // Get AI evaluation
-      const evaluation = await this.evaluationService.evaluateResponse({
-        questionText: question.questionText,
-        questionCategory: question.questionCategory,
-        questionType: question.questionType,
-        responseText,
-        responseLanguage: responseData.responseLanguage || session.preferredLanguage,
-        culturalContext: question.culturalContext,
-        jobPosition: session.jobPosition,
-        experienceLevel: session.experienceLevel,
-        starMethodRelevant: question.starMethodRelevant
-      });
+      const evaluation = await this.evaluate(session, question, responseText, language, []);
 
       const evaluationTime = Date.now() - startTime;
       const wordCount = responseText.split(/\s+/).length;
 
+      // A weak action or result gets a probe before the next question
+      const probe = this.nextFollowUp(session, question, evaluation.starScores, [], language);
+
       // Insert response with evaluation
       const [response] = await db.insert(aiPrepareResponses)
         .values({
           sessionId,
           questionId,
           responseText,
-          responseLanguage: responseData.responseLanguage || session.preferredLanguage,
+          responseLanguage: language,
           inputMethod: responseData.inputMethod || 'text',
-          audioDuration: responseData.audioDuration,
+          audioDuration: responseData.audioDuration != null ? Math.round(responseData.audioDuration) : undefined, // whole seconds; STT engines report fractions
           transcriptionConfidence: responseData.transcriptionConfidence,
+          deliveryMetrics: responseData.deliveryMetrics ?? null,
           starScores: evaluation.starScores,
           detailedFeedback: evaluation.detailedFeedback,
           modelAnswer: evaluation.modelAnswer,
           relevanceScore: evaluation.relevanceScore.toString(),
           communicationScore: evaluation.communicationScore.toString(),
           completenessScore: evaluation.completenessScore.toString(),
+          requirementCoverage: evaluation.requirementCoverage ?? null,
+          followUps: probe ? [probe] : [],
           timeTaken: Math.floor(evaluationTime / 1000),
           wordCount,
           evaluatedBy: evaluation.evaluatedBy
         })
         .returning();
 
+      if (probe) {
+        await this.recordFollowUpQuestion(question, probe);
+      }
+
       // Update session progress
       await this.updateSessionProgress(sessionId);
 
@@ -291,6 +336,111 @@ export class PrepareAIService {
     }
   }
 
+  /**
+   * Answer the follow-up waiting on a question's latest response, and re-evaluate the answer together with its follow-ups
+   * Returns null when no follow-up is waiting
+   */
+  async processFollowUpAnswer(
+    sessionId: string,
+    questionId: string,
+    answerText: string,
+    responseData: {
+      responseLanguage?: string;
+    }
+  ): Promise<AiPrepareResponse | null> {
+    try {
+      const session = await this.getSession(sessionId);
+      const question = session.questions.find((q: any) => q.id === questionId);
+
+      if (!question) {
+        throw new Error(`Question not found: ${questionId}`);
+      }
+
+      // Responses are newest first
+      const previous: AiPrepareResponse | undefined = question.responses[0];
+      const exchanges = (previous?.followUps as FollowUpExchange[] | null) || [];
+      if (!previous || !followUps.pending(exchanges)) {
+        return null;
+      }
+
+      const answered = exchanges.map((exchange, index) =>
+        index === exchanges.length - 1 ? { ...exchange, answer: answerText } : exchange
+      );
+      const language = responseData.responseLanguage || previous.responseLanguage || session.preferredLanguage;
+
+      const evaluation = await this.evaluate(session, question, previous.responseText, language, answered);
+      const probe = this.nextFollowUp(session, question, evaluation.starScores, answered, language);
+
+      const [response] = await db.update(aiPrepareResponses)
+        .set({
+          starScores: evaluation.starScores,
+          detailedFeedback: evaluation.detailedFeedback,
+          modelAnswer: evaluation.modelAnswer,
+          relevanceScore: evaluation.relevanceScore.toString(),
+          communicationScore: evaluation.communicationScore.toString(),
+          completenessScore: evaluation.completenessScore.toString(),
+          requirementCoverage: evaluation.requirementCoverage ?? null,
+          followUps: probe ? [...answered, probe] : answered,
+          wordCount: (previous.wordCount || 0) + answerText.split(/\s+/).length,
+          evaluatedBy: evaluation.evaluatedBy
+        })
+        .where(eq(aiPrepareResponses.id, previous.id))
+        .returning();
+
+      if (probe) {
+        await this.recordFollowUpQuestion(question, probe);
+      }
+
+      await this.updateSessionProgress(sessionId);
+
+      console.log(`✅ Follow-up answer processed for session ${sessionId}: ${response.id}`);
+      return response;
+
+    } catch (error) {
+      console.error("❌ Error processing follow-up answer:", error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to process follow-up answer: ${errorMessage}`);
+    }
+  }
+
+  private evaluate(session: any, question: any, responseText: string, language: string, exchanges: FollowUpExchange[]) {
+    return this.evaluationService.evaluateResponse({
+      questionText: question.questionText,
+      questionCategory: question.questionCategory,
+      questionType: question.questionType,
+      responseText,
+      responseLanguage: language,
+      culturalContext: question.culturalContext,
+      jobPosition: session.jobPosition,
+      experienceLevel: session.experienceLevel,
+      starMethodRelevant: question.starMethodRelevant,
+      jobDescription: session.jobDescription
+        ? jobDescriptionService.toContext(session.jobDescription)
+        : undefined,
+      followUps: exchanges
+    });
+  }
+
+  // Only questions that call for a STAR answer are probed
+  private nextFollowUp(
+    session: any,
+    question: any,
+    starScores: Partial<Record<ProbedStarElement, number>>,
+    asked: FollowUpExchange[],
+    language: string
+  ): FollowUpExchange | null {
+    if (!question.starMethodRelevant) return null;
+    return followUps.nextProbe(starScores, asked, followUps.limit(session.followUpsPerQuestion), language);
+  }
+
+  private async recordFollowUpQuestion(question: any, probe: FollowUpExchange): Promise<void> {
+    const asked = (question.followUpQuestions as string[] | null) || [];
+    await db.update(aiPrepareQuestions)
+      .set({ followUpQuestions: [...asked, probe.question] })
+      .where(eq(aiPrepareQuestions.id, question.id));
+    question.followUpQuestions = [...asked, probe.question];
+  }
+
   /**
    * Update session progress metrics
    */
@@ -369,6 +519,189 @@ export class PrepareAIService {
     }
   }
 
+  /**
+   * Get the stored analytics snapshot for a session (written when it is paused or completed)
+   */
+  async getSessionAnalytics(sessionId: string): Promise<AiPrepareAnalytics | undefined> {
+    const [analytics] = await db
+      .select()
+      .from(aiPrepareAnalytics)
+      .where(eq(aiPrepareAnalytics.sessionId, sessionId));
+    return analytics;
+  }
+
+  /**
+   * Recompute the session's analytics from its responses and upsert the row
+   */
+  async refreshSessionAnalytics(sessionId: string): Promise<AiPrepareAnalytics> {
+    const session = await this.getSession(sessionId);
+    const questions: QuestionWithResponses[] = [...(session.questions as QuestionWithResponses[])]
+      .sort((a, b) => a.questionNumber - b.questionNumber);
+    const allResponses: AiPrepareResponse[] = questions.flatMap((q) => q.responses);
+
+    // Responses come back newest first, so the first one is the answer that counts for retries
+    const answered = questions
+      .filter((q) => q.responses.length > 0)
+      .map((q) => ({ question: q, response: q.responses[0] }));
+
+    const starScoresOf = (response: AiPrepareResponse) => response.starScores as StoredStarScores | null;
+    const scoreOf = (response: AiPrepareResponse) => Number(starScoresOf(response)?.overall) || 0;
+    const average = (values: number[]) =>
+      values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+    const round = (value: number) => Math.round(value * 10) / 10;
+
+    // Category averages
+    const byCategory = new Map<string, number[]>();
+    for (const { question, response } of answered) {
+      const scores = byCategory.get(question.questionCategory) || [];
+      scores.push(scoreOf(response));
+      byCategory.set(question.questionCategory, scores);
+    }
+    const categoryScores: Record<string, CategoryScore> = {};
+    byCategory.forEach((scores, category) => {
+      categoryScores[category] = { averageScore: round(average(scores)), questionsAnswered: scores.length };
+    });
+
+    // Per-question trend in the order the questions were asked
+    const improvementOverTime: QuestionScorePoint[] = answered.map(({ question, response }) => ({
+      questionNumber: question.questionNumber,
+      category: question.questionCategory,
+      score: scoreOf(response),
+      timeTaken: response.timeTaken || 0
+    }));
+
+    const scores = improvementOverTime.map((point) => point.score);
+    const half = Math.floor(scores.length / 2);
+    const scoreChange = half > 0
+      ? round(average(scores.slice(scores.length - half)) - average(scores.slice(0, half)))
+      : 0;
+
+    const starComponents: Record<string, number> = {};
+    for (const component of STAR_COMPONENTS) {
+      starComponents[component] = round(average(
+        answered.map(({ response }) => Number(starScoresOf(response)?.[component]) || 0)
+      ));
+    }
+
+    const numericAverage = (field: 'relevanceScore' | 'communicationScore' | 'completenessScore') => round(average(
+      answered
+        .map(({ response }) => Number(response[field]))
+        .filter((value) => !Number.isNaN(value) && value > 0)
+    ));
+
+    // Timing covers every attempt, including retries
+    const totalSessionTime = allResponses.reduce((sum, r) => sum + (r.timeTaken || 0), 0);
+    const averageResponseTime = allResponses.length > 0
+      ? Math.min(totalSessionTime / allResponses.length, 999.99)
+      : 0;
+
+    const inputMethods: Record<string, number> = {};
+    for (const response of allResponses) {
+      const method = response.inputMethod || 'text';
+      inputMethods[method] = (inputMethods[method] || 0) + 1;
+    }
+
+    const voiceResponses = allResponses.filter((r) => r.inputMethod === 'voice' || r.inputMethod === 'hybrid');
+    const totalAudioSeconds = voiceResponses.reduce((sum, r) => sum + (r.audioDuration || 0), 0);
+    const voiceWords = voiceResponses.reduce((sum, r) => sum + (r.audioDuration ? r.wordCount || 0 : 0), 0);
+    const confidences = voiceResponses
+      .map((r) => Number(r.transcriptionConfidence))
+      .filter((value) => !Number.isNaN(value) && value > 0);
+    const delivery = deliveryAnalysis.summarize(
+      voiceResponses
+        .map((r) => r.deliveryMetrics as DeliveryMetrics | null)
+        .filter((metrics): metrics is DeliveryMetrics => !!metrics)
+    );
+
+    const strengthsIdentified = STAR_COMPONENTS
+      .filter((component) => answered.length > 0 && starComponents[component] >= STRENGTH_THRESHOLD)
+      .map((component) => `Strong STAR ${component} (${starComponents[component]}/5)`);
+    const areasForImprovement = STAR_COMPONENTS
+      .filter((component) => answered.length > 0 && starComponents[component] < IMPROVEMENT_THRESHOLD)
+      .map((component) => `Develop the STAR ${component} (${starComponents[component]}/5)`);
+    Object.entries(categoryScores).forEach(([category, { averageScore }]) => {
+      if (averageScore >= STRENGTH_THRESHOLD) strengthsIdentified.push(`${category} questions (${averageScore}/5)`);
+      if (averageScore < IMPROVEMENT_THRESHOLD) areasForImprovement.push(`${category} questions (${averageScore}/5)`);
+    });
+
+    if (delivery) {
+      if (delivery.pace === 'good') strengthsIdentified.push(`Steady speaking pace (${delivery.wordsPerMinute} wpm)`);
+      if (delivery.pace === 'fast') areasForImprovement.push(`Slow down when speaking (${delivery.wordsPerMinute} wpm)`);
+      if (delivery.pace === 'slow') areasForImprovement.push(`Speak a little faster (${delivery.wordsPerMinute} wpm)`);
+      if (delivery.fillerRate > FILLER_RATE_THRESHOLD) {
+        areasForImprovement.push(`Use fewer filler words (${delivery.fillerRate} per 100 words)`);
+      }
+      if (delivery.longPausesPerAnswer > LONG_PAUSES_PER_ANSWER_THRESHOLD) {
+        areasForImprovement.push(`Reduce long pauses (${delivery.longPausesPerAnswer} per answer)`);
+      }
+    }
+
+    // Most frequent suggestions across answers
+    const suggestionCounts = new Map<string, number>();
+    for (const { response } of answered) {
+      for (const suggestion of (response.detailedFeedback as StoredFeedback | null)?.suggestions || []) {
+        suggestionCounts.set(suggestion, (suggestionCounts.get(suggestion) || 0) + 1);
+      }
+    }
+    const personalizedRecommendations = Array.from(suggestionCounts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 5)
+      .map(([suggestion]) => suggestion);
+
+    const values: InsertAiPrepareAnalytics = {
+      sessionId,
+      userId: session.userId,
+      overallPerformance: {
+        averageStarScore: round(average(scores)),
+        bestScore: scores.length > 0 ? Math.max(...scores) : 0,
+        lowestScore: scores.length > 0 ? Math.min(...scores) : 0,
+        scoreChange,
+        starComponents,
+        relevanceScore: numericAverage('relevanceScore'),
+        communicationScore: numericAverage('communicationScore'),
+        completenessScore: numericAverage('completenessScore')
+      },
+      categoryScores,
+      improvementOverTime,
+      responsePatterns: {
+        totalResponses: allResponses.length,
+        retries: allResponses.length - answered.length,
+        averageWordCount: Math.round(average(answered.map(({ response }) => response.wordCount || 0))),
+        inputMethods
+      },
+      strengthsIdentified,
+      areasForImprovement,
+      personalizedRecommendations,
+      voiceMetrics: {
+        voiceResponses: voiceResponses.length,
+        totalAudioSeconds,
+        averageAudioDuration: round(voiceResponses.length > 0 ? totalAudioSeconds / voiceResponses.length : 0),
+        averageTranscriptionConfidence: confidences.length > 0
+          ? Math.round(average(confidences) * 100) / 100
+          : null,
+        wordsPerMinute: delivery?.wordsPerMinute
+          ?? (totalAudioSeconds > 0 ? Math.round(voiceWords / (totalAudioSeconds / 60)) : null),
+        delivery
+      },
+      totalSessionTime,
+      averageResponseTime: averageResponseTime.toFixed(2),
+      questionsAnswered: answered.length,
+      questionsSkipped: questions.length - answered.length
+    };
+
+    const { sessionId: _sessionId, userId: _userId, ...updates } = values;
+    const [analytics] = await db.insert(aiPrepareAnalytics)
+      .values(values)
+      .onConflictDoUpdate({
+        target: aiPrepareAnalytics.sessionId,
+        set: { ...updates, updatedAt: new Date() }
+      })
+      .returning();
+
+    console.log(`📊 Session analytics updated: ${sessionId} (${answered.length} answered, ${values.questionsSkipped} skipped)`);
+    return analytics;
+  }
+
   /**
    * Complete or pause session
    */
@@ -392,6 +725,26 @@ export class PrepareAIService {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       throw new Error(`Failed to update session status: ${errorMessage}`);
     }
+
+    if (status === 'paused' || status === 'completed') {
+      // Analytics are a derived snapshot; failing to write them shouldn't undo the status change
+      try {
+        await this.refreshSessionAnalytics(sessionId);
+      } catch (error) {
+        console.error("❌ Error refreshing session analytics:", error);
+      }
+    }
+  }
+
+  /**
+   * Look up who owns a session without loading its questions and responses
+   */
+  async getSessionOwner(sessionId: string): Promise<string | undefined> {
+    const [session] = await db
+      .select({ userId: aiPrepareSessions.userId })
+      .from(aiPrepareSessions)
+      .where(eq(aiPrepareSessions.id, sessionId));
+    return session?.userId;
   }
 
   /**
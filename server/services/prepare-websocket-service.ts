@@ -1,11 +1,28 @@
 // WebSocket Service for AI Prepare Module
 // Real-time communication for voice input, question delivery, and evaluation feedback
 
-import { Server as SocketIOServer } from "socket.io";
-import { Server as HTTPServer } from "http";
+import { Server as SocketIOServer, type Socket } from "socket.io";
+import { Server as HTTPServer, type IncomingMessage } from "http";
+import type { Session, SessionData } from "express-session";
 import { PrepareAIService } from "./prepare-ai-service.js";
 import { FreeVoiceService } from "./free-voice-service.js";
+import { voiceRecordings } from "./voice-recording-service.js";
+import { deliveryAnalysis } from "./delivery-analysis-service.js";
+import { followUps } from "./follow-up-service.js";
 import { registerPrepareIO } from "./realtime-gateway.js";
+import { getSession, isVerificationPending } from "../auth-simple.js";
+import { storage } from "../storage.js";
+import { aiUsage } from "./ai-usage-service.js";
+import { newCorrelationId, runWithRequestContext } from "./request-context.js";
+import { logger } from "./logger.js";
+import type { DeliveryMetrics, FollowUpExchange, VoiceRecording } from "@shared/schema";
+
+const log = logger.child({ component: 'prepare-socket' });
+
+// Handshake request after the express-session middleware has run
+type SessionRequest = IncomingMessage & {
+  session?: Session & Partial<SessionData> & { userId?: string };
+};
 
 interface SocketUserData {
   userId: string;
@@ -29,7 +46,7 @@ interface VoiceTranscriptionResult {
 }
 
 interface SessionMessage {
-  type: 'question' | 'response' | 'evaluation' | 'progress' | 'error' | 'system';
+  type: 'question' | 'response' | 'evaluation' | 'follow-up' | 'progress' | 'error' | 'system';
   sessionId: string;
   questionId?: string;
   responseId?: string;
@@ -70,12 +87,50 @@ export class PrepareWebSocketService {
     this.activeUsers = new Map();
     this.audioBuffers = new Map();
 
+    // Identify sockets from the same session cookie the HTTP API uses
+    this.io.engine.use(getSession());
+    this.io.use(this.authenticateHandshake.bind(this));
+
     this.setupSocketHandlers();
     
     // Register this Socket.IO server with the RealtimeGateway
     registerPrepareIO(this.io);
     
-    console.log("🔌 WebSocket Service initialized for AI Prepare Module");
+    log.info('WebSocket service initialized');
+  }
+
+  /**
+   * Resolve the user from the express-session cookie; reject the handshake without one
+   */
+  private async authenticateHandshake(socket: Socket, next: (err?: Error) => void): Promise<void> {
+    try {
+      let userId = (socket.request as SessionRequest).session?.userId;
+
+      // Mirror the HTTP auth bypass used in development
+      if (!userId && process.env.NODE_ENV === 'development' && process.env.BYPASS_AUTH === 'true') {
+        userId = 'dev-user-123';
+      }
+
+      if (!userId) {
+        return next(new Error('Unauthorized'));
+      }
+
+      if (userId !== 'dev-user-123') {
+        const user = await storage.getUser(userId);
+        if (!user) {
+          return next(new Error('Unauthorized'));
+        }
+        if (isVerificationPending(user)) {
+          return next(new Error('Email not verified'));
+        }
+      }
+
+      socket.data.userId = userId;
+      next();
+    } catch (error) {
+      log.error('Socket handshake authentication error', { error });
+      next(new Error('Authentication failed'));
+    }
   }
 
   /**
@@ -83,93 +138,153 @@ export class PrepareWebSocketService {
    */
   private setupSocketHandlers(): void {
     this.io.on('connection', (socket) => {
-      console.log(`🔌 Client connected: ${socket.id}`);
+      const userId: string = socket.data.userId;
+      log.info('Client connected', { socketId: socket.id, userId });
+
+      this.activeUsers.set(socket.id, { userId });
+      socket.join(`user:${userId}`);
+
+      // Each event runs under its own correlation ID (the client's, if it sent one) with the user and
+      // session in the request context, so AI usage is attributed and its logs can be traced
+      const on = (event: string, handler: (data: any) => unknown) =>
+        socket.on(event, (data: any) => runWithRequestContext(
+          { correlationId: newCorrelationId(data?.correlationId), userId, sessionId: data?.sessionId },
+          async () => {
+            const start = Date.now();
+            await handler(data);
+            log[event === 'prepare:voice-chunk' ? 'debug' : 'info']('Socket event handled', { event, durationMs: Date.now() - start });
+          }
+        ));
 
       // Authentication and session management
-      socket.on('prepare:authenticate', this.handleAuthentication.bind(this, socket));
-      socket.on('prepare:join-session', this.handleJoinSession.bind(this, socket));
-      socket.on('prepare:leave-session', this.handleLeaveSession.bind(this, socket));
+      on('prepare:authenticate', this.handleAuthentication.bind(this, socket));
+      on('prepare:join-session', this.handleJoinSession.bind(this, socket));
+      on('prepare:leave-session', this.handleLeaveSession.bind(this, socket));
 
       // Session lifecycle
-      socket.on('prepare:create-session', this.handleCreateSession.bind(this, socket));
-      socket.on('prepare:get-next-question', this.handleGetNextQuestion.bind(this, socket));
-      socket.on('prepare:submit-response', this.handleSubmitResponse.bind(this, socket));
+      on('prepare:create-session', this.handleCreateSession.bind(this, socket));
+      on('prepare:get-next-question', this.handleGetNextQuestion.bind(this, socket));
+      on('prepare:submit-response', this.handleSubmitResponse.bind(this, socket));
 
       // Voice processing
-      socket.on('prepare:voice-start', this.handleVoiceStart.bind(this, socket));
-      socket.on('prepare:voice-chunk', this.handleVoiceChunk.bind(this, socket));
-      socket.on('prepare:voice-end', this.handleVoiceEnd.bind(this, socket));
-      socket.on('prepare:voice-cancel', this.handleVoiceCancel.bind(this, socket));
+      on('prepare:voice-start', this.handleVoiceStart.bind(this, socket));
+      on('prepare:voice-chunk', this.handleVoiceChunk.bind(this, socket));
+      on('prepare:voice-end', this.handleVoiceEnd.bind(this, socket));
+      on('prepare:voice-cancel', this.handleVoiceCancel.bind(this, socket));
 
       // Audio playback
-      socket.on('prepare:request-audio', this.handleRequestAudio.bind(this, socket));
-      socket.on('prepare:audio-played', this.handleAudioPlayed.bind(this, socket));
+      on('prepare:request-audio', this.handleRequestAudio.bind(this, socket));
+      on('prepare:audio-played', this.handleAudioPlayed.bind(this, socket));
 
       // Session control
-      socket.on('prepare:pause-session', this.handlePauseSession.bind(this, socket));
-      socket.on('prepare:resume-session', this.handleResumeSession.bind(this, socket));
-      socket.on('prepare:end-session', this.handleEndSession.bind(this, socket));
+      on('prepare:pause-session', this.handlePauseSession.bind(this, socket));
+      on('prepare:resume-session', this.handleResumeSession.bind(this, socket));
+      on('prepare:end-session', this.handleEndSession.bind(this, socket));
 
       // Disconnection
       socket.on('disconnect', this.handleDisconnection.bind(this, socket));
 
       // Error handling
       socket.on('error', (error) => {
-        console.error(`❌ Socket error for ${socket.id}:`, error);
+        log.error('Socket error', { socketId: socket.id, error });
         this.sendError(socket, 'connection-error', 'Connection error occurred');
       });
     });
   }
 
   /**
-   * Handle user authentication
+   * Handle user authentication.
+   * Identity is established during the handshake; this only confirms it to the client.
    */
-  private async handleAuthentication(socket: any, data: { userId: string, token?: string }): Promise<void> {
+  private async handleAuthentication(socket: any, data?: { userId?: string }): Promise<void> {
     try {
-      // In a real implementation, verify the token
-      // For now, we'll accept the userId
-      this.activeUsers.set(socket.id, {
-        userId: data.userId
-      });
+      const userData = this.activeUsers.get(socket.id);
+      if (!userData) {
+        this.sendError(socket, 'auth-failed', 'Authentication failed');
+        return;
+      }
 
-      socket.join(`user:${data.userId}`);
+      if (data?.userId && data.userId !== userData.userId) {
+        log.warn('Ignoring client-supplied userId', { socketId: socket.id, suppliedUserId: data.userId });
+      }
       
       this.sendMessage(socket, {
         type: 'system',
         sessionId: '',
         data: { 
           status: 'authenticated',
-          userId: data.userId,
+          userId: userData.userId,
           timestamp: Date.now()
         },
         timestamp: Date.now()
       });
 
-      console.log(`✅ User authenticated: ${data.userId} (${socket.id})`);
+      log.info('User authenticated', { socketId: socket.id });
 
     } catch (error) {
-      console.error('❌ Authentication error:', error);
+      log.error('Authentication error', { error });
       this.sendError(socket, 'auth-failed', 'Authentication failed');
     }
   }
 
+  /**
+   * Enforce the per-user AI spend quota, as the aiQuota middleware does for HTTP routes
+   */
+  private async checkAiQuota(socket: any, userId: string): Promise<boolean> {
+    const decision = await aiUsage.checkQuota(userId);
+    if (!decision.allowed) {
+      this.sendError(socket, 'quota-exceeded', `You have used your ${decision.period} AI allowance. It resets at ${decision.resetsAt?.toISOString()}.`);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Check that the socket's user owns the session, as validateSessionOwnership does for HTTP routes
+   */
+  private async authorizeSession(socket: any, sessionId: string | undefined): Promise<SocketUserData | null> {
+    const userData = this.activeUsers.get(socket.id);
+    if (!userData) {
+      this.sendError(socket, 'not-authenticated', 'User not authenticated');
+      return null;
+    }
+
+    if (!sessionId) {
+      this.sendError(socket, 'missing-session', 'Session ID is required');
+      return null;
+    }
+
+    let ownerId: string | undefined;
+    try {
+      ownerId = await this.prepareService.getSessionOwner(sessionId);
+    } catch (error) {
+      ownerId = undefined; // malformed IDs are treated as not found
+    }
+
+    if (!ownerId) {
+      this.sendError(socket, 'session-not-found', 'Session not found');
+      return null;
+    }
+
+    if (ownerId !== userData.userId) {
+      log.warn('Session access denied', { sessionId, ownerId });
+      this.sendError(socket, 'unauthorized', 'Session access denied');
+      return null;
+    }
+
+    return userData;
+  }
+
   /**
    * Handle joining a session
    */
   private async handleJoinSession(socket: any, data: { sessionId: string }): Promise<void> {
     try {
-      const userData = this.activeUsers.get(socket.id);
-      if (!userData) {
-        this.sendError(socket, 'not-authenticated', 'User not authenticated');
-        return;
-      }
-
       // Verify session exists and belongs to user
+      const userData = await this.authorizeSession(socket, data?.sessionId);
+      if (!userData) return;
+
       const session = await this.prepareService.getSession(data.sessionId);
-      if (session.userId !== userData.userId) {
-        this.sendError(socket, 'unauthorized', 'Session access denied');
-        return;
-      }
 
       // Update user data and join session room
       userData.sessionId = data.sessionId;
@@ -190,10 +305,10 @@ export class PrepareWebSocketService {
         timestamp: Date.now()
       });
 
-      console.log(`✅ User joined session: ${userData.userId} -> ${data.sessionId}`);
+      log.info('User joined session');
 
     } catch (error) {
-      console.error('❌ Join session error:', error);
+      log.error('Join session error', { error });
       this.sendError(socket, 'join-failed', 'Failed to join session');
     }
   }
@@ -225,10 +340,10 @@ export class PrepareWebSocketService {
         timestamp: Date.now()
       });
 
-      console.log(`✅ Session created: ${session.id} for user ${userData.userId}`);
+      log.info('Session created', { sessionId: session.id });
 
     } catch (error) {
-      console.error('❌ Create session error:', error);
+      log.error('Create session error', { error });
       this.sendError(socket, 'create-failed', 'Failed to create session');
     }
   }
@@ -238,11 +353,9 @@ export class PrepareWebSocketService {
    */
   private async handleGetNextQuestion(socket: any, data: { sessionId: string }): Promise<void> {
     try {
-      const userData = this.activeUsers.get(socket.id);
-      if (!userData || userData.sessionId !== data.sessionId) {
-        this.sendError(socket, 'unauthorized', 'Session access denied');
-        return;
-      }
+      const userData = await this.authorizeSession(socket, data?.sessionId);
+      if (!userData) return;
+      if (!(await this.checkAiQuota(socket, userData.userId))) return;
 
       const question = await this.prepareService.generateNextQuestion({
         sessionId: data.sessionId,
@@ -270,10 +383,10 @@ export class PrepareWebSocketService {
         this.generateQuestionAudio(socket, question, session);
       }
 
-      console.log(`✅ Question generated: ${question.id} for session ${data.sessionId}`);
+      log.info('Question generated', { questionId: question.id });
 
     } catch (error) {
-      console.error('❌ Generate question error:', error);
+      log.error('Generate question error', { error });
       this.sendError(socket, 'question-failed', 'Failed to generate question');
     }
   }
@@ -286,26 +399,64 @@ export class PrepareWebSocketService {
     questionId: string;
     responseText: string;
     inputMethod: 'text' | 'voice';
+    followUp?: boolean;
     metadata?: any;
   }): Promise<void> {
+    // Recordings and delivery metrics are only trusted from the server's own voice pipeline
+    await this.submitResponse(socket, data, null);
+  }
+
+  private async submitResponse(socket: any, data: {
+    sessionId: string;
+    questionId: string;
+    responseText: string;
+    inputMethod: 'text' | 'voice';
+    followUp?: boolean;
+    metadata?: any;
+  }, voice: { recording: VoiceRecording | null; deliveryMetrics: DeliveryMetrics | null } | null): Promise<void> {
     try {
-      const userData = this.activeUsers.get(socket.id);
-      if (!userData || userData.sessionId !== data.sessionId) {
-        this.sendError(socket, 'unauthorized', 'Session access denied');
+      const userData = await this.authorizeSession(socket, data?.sessionId);
+      if (!userData) return;
+      if (!(await this.checkAiQuota(socket, userData.userId))) return;
+
+      // A follow-up answer extends the question's latest response rather than creating its own
+      const response = data.followUp
+        ? await this.prepareService.processFollowUpAnswer(
+          data.sessionId,
+          data.questionId,
+          data.responseText,
+          { responseLanguage: data.metadata?.language || 'en' }
+        )
+        : await this.prepareService.processResponse(
+          data.sessionId,
+          data.questionId,
+          data.responseText,
+          {
+            responseLanguage: data.metadata?.language || 'en',
+            inputMethod: data.inputMethod,
+            audioDuration: data.metadata?.audioDuration,
+            transcriptionConfidence: data.metadata?.confidence,
+            deliveryMetrics: voice?.deliveryMetrics
+          }
+        );
+
+      if (!response) {
+        this.sendError(socket, 'follow-up-not-pending', 'No follow-up question is waiting for an answer');
         return;
       }
 
-      const response = await this.prepareService.processResponse(
-        data.sessionId,
-        data.questionId,
-        data.responseText,
-        {
-          responseLanguage: data.metadata?.language || 'en',
-          inputMethod: data.inputMethod,
-          audioDuration: data.metadata?.audioDuration,
-          transcriptionConfidence: data.metadata?.confidence
+      if (voice?.recording) {
+        try {
+          const audioFileUrl = await voiceRecordings.linkResponse(voice.recording, userData.userId, response.id, { followUp: data.followUp });
+          if (audioFileUrl) {
+            if (!data.followUp) response.audioFileUrl = audioFileUrl;
+          } else {
+            log.warn('Voice recording not linked: not owned by the responding user', { recordingId: voice.recording.id, responseId: response.id });
+          }
+        } catch (error) {
+          log.error('Failed to link voice recording', { responseId: response.id, error });
         }
-      );
+      }
 
       // Send evaluation results
       this.sendMessage(socket, {
@@ -328,6 +479,19 @@ export class PrepareWebSocketService {
         timestamp: Date.now()
       });
 
+      // The interviewer probes a weak action or result before the client moves on
+      const followUp = followUps.pending(response.followUps as FollowUpExchange[] | null);
+      if (followUp) {
+        this.sendMessage(socket, {
+          type: 'follow-up',
+          sessionId: data.sessionId,
+          questionId: data.questionId,
+          responseId: response.id,
+          data: { followUp, timestamp: Date.now() },
+          timestamp: Date.now()
+        });
+      }
+
       // Send updated progress
       const progress = await this.prepareService.getSessionProgress(data.sessionId);
       this.sendMessage(socket, {
@@ -337,10 +501,10 @@ export class PrepareWebSocketService {
         timestamp: Date.now()
       });
 
-      console.log(`✅ Response processed: ${response.id} for session ${data.sessionId}`);
+      log.info('Response processed', { responseId: response.id });
 
     } catch (error) {
-      console.error('❌ Submit response error:', error);
+      log.error('Submit response error', { error });
       this.sendError(socket, 'response-failed', 'Failed to process response');
     }
   }
@@ -348,13 +512,11 @@ export class PrepareWebSocketService {
   /**
    * Handle voice recording start
    */
-  private handleVoiceStart(socket: any, data: { sessionId: string, questionId: string }): void {
+  private async handleVoiceStart(socket: any, data: { sessionId: string, questionId: string }): Promise<void> {
     try {
-      const userData = this.activeUsers.get(socket.id);
-      if (!userData || userData.sessionId !== data.sessionId) {
-        this.sendError(socket, 'unauthorized', 'Session access denied');
-        return;
-      }
+      const userData = await this.authorizeSession(socket, data?.sessionId);
+      if (!userData) return;
+      userData.sessionId = data.sessionId;
 
       // Initialize audio buffer for this recording
       const bufferKey = `${socket.id}:${data.questionId}`;
@@ -371,10 +533,10 @@ export class PrepareWebSocketService {
         timestamp: Date.now()
       });
 
-      console.log(`🎤 Voice recording started: ${data.questionId} for session ${data.sessionId}`);
+      log.info('Voice recording started', { questionId: data.questionId });
 
     } catch (error) {
-      console.error('❌ Voice start error:', error);
+      log.error('Voice start error', { error });
       this.sendError(socket, 'voice-failed', 'Failed to start voice recording');
     }
   }
@@ -384,14 +546,14 @@ export class PrepareWebSocketService {
    */
   private handleVoiceChunk(socket: any, chunk: AudioChunk): void {
     try {
+      // Chunks are only accepted for a recording opened by an authorized voice-start
       const userData = this.activeUsers.get(socket.id);
-      if (!userData || userData.sessionId !== chunk.sessionId) {
+      const bufferKey = `${socket.id}:${chunk.questionId}`;
+      const audioBuffer = this.audioBuffers.get(bufferKey);
+      if (!userData || userData.sessionId !== chunk.sessionId || !audioBuffer) {
         this.sendError(socket, 'unauthorized', 'Session access denied');
         return;
       }
-
-      const bufferKey = `${socket.id}:${chunk.questionId}`;
-      const audioBuffer = this.audioBuffers.get(bufferKey) || [];
       
       // Convert ArrayBuffer to Buffer and store
       audioBuffer[chunk.chunkIndex] = Buffer.from(chunk.audioData);
@@ -404,7 +566,7 @@ export class PrepareWebSocketService {
       });
 
     } catch (error) {
-      console.error('❌ Voice chunk error:', error);
+      log.error('Voice chunk error', { error });
       this.sendError(socket, 'voice-failed', 'Failed to process audio chunk');
     }
   }
@@ -416,13 +578,12 @@ export class PrepareWebSocketService {
     sessionId: string;
     questionId: string;
     totalChunks: number;
+    followUp?: boolean;
   }): Promise<void> {
     try {
-      const userData = this.activeUsers.get(socket.id);
-      if (!userData || userData.sessionId !== data.sessionId) {
-        this.sendError(socket, 'unauthorized', 'Session access denied');
-        return;
-      }
+      const userData = await this.authorizeSession(socket, data?.sessionId);
+      if (!userData) return;
+      if (!(await this.checkAiQuota(socket, userData.userId))) return;
 
       const bufferKey = `${socket.id}:${data.questionId}`;
       const audioChunks = this.audioBuffers.get(bufferKey) || [];
@@ -455,6 +616,45 @@ export class PrepareWebSocketService {
         audioFormat: 'webm'
       });
 
+      // Keep the recording for replay unless the user opted out; a storage failure never blocks evaluation
+      const recording = await voiceRecordings.save({
+        userId: userData.userId,
+        sessionId: data.sessionId,
+        questionId: data.questionId,
+        audio: completeAudio,
+        contentType: 'audio/webm',
+        durationSeconds: transcriptionResult.duration
+      }).catch(error => {
+        log.error('Failed to store voice recording', { error });
+        return null;
+      });
+
+      if (recording) {
+        this.sendMessage(socket, {
+          type: 'system',
+          sessionId: data.sessionId,
+          data: {
+            status: 'voice-recording-saved',
+            questionId: data.questionId,
+            recordingUrl: voiceRecordings.playbackUrl(recording.id),
+            timestamp: Date.now()
+          },
+          timestamp: Date.now()
+        });
+      }
+
+      // Pace, fillers and pauses; like storage, an analysis failure never blocks evaluation
+      const deliveryMetrics = await deliveryAnalysis.analyze({
+        text: transcriptionResult.transcription,
+        language: transcriptionResult.language,
+        durationSeconds: transcriptionResult.duration,
+        words: transcriptionResult.words,
+        audio: completeAudio
+      }).catch(error => {
+        log.error('Delivery analysis failed', { error });
+        return null;
+      });
+
       // Send transcription result
       this.sendMessage(socket, {
         type: 'system',
@@ -463,28 +663,30 @@ export class PrepareWebSocketService {
           status: 'voice-transcribed',
           questionId: data.questionId,
           transcription: transcriptionResult,
+          deliveryMetrics,
           timestamp: Date.now()
         },
         timestamp: Date.now()
       });
 
       // Auto-submit response
-      await this.handleSubmitResponse(socket, {
+      await this.submitResponse(socket, {
         sessionId: data.sessionId,
         questionId: data.questionId,
         responseText: transcriptionResult.transcription,
         inputMethod: 'voice',
+        followUp: data.followUp,
         metadata: {
           language: transcriptionResult.language,
           audioDuration: transcriptionResult.duration,
           confidence: transcriptionResult.confidence.toString()
         }
-      });
+      }, { recording, deliveryMetrics });
 
-      console.log(`🎤 Voice transcribed: ${data.questionId} -> "${transcriptionResult.transcription}"`);
+      log.info('Voice transcribed', { questionId: data.questionId, characters: transcriptionResult.transcription.length });
 
     } catch (error) {
-      console.error('❌ Voice end error:', error);
+      log.error('Voice end error', { error });
       this.sendError(socket, 'voice-failed', 'Failed to process voice recording');
     }
   }
@@ -499,7 +701,7 @@ export class PrepareWebSocketService {
         {
           language: session.preferredLanguage,
           rate: parseFloat(session.speechRate || '1.0'),
-          voice: 'default'
+          voice: session.preferredVoice
         }
       );
 
@@ -512,13 +714,14 @@ export class PrepareWebSocketService {
           audioData: audioResult.audioData.toString('base64'),
           audioFormat: audioResult.format,
           duration: audioResult.duration,
+          voice: audioResult.voice,
           timestamp: Date.now()
         },
         timestamp: Date.now()
       });
 
     } catch (error) {
-      console.warn('⚠️ Audio generation failed:', error instanceof Error ? error.message : 'Unknown error');
+      log.warn('Audio generation failed', { error });
       // Audio generation failure shouldn't block the question
     }
   }
@@ -527,24 +730,21 @@ export class PrepareWebSocketService {
    * Handle various session control events
    */
   private async handlePauseSession(socket: any, data: { sessionId: string }): Promise<void> {
-    await this.updateSessionStatus(socket, data.sessionId, 'paused');
+    await this.updateSessionStatus(socket, data?.sessionId, 'paused');
   }
 
   private async handleResumeSession(socket: any, data: { sessionId: string }): Promise<void> {
-    await this.updateSessionStatus(socket, data.sessionId, 'active');
+    await this.updateSessionStatus(socket, data?.sessionId, 'active');
   }
 
   private async handleEndSession(socket: any, data: { sessionId: string }): Promise<void> {
-    await this.updateSessionStatus(socket, data.sessionId, 'completed');
+    await this.updateSessionStatus(socket, data?.sessionId, 'completed');
   }
 
   private async updateSessionStatus(socket: any, sessionId: string, status: string): Promise<void> {
     try {
-      const userData = this.activeUsers.get(socket.id);
-      if (!userData || userData.sessionId !== sessionId) {
-        this.sendError(socket, 'unauthorized', 'Session access denied');
-        return;
-      }
+      const userData = await this.authorizeSession(socket, sessionId);
+      if (!userData) return;
 
       await this.prepareService.updateSessionStatus(sessionId, status as any);
       
@@ -558,10 +758,10 @@ export class PrepareWebSocketService {
         timestamp: Date.now()
       });
 
-      console.log(`✅ Session ${status}: ${sessionId}`);
+      log.info('Session status updated', { sessionId, status });
 
     } catch (error) {
-      console.error(`❌ Update session status error:`, error);
+      log.error('Update session status error', { error });
       this.sendError(socket, 'status-failed', `Failed to ${status} session`);
     }
   }
@@ -570,6 +770,13 @@ export class PrepareWebSocketService {
    * Handle other events
    */
   private handleVoiceCancel(socket: any, data: { sessionId: string, questionId: string }): void {
+    const userData = this.activeUsers.get(socket.id);
+    if (!userData || userData.sessionId !== data.sessionId) {
+      this.sendError(socket, 'unauthorized', 'Session access denied');
+      return;
+    }
+
+    // Buffers are keyed by socket, so a client can only cancel its own recording
     const bufferKey = `${socket.id}:${data.questionId}`;
     this.audioBuffers.delete(bufferKey);
     
@@ -596,18 +803,18 @@ export class PrepareWebSocketService {
 
   private handleRequestAudio(socket: any, data: { questionId: string }): void {
     // Client requesting audio playback - track for analytics
-    console.log(`🔊 Audio playback requested: ${data.questionId}`);
+    log.debug('Audio playback requested', { questionId: data.questionId });
   }
 
   private handleAudioPlayed(socket: any, data: { questionId: string, duration: number }): void {
     // Client finished playing audio - track for analytics
-    console.log(`🔊 Audio playback completed: ${data.questionId} (${data.duration}ms)`);
+    log.debug('Audio playback completed', { questionId: data.questionId, durationMs: data.duration });
   }
 
   private handleDisconnection(socket: any): void {
     const userData = this.activeUsers.get(socket.id);
     if (userData) {
-      console.log(`🔌 User disconnected: ${userData.userId} (${socket.id})`);
+      log.info('User disconnected', { socketId: socket.id, userId: userData.userId });
       
       // Clean up audio buffers for this socket
       Array.from(this.audioBuffers.keys()).forEach(key => {
@@ -618,7 +825,7 @@ export class PrepareWebSocketService {
       
       this.activeUsers.delete(socket.id);
     } else {
-      console.log(`🔌 Anonymous client disconnected: ${socket.id}`);
+      log.info('Anonymous client disconnected', { socketId: socket.id });
     }
   }
 
@@ -971,7 +971,7 @@ export class QuestionBankService {
         ],
         maxTokens: 1500, // Reduced to prevent verbose responses
         temperature: 0.3, // Lower creativity for consistent format
-        domain: 'general'
+        domain: 'question-generation'
       });
 
       console.log(`📋 Generated additional questions using ${aiResult.provider} in ${aiResult.responseTime}ms${aiResult.fallbackUsed ? ' (fallback)' : ''}`);
@@ -0,0 +1,120 @@
+// Rate Limiter Service
+// Postgres-backed request limits and brute-force lockout, shared by login and the expensive AI endpoints
+
+import { storage, type RateLimitBackoffPolicy } from "../storage.js";
+
+export interface RequestRatePolicy {
+  name: string;          // bucket prefix, e.g. "ai-question"
+  limit: number;         // requests allowed per window
+  windowSeconds: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+// Per account: a handful of typos are fine, then 30s, 60s, 120s... up to 15 minutes
+const LOGIN_EMAIL_POLICY: RateLimitBackoffPolicy = {
+  freeFailures: 5,
+  baseLockoutSeconds: 30,
+  maxLockoutSeconds: 15 * 60,
+  resetAfterSeconds: 15 * 60,
+};
+
+// Per IP: looser, since offices and mobile carriers share addresses
+const LOGIN_IP_POLICY: RateLimitBackoffPolicy = {
+  freeFailures: 20,
+  baseLockoutSeconds: 60,
+  maxLockoutSeconds: 60 * 60,
+  resetAfterSeconds: 60 * 60,
+};
+
+export class RateLimiterService {
+  /**
+   * Count a request against a fixed-window policy
+   */
+  async consume(policy: RequestRatePolicy, subject: string): Promise<RateLimitDecision> {
+    try {
+      const { hits, retryAfterSeconds } = await storage.hitRateLimit(`${policy.name}:${subject}`, policy.windowSeconds);
+      return {
+        allowed: hits <= policy.limit,
+        limit: policy.limit,
+        remaining: Math.max(policy.limit - hits, 0),
+        retryAfterSeconds,
+      };
+    } catch (error) {
+      // Fail open: an unavailable limiter shouldn't take the feature down with it
+      console.error(`❌ Rate limiter unavailable for ${policy.name}:`, error);
+      return { allowed: true, limit: policy.limit, remaining: policy.limit, retryAfterSeconds: 0 };
+    }
+  }
+
+  /**
+   * Seconds until login is allowed again for this email or IP (0 when not locked)
+   */
+  async getLoginLockout(email: string, ip: string | undefined): Promise<number> {
+    try {
+      const lockouts = await Promise.all([
+        storage.getRateLimitLockout(this.loginEmailKey(email)),
+        ip ? storage.getRateLimitLockout(this.loginIpKey(ip)) : Promise.resolve(0),
+      ]);
+      return Math.max(...lockouts);
+    } catch (error) {
+      console.error("❌ Login lockout check failed:", error);
+      return 0;
+    }
+  }
+
+  /**
+   * Record a failed login and return the resulting lockout in seconds (0 when not locked)
+   */
+  async recordLoginFailure(email: string, ip: string | undefined): Promise<number> {
+    try {
+      const results = await Promise.all([
+        storage.recordRateLimitFailure(this.loginEmailKey(email), LOGIN_EMAIL_POLICY),
+        ip ? storage.recordRateLimitFailure(this.loginIpKey(ip), LOGIN_IP_POLICY) : Promise.resolve(null),
+      ]);
+      return Math.max(...results.map((result) => result?.retryAfterSeconds ?? 0));
+    } catch (error) {
+      console.error("❌ Failed to record login failure:", error);
+      return 0;
+    }
+  }
+
+  /**
+   * Forget an account's failed attempts after a successful login.
+   * The IP counter is left to decay so one valid account can't be used to reset it.
+   */
+  async clearLoginFailures(email: string): Promise<void> {
+    try {
+      await storage.clearRateLimit(this.loginEmailKey(email));
+    } catch (error) {
+      console.error("❌ Failed to clear login failures:", error);
+    }
+  }
+
+  async unlockAccount(email: string): Promise<boolean> {
+    return storage.clearRateLimit(this.loginEmailKey(email));
+  }
+
+  async unlockIp(ip: string): Promise<boolean> {
+    return storage.clearRateLimit(this.loginIpKey(ip));
+  }
+
+  async getLockouts() {
+    return storage.getLockedRateLimits();
+  }
+
+  private loginEmailKey(email: string): string {
+    return `login:email:${email.trim().toLowerCase()}`;
+  }
+
+  private loginIpKey(ip: string): string {
+    return `login:ip:${ip}`;
+  }
+}
+
+export const rateLimiter = new RateLimiterService();
@@ -0,0 +1,31 @@
+// Request Context
+// Per-request values (who is calling, for which session) that services can read without threading them through every call
+
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+
+export interface RequestContext {
+  correlationId?: string; // ties together every log line of one HTTP request or socket event
+  userId?: string;
+  sessionId?: string; // Prepare or Practice session the request works on
+}
+
+const contextStorage = new AsyncLocalStorage<RequestContext>();
+
+// Accept a caller-supplied correlation ID only if it's short and safe to echo back
+const VALID_CORRELATION_ID = /^[A-Za-z0-9._-]{1,64}$/;
+
+/**
+ * Run fn (and everything it awaits) with the given context, layered over any outer context
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return contextStorage.run({ ...contextStorage.getStore(), ...context }, fn);
+}
+
+export function getRequestContext(): RequestContext {
+  return contextStorage.getStore() ?? {};
+}
+
+export function newCorrelationId(candidate?: unknown): string {
+  return typeof candidate === "string" && VALID_CORRELATION_ID.test(candidate) ? candidate : randomUUID();
+}
@@ -1,8 +1,12 @@
 // Response Evaluation Service
 // Comprehensive AI-powered evaluation using official 9-criteria interview scoring rubric
 
-import { SeaLionService } from "./sealion.js";
-import { getOpenAIService, type OpenAIService } from './openai-service.js';
+import { aiRouter, type AIProviderName } from './ai-router.js';
+import { jobDescriptionService, type JobDescriptionContext } from './job-description-service.js';
+import { logger } from './logger.js';
+import type { FollowUpExchange, JobRequirementCoverage, SessionRequirementCoverage } from '@shared/schema';
+
+const log = logger.child({ component: 'evaluation' });
 
 interface EvaluationRequest {
   questionText: string;
@@ -14,6 +18,8 @@ interface EvaluationRequest {
   jobPosition: string;
   experienceLevel: string;
   starMethodRelevant: boolean;
+  jobDescription?: JobDescriptionContext;
+  followUps?: FollowUpExchange[]; // interviewer probes and the answers to them, judged as part of the response
 }
 
 interface StarScores {
@@ -52,22 +58,24 @@ interface EvaluationResult {
   detailedFeedback: DetailedFeedback;
   modelAnswer: string;
   completenessScore: number;           // 1-5 response completeness
-  evaluatedBy: 'sealion' | 'openai' | 'rule-based';
+  evaluatedBy: AIProviderName | 'rule-based';
+  
+  // Job description requirements addressed by the answer (only when a JD is attached)
+  requirementCoverage?: JobRequirementCoverage;
 }
 
+// Words too generic to show that an answer addressed a specific requirement
+const REQUIREMENT_STOPWORDS = new Set([
+  'and', 'the', 'for', 'with', 'within', 'from', 'into', 'our', 'your', 'you', 'are', 'will', 'able',
+  'ability', 'experience', 'experienced', 'years', 'year', 'strong', 'good', 'excellent', 'knowledge',
+  'understanding', 'skills', 'skill', 'proven', 'demonstrated', 'track', 'record', 'working', 'work',
+  'plus', 'preferred', 'required', 'must', 'have', 'including', 'related', 'relevant', 'similar', 'etc'
+]);
+
 export class ResponseEvaluationService {
-  private seaLionService: SeaLionService;
-  private openaiService: OpenAIService | null;
   private starCriteria: Record<string, string>;
 
   constructor() {
-    this.seaLionService = new SeaLionService();
-    try {
-      this.openaiService = getOpenAIService();
-    } catch (error) {
-      console.warn("⚠️ OpenAI service not available for evaluation, using SeaLion only:", error instanceof Error ? error.message : 'Unknown error');
-      this.openaiService = null;
-    }
     this.starCriteria = this.initializeStarCriteria();
   }
 
@@ -75,38 +83,60 @@ export class ResponseEvaluationService {
    * Evaluate user response with comprehensive 9-criteria scoring
    */
   async evaluateResponse(request: EvaluationRequest): Promise<EvaluationResult> {
+    const startTime = Date.now();
     try {
-      console.log(`🎯 Evaluating response for ${request.questionCategory} question`);
-
-      // Try OpenAI first (prioritized as requested)
-      if (this.openaiService) {
-        try {
-          const openaiEvaluation = await this.evaluateWithOpenAI(request);
-          if (openaiEvaluation) return openaiEvaluation;
-        } catch (error) {
-          console.warn("⚠️ OpenAI evaluation failed, trying SeaLion:", error instanceof Error ? error.message : 'Unknown error');
-        }
-      }
+      log.debug('Evaluating response', { questionCategory: request.questionCategory, language: request.responseLanguage });
 
-      // Try SeaLion AI as fallback for ASEAN cultural context
-      if (this.shouldUseSeaLion(request.responseLanguage)) {
-        try {
-          const seaLionEvaluation = await this.evaluateWithSeaLion(request);
-          if (seaLionEvaluation) return seaLionEvaluation;
-        } catch (error) {
-          console.warn("⚠️ SeaLion evaluation failed, falling back to rules:", error instanceof Error ? error.message : 'Unknown error');
-        }
+      // Provider order (and which providers handle this language) comes from the router's rules
+      let evaluation: EvaluationResult | null = null;
+      try {
+        evaluation = await this.evaluateWithAI(request);
+      } catch (error) {
+        log.warn('AI evaluation failed, falling back to rules', { error });
       }
 
       // Fallback to rule-based evaluation
-      return this.evaluateWithRules(request);
+      evaluation = evaluation ?? this.evaluateWithRules(this.withFollowUpAnswers(request));
+
+      log.info('Response evaluated', {
+        questionCategory: request.questionCategory,
+        language: request.responseLanguage,
+        evaluatedBy: evaluation.evaluatedBy,
+        weightedOverallScore: evaluation.weightedOverallScore,
+        durationMs: Date.now() - startTime
+      });
+      return evaluation;
 
     } catch (error) {
-      console.error("❌ Error evaluating response:", error);
+      log.error('Error evaluating response', { error, durationMs: Date.now() - startTime });
       throw new Error(`Failed to evaluate response: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
   
+  /**
+   * STAR element scores alone, e.g. to decide on a follow-up probe mid-session; a short prompt instead of the full rubric
+   */
+  async scoreStar(request: Pick<EvaluationRequest, 'questionText' | 'responseText' | 'responseLanguage' | 'followUps'>): Promise<StarScores> {
+    try {
+      const result = await aiRouter.generateResponse({
+        messages: [{ role: 'user', content: this.buildStarScoringPrompt(request) }],
+        maxTokens: 150,
+        temperature: 0.2,
+        domain: 'evaluation',
+        language: request.responseLanguage
+      });
+
+      const starScores = this.parseStarScores(result.content);
+      if (starScores) return starScores;
+      log.warn('Unparseable STAR scores, falling back to rules', { provider: result.provider });
+    } catch (error) {
+      log.warn('AI STAR scoring failed, falling back to rules', { error });
+    }
+
+    const starComponents = this.countStarComponents(this.withFollowUpAnswers(request).responseText.toLowerCase());
+    return this.ruleBasedStarScores(starComponents, Math.min(starComponents + 1, 5));
+  }
+
   /**
    * Evaluate multiple responses and generate comprehensive session report
    */
@@ -116,6 +146,8 @@ export class ResponseEvaluationService {
       responseText: string;
       questionCategory: string;
       questionType: string;
+      questionNumber?: number | null;
+      followUps?: FollowUpExchange[];
     }>,
     sessionContext: {
       jobPosition: string;
@@ -123,10 +155,12 @@ export class ResponseEvaluationService {
       experienceLevel: string;
       responseLanguage: string;
       culturalContext?: string;
+      jobDescription?: JobDescriptionContext;
     }
   ): Promise<{
     overallScores: EvaluationResult;
     responseEvaluations: EvaluationResult[];
+    requirementCoverage?: SessionRequirementCoverage;
     sessionSummary: {
       totalResponses: number;
       averageScores: Record<string, number>;
@@ -135,7 +169,7 @@ export class ResponseEvaluationService {
       nextSteps: string[];
     };
   }> {
-    console.log(`📊 Evaluating ${responses.length} responses for comprehensive session report`);
+    log.info('Evaluating session responses', { responses: responses.length });
     
     const responseEvaluations: EvaluationResult[] = [];
     
@@ -150,7 +184,9 @@ export class ResponseEvaluationService {
         culturalContext: sessionContext.culturalContext,
         jobPosition: sessionContext.jobPosition,
         experienceLevel: sessionContext.experienceLevel,
-        starMethodRelevant: true // All behavioral questions should use STAR
+        starMethodRelevant: true, // All behavioral questions should use STAR
+        jobDescription: sessionContext.jobDescription,
+        followUps: response.followUps
       });
       
       responseEvaluations.push(evaluation);
@@ -165,9 +201,43 @@ export class ResponseEvaluationService {
     return {
       overallScores,
       responseEvaluations,
+      requirementCoverage: this.summarizeRequirementCoverage(responses, responseEvaluations, sessionContext.jobDescription),
       sessionSummary
     };
   }
+
+  /**
+   * Combine per-answer requirement coverage into a session-level view
+   */
+  private summarizeRequirementCoverage(
+    responses: Array<{ questionText: string; questionNumber?: number | null }>,
+    evaluations: EvaluationResult[],
+    jobDescription?: JobDescriptionContext
+  ): SessionRequirementCoverage | undefined {
+    if (!jobDescription) {
+      return undefined;
+    }
+
+    const tracked = jobDescriptionService.getTrackedRequirements(jobDescription);
+    if (tracked.length === 0) {
+      return undefined;
+    }
+
+    const answers = evaluations.map((evaluation, index) => ({
+      questionNumber: responses[index]?.questionNumber ?? null,
+      questionText: responses[index]?.questionText || '',
+      covered: evaluation.requirementCoverage?.covered || [],
+      missed: evaluation.requirementCoverage?.missed || tracked
+    }));
+
+    const coveredSet = new Set(answers.flatMap(answer => answer.covered));
+
+    return {
+      covered: tracked.filter(requirement => coveredSet.has(requirement)),
+      missed: tracked.filter(requirement => !coveredSet.has(requirement)),
+      answers
+    };
+  }
   
   /**
    * Calculate weighted overall scores from individual response evaluations
@@ -350,43 +420,24 @@ export class ResponseEvaluationService {
   }
 
   /**
-   * Evaluate response using OpenAI with 9-criteria rubric
-   */
-  private async evaluateWithOpenAI(request: EvaluationRequest): Promise<EvaluationResult | null> {
-    try {
-      const prompt = this.buildEvaluationPrompt(request);
-      
-      const response = await this.openaiService!.generateResponse({
-        messages: [{ role: 'user', content: prompt }],
-        maxTokens: 2000, // Increased for comprehensive evaluation
-        temperature: 0.2  // Lower temperature for consistent scoring
-      });
-
-      return this.parseEvaluationResponse(response, request);
-
-    } catch (error) {
-      console.error("❌ OpenAI evaluation error:", error);
-      return null;
-    }
-  }
-
-  /**
-   * Evaluate response using SeaLion AI with 9-criteria rubric
+   * Evaluate response with the 9-criteria rubric using whichever AI provider the router selects
    */
-  private async evaluateWithSeaLion(request: EvaluationRequest): Promise<EvaluationResult | null> {
+  private async evaluateWithAI(request: EvaluationRequest): Promise<EvaluationResult | null> {
     try {
       const prompt = this.buildEvaluationPrompt(request);
       
-      const response = await this.seaLionService.generateResponse({
+      const result = await aiRouter.generateResponse({
         messages: [{ role: 'user', content: prompt }],
         maxTokens: 2000, // Increased for comprehensive evaluation
-        temperature: 0.2  // Lower temperature for consistent scoring
+        temperature: 0.2, // Lower temperature for consistent scoring
+        domain: 'evaluation',
+        language: request.responseLanguage
       });
 
-      return this.parseEvaluationResponse(response, request);
+      return this.parseEvaluationResponse(result.content, request, result.provider);
 
     } catch (error) {
-      console.error("❌ SeaLion evaluation error:", error);
+      log.warn('AI evaluation error', { error });
       return null;
     }
   }
@@ -396,6 +447,33 @@ export class ResponseEvaluationService {
    */
   private buildEvaluationPrompt(request: EvaluationRequest): string {
     const culturalGuidance = this.getCulturalEvaluationGuidance(request.responseLanguage);
+    const trackedRequirements = request.jobDescription
+      ? jobDescriptionService.getTrackedRequirements(request.jobDescription)
+      : [];
+    const hasRequirements = trackedRequirements.length > 0;
+    const jobDescriptionSection = hasRequirements
+      ? `
+JOB DESCRIPTION REQUIREMENTS (judge role alignment against these, not the job title alone):
+${trackedRequirements.map((requirement, index) => `${index + 1}. ${requirement}`).join('\n')}
+${request.jobDescription!.responsibilities.length > 0 ? `
+Key Responsibilities:
+${request.jobDescription!.responsibilities.slice(0, 8).map(item => `- ${item}`).join('\n')}
+` : ''}`
+      : '';
+    const roleAlignmentRubric = hasRequirements
+      ? `   - 1 = Addresses none of the listed job description requirements
+   - 3 = Gives evidence for one requirement, or touches several without evidence
+   - 5 = Gives concrete evidence for several listed requirements relevant to the question`
+      : `   - 1 = Unrelated experience, no enthusiasm for role
+   - 3 = Some relevant skills mentioned, weak connection
+   - 5 = Clearly articulates match to job requirements, genuine enthusiasm`;
+    const coverageField = hasRequirements
+      ? `,
+  "requirementCoverage": {
+    "covered": ["exact text of each listed requirement the response gives evidence for"],
+    "missed": ["exact text of each listed requirement the response does not address"]
+  }`
+      : '';
 
     return `You are an expert interview coach specializing in Southeast Asian business contexts. Evaluate this interview response using the official 9-criteria scoring rubric.
 
@@ -405,10 +483,10 @@ Category: ${request.questionCategory}
 Job Position: ${request.jobPosition}
 Experience Level: ${request.experienceLevel}
 Response Language: ${request.responseLanguage}
-
+${jobDescriptionSection}
 USER RESPONSE:
 "${request.responseText}"
-
+${this.buildFollowUpSection(request)}
 OFFICIAL 9-CRITERIA EVALUATION RUBRIC:
 
 1. RELEVANCE OF RESPONSE (15% weight)
@@ -427,9 +505,7 @@ OFFICIAL 9-CRITERIA EVALUATION RUBRIC:
    - 5 = Specific, measurable, illustrative examples with metrics
 
 4. ROLE ALIGNMENT (15% weight)
-   - 1 = Unrelated experience, no enthusiasm for role
-   - 3 = Some relevant skills mentioned, weak connection
-   - 5 = Clearly articulates match to job requirements, genuine enthusiasm
+${roleAlignmentRubric}
 
 5. OUTCOME-ORIENTED (15% weight)
    - 1 = No results mentioned, process-focused only
@@ -495,12 +571,63 @@ PROVIDE EVALUATION IN JSON FORMAT:
     "culturalRelevance": "Cultural context assessment"
   },
   "modelAnswer": "Example of strong response for this question using STAR method...",
-  "completenessScore": 1-5
+  "completenessScore": 1-5${coverageField}
 }
 
 Focus on actionable, specific feedback that helps the candidate systematically improve using the rubric criteria.`;
   }
 
+  /**
+   * Prompt asking for the STAR element scores only
+   */
+  private buildStarScoringPrompt(request: Pick<EvaluationRequest, 'questionText' | 'responseText' | 'followUps'>): string {
+    return `Score how well this interview answer follows the STAR method.
+
+QUESTION: "${request.questionText}"
+CANDIDATE RESPONSE: "${request.responseText}"
+${this.buildFollowUpSection(request)}${this.getStarEvaluationGuidance()}
+
+Respond with JSON only, no other text:
+{"situation": 1-5, "task": 1-5, "action": 1-5, "result": 1-5, "overall": 1-5}`;
+  }
+
+  private parseStarScores(response: string): StarScores | null {
+    try {
+      const json = JSON.parse(response);
+      const scores = (['situation', 'task', 'action', 'result', 'overall'] as const).map(key => Number(json?.[key]));
+      if (scores.some(score => !Number.isFinite(score) || score < 1 || score > 5)) return null;
+
+      const [situation, task, action, result, overall] = scores;
+      return { situation, task, action, result, overall };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Interviewer follow-ups for the prompt; unanswered probes are left out
+   */
+  private buildFollowUpSection(request: Pick<EvaluationRequest, 'followUps'>): string {
+    const answered = (request.followUps || []).filter(exchange => exchange.answer);
+    if (answered.length === 0) return '';
+
+    return `
+FOLLOW-UP QUESTIONS AND ANSWERS (the interviewer probed the response; evaluate them together with it as one answer):
+${answered.map((exchange, index) => `${index + 1}. Interviewer: "${exchange.question}"
+   Candidate: "${exchange.answer}"`).join('\n')}
+`;
+  }
+
+  /**
+   * The response with its follow-up answers appended, for checks that only read the answer text
+   */
+  private withFollowUpAnswers<T extends Pick<EvaluationRequest, 'responseText' | 'followUps'>>(request: T): T {
+    const answers = (request.followUps || []).map(exchange => exchange.answer).filter((answer): answer is string => !!answer);
+    return answers.length > 0
+      ? { ...request, responseText: [request.responseText, ...answers].join('\n\n') }
+      : request;
+  }
+
   /**
    * Get STAR evaluation guidance
    */
@@ -652,7 +779,7 @@ ASEAN BUSINESS CONTEXT:
     return guidanceMap[language] || guidanceMap['en'];
   }
 
-  private parseEvaluationResponse(response: string, request: EvaluationRequest): EvaluationResult | null {
+  private parseEvaluationResponse(response: string, request: EvaluationRequest, provider: AIProviderName): EvaluationResult | null {
     try {
       const jsonResponse = JSON.parse(response);
       
@@ -721,16 +848,17 @@ ASEAN BUSINESS CONTEXT:
         
         modelAnswer: jsonResponse.modelAnswer || 'Provide specific examples using STAR method with measurable results',
         completenessScore: jsonResponse.completenessScore || weightedOverallScore,
-        evaluatedBy: 'sealion'
+        evaluatedBy: provider,
+        requirementCoverage: this.normalizeRequirementCoverage(jsonResponse.requirementCoverage, request)
       };
     } catch (error) {
-      console.error("❌ Failed to parse evaluation response:", error);
+      log.warn('Failed to parse evaluation response', { provider, error });
       return null;
     }
   }
 
   private evaluateWithRules(request: EvaluationRequest): EvaluationResult {
-    console.log(`🔧 Using rule-based evaluation for ${request.responseLanguage} response`);
+    log.debug('Using rule-based evaluation', { language: request.responseLanguage });
 
     const response = request.responseText.toLowerCase();
     const wordCount = request.responseText.split(/\s+/).length;
@@ -755,19 +883,7 @@ ASEAN BUSINESS CONTEXT:
     }
     
     // 2. STAR STRUCTURE ANALYSIS
-    let starComponents = 0;
-    if (response.includes('situation') || response.includes('when') || response.includes('context')) {
-      starComponents++;
-    }
-    if (response.includes('task') || response.includes('responsible') || response.includes('goal')) {
-      starComponents++;
-    }
-    if (response.includes('action') || response.includes('did') || response.includes('implemented')) {
-      starComponents++;
-    }
-    if (response.includes('result') || response.includes('outcome') || response.includes('achieved')) {
-      starComponents++;
-    }
+    const starComponents = this.countStarComponents(response);
     starStructureScore = Math.min(starComponents + 1, 5);
     
     // 3. SPECIFIC EVIDENCE ANALYSIS
@@ -781,9 +897,15 @@ ASEAN BUSINESS CONTEXT:
     else specificEvidenceScore = 2;
     
     // 4. ROLE ALIGNMENT ANALYSIS
-    const jobKeywords = request.jobPosition.toLowerCase().split(' ');
-    const hasJobKeywords = jobKeywords.some(keyword => response.includes(keyword));
-    if (hasJobKeywords) roleAlignmentScore = 4;
+    const requirementCoverage = this.assessRequirementCoverage(request);
+    if (requirementCoverage) {
+      // Score against the job description's requirements when one is attached
+      roleAlignmentScore = Math.min(2 + requirementCoverage.covered.length, 5);
+    } else {
+      const jobKeywords = request.jobPosition.toLowerCase().split(' ');
+      const hasJobKeywords = jobKeywords.some(keyword => response.includes(keyword));
+      if (hasJobKeywords) roleAlignmentScore = 4;
+    }
     
     // 5. OUTCOME-ORIENTED ANALYSIS
     if (hasMetrics || response.includes('impact') || response.includes('delivered')) {
@@ -863,15 +985,12 @@ ASEAN BUSINESS CONTEXT:
     if (outcomeOrientedScore < 3) {
       suggestions.push(this.translateFeedback('focusOnImpact', request.responseLanguage));
     }
+    if (requirementCoverage && requirementCoverage.covered.length === 0) {
+      suggestions.push(this.translateFeedback('connectToRole', request.responseLanguage));
+    }
     
     // Legacy STAR scores for backward compatibility
-    const starScores: StarScores = {
-      situation: Math.min(starComponents >= 1 ? 4 : 2, 5),
-      task: Math.min(starComponents >= 2 ? 4 : 2, 5),
-      action: Math.min(starComponents >= 3 ? 4 : 2, 5),
-      result: Math.min(starComponents >= 4 ? 4 : 2, 5),
-      overall: Math.round(weightedOverallScore)
-    };
+    const starScores = this.ruleBasedStarScores(starComponents, Math.round(weightedOverallScore));
     
     const detailedFeedback: DetailedFeedback = {
       strengths: strengths.length > 0 ? strengths : [this.translateFeedback('engagedQuestion', request.responseLanguage)],
@@ -899,9 +1018,109 @@ ASEAN BUSINESS CONTEXT:
       detailedFeedback,
       modelAnswer: this.generateModelAnswer(request.questionCategory, request.jobPosition, request.questionText, request.responseLanguage),
       completenessScore: Number(weightedOverallScore.toFixed(1)),
-      evaluatedBy: 'rule-based'
+      evaluatedBy: 'rule-based',
+      requirementCoverage
     };
   }
+
+  /**
+   * How many of the four STAR components a lowercased answer mentions
+   */
+  private countStarComponents(response: string): number {
+    let starComponents = 0;
+    if (response.includes('situation') || response.includes('when') || response.includes('context')) {
+      starComponents++;
+    }
+    if (response.includes('task') || response.includes('responsible') || response.includes('goal')) {
+      starComponents++;
+    }
+    if (response.includes('action') || response.includes('did') || response.includes('implemented')) {
+      starComponents++;
+    }
+    if (response.includes('result') || response.includes('outcome') || response.includes('achieved')) {
+      starComponents++;
+    }
+    return starComponents;
+  }
+
+  private ruleBasedStarScores(starComponents: number, overall: number): StarScores {
+    return {
+      situation: Math.min(starComponents >= 1 ? 4 : 2, 5),
+      task: Math.min(starComponents >= 2 ? 4 : 2, 5),
+      action: Math.min(starComponents >= 3 ? 4 : 2, 5),
+      result: Math.min(starComponents >= 4 ? 4 : 2, 5),
+      overall
+    };
+  }
+
+  /**
+   * Keyword-based check of which job description requirements an answer gives evidence for
+   */
+  private assessRequirementCoverage(request: EvaluationRequest): JobRequirementCoverage | undefined {
+    if (!request.jobDescription) {
+      return undefined;
+    }
+
+    const tracked = jobDescriptionService.getTrackedRequirements(request.jobDescription);
+    if (tracked.length === 0) {
+      return undefined;
+    }
+
+    const responseWords = new Set(this.extractKeywords(request.responseText));
+    const covered: string[] = [];
+    const missed: string[] = [];
+
+    for (const requirement of tracked) {
+      const keywords = this.extractKeywords(requirement);
+      const matches = keywords.filter(keyword => responseWords.has(keyword)).length;
+      // Short requirements need one match; longer ones need two
+      const needed = Math.min(Math.ceil(keywords.length / 2), 2);
+
+      if (keywords.length > 0 && matches >= needed) {
+        covered.push(requirement);
+      } else {
+        missed.push(requirement);
+      }
+    }
+
+    return { covered, missed };
+  }
+
+  /**
+   * Keep only AI-reported coverage items that match the tracked requirements
+   */
+  private normalizeRequirementCoverage(raw: any, request: EvaluationRequest): JobRequirementCoverage | undefined {
+    if (!request.jobDescription) {
+      return undefined;
+    }
+
+    const tracked = jobDescriptionService.getTrackedRequirements(request.jobDescription);
+    if (tracked.length === 0) {
+      return undefined;
+    }
+
+    if (!raw || !Array.isArray(raw.covered)) {
+      return this.assessRequirementCoverage(this.withFollowUpAnswers(request));
+    }
+
+    const reported = new Set(
+      raw.covered
+        .filter((item: unknown): item is string => typeof item === 'string')
+        .map((item: string) => item.trim().toLowerCase())
+    );
+
+    return {
+      covered: tracked.filter(requirement => reported.has(requirement.toLowerCase())),
+      missed: tracked.filter(requirement => !reported.has(requirement.toLowerCase()))
+    };
+  }
+
+  private extractKeywords(text: string): string[] {
+    return text.toLowerCase()
+      .split(/[\s,;:()\/"'!?&]+/)
+      .map(word => word.replace(/^\.+|\.+$/g, ''))
+      .filter(word => word.length > 2 && !REQUIREMENT_STOPWORDS.has(word));
+  }
   
   private containsQuestionKeywords(question: string, response: string): boolean {
     const questionWords = question.toLowerCase()
@@ -912,12 +1131,6 @@ ASEAN BUSINESS CONTEXT:
     return questionWords.some(word => response.includes(word));
   }
 
-  private shouldUseSeaLion(language: string): boolean {
-    // Use SeaLion for ASEAN languages and cultural contexts
-    const aseanLanguages = ['id', 'ms', 'th', 'vi', 'tl', 'my', 'km', 'lo', 'bn', 'hi', 'zh', 'ta'];
-    return aseanLanguages.includes(language.toLowerCase());
-  }
-
   private initializeStarCriteria(): Record<string, string> {
     return {
       situation: "Clear context and background information",
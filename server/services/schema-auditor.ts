@@ -137,6 +137,7 @@ async function ensurePrepareModuleSchema(): Promise<void> {
         question_categories jsonb default '[]'::jsonb,
         max_questions integer default 20,
         time_limit_minutes integer default 60,
+        follow_ups_per_question integer default 1,
         status varchar(20) default 'active',
         current_question_number integer default 1,
         total_questions_asked integer default 0,
@@ -196,6 +197,8 @@ async function ensurePrepareModuleSchema(): Promise<void> {
         audio_file_url text,
         audio_duration integer,
         transcription_confidence numeric(3,2),
+        delivery_metrics jsonb,
+        follow_ups jsonb default '[]'::jsonb,
         star_scores jsonb not null,
         detailed_feedback jsonb not null,
         model_answer text,
@@ -239,9 +242,366 @@ async function ensurePrepareModuleSchema(): Promise<void> {
       );
     `);
   }
+
+  try {
+    await addColumnIfMissing(responseTable, "delivery_metrics jsonb");
+  } catch (error) {
+    console.error("Failed to add delivery_metrics to ai_prepare_responses", error);
+  }
+
+  try {
+    await addColumnIfMissing(sessionTable, "follow_ups_per_question integer default 1");
+    await addColumnIfMissing(responseTable, "follow_ups jsonb default '[]'::jsonb");
+  } catch (error) {
+    console.error("Failed to add follow-up columns to the AI Prepare tables", error);
+  }
+
+  // One analytics row per session so completion and pause can upsert it
+  try {
+    await executeQuery(
+      `create unique index if not exists "IDX_ai_prepare_analytics_session" on ${analyticsTable} (session_id);`);
+  } catch (error) {
+    console.error("Failed to ensure unique session index on ai_prepare_analytics", error);
+  }
+}
+
+async function ensurePracticeModuleSchema(): Promise<void> {
+  const reportTable = "practice_reports";
+
+  if (!(await tableExists(reportTable))) {
+    return;
+  }
+
+  try {
+    await addColumnIfMissing(reportTable, "question_evaluations jsonb default '[]'::jsonb");
+  } catch (error) {
+    console.error("Failed to add question_evaluations to practice_reports", error);
+  }
+
+  try {
+    await addColumnIfMissing("practice_sessions", "follow_ups_per_question integer default 1");
+  } catch (error) {
+    console.error("Failed to add follow_ups_per_question to practice_sessions", error);
+  }
+
+  try {
+    await addColumnIfMissing("practice_messages", "probed_element varchar(10)");
+  } catch (error) {
+    console.error("Failed to add probed_element to practice_messages", error);
+  }
+
+  const evaluationTable = "practice_response_evaluations";
+
+  if (!(await tableExists(evaluationTable))) {
+    await executeQuery(`
+      create table ${evaluationTable} (
+        id uuid primary key default gen_random_uuid(),
+        session_id uuid not null references practice_sessions(id) on delete cascade,
+        message_id uuid references practice_messages(id) on delete set null,
+        question_number integer not null,
+        question_text text not null,
+        response_text text not null,
+        relevance_score numeric(5, 2),
+        star_structure_score numeric(5, 2),
+        specific_evidence_score numeric(5, 2),
+        role_alignment_score numeric(5, 2),
+        outcome_oriented_score numeric(5, 2),
+        communication_score numeric(5, 2),
+        problem_solving_score numeric(5, 2),
+        cultural_fit_score numeric(5, 2),
+        learning_agility_score numeric(5, 2),
+        weighted_overall_score numeric(5, 2),
+        overall_rating varchar(30),
+        star_scores jsonb not null,
+        detailed_feedback jsonb not null,
+        model_answer text,
+        completeness_score numeric(5, 2),
+        requirement_coverage jsonb,
+        follow_ups jsonb default '[]'::jsonb,
+        evaluated_by varchar(20),
+        created_at timestamp default now()
+      );
+    `);
+    await executeQuery(
+      `create index if not exists "IDX_practice_response_evaluations_session" on ${evaluationTable} (session_id, question_number);`);
+  }
+
+  try {
+    await addColumnIfMissing(evaluationTable, "follow_ups jsonb default '[]'::jsonb");
+  } catch (error) {
+    console.error("Failed to add follow_ups to practice_response_evaluations", error);
+  }
+}
+
+async function ensureJobDescriptionSchema(): Promise<void> {
+  const jobDescriptionTable = "job_descriptions";
+
+  if (!(await tableExists(jobDescriptionTable))) {
+    await executeQuery(`
+      create table ${jobDescriptionTable} (
+        id uuid primary key default gen_random_uuid(),
+        user_id varchar not null references users(id) on delete cascade,
+        file_name varchar(255) not null,
+        mime_type varchar(100) not null,
+        file_size integer not null,
+        storage_path text not null,
+        content text not null,
+        requirements jsonb default '[]'::jsonb,
+        skills jsonb default '[]'::jsonb,
+        responsibilities jsonb default '[]'::jsonb,
+        uploaded_at timestamp default now(),
+        updated_at timestamp default now()
+      );
+    `);
+    await executeQuery(
+      `create index if not exists "IDX_job_descriptions_user" on ${jobDescriptionTable} (user_id);`);
+  }
+
+  for (const sessionTable of ["practice_sessions", "ai_prepare_sessions"]) {
+    if (!(await tableExists(sessionTable))) {
+      continue;
+    }
+
+    try {
+      await addColumnIfMissing(
+        sessionTable,
+        `job_description_id uuid references ${jobDescriptionTable}(id) on delete set null`);
+    } catch (error) {
+      console.error(`Failed to add job_description_id to ${sessionTable}`, error);
+    }
+  }
+
+  for (const evaluationTable of ["practice_reports", "ai_prepare_responses"]) {
+    if (!(await tableExists(evaluationTable))) {
+      continue;
+    }
+
+    try {
+      await addColumnIfMissing(evaluationTable, "requirement_coverage jsonb");
+    } catch (error) {
+      console.error(`Failed to add requirement_coverage to ${evaluationTable}`, error);
+    }
+  }
+}
+
+async function ensureAuthSchema(): Promise<void> {
+  if (!(await columnExists("users", "email_verified_at"))) {
+    await addColumnIfMissing("users", "email_verified_at timestamp");
+    // Accounts created before verification existed are treated as verified
+    await executeQuery(
+      `update users set email_verified_at = coalesce(created_at, now()) where email_verified_at is null;`);
+  }
+
+  const resetTokenTable = "password_reset_tokens";
+
+  if (!(await tableExists(resetTokenTable))) {
+    await executeQuery(`
+      create table ${resetTokenTable} (
+        id uuid primary key default gen_random_uuid(),
+        user_id varchar not null references users(id) on delete cascade,
+        token_hash varchar(64) not null unique,
+        expires_at timestamp not null,
+        used_at timestamp,
+        requested_ip varchar(64),
+        created_at timestamp default now()
+      );
+    `);
+    await executeQuery(
+      `create index if not exists "IDX_password_reset_tokens_user" on ${resetTokenTable} (user_id);`);
+  }
+
+  const verificationTokenTable = "email_verification_tokens";
+
+  if (!(await tableExists(verificationTokenTable))) {
+    await executeQuery(`
+      create table ${verificationTokenTable} (
+        id uuid primary key default gen_random_uuid(),
+        user_id varchar not null references users(id) on delete cascade,
+        token_hash varchar(64) not null unique,
+        expires_at timestamp not null,
+        used_at timestamp,
+        created_at timestamp default now()
+      );
+    `);
+    await executeQuery(
+      `create index if not exists "IDX_email_verification_tokens_user" on ${verificationTokenTable} (user_id);`);
+  }
+
+  const rateLimitTable = "rate_limit_buckets";
+
+  if (!(await tableExists(rateLimitTable))) {
+    await executeQuery(`
+      create table ${rateLimitTable} (
+        key varchar(255) primary key,
+        hits integer not null default 0,
+        window_started_at timestamp default now(),
+        failures integer not null default 0,
+        last_failure_at timestamp,
+        locked_until timestamp,
+        updated_at timestamp default now()
+      );
+    `);
+    await executeQuery(
+      `create index if not exists "IDX_rate_limit_buckets_locked" on ${rateLimitTable} (locked_until);`);
+  }
+}
+
+async function ensureTranslationMemorySchema(): Promise<void> {
+  const translationMemoryTable = "translation_memory";
+
+  if (!(await tableExists(translationMemoryTable))) {
+    await executeQuery(`
+      create table ${translationMemoryTable} (
+        id uuid primary key default gen_random_uuid(),
+        source_hash varchar(64) not null,
+        source_text text not null,
+        target_language varchar(10) not null,
+        translated_text text not null,
+        quality varchar(20) not null default 'machine',
+        pinned boolean not null default false,
+        translated_by varchar(20) not null,
+        reviewed_by varchar references users(id) on delete set null,
+        reviewed_at timestamp,
+        hit_count integer not null default 0,
+        last_used_at timestamp,
+        created_at timestamp default now(),
+        updated_at timestamp default now()
+      );
+    `);
+    await executeQuery(
+      `create unique index if not exists "IDX_translation_memory_source" on ${translationMemoryTable} (source_hash, target_language);`);
+    await executeQuery(
+      `create index if not exists "IDX_translation_memory_review" on ${translationMemoryTable} (target_language, quality);`);
+  }
+}
+
+async function ensureAiUsageSchema(): Promise<void> {
+  const aiUsageTable = "ai_usage_events";
+
+  if (!(await tableExists(aiUsageTable))) {
+    await executeQuery(`
+      create table ${aiUsageTable} (
+        id uuid primary key default gen_random_uuid(),
+        user_id varchar references users(id) on delete set null,
+        session_id varchar,
+        provider varchar(20) not null,
+        model varchar(100),
+        domain varchar(40) not null,
+        input_tokens integer not null default 0,
+        output_tokens integer not null default 0,
+        audio_seconds numeric(10, 2),
+        estimated_cost_usd numeric(12, 6) not null default 0,
+        latency_ms integer not null default 0,
+        cached boolean not null default false,
+        created_at timestamp not null default now()
+      );
+    `);
+    await executeQuery(
+      `create index if not exists "IDX_ai_usage_events_user_created" on ${aiUsageTable} (user_id, created_at);`);
+    await executeQuery(
+      `create index if not exists "IDX_ai_usage_events_created" on ${aiUsageTable} (created_at);`);
+  }
+}
+
+async function ensureErrorLogSchema(): Promise<void> {
+  const errorLogTable = "error_logs";
+
+  if (!(await tableExists(errorLogTable))) {
+    await executeQuery(`
+      create table ${errorLogTable} (
+        id uuid primary key default gen_random_uuid(),
+        component varchar(50) not null,
+        operation varchar(100) not null,
+        error_type varchar(100) not null,
+        message text not null,
+        fallback_used boolean not null default false,
+        context jsonb,
+        user_id varchar references users(id) on delete set null,
+        session_id varchar,
+        created_at timestamp not null default now()
+      );
+    `);
+    await executeQuery(
+      `create index if not exists "IDX_error_logs_created" on ${errorLogTable} (created_at);`);
+    await executeQuery(
+      `create index if not exists "IDX_error_logs_component_created" on ${errorLogTable} (component, created_at);`);
+  }
+
+  await addColumnIfMissing(errorLogTable, "correlation_id varchar(64)");
+  await executeQuery(
+    `create index if not exists "IDX_error_logs_correlation" on ${errorLogTable} (correlation_id);`);
+}
+
+async function ensureSharedReportSchema(): Promise<void> {
+  const sharedReportTable = "shared_reports";
+
+  if (!(await tableExists(sharedReportTable))) {
+    await executeQuery(`
+      create table ${sharedReportTable} (
+        id uuid primary key default gen_random_uuid(),
+        token_hash varchar(64) not null unique,
+        user_id varchar not null references users(id) on delete cascade,
+        session_id varchar not null,
+        snapshot jsonb not null,
+        expires_at timestamp,
+        revoked_at timestamp,
+        view_count integer not null default 0,
+        last_viewed_at timestamp,
+        created_at timestamp not null default now()
+      );
+    `);
+    await executeQuery(
+      `create index if not exists "IDX_shared_reports_user_session" on ${sharedReportTable} (user_id, session_id);`);
+  }
+}
+
+async function ensureVoiceRecordingSchema(): Promise<void> {
+  const recordingTable = "voice_recordings";
+
+  if (!(await tableExists(recordingTable))) {
+    await executeQuery(`
+      create table ${recordingTable} (
+        id uuid primary key default gen_random_uuid(),
+        user_id varchar not null references users(id) on delete cascade,
+        session_id uuid not null references ai_prepare_sessions(id) on delete cascade,
+        question_id uuid,
+        response_id uuid references ai_prepare_responses(id) on delete set null,
+        storage_backend varchar(10) not null,
+        storage_key text not null,
+        content_type varchar(100) not null,
+        size_bytes integer not null,
+        duration_seconds integer,
+        expires_at timestamp,
+        created_at timestamp not null default now()
+      );
+    `);
+    await executeQuery(
+      `create index if not exists "IDX_voice_recordings_session" on ${recordingTable} (session_id);`);
+    await executeQuery(
+      `create index if not exists "IDX_voice_recordings_expires" on ${recordingTable} (expires_at);`);
+  }
+
+  const settingsTable = "voice_recording_settings";
+
+  if (!(await tableExists(settingsTable))) {
+    await executeQuery(`
+      create table ${settingsTable} (
+        user_id varchar primary key references users(id) on delete cascade,
+        store_recordings boolean not null default true,
+        retention_days integer,
+        updated_at timestamp not null default now()
+      );
+    `);
+  }
 }
 
 export async function ensureCriticalSchema(): Promise<void> {
+  try {
+    await ensureAuthSchema();
+  } catch (error) {
+    console.error("Failed to ensure auth schema", error);
+  }
+
   try {
     await ensurePerformModuleSchema();
   } catch (error) {
@@ -253,4 +613,47 @@ export async function ensureCriticalSchema(): Promise<void> {
   } catch (error) {
     console.error("Failed to ensure prepare module schema", error);
   }
+
+  try {
+    await ensurePracticeModuleSchema();
+  } catch (error) {
+    console.error("Failed to ensure practice module schema", error);
+  }
+
+  try {
+    await ensureJobDescriptionSchema();
+  } catch (error) {
+    console.error("Failed to ensure job description schema", error);
+  }
+
+  try {
+    await ensureTranslationMemorySchema();
+  } catch (error) {
+    console.error("Failed to ensure translation memory schema", error);
+  }
+
+  try {
+    await ensureAiUsageSchema();
+  } catch (error) {
+    console.error("Failed to ensure AI usage schema", error);
+  }
+
+  try {
+    await ensureErrorLogSchema();
+  } catch (error) {
+    console.error("Failed to ensure error log schema", error);
+  }
+
+  try {
+    await ensureSharedReportSchema();
+  } catch (error) {
+    console.error("Failed to ensure shared report schema", error);
+  }
+
+  // Needs the AI Prepare tables it references
+  try {
+    await ensureVoiceRecordingSchema();
+  } catch (error) {
+    console.error("Failed to ensure voice recording schema", error);
+  }
 }
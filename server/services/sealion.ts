@@ -1,7 +1,6 @@
-import { OpenAI } from 'openai';
 import axios from 'axios';
 import { logSeaLionError, errorLogger } from './error-logger';
-import { getOpenAIService } from './openai-service';
+import { aiRouter, type AIDomain } from './ai-router';
 
 // Define types locally since @shared/types may not exist
 interface InterviewContext {
@@ -43,9 +42,7 @@ const DEFAULT_CONFIG: Omit<SeaLionConfig, 'apiKey'> = {
 };
 
 export class SeaLionService {
-  private client: OpenAI | null = null;
   private config: SeaLionConfig;
-  private seaLionEnabled = false;
 
   constructor(apiKey?: string) {
     const envKey = (apiKey || process.env.SEALION_API_KEY || process.env.SEA_LION_API_KEY || '').trim();
@@ -54,62 +51,32 @@ export class SeaLionService {
       ...DEFAULT_CONFIG,
       apiKey: envKey
     };
-
-    const hasValidKey = envKey.length > 0 && envKey.toLowerCase() !== 'disabled';
-
-    if (hasValidKey) {
-      this.client = new OpenAI({
-        apiKey: envKey,
-        baseURL: this.config.baseUrl
-      });
-      this.seaLionEnabled = true;
-      console.log('SeaLion service initialized with direct API');
-    } else {
-      this.config.apiKey = '';
-      console.log('SeaLion API key not provided; SeaLion service will defer to OpenAI fallback');
-    }
   }
 
-  // Private method to handle API calls with optional SeaLion access
+  // Private method to route API calls; SeaLion models apply only when the router picks SeaLion
   private async makeAPICall(options: {
     messages: Array<{ role: string; content: string }>;
     maxTokens?: number;
     temperature?: number;
     model?: string;
+    domain?: AIDomain;
+    language?: string;
   }): Promise<string> {
-    const { messages, maxTokens = 1000, temperature = 0.7, model } = options;
-
-    if (this.seaLionEnabled && this.client) {
-      try {
-        const completion = await this.client.chat.completions.create({
-          model: model || this.config.defaultModel,
-          messages: messages as any,
-          max_tokens: maxTokens,
-          temperature
-        });
-
-        const content = completion.choices[0].message.content || '';
-        if (content) {
-          return content;
-        }
-      } catch (directApiError) {
-        console.warn('SeaLion direct API failed, falling back to OpenAI:', directApiError instanceof Error ? directApiError.message : 'Unknown error');
-      }
-    }
-
-    console.log('Falling back to OpenAI for SeaLion request...');
-    try {
-      const openai = getOpenAIService();
-      return await openai.generateResponse({
-        messages,
-        maxTokens,
-        temperature,
-        model,
-      });
-    } catch (openaiError) {
-      console.error('OpenAI fallback also failed:', openaiError);
-      throw new Error(`All AI services failed. OpenAI: ${openaiError instanceof Error ? openaiError.message : 'Unknown error'}`);
+    const { messages, maxTokens = 1000, temperature = 0.7, model, domain = 'interview', language } = options;
+
+    const result = await aiRouter.generateResponse({
+      messages,
+      maxTokens,
+      temperature,
+      providerModels: { sealion: model || this.config.defaultModel },
+      domain,
+      language
+    });
+
+    if (result.fallbackUsed) {
+      console.log(`SeaLion request served by ${result.provider}`);
     }
+    return result.content;
   }
   // Get language-specific instructions for SeaLion - ULTRA MINIMAL to prevent overthinking
   private getLanguageInstructions(language: string): string {
@@ -160,6 +127,7 @@ export class SeaLionService {
           }
         ],
         maxTokens: 500,
+        language,
         temperature: 0.7,
         model: this.config.defaultModel
       });
@@ -217,6 +185,7 @@ export class SeaLionService {
           }
         ],
         maxTokens: 300,
+        language,
         temperature: 0.8,
         model: this.config.defaultModel
       });
@@ -289,6 +258,7 @@ export class SeaLionService {
           { role: 'user', content: 'Generate the next appropriate interview question.' }
         ],
         maxTokens: 400,
+        language,
         temperature: 0.8,
         model: this.config.reasoningModel // Use reasoning model for better follow-up questions
       });
@@ -394,6 +364,7 @@ export class SeaLionService {
           { role: 'user', content: 'Provide a comprehensive STAR-based evaluation of this interview.' }
         ],
         maxTokens: 1500,
+        language,
         temperature: 0.3, // Lower temperature for more consistent evaluation
         model: this.config.reasoningModel // Use reasoning model for comprehensive analysis
       });
@@ -656,6 +627,7 @@ export class SeaLionService {
     temperature?: number;
     model?: string;
     language?: string;
+    domain?: AIDomain;
   }): Promise<string> {
     try {
       // Enhance messages with language instruction if specified
@@ -673,7 +645,9 @@ export class SeaLionService {
         messages: enhancedMessages,
         maxTokens: options.maxTokens || 1000,
         temperature: options.temperature || 0.7,
-        model: options.model || this.config.reasoningModel
+        model: options.model || this.config.reasoningModel,
+        domain: options.domain,
+        language: options.language
       });
 
     } catch (error) {
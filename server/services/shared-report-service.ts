@@ -0,0 +1,166 @@
+// Shared Report Service
+// Anonymized, read-only snapshots of an interview evaluation behind unguessable public links
+
+import crypto from 'crypto';
+import { storage } from '../storage';
+import { RUBRIC_CRITERIA, type AiEvaluationResult, type InterviewSessionWithScenario, type SharedReport } from '@shared/schema';
+
+export const MAX_SHARE_DAYS = 365;
+const SNAPSHOT_VERSION = 1;
+const MAX_STRENGTHS = 10;
+
+/**
+ * What a shared link shows: scores, badge and strengths only - no names, company, transcript or written feedback
+ */
+export interface SharedReportSnapshot {
+  version: number;
+  jobPosition: string | null;
+  interviewStage: string | null;
+  language: string | null;
+  completedAt: string | null;
+  overallScore: number | null; // weighted rubric score, 1-5
+  rating: string | null;       // Pass, Borderline, Fail
+  badge: string | null;
+  rubric: Array<{ criterion: string; weight: number; score: number | null }>;
+  strengths: string[];
+}
+
+export type SharedReportStatus = 'active' | 'expired' | 'revoked';
+
+/**
+ * A link as its owner sees it; the token itself is only returned once, when the link is created
+ */
+export interface SharedReportLink {
+  id: string;
+  status: SharedReportStatus;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+  viewCount: number;
+  lastViewedAt: Date | null;
+  createdAt: Date;
+}
+
+// Identifying details of the link owner that must not appear in a snapshot
+export interface ShareOwner {
+  id: string;
+  email?: string | null;
+  firstName?: string | null;
+  lastName?: string | null;
+}
+
+// Tokens are stored hashed so a database leak doesn't expose live links
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export class SharedReportService {
+  /**
+   * Snapshot the evaluation, store it under a new token and record it as the evaluation's shareable data
+   */
+  async createLink(
+    owner: ShareOwner,
+    session: InterviewSessionWithScenario,
+    evaluation: AiEvaluationResult,
+    expiresInDays?: number
+  ): Promise<{ token: string; link: SharedReportLink; snapshot: SharedReportSnapshot }> {
+    const snapshot = this.buildSnapshot(session, evaluation, owner);
+    const token = crypto.randomBytes(32).toString('base64url');
+
+    const report = await storage.createSharedReport({
+      tokenHash: hashToken(token),
+      userId: owner.id,
+      sessionId: session.id,
+      snapshot,
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+    });
+    await storage.updateEvaluationShareableData(session.id, snapshot);
+
+    return { token, link: this.toLink(report), snapshot };
+  }
+
+  async listLinks(userId: string, sessionId: string): Promise<SharedReportLink[]> {
+    const reports = await storage.getSharedReports(userId, sessionId);
+    return reports.map(report => this.toLink(report));
+  }
+
+  async revokeLink(id: string, userId: string): Promise<boolean> {
+    return storage.revokeSharedReport(id, userId);
+  }
+
+  /**
+   * Snapshot behind a public token, counting the view; undefined for unknown, revoked or expired links
+   */
+  async resolve(token: string): Promise<{ snapshot: SharedReportSnapshot; expiresAt: Date | null } | undefined> {
+    const report = await storage.viewSharedReport(hashToken(token));
+    if (!report) return undefined;
+    return { snapshot: report.snapshot as SharedReportSnapshot, expiresAt: report.expiresAt };
+  }
+
+  buildSnapshot(
+    session: InterviewSessionWithScenario,
+    evaluation: AiEvaluationResult,
+    owner: ShareOwner
+  ): SharedReportSnapshot {
+    const score = (value: unknown): number | null => {
+      const parsed = Number(value);
+      return value !== null && value !== undefined && Number.isFinite(parsed) && parsed > 0
+        ? Math.round(parsed * 10) / 10
+        : null;
+    };
+
+    const strengths = Array.isArray(evaluation.strengths) ? evaluation.strengths : [];
+
+    return {
+      version: SNAPSHOT_VERSION,
+      jobPosition: session.userJobPosition || session.scenario?.jobRole || null,
+      interviewStage: session.scenario?.interviewStage || null,
+      language: session.interviewLanguage || evaluation.evaluationLanguage || null,
+      completedAt: session.completedAt ? session.completedAt.toISOString() : null,
+      // Falls back to the legacy 1-10 overall score, halved
+      overallScore: score(evaluation.weightedOverallScore)
+        ?? score(evaluation.overallScore != null ? Number(evaluation.overallScore) / 2 : null),
+      rating: evaluation.overallRating || null,
+      badge: evaluation.badgeEarned || null,
+      rubric: RUBRIC_CRITERIA.map(({ column, label, weight }) => ({ criterion: label, weight, score: score(evaluation[column]) })),
+      strengths: strengths
+        .filter((strength): strength is string => typeof strength === 'string' && strength.trim().length > 0)
+        .slice(0, MAX_STRENGTHS)
+        .map(strength => this.anonymize(strength, owner)),
+    };
+  }
+
+  // Strengths are model-written and may address the candidate by name
+  private anonymize(text: string, owner: ShareOwner): string {
+    const identifiers = [owner.email, [owner.firstName, owner.lastName].filter(Boolean).join(' '), owner.firstName, owner.lastName]
+      .filter((value): value is string => !!value && value.trim().length > 1);
+
+    return identifiers.reduce((result, identifier) => {
+      const name = identifier.trim();
+      // \b only works around Latin word characters, so Thai or Chinese names are matched as-is
+      const boundary = /^\w.*\w$/.test(name) ? '\\b' : '';
+      return result.replace(new RegExp(`${boundary}${escapeRegExp(name)}${boundary}`, 'gi'), 'The candidate');
+    }, text);
+  }
+
+  private toLink(report: SharedReport): SharedReportLink {
+    const status: SharedReportStatus = report.revokedAt
+      ? 'revoked'
+      : report.expiresAt && report.expiresAt <= new Date() ? 'expired' : 'active';
+
+    return {
+      id: report.id,
+      status,
+      expiresAt: report.expiresAt,
+      revokedAt: report.revokedAt,
+      viewCount: report.viewCount,
+      lastViewedAt: report.lastViewedAt,
+      createdAt: report.createdAt,
+    };
+  }
+}
+
+export const sharedReports = new SharedReportService();
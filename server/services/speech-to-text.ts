@@ -0,0 +1,298 @@
+// Speech-to-Text Engines
+// Pluggable transcription backends for voice answers: a local whisper.cpp engine and the OpenAI Whisper API
+
+import { execFile } from 'child_process';
+import { existsSync, promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { getOpenAIService } from './openai-service';
+import { logger } from './logger';
+
+const execFileAsync = promisify(execFile);
+const log = logger.child({ component: 'speech-to-text' });
+
+export type SttEngineName = 'whisper-cpp' | 'openai';
+
+export type SttAudioFormat = 'webm' | 'wav' | 'mp3' | 'ogg' | 'mp4';
+
+export interface SttOptions {
+  language: string;
+  audioFormat: SttAudioFormat;
+}
+
+export interface SttWord {
+  word: string;
+  start: number;             // seconds from the start of the recording
+  end: number;
+  confidence: number | null; // 0-1; null when the engine doesn't report it per word
+}
+
+export interface SttResult {
+  engine: SttEngineName;
+  text: string;
+  confidence: number; // 0-1
+  language: string;
+  duration: number;   // seconds of audio
+  words: SttWord[];
+}
+
+export interface SttEngine {
+  readonly name: SttEngineName;
+  isConfigured(): boolean;
+  transcribe(audio: Buffer, options: SttOptions): Promise<SttResult>;
+}
+
+// Whisper language codes for our SUPPORTED_LANGUAGES keys (plus the legacy 'tl' alias); anything else is auto-detected
+const WHISPER_LANGUAGES: Record<string, string> = {
+  'en': 'en',
+  'ms': 'ms',
+  'id': 'id',
+  'th': 'th',
+  'vi': 'vi',
+  'fil': 'tl',
+  'tl': 'tl',
+  'zh-sg': 'zh',
+  'zh': 'zh',
+};
+
+// Scripts written without spaces between words, so every token is reported as its own word
+const UNSPACED_LANGUAGES = ['th', 'zh'];
+
+const DEFAULT_ENGINE_ORDER: SttEngineName[] = ['whisper-cpp', 'openai'];
+const DEFAULT_TIMEOUT_MS = 120000;
+
+function round(value: number, digits = 3): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+// whisper.cpp writes token text as raw bytes, so a multi-byte character can be split across tokens
+const utf8 = new TextDecoder('utf-8', { fatal: true });
+function decodeComplete(bytes: Buffer): string | null {
+  try {
+    return utf8.decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+interface WhisperCppToken {
+  text: string;
+  offsets: { from: number; to: number }; // milliseconds
+  p: number;
+}
+
+interface WhisperCppOutput {
+  result?: { language?: string };
+  transcription?: Array<{
+    offsets: { from: number; to: number };
+    text: string;
+    tokens?: WhisperCppToken[];
+  }>;
+}
+
+/**
+ * whisper.cpp on the CPU with a multilingual ggml model on disk; audio is converted to 16 kHz mono WAV with ffmpeg first
+ */
+export class WhisperCppEngine implements SttEngine {
+  readonly name = 'whisper-cpp' as const;
+  private readonly binary = process.env.WHISPER_CPP_BIN || 'whisper-cli';
+  private readonly model = process.env.WHISPER_CPP_MODEL || '';
+  private readonly threads = process.env.WHISPER_CPP_THREADS || String(Math.max(1, Math.min(4, os.cpus().length)));
+  private readonly ffmpeg = process.env.FFMPEG_PATH || 'ffmpeg';
+  private readonly timeoutMs = parseInt(process.env.STT_TIMEOUT_MS || '', 10) || DEFAULT_TIMEOUT_MS;
+
+  isConfigured(): boolean {
+    return !!this.model && existsSync(this.model);
+  }
+
+  async transcribe(audio: Buffer, options: SttOptions): Promise<SttResult> {
+    const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'stt-'));
+    try {
+      const inputPath = path.join(workDir, `input.${options.audioFormat}`);
+      const wavPath = path.join(workDir, 'audio.wav');
+      const outputBase = path.join(workDir, 'transcript');
+      await fs.writeFile(inputPath, audio);
+
+      await execFileAsync(this.ffmpeg, ['-nostdin', '-y', '-i', inputPath, '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le', wavPath], {
+        timeout: this.timeoutMs
+      });
+
+      const language = WHISPER_LANGUAGES[options.language];
+      await execFileAsync(this.binary, [
+        '-m', this.model,
+        '-f', wavPath,
+        '-l', language || 'auto',
+        '-t', this.threads,
+        '-np',
+        '-ojf',
+        '-of', outputBase
+      ], { timeout: this.timeoutMs, maxBuffer: 10 * 1024 * 1024 });
+
+      // Read as latin1 so each token's original bytes survive JSON.parse and can be re-joined into UTF-8
+      const output: WhisperCppOutput = JSON.parse(await fs.readFile(`${outputBase}.json`, 'latin1'));
+      return this.parseOutput(output, options.language);
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  parseOutput(output: WhisperCppOutput, requestedLanguage: string): SttResult {
+    const segments = output.transcription || [];
+    const detected = output.result?.language;
+    const unspaced = UNSPACED_LANGUAGES.includes(WHISPER_LANGUAGES[requestedLanguage] || detected || '');
+
+    const words: SttWord[] = [];
+    const probabilities: number[] = [];
+    let pending: { bytes: Buffer; start: number; end: number; p: number[] } | null = null;
+
+    const flush = () => {
+      if (!pending) return;
+      const text = (decodeComplete(pending.bytes) ?? pending.bytes.toString('utf8')).trim();
+      if (text) {
+        words.push({
+          word: text,
+          start: round(pending.start / 1000),
+          end: round(pending.end / 1000),
+          confidence: round(average(pending.p) ?? 0)
+        });
+      }
+      pending = null;
+    };
+
+    for (const segment of segments) {
+      for (const token of segment.tokens || []) {
+        // Special tokens such as [_BEG_] and [_TT_150] carry timing, not speech
+        if (token.text.startsWith('[_') || token.text.startsWith('<|')) continue;
+
+        const bytes = Buffer.from(token.text, 'latin1');
+        probabilities.push(token.p);
+
+        const pendingComplete = pending !== null && decodeComplete(pending.bytes) !== null;
+        const startsWord = unspaced || bytes[0] === 0x20;
+        if (pending && pendingComplete && startsWord) flush();
+
+        if (pending) {
+          pending.bytes = Buffer.concat([pending.bytes, bytes]);
+          pending.end = token.offsets.to;
+          pending.p.push(token.p);
+        } else {
+          pending = { bytes, start: token.offsets.from, end: token.offsets.to, p: [token.p] };
+        }
+      }
+      flush();
+    }
+
+    const text = segments
+      .map(segment => Buffer.from(segment.text, 'latin1').toString('utf8').trim())
+      .filter(Boolean)
+      .join(unspaced ? '' : ' ');
+    const lastSegment = segments[segments.length - 1];
+
+    return {
+      engine: this.name,
+      text,
+      confidence: round(average(probabilities) ?? 0),
+      language: requestedLanguage || detected || 'en',
+      duration: lastSegment ? round(lastSegment.offsets.to / 1000) : 0,
+      words
+    };
+  }
+}
+
+/**
+ * OpenAI's hosted Whisper; confidence is derived from each segment's average token log-probability
+ */
+export class OpenAIWhisperEngine implements SttEngine {
+  readonly name = 'openai' as const;
+
+  isConfigured(): boolean {
+    return !!process.env.OPENAI_API_KEY;
+  }
+
+  async transcribe(audio: Buffer, options: SttOptions): Promise<SttResult> {
+    const result = await getOpenAIService().transcribeAudio(audio, {
+      language: WHISPER_LANGUAGES[options.language],
+      filename: `audio.${options.audioFormat}`,
+      timestamp_granularities: ['word', 'segment']
+    });
+
+    const segments = result.segments || [];
+    const weighted = segments.reduce((acc, segment) => {
+      const length = Math.max(segment.end - segment.start, 0.01);
+      return { sum: acc.sum + Math.exp(segment.avg_logprob) * length, length: acc.length + length };
+    }, { sum: 0, length: 0 });
+
+    return {
+      engine: this.name,
+      text: result.text.trim(),
+      confidence: weighted.length > 0 ? round(Math.min(1, weighted.sum / weighted.length)) : 0,
+      language: options.language || result.language || 'en',
+      duration: round(result.duration ?? 0),
+      words: (result.words || []).map(word => ({
+        word: word.word,
+        start: round(word.start),
+        end: round(word.end),
+        confidence: null
+      }))
+    };
+  }
+}
+
+/**
+ * Picks the first configured engine in STT_ENGINE order and falls back to the next one if it fails
+ */
+export class SpeechToTextService {
+  private readonly engines: Record<SttEngineName, SttEngine> = {
+    'whisper-cpp': new WhisperCppEngine(),
+    'openai': new OpenAIWhisperEngine(),
+  };
+  private readonly order: SttEngineName[];
+
+  constructor() {
+    const configured = (process.env.STT_ENGINE || '')
+      .split(',')
+      .map(name => name.trim())
+      .filter((name): name is SttEngineName => name in this.engines);
+    this.order = configured.length > 0 ? configured : DEFAULT_ENGINE_ORDER;
+  }
+
+  availableEngines(): SttEngineName[] {
+    return this.order.filter(name => this.engines[name].isConfigured());
+  }
+
+  async transcribe(audio: Buffer, options: SttOptions): Promise<SttResult> {
+    const available = this.availableEngines();
+    if (available.length === 0) {
+      throw new Error(`No speech-to-text engine is configured (tried ${this.order.join(', ')}). Set WHISPER_CPP_MODEL or OPENAI_API_KEY.`);
+    }
+
+    let lastError: unknown;
+    for (const name of available) {
+      const startTime = Date.now();
+      try {
+        const result = await this.engines[name].transcribe(audio, options);
+        log.info('Audio transcribed', {
+          engine: name,
+          language: result.language,
+          durationSeconds: result.duration,
+          confidence: result.confidence,
+          latencyMs: Date.now() - startTime
+        });
+        return result;
+      } catch (error) {
+        lastError = error;
+        log.warn('Speech-to-text engine failed', { engine: name, error });
+      }
+    }
+
+    throw lastError instanceof Error ? lastError : new Error('Speech-to-text failed');
+  }
+}
+
+export const speechToText = new SpeechToTextService();
@@ -0,0 +1,296 @@
+// Text-to-Speech Engines
+// Local speech synthesis for interview questions (Piper or eSpeak NG), with generated audio cached on disk
+
+import { execFile } from 'child_process';
+import crypto from 'crypto';
+import { existsSync, readdirSync, promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { logger } from './logger';
+
+const log = logger.child({ component: 'text-to-speech' });
+
+export type TtsEngineName = 'piper' | 'espeak-ng';
+
+export interface TtsOptions {
+  language: string;
+  voice?: string | null; // engine-specific voice name, e.g. a Piper model or an eSpeak NG voice
+  rate?: number;         // 1.0 is normal speed
+}
+
+export interface TtsResult {
+  audio: Buffer;
+  format: 'wav';
+  contentType: 'audio/wav';
+  durationMs: number;
+  engine: TtsEngineName;
+  voice: string;
+  cached: boolean;
+}
+
+export interface TtsEngine {
+  readonly name: TtsEngineName;
+  isConfigured(): boolean;
+  // The voice to use for this language, honouring the preferred one if it belongs to this engine; null if none fits
+  resolveVoice(language: string, preferred?: string | null): string | null;
+  synthesize(text: string, voice: string, rate: number, outputPath: string): Promise<void>;
+}
+
+const DEFAULT_ENGINE_ORDER: TtsEngineName[] = ['piper', 'espeak-ng'];
+const DEFAULT_TIMEOUT_MS = 60000;
+const DEFAULT_CACHE_MAX_ENTRIES = 5000;
+const MIN_RATE = 0.5;
+const MAX_RATE = 2.0;
+
+// Voice names reach the command line, so only plain identifiers are accepted
+const VOICE_NAME = /^[A-Za-z0-9_][A-Za-z0-9_.+-]{0,49}$/;
+
+function isExecutable(binary: string): boolean {
+  if (binary.includes('/')) return existsSync(binary);
+  return (process.env.PATH || '').split(path.delimiter).some(dir => dir && existsSync(path.join(dir, binary)));
+}
+
+function run(binary: string, args: string[], input: string, timeoutMs: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = execFile(binary, args, { timeout: timeoutMs, maxBuffer: 1024 * 1024 }, (error, _stdout, stderr) => {
+      if (error) reject(new Error(`${path.basename(binary)} failed: ${stderr.trim() || error.message}`));
+      else resolve();
+    });
+    child.stdin?.end(input);
+  });
+}
+
+// Length of the PCM data in a RIFF/WAVE file
+function wavDurationMs(audio: Buffer): number {
+  if (audio.length < 12 || audio.toString('ascii', 0, 4) !== 'RIFF' || audio.toString('ascii', 8, 12) !== 'WAVE') return 0;
+
+  let byteRate = 0;
+  let offset = 12;
+  while (offset + 8 <= audio.length) {
+    const chunkId = audio.toString('ascii', offset, offset + 4);
+    const chunkSize = audio.readUInt32LE(offset + 4);
+    if (chunkId === 'fmt ' && offset + 16 <= audio.length) byteRate = audio.readUInt32LE(offset + 16);
+    if (chunkId === 'data') {
+      // Streaming writers leave the data size at 0 or 0xFFFFFFFF, so fall back to the bytes actually present
+      const dataSize = chunkSize > 0 && chunkSize < 0xFFFFFFFF ? chunkSize : audio.length - offset - 8;
+      return byteRate > 0 ? Math.round((dataSize / byteRate) * 1000) : 0;
+    }
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+  return 0;
+}
+
+/**
+ * Piper neural voices (.onnx models in PIPER_VOICES_DIR); natural sounding, but not every language has a voice
+ */
+export class PiperEngine implements TtsEngine {
+  readonly name = 'piper' as const;
+  private readonly binary = process.env.PIPER_BIN || 'piper';
+  private readonly voicesDir = process.env.PIPER_VOICES_DIR || '';
+  private readonly timeoutMs = parseInt(process.env.TTS_TIMEOUT_MS || '', 10) || DEFAULT_TIMEOUT_MS;
+
+  // Piper voices are named <locale>-<name>-<quality>; the first listed is preferred when installed
+  private readonly localePrefixes: Record<string, string[]> = {
+    'en': ['en_US-lessac-medium', 'en_US', 'en_GB'],
+    'ms': ['ms_MY'],
+    'id': ['id_ID'],
+    'th': ['th_TH'],
+    'vi': ['vi_VN-vais1000-medium', 'vi_VN'],
+    'fil': ['fil_PH', 'tl_PH'],
+    'tl': ['fil_PH', 'tl_PH'],
+    'zh-sg': ['zh_CN-huayan-medium', 'zh_CN', 'zh_TW'],
+  };
+
+  isConfigured(): boolean {
+    return !!this.voicesDir && existsSync(this.voicesDir) && isExecutable(this.binary);
+  }
+
+  resolveVoice(language: string, preferred?: string | null): string | null {
+    const installed = this.installedVoices();
+    if (preferred && installed.includes(preferred)) return preferred;
+
+    for (const prefix of this.localePrefixes[language] || []) {
+      const match = installed.find(voice => voice === prefix || voice.startsWith(`${prefix}-`));
+      if (match) return match;
+    }
+    return null;
+  }
+
+  async synthesize(text: string, voice: string, rate: number, outputPath: string): Promise<void> {
+    await run(this.binary, [
+      '--model', path.join(this.voicesDir, `${voice}.onnx`),
+      '--output_file', outputPath,
+      '--length_scale', (1 / rate).toFixed(2)
+    ], text, this.timeoutMs);
+  }
+
+  private installedVoices(): string[] {
+    try {
+      return readdirSync(this.voicesDir)
+        .filter(file => file.endsWith('.onnx'))
+        .map(file => file.slice(0, -'.onnx'.length))
+        .filter(voice => VOICE_NAME.test(voice))
+        .sort();
+    } catch {
+      return [];
+    }
+  }
+}
+
+/**
+ * eSpeak NG formant synthesis; robotic, but small and available for most of our languages
+ */
+export class ESpeakNgEngine implements TtsEngine {
+  readonly name = 'espeak-ng' as const;
+  private readonly binary = process.env.ESPEAK_NG_BIN || 'espeak-ng';
+  private readonly timeoutMs = parseInt(process.env.TTS_TIMEOUT_MS || '', 10) || DEFAULT_TIMEOUT_MS;
+  private static readonly BASE_WORDS_PER_MINUTE = 175;
+
+  // eSpeak NG has no Filipino voice
+  private readonly defaultVoices: Record<string, string> = {
+    'en': 'en-us',
+    'ms': 'ms',
+    'id': 'id',
+    'th': 'th',
+    'vi': 'vi',
+    'zh-sg': 'cmn',
+  };
+
+  isConfigured(): boolean {
+    return isExecutable(this.binary);
+  }
+
+  resolveVoice(language: string, preferred?: string | null): string | null {
+    const fallback = this.defaultVoices[language];
+    if (!fallback) return null;
+
+    // Accept variants of the language's own voice, e.g. en-gb or th+f3
+    const family = (voice: string) => voice.split(/[-+]/)[0];
+    if (preferred && VOICE_NAME.test(preferred) && family(preferred) === family(fallback)) return preferred;
+    return fallback;
+  }
+
+  async synthesize(text: string, voice: string, rate: number, outputPath: string): Promise<void> {
+    await run(this.binary, [
+      '-v', voice,
+      '-s', String(Math.round(ESpeakNgEngine.BASE_WORDS_PER_MINUTE * rate)),
+      '-w', outputPath,
+      '--stdin'
+    ], text, this.timeoutMs);
+  }
+}
+
+/**
+ * Chooses an engine and voice per request and caches the audio per text, language, voice and rate
+ */
+export class TextToSpeechService {
+  private readonly engines: Record<TtsEngineName, TtsEngine> = {
+    'piper': new PiperEngine(),
+    'espeak-ng': new ESpeakNgEngine(),
+  };
+  private readonly order: TtsEngineName[];
+  private readonly cacheDir = process.env.TTS_CACHE_DIR || path.join(os.tmpdir(), 'tts-cache');
+  private readonly cacheMaxEntries = parseInt(process.env.TTS_CACHE_MAX_ENTRIES || '', 10) || DEFAULT_CACHE_MAX_ENTRIES;
+  private readonly inFlight = new Map<string, Promise<Buffer>>();
+
+  constructor() {
+    const configured = (process.env.TTS_ENGINE || '')
+      .split(',')
+      .map(name => name.trim())
+      .filter((name): name is TtsEngineName => name in this.engines);
+    this.order = configured.length > 0 ? configured : DEFAULT_ENGINE_ORDER;
+  }
+
+  availableEngines(): TtsEngineName[] {
+    return this.order.filter(name => this.engines[name].isConfigured());
+  }
+
+  /**
+   * Engine and voice for a language; an engine that knows the preferred voice wins over the configured order
+   */
+  resolve(language: string, preferredVoice?: string | null): { engine: TtsEngine; voice: string } | null {
+    const engines = this.availableEngines().map(name => this.engines[name]);
+
+    if (preferredVoice) {
+      for (const engine of engines) {
+        if (engine.resolveVoice(language, preferredVoice) === preferredVoice) return { engine, voice: preferredVoice };
+      }
+    }
+
+    for (const engine of engines) {
+      const voice = engine.resolveVoice(language, null);
+      if (voice) return { engine, voice };
+    }
+    return null;
+  }
+
+  async synthesize(text: string, options: TtsOptions): Promise<TtsResult> {
+    const resolved = this.resolve(options.language, options.voice);
+    if (!resolved) {
+      throw new Error(`No text-to-speech voice is installed for language "${options.language}"`);
+    }
+
+    const { engine, voice } = resolved;
+    const rate = Math.min(MAX_RATE, Math.max(MIN_RATE, options.rate || 1));
+    const key = crypto.createHash('sha256')
+      .update(JSON.stringify([engine.name, voice, rate.toFixed(2), options.language, text.trim()]))
+      .digest('hex');
+    const cachePath = path.join(this.cacheDir, `${key}.wav`);
+
+    const cachedAudio = await fs.readFile(cachePath).catch(() => null);
+    if (cachedAudio) {
+      // Touch the file so pruning removes the least recently used audio first
+      const now = new Date();
+      fs.utimes(cachePath, now, now).catch(() => undefined);
+      return this.toResult(cachedAudio, engine.name, voice, true);
+    }
+
+    // Concurrent requests for the same question share one synthesis
+    let pending = this.inFlight.get(key);
+    if (!pending) {
+      pending = this.generate(engine, voice, rate, text.trim(), cachePath).finally(() => this.inFlight.delete(key));
+      this.inFlight.set(key, pending);
+    }
+
+    return this.toResult(await pending, engine.name, voice, false);
+  }
+
+  private async generate(engine: TtsEngine, voice: string, rate: number, text: string, cachePath: string): Promise<Buffer> {
+    await fs.mkdir(this.cacheDir, { recursive: true });
+
+    // Written under a temporary name so readers never see a half-written file
+    const tempPath = `${cachePath}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+    const startTime = Date.now();
+    try {
+      await engine.synthesize(text, voice, rate, tempPath);
+      const audio = await fs.readFile(tempPath);
+      await fs.rename(tempPath, cachePath);
+
+      log.info('Speech synthesized', { engine: engine.name, voice, characters: text.length, latencyMs: Date.now() - startTime });
+      this.prune().catch(error => log.warn('TTS cache prune failed', { error }));
+      return audio;
+    } finally {
+      await fs.rm(tempPath, { force: true });
+    }
+  }
+
+  private async prune(): Promise<void> {
+    const files = (await fs.readdir(this.cacheDir)).filter(file => file.endsWith('.wav'));
+    if (files.length <= this.cacheMaxEntries) return;
+
+    const stats = await Promise.all(files.map(async file => {
+      const filePath = path.join(this.cacheDir, file);
+      const stat = await fs.stat(filePath).catch(() => null);
+      return { filePath, mtimeMs: stat?.mtimeMs ?? 0 };
+    }));
+
+    const excess = stats.sort((a, b) => a.mtimeMs - b.mtimeMs).slice(0, files.length - this.cacheMaxEntries);
+    await Promise.all(excess.map(({ filePath }) => fs.rm(filePath, { force: true })));
+  }
+
+  private toResult(audio: Buffer, engine: TtsEngineName, voice: string, cached: boolean): TtsResult {
+    return { audio, format: 'wav', contentType: 'audio/wav', durationMs: wavDurationMs(audio), engine, voice, cached };
+  }
+}
+
+export const textToSpeech = new TextToSpeechService();
@@ -0,0 +1,224 @@
+// Transcript Export Service
+// Ordered Q&A transcript of a practice session as JSON, plain text, Markdown or Word, optionally with an English translation
+
+import { Document, HeadingLevel, Packer, Paragraph, TextRun } from 'docx';
+import { SUPPORTED_LANGUAGES, type PracticeMessage, type PracticeSession } from '@shared/schema';
+import { translationService } from './translation-service';
+
+export const TRANSCRIPT_FORMATS = ['json', 'txt', 'md', 'docx'] as const;
+export type TranscriptFormat = typeof TRANSCRIPT_FORMATS[number];
+
+// Non-English transcripts are translated into English for reviewers
+const TRANSLATION_LANGUAGE = 'en';
+
+// Messages translated at once, so a long transcript doesn't fire one AI call per message together
+const TRANSLATION_CONCURRENCY = 3;
+
+export interface TranscriptEntry {
+  questionNumber: number | null;
+  speaker: 'interviewer' | 'candidate';
+  followUp: boolean;                   // an interviewer probe on the previous answer
+  text: string;
+  translation: string | null;          // English version, when requested for a non-English session
+  language: string | null;
+  inputMethod: string | null;          // text or voice, for candidate answers
+  responseTimeSeconds: number | null;  // how long the candidate took to answer
+  timestamp: string | null;
+}
+
+export interface PracticeTranscript {
+  sessionId: string;
+  jobPosition: string | null;
+  companyName: string | null;
+  interviewStage: string;
+  language: string;
+  translatedTo: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  entries: TranscriptEntry[];
+}
+
+export interface TranscriptFile {
+  contentType: string;
+  extension: string;
+  body: Buffer | string;
+}
+
+export class TranscriptExportService {
+  /**
+   * Whether a translation adds anything for this session
+   */
+  canTranslate(session: PracticeSession): boolean {
+    return (session.preferredLanguage || 'en') !== TRANSLATION_LANGUAGE;
+  }
+
+  async build(session: PracticeSession, messages: PracticeMessage[], options: { translate?: boolean } = {}): Promise<PracticeTranscript> {
+    const sessionLanguage = session.preferredLanguage || 'en';
+    const translate = !!options.translate && this.canTranslate(session);
+
+    const ordered = messages
+      .filter(message => ['ai_question', 'ai_follow_up', 'user_response'].includes(message.messageType))
+      .sort((a, b) => this.messageTime(a) - this.messageTime(b));
+
+    // Translations go through the translation memory, so repeat exports don't call the model again
+    const translations = translate ? await this.translateMessages(ordered, sessionLanguage) : [];
+
+    return {
+      sessionId: session.id,
+      jobPosition: session.jobPosition,
+      companyName: session.companyName,
+      interviewStage: session.interviewStage,
+      language: sessionLanguage,
+      translatedTo: translate ? TRANSLATION_LANGUAGE : null,
+      startedAt: session.startedAt?.toISOString() ?? null,
+      completedAt: session.completedAt?.toISOString() ?? null,
+      entries: ordered.map((message, index) => {
+        const isAnswer = message.messageType === 'user_response';
+        return {
+          questionNumber: message.questionNumber,
+          speaker: isAnswer ? 'candidate' : 'interviewer',
+          followUp: message.messageType === 'ai_follow_up',
+          text: message.content,
+          translation: translate ? translations[index] : null,
+          language: message.language,
+          inputMethod: isAnswer ? message.inputMethod : null,
+          responseTimeSeconds: isAnswer ? message.responseTime : null,
+          timestamp: (message.timestamp || message.createdAt)?.toISOString() ?? null,
+        };
+      }),
+    };
+  }
+
+  private async translateMessages(messages: PracticeMessage[], sessionLanguage: string): Promise<string[]> {
+    const translations: string[] = new Array(messages.length);
+    let next = 0;
+    const worker = async () => {
+      while (next < messages.length) {
+        const index = next++;
+        const message = messages[index];
+        const result = await translationService.translatePassage(message.content, TRANSLATION_LANGUAGE, message.language || sessionLanguage);
+        translations[index] = result.translated;
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(TRANSLATION_CONCURRENCY, messages.length) }, worker));
+    return translations;
+  }
+
+  async render(transcript: PracticeTranscript, format: TranscriptFormat): Promise<TranscriptFile> {
+    switch (format) {
+      case 'json':
+        return { contentType: 'application/json; charset=utf-8', extension: 'json', body: JSON.stringify(transcript, null, 2) };
+      case 'md':
+        return { contentType: 'text/markdown; charset=utf-8', extension: 'md', body: this.toMarkdown(transcript) };
+      case 'docx':
+        return {
+          contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+          extension: 'docx',
+          body: await this.toDocx(transcript)
+        };
+      default:
+        return { contentType: 'text/plain; charset=utf-8', extension: 'txt', body: this.toText(transcript) };
+    }
+  }
+
+  private toText(transcript: PracticeTranscript): string {
+    const lines = [
+      'INTERVIEW PRACTICE TRANSCRIPT',
+      ...this.headerLines(transcript),
+      '',
+    ];
+
+    for (const entry of transcript.entries) {
+      lines.push(`[${this.formatTime(entry.timestamp)}] ${this.entryTitle(entry)}${this.entryMeta(entry)}`);
+      lines.push(entry.text);
+      if (entry.translation) lines.push(`(${transcript.translatedTo}) ${entry.translation}`);
+      lines.push('');
+    }
+
+    return lines.join('\n');
+  }
+
+  private toMarkdown(transcript: PracticeTranscript): string {
+    const lines = [
+      '# Interview Practice Transcript',
+      '',
+      ...this.headerLines(transcript).map(line => `- ${line}`),
+      '',
+    ];
+
+    for (const entry of transcript.entries) {
+      lines.push(`### ${this.entryTitle(entry)}`);
+      lines.push(`*${this.formatTime(entry.timestamp)}${this.entryMeta(entry)}*`);
+      lines.push('');
+      lines.push(...entry.text.split('\n').map(line => `> ${line}`));
+      if (entry.translation) {
+        lines.push('');
+        lines.push(`**Translation (${transcript.translatedTo}):** ${entry.translation}`);
+      }
+      lines.push('');
+    }
+
+    return lines.join('\n');
+  }
+
+  private async toDocx(transcript: PracticeTranscript): Promise<Buffer> {
+    const children: Paragraph[] = [
+      new Paragraph({ text: 'Interview Practice Transcript', heading: HeadingLevel.TITLE }),
+      ...this.headerLines(transcript).map(line => new Paragraph({ children: [new TextRun({ text: line, color: '6B7280' })] })),
+    ];
+
+    for (const entry of transcript.entries) {
+      children.push(new Paragraph({ text: this.entryTitle(entry), heading: HeadingLevel.HEADING_3, spacing: { before: 240 } }));
+      children.push(new Paragraph({
+        children: [new TextRun({ text: `${this.formatTime(entry.timestamp)}${this.entryMeta(entry)}`, italics: true, size: 18, color: '6B7280' })]
+      }));
+      children.push(new Paragraph({ text: entry.text }));
+      if (entry.translation) {
+        children.push(new Paragraph({
+          children: [
+            new TextRun({ text: `Translation (${transcript.translatedTo}): `, bold: true }),
+            new TextRun({ text: entry.translation, italics: true })
+          ]
+        }));
+      }
+    }
+
+    return Packer.toBuffer(new Document({ creator: 'Interview Practice', title: 'Interview Practice Transcript', sections: [{ children }] }));
+  }
+
+  private headerLines(transcript: PracticeTranscript): string[] {
+    const languageName = SUPPORTED_LANGUAGES[transcript.language as keyof typeof SUPPORTED_LANGUAGES] || transcript.language;
+    return [
+      transcript.jobPosition && `Position: ${transcript.jobPosition}`,
+      transcript.companyName && `Company: ${transcript.companyName}`,
+      `Interview stage: ${transcript.interviewStage}`,
+      `Language: ${languageName}`,
+      transcript.startedAt && `Started: ${this.formatTime(transcript.startedAt)}`,
+      transcript.completedAt && `Completed: ${this.formatTime(transcript.completedAt)}`,
+    ].filter((line): line is string => !!line);
+  }
+
+  private entryTitle(entry: TranscriptEntry): string {
+    const speaker = entry.speaker === 'interviewer' ? (entry.followUp ? 'Interviewer (follow-up)' : 'Interviewer') : 'Candidate';
+    return entry.questionNumber != null ? `Q${entry.questionNumber} - ${speaker}` : speaker;
+  }
+
+  private entryMeta(entry: TranscriptEntry): string {
+    const meta = [
+      entry.inputMethod && `${entry.inputMethod} answer`,
+      entry.responseTimeSeconds != null && `${entry.responseTimeSeconds}s to respond`,
+    ].filter(Boolean);
+    return meta.length > 0 ? ` · ${meta.join(', ')}` : '';
+  }
+
+  private formatTime(timestamp: string | null): string {
+    return timestamp ? timestamp.replace('T', ' ').slice(0, 19) + ' UTC' : 'unknown time';
+  }
+
+  private messageTime(message: PracticeMessage): number {
+    return (message.timestamp || message.createdAt)?.getTime() ?? 0;
+  }
+}
+
+export const transcriptExport = new TranscriptExportService();
@@ -1,5 +1,6 @@
-import { sealionService } from './sealion';
-import { openaiService } from './openai-service';
+import { createHash } from 'crypto';
+import { aiRouter, type AIProviderName } from './ai-router';
+import { storage } from '../storage';
 
 interface TranslationResponse {
   original: string;
@@ -7,16 +8,43 @@ interface TranslationResponse {
   language: string;
 }
 
+interface MachineTranslation {
+  translated: string;
+  translatedBy: AIProviderName;
+}
+
+// 'phrase' extracts one short line from chatty output (questions, labels); 'passage' keeps the whole output
+type TranslationMode = 'phrase' | 'passage';
+
 export class TranslationService {
   
   /**
-   * Translate English content to ASEAN languages using SeaLion
+   * Translate content (English unless `sourceLanguage` says otherwise) to the target language.
+   * The translation memory is consulted first; SeaLion (then OpenAI) is only called on a miss.
    */
   async translateContent(
     content: string, 
-    targetLanguage: string
+    targetLanguage: string,
+    sourceLanguage: string = 'en'
   ): Promise<TranslationResponse> {
-    if (targetLanguage === 'en' || !content.trim()) {
+    return this.translate(content, targetLanguage, sourceLanguage, 'phrase');
+  }
+
+  /**
+   * Translate free-form text such as interview answers, keeping every sentence of the model's output.
+   * Shares the translation memory with translateContent.
+   */
+  async translatePassage(content: string, targetLanguage: string, sourceLanguage: string): Promise<TranslationResponse> {
+    return this.translate(content, targetLanguage, sourceLanguage, 'passage');
+  }
+
+  private async translate(
+    content: string,
+    targetLanguage: string,
+    sourceLanguage: string,
+    mode: TranslationMode
+  ): Promise<TranslationResponse> {
+    if (targetLanguage === sourceLanguage || !content.trim()) {
       return {
         original: content,
         translated: content,
@@ -24,87 +52,190 @@ export class TranslationService {
       };
     }
 
-    try {
-      // Ultra-minimal directive prompt - no personality, no reasoning allowed
-      const translatedContent = await sealionService.generateResponse({
-        messages: [
-          { 
-            role: 'system', 
-            content: `Translate to ${this.getLanguageDisplayName(targetLanguage)}. Rules:
-- Output ONLY the direct translation
-- NO explanations, reasoning, or thinking process
-- NO "Okay", "Let me", "The user", "I need to", "First"
-- NO additional context or cultural notes
+    const sourceText = content.trim();
+    const sourceHash = TranslationService.hashSource(sourceText);
 
-Example:
-Input: "What is your name?"
-Output: ${this.getTranslationExample(targetLanguage)}`
-          },
-          { role: 'user', content: content }
-        ],
-        maxTokens: 150, // Reduced to prevent verbose responses
-        temperature: 0,
+    const remembered = await this.recallTranslation(sourceHash, targetLanguage);
+    if (remembered !== undefined) {
+      return {
+        original: content,
+        translated: remembered,
         language: targetLanguage
-      });
-
-      // Validate response doesn't contain reasoning/explanations
-      if (this.containsReasoning(translatedContent)) {
-        console.warn(`⚠️ SeaLion returned reasoning instead of clean translation: "${translatedContent.substring(0, 100)}..."`);
-        // Force retry with even more constrained prompt
-        throw new Error('Response contains reasoning - retry needed');
-      }
-
-      // Use bulletproof extraction method
-      const cleanTranslation = this.extractCleanTranslation(translatedContent, targetLanguage);
+      };
+    }
 
+    const machineTranslation = await this.translateWithAI(content, targetLanguage, mode);
+    if (!machineTranslation) {
+      // Return original content if both services fail (never stored, so the next call retries)
       return {
         original: content,
-        translated: cleanTranslation,
+        translated: content + ` [Translation to ${this.getLanguageName(targetLanguage)} unavailable]`,
         language: targetLanguage
       };
+    }
+
+    // Mock output is only a language marker, so keep it out of the shared memory
+    if (machineTranslation.translated && machineTranslation.translatedBy !== 'mock') {
+      await this.rememberTranslation(sourceHash, sourceText, targetLanguage, machineTranslation);
+    }
+
+    return {
+      original: content,
+      translated: machineTranslation.translated,
+      language: targetLanguage
+    };
+  }
+
+  /**
+   * Key used by the translation memory: SHA-256 of the trimmed source text
+   */
+  static hashSource(sourceText: string): string {
+    return createHash('sha256').update(sourceText.trim()).digest('hex');
+  }
+
+  /**
+   * Look up a stored translation. Flagged entries are ignored unless an admin pinned them.
+   */
+  private async recallTranslation(sourceHash: string, targetLanguage: string): Promise<string | undefined> {
+    try {
+      const entry = await storage.getTranslationMemoryEntry(sourceHash, targetLanguage);
+      if (!entry || (entry.quality === 'flagged' && !entry.pinned)) {
+        return undefined;
+      }
+
+      storage.recordTranslationMemoryHit(entry.id).catch((error) => {
+        console.error('❌ Failed to record translation memory hit:', error);
+      });
+      return entry.translatedText;
 
     } catch (error) {
-      console.error('❌ SeaLion translation failed:', error);
-      console.log('🔄 Attempting OpenAI fallback for translation...');
-      
+      // Fail open: an unavailable memory just means calling the AI as before
+      console.error('❌ Translation memory lookup failed:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Store a machine translation without replacing pinned, human-approved wording
+   */
+  private async rememberTranslation(
+    sourceHash: string,
+    sourceText: string,
+    targetLanguage: string,
+    machineTranslation: MachineTranslation
+  ): Promise<void> {
+    try {
+      await storage.upsertTranslationMemoryEntry({
+        sourceHash,
+        sourceText,
+        targetLanguage,
+        translatedText: machineTranslation.translated,
+        quality: 'machine',
+        translatedBy: machineTranslation.translatedBy,
+        reviewedBy: null,
+        reviewedAt: null
+      }, { preservePinned: true });
+    } catch (error) {
+      console.error('❌ Failed to save translation to memory:', error);
+    }
+  }
+
+  /**
+   * Translate with the router's translation providers, moving on to the next provider
+   * when one answers with reasoning instead of a translation. Returns null when all fail.
+   */
+  private async translateWithAI(
+    content: string,
+    targetLanguage: string,
+    mode: TranslationMode
+  ): Promise<MachineTranslation | null> {
+    if (mode === 'passage') {
+      return this.translatePassageWithAI(content, targetLanguage);
+    }
+
+    let providers = aiRouter.resolveProviderOrder('translation', targetLanguage);
+
+    while (providers.length > 0) {
       try {
-        // Try OpenAI as ultimate fallback for translation
-        if (!openaiService) {
-          throw new Error('OpenAI service not available');
-        }
-        
-        const openaiTranslation = await openaiService.generateResponse({
+        // Ultra-minimal directive prompt - no personality, no reasoning allowed
+        const result = await aiRouter.generateResponse({
           messages: [
-            {
-              role: 'system',
-              content: `You are a translation service. Translate the following text to ${this.getLanguageName(targetLanguage)}. Respond ONLY with the translation, no explanations.`
+            { 
+              role: 'system', 
+              content: `Translate to ${this.getLanguageDisplayName(targetLanguage)}. Rules:
+- Output ONLY the direct translation
+- NO explanations, reasoning, or thinking process
+- NO "Okay", "Let me", "The user", "I need to", "First"
+- NO additional context or cultural notes
+
+Example:
+Input: "What is your name?"
+Output: ${this.getTranslationExample(targetLanguage)}`
             },
-            {
-              role: 'user',
-              content: `Translate to ${this.getLanguageName(targetLanguage)}: "${content}"`
-            }
+            { role: 'user', content: content }
           ],
-          maxTokens: 150,
-          temperature: 0
+          maxTokens: Math.min(2000, Math.max(150, content.length)), // Short cap prevents verbose responses; long answers still fit
+          temperature: 0,
+          domain: 'translation',
+          language: targetLanguage,
+          providers
         });
-        
-        console.log('✅ OpenAI fallback translation successful');
-        return {
-          original: content,
-          translated: openaiTranslation.trim(),
-          language: targetLanguage
-        };
-        
-      } catch (openaiError) {
-        console.error('❌ OpenAI fallback also failed:', openaiError);
-        // Return original content if both services fail
+
+        // Validate response doesn't contain reasoning/explanations
+        if (this.containsReasoning(result.content)) {
+          console.warn(`⚠️ ${result.provider} returned reasoning instead of clean translation: "${result.content.substring(0, 100)}..."`);
+          providers = providers.slice(providers.indexOf(result.provider) + 1);
+          continue;
+        }
+
         return {
-          original: content,
-          translated: content + ` [Translation to ${this.getLanguageName(targetLanguage)} unavailable]`,
-          language: targetLanguage
+          // Use bulletproof extraction method
+          translated: this.extractCleanTranslation(result.content, targetLanguage),
+          translatedBy: result.provider
         };
+
+      } catch (error) {
+        console.error('❌ AI translation failed:', error);
+        return null;
       }
     }
+
+    return null;
+  }
+
+  /**
+   * Whole-text translation for passages. The reasoning filters used for phrases would reject or cut down
+   * ordinary sentences ("First, I..."), so only thinking blocks and a leading label are removed.
+   */
+  private async translatePassageWithAI(content: string, targetLanguage: string): Promise<MachineTranslation | null> {
+    try {
+      const result = await aiRouter.generateResponse({
+        messages: [
+          {
+            role: 'system',
+            content: `Translate the user's text to ${this.getLanguageDisplayName(targetLanguage)}. Rules:
+- Translate the whole text: every sentence, in order, keeping paragraph breaks
+- Output ONLY the translation, with no notes, explanations or quotes around it`
+          },
+          { role: 'user', content }
+        ],
+        maxTokens: Math.min(4000, Math.max(300, content.length * 2)), // room for scripts that take more than one token per character
+        temperature: 0,
+        domain: 'translation',
+        language: targetLanguage
+      });
+
+      const translated = result.content
+        .replace(/<think>[\s\S]*?<\/think>/gi, '')
+        .replace(/<thinking>[\s\S]*?<\/thinking>/gi, '')
+        .trim()
+        .replace(/^(Translation|Terjemahan|翻译):\s*/i, '');
+      return translated ? { translated, translatedBy: result.provider } : null;
+
+    } catch (error) {
+      console.error('❌ AI passage translation failed:', error);
+      return null;
+    }
   }
 
   /**
@@ -0,0 +1,297 @@
+// Voice Recording Service
+// Keeps recorded voice answers in a pluggable store (local disk or S3-compatible) for replay, and expires them per user
+
+import { randomUUID } from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import type { Readable } from 'stream';
+import { DeleteObjectCommand, GetObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { storage } from '../storage';
+import { logger } from './logger';
+import type { VoiceRecording } from '@shared/schema';
+
+const log = logger.child({ component: 'voice-recordings' });
+
+export type RecordingBackend = 'local' | 's3';
+
+export const MAX_RETENTION_DAYS = 3650;
+const DEFAULT_RETENTION_DAYS = 90;
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+const SWEEP_BATCH_SIZE = 200;
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/wav': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+};
+
+export interface ByteRange {
+  start: number;
+  end: number; // inclusive
+}
+
+export interface RecordingStore {
+  readonly backend: RecordingBackend;
+  put(key: string, audio: Buffer, contentType: string): Promise<void>;
+  read(key: string, range?: ByteRange): Promise<Readable>;
+  delete(key: string): Promise<void>;
+}
+
+export interface RecordingSettings {
+  storeRecordings: boolean;
+  retentionDays: number | null; // null keeps recordings until the user deletes them
+}
+
+/**
+ * Files under VOICE_STORAGE_DIR, one folder per user and session
+ */
+export class LocalRecordingStore implements RecordingStore {
+  readonly backend = 'local' as const;
+  private readonly root = process.env.VOICE_STORAGE_DIR || path.resolve(process.cwd(), 'uploads', 'voice-recordings');
+
+  async put(key: string, audio: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, audio);
+  }
+
+  async read(key: string, range?: ByteRange): Promise<Readable> {
+    const filePath = this.resolve(key);
+    await fs.access(filePath);
+    return createReadStream(filePath, range ? { start: range.start, end: range.end } : undefined);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  // Keys are generated by this service, but never let one escape the storage root
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error('Invalid recording key');
+    }
+    return filePath;
+  }
+}
+
+/**
+ * Any S3-compatible bucket (AWS, MinIO, R2); VOICE_S3_ENDPOINT points at non-AWS providers
+ */
+export class S3RecordingStore implements RecordingStore {
+  readonly backend = 's3' as const;
+  private readonly bucket = process.env.VOICE_S3_BUCKET || '';
+  private readonly client = new S3Client({
+    region: process.env.VOICE_S3_REGION || process.env.AWS_REGION || 'us-east-1',
+    endpoint: process.env.VOICE_S3_ENDPOINT || undefined,
+    forcePathStyle: process.env.VOICE_S3_FORCE_PATH_STYLE === 'true',
+  });
+
+  isConfigured(): boolean {
+    return !!this.bucket;
+  }
+
+  async put(key: string, audio: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({ Bucket: this.bucket, Key: key, Body: audio, ContentType: contentType }));
+  }
+
+  async read(key: string, range?: ByteRange): Promise<Readable> {
+    const object = await this.client.send(new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+    }));
+    return object.Body as Readable;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
+
+/**
+ * Parses a single-range Range header; null when absent or unparseable, 'unsatisfiable' when it lies past the end
+ */
+export function parseByteRange(header: string | undefined, size: number): ByteRange | 'unsatisfiable' | null {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (match[1] === '' && match[2] === '')) return null;
+
+  let start: number;
+  let end: number;
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    start = Math.max(0, size - Number(match[2]));
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+  }
+
+  return start >= size || start > end ? 'unsatisfiable' : { start, end };
+}
+
+export class VoiceRecordingService {
+  private readonly stores: Partial<Record<RecordingBackend, RecordingStore>>;
+  private readonly writeBackend: RecordingBackend;
+  private readonly defaultRetentionDays: number | null;
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    const s3 = new S3RecordingStore();
+    this.stores = { local: new LocalRecordingStore(), ...(s3.isConfigured() ? { s3 } : {}) };
+
+    if (process.env.VOICE_STORAGE === 's3' && !s3.isConfigured()) {
+      log.warn('VOICE_STORAGE is s3 but VOICE_S3_BUCKET is not set; storing recordings locally');
+    }
+    this.writeBackend = process.env.VOICE_STORAGE === 's3' && s3.isConfigured() ? 's3' : 'local';
+
+    // 0 means keep until deleted
+    const configured = parseInt(process.env.VOICE_RETENTION_DAYS || '', 10);
+    this.defaultRetentionDays = Number.isNaN(configured) ? DEFAULT_RETENTION_DAYS : configured > 0 ? configured : null;
+  }
+
+  async getSettings(userId: string): Promise<RecordingSettings> {
+    const settings = await storage.getVoiceRecordingSettings(userId);
+    return settings
+      ? { storeRecordings: settings.storeRecordings, retentionDays: settings.retentionDays }
+      : { storeRecordings: true, retentionDays: this.defaultRetentionDays };
+  }
+
+  /**
+   * Saves the user's choices; turning storage off deletes what is already kept, a new period re-dates existing recordings
+   */
+  async updateSettings(userId: string, settings: RecordingSettings): Promise<RecordingSettings> {
+    await storage.upsertVoiceRecordingSettings(userId, settings);
+
+    if (!settings.storeRecordings) {
+      await this.removeForUser(userId);
+    } else {
+      // Recordings now past their date are removed by the next sweep
+      await storage.setVoiceRecordingRetention(userId, settings.retentionDays);
+    }
+    return settings;
+  }
+
+  /**
+   * Stores a recorded answer unless the user has opted out; returns null when nothing was kept
+   */
+  async save(recording: {
+    userId: string;
+    sessionId: string;
+    questionId: string | null;
+    audio: Buffer;
+    contentType: string;
+    durationSeconds: number | null;
+  }): Promise<VoiceRecording | null> {
+    const settings = await this.getSettings(recording.userId);
+    if (!settings.storeRecordings || recording.audio.length === 0) return null;
+
+    const store = this.stores[this.writeBackend]!;
+    const extension = EXTENSIONS[recording.contentType] || 'bin';
+    const key = `${recording.userId}/${recording.sessionId}/${randomUUID()}.${extension}`;
+    await store.put(key, recording.audio, recording.contentType);
+
+    try {
+      return await storage.createVoiceRecording({
+        userId: recording.userId,
+        sessionId: recording.sessionId,
+        questionId: recording.questionId,
+        storageBackend: store.backend,
+        storageKey: key,
+        contentType: recording.contentType,
+        sizeBytes: recording.audio.length,
+        durationSeconds: recording.durationSeconds !== null ? Math.round(recording.durationSeconds) : null,
+        expiresAt: settings.retentionDays !== null
+          ? new Date(Date.now() + settings.retentionDays * 24 * 60 * 60 * 1000)
+          : null,
+      });
+    } catch (error) {
+      await store.delete(key).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Points the evaluated response at the recording's streaming URL; null when the recording belongs to someone else.
+   * A follow-up answer shares its question's response row, so its recording is attached without replacing the original answer's audio
+   */
+  async linkResponse(recording: VoiceRecording, userId: string, responseId: string, options: { followUp?: boolean } = {}): Promise<string | null> {
+    const url = this.playbackUrl(recording.id);
+    const linked = await storage.linkVoiceRecordingToResponse(recording.id, userId, responseId, options.followUp ? null : url);
+    return linked ? url : null;
+  }
+
+  playbackUrl(recordingId: string): string {
+    return `/api/prepare-ai/recordings/${recordingId}`;
+  }
+
+  async open(recording: VoiceRecording, range?: ByteRange): Promise<Readable> {
+    return this.storeFor(recording).read(recording.storageKey, range);
+  }
+
+  async remove(recording: VoiceRecording): Promise<void> {
+    await storage.deleteVoiceRecording(recording.id);
+    await this.deleteAudio(recording);
+  }
+
+  async removeForSession(sessionId: string): Promise<void> {
+    for (const recording of await storage.getVoiceRecordingsForSession(sessionId)) {
+      await this.remove(recording);
+    }
+  }
+
+  async removeForUser(userId: string): Promise<void> {
+    for (const recording of await storage.getVoiceRecordingsForUser(userId)) {
+      await this.remove(recording);
+    }
+  }
+
+  /**
+   * Deletes only the stored audio, for rows that are already gone (e.g. after account deletion)
+   */
+  async deleteAudio(recording: VoiceRecording): Promise<void> {
+    try {
+      await this.storeFor(recording).delete(recording.storageKey);
+    } catch (error) {
+      log.error('Failed to delete recording audio', { recordingId: recording.id, backend: recording.storageBackend, error });
+    }
+  }
+
+  /**
+   * Deletes recordings past their retention date, in batches
+   */
+  async sweepExpired(): Promise<number> {
+    let removed = 0;
+    for (;;) {
+      const expired = await storage.getExpiredVoiceRecordings(new Date(), SWEEP_BATCH_SIZE);
+      for (const recording of expired) {
+        await this.remove(recording);
+      }
+      removed += expired.length;
+      if (expired.length < SWEEP_BATCH_SIZE) break;
+    }
+
+    if (removed > 0) log.info('Expired voice recordings removed', { removed });
+    return removed;
+  }
+
+  startRetentionSweep(): void {
+    if (this.sweepTimer) return;
+    const sweep = () => this.sweepExpired().catch(error => log.error('Voice recording sweep failed', { error }));
+    this.sweepTimer = setInterval(sweep, SWEEP_INTERVAL_MS);
+    this.sweepTimer.unref();
+    sweep();
+  }
+
+  private storeFor(recording: VoiceRecording): RecordingStore {
+    const store = this.stores[recording.storageBackend as RecordingBackend];
+    if (!store) {
+      throw new Error(`Recording store "${recording.storageBackend}" is not configured`);
+    }
+    return store;
+  }
+}
+
+export const voiceRecordings = new VoiceRecordingService();
@@ -1,5 +1,12 @@
 import {
+  sessions,
   users,
+  passwordResetTokens,
+  emailVerificationTokens,
+  rateLimitBuckets,
+  aiUsageEvents,
+  errorLogs,
+  sharedReports,
   interviewScenarios,
   interviewSessions,
   interviewMessages,
@@ -22,8 +29,31 @@ import {
   practiceSessions,
   practiceMessages,
   practiceReports,
+  practiceResponseEvaluations,
+  // Job description library
+  jobDescriptions,
+  translationMemory,
+  // AI Prepare module tables
+  aiPrepareSessions,
+  aiPrepareResponses,
+  aiPrepareAnalytics,
+  voiceRecordings,
+  voiceRecordingSettings,
   type User,
   type UpsertUser,
+  type PasswordResetToken,
+  type InsertPasswordResetToken,
+  type EmailVerificationToken,
+  type InsertEmailVerificationToken,
+  type RateLimitBucket,
+  type InsertAiUsageEvent,
+  type ErrorLog,
+  type InsertErrorLog,
+  type SharedReport,
+  type InsertSharedReport,
+  type VoiceRecording,
+  type InsertVoiceRecording,
+  type VoiceRecordingSettings,
   type InsertInterviewScenario,
   type InterviewScenario,
   type InsertInterviewSession,
@@ -69,17 +99,158 @@ import {
   type InsertPracticeMessage,
   type PracticeReport,
   type InsertPracticeReport,
+  type PracticeResponseEvaluation,
+  type InsertPracticeResponseEvaluation,
   type PracticeSessionWithMessages,
   type PracticeSessionOverview,
+  type AiPrepareSessionWithResponses,
+  // Job description library types
+  type JobDescription,
+  type InsertJobDescription,
+  // Translation memory types
+  type TranslationMemoryEntry,
+  type InsertTranslationMemoryEntry,
+  type TranslationQuality,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, count, avg, sql, or } from "drizzle-orm";
+import { eq, desc, and, count, avg, sql, or, gt, gte, lt, isNull, inArray, ilike, type SQL } from "drizzle-orm";
+
+export interface RateLimitHit {
+  hits: number;
+  retryAfterSeconds: number; // seconds until the current window resets
+}
+
+export interface TranslationMemoryFilters {
+  targetLanguage?: string;
+  quality?: TranslationQuality;
+  pinned?: boolean;
+  search?: string; // matched against source and translated text
+  limit?: number;
+  offset?: number;
+}
+
+export interface AiUsageTotals {
+  calls: number;
+  cachedCalls: number;
+  tokens: number;
+  costUsd: number;
+}
+
+export interface AiUsageBreakdown extends AiUsageTotals {
+  key: string; // provider, domain or day (YYYY-MM-DD)
+}
+
+export interface AiUsageUserBreakdown extends AiUsageTotals {
+  userId: string | null; // null for background/system calls
+  email: string | null;
+}
+
+export interface AiUsageReport {
+  totals: AiUsageTotals;
+  byProvider: AiUsageBreakdown[];
+  byDomain: AiUsageBreakdown[];
+  byDay: AiUsageBreakdown[];
+  topUsers: AiUsageUserBreakdown[];
+}
+
+export interface ErrorLogFilters {
+  component?: string;
+  operation?: string;
+  errorType?: string;
+  userId?: string;
+  sessionId?: string;
+  correlationId?: string;
+  fallbackUsed?: boolean;
+  search?: string; // matched against the error message
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ErrorLogBreakdown {
+  key: string; // component, error signature or day (YYYY-MM-DD)
+  count: number;
+  fallbacks: number;
+  lastSeenAt: Date;
+}
+
+export interface ErrorLogSummary {
+  total: number;
+  fallbacks: number;
+  byComponent: ErrorLogBreakdown[];
+  byError: ErrorLogBreakdown[]; // "component.operation: errorType", most frequent first
+  byDay: ErrorLogBreakdown[];
+}
+
+export interface RateLimitBackoffPolicy {
+  freeFailures: number;       // failures allowed before the first lockout
+  baseLockoutSeconds: number; // first lockout length, doubled for each further failure
+  maxLockoutSeconds: number;
+  resetAfterSeconds: number;  // quiet period after which the failure count starts over
+}
+
+export interface RateLimitFailure {
+  failures: number;
+  retryAfterSeconds: number; // 0 when the key is not locked
+}
 
 export interface IStorage {
   // User operations
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
+  updateUserPassword(userId: string, passwordHash: string): Promise<void>;
+
+  // Password reset tokens
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  invalidatePasswordResetTokens(userId: string): Promise<void>;
+
+  // Email verification
+  createEmailVerificationToken(token: InsertEmailVerificationToken): Promise<EmailVerificationToken>;
+  consumeEmailVerificationToken(tokenHash: string): Promise<EmailVerificationToken | undefined>;
+  invalidateEmailVerificationTokens(userId: string): Promise<void>;
+  markEmailVerified(userId: string): Promise<void>;
+
+  // Account deletion
+  deleteUserAccount(userId: string): Promise<void>;
+
+  // Rate limiting
+  hitRateLimit(key: string, windowSeconds: number): Promise<RateLimitHit>;
+  getRateLimitLockout(key: string): Promise<number>;
+  recordRateLimitFailure(key: string, policy: RateLimitBackoffPolicy): Promise<RateLimitFailure>;
+  clearRateLimit(key: string): Promise<boolean>;
+  getLockedRateLimits(): Promise<Array<RateLimitBucket & { retryAfterSeconds: number }>>;
+  
+  // AI usage metering
+  recordAiUsageEvent(event: InsertAiUsageEvent): Promise<void>;
+  getAiUsageTotals(userId: string, since: Date): Promise<AiUsageTotals>;
+  getAiUsageReport(from: Date, to: Date): Promise<AiUsageReport>;
+
+  // Error log
+  recordErrorLog(entry: InsertErrorLog): Promise<void>;
+  listErrorLogs(filters: ErrorLogFilters): Promise<{ entries: ErrorLog[]; total: number }>;
+  getErrorLogSummary(filters: ErrorLogFilters): Promise<ErrorLogSummary>;
+  deleteErrorLogsBefore(cutoff: Date): Promise<number>;
+
+  // Shared report links
+  createSharedReport(report: InsertSharedReport): Promise<SharedReport>;
+  getSharedReports(userId: string, sessionId: string): Promise<SharedReport[]>;
+  viewSharedReport(tokenHash: string): Promise<SharedReport | undefined>;
+  revokeSharedReport(id: string, userId: string): Promise<boolean>;
+
+  // Recorded voice answers
+  createVoiceRecording(recording: InsertVoiceRecording): Promise<VoiceRecording>;
+  getVoiceRecording(id: string): Promise<VoiceRecording | undefined>;
+  getVoiceRecordingsForSession(sessionId: string): Promise<VoiceRecording[]>;
+  getVoiceRecordingsForUser(userId: string): Promise<VoiceRecording[]>;
+  getExpiredVoiceRecordings(before: Date, limit: number): Promise<VoiceRecording[]>;
+  linkVoiceRecordingToResponse(id: string, userId: string, responseId: string, audioFileUrl: string | null): Promise<boolean>;
+  deleteVoiceRecording(id: string): Promise<void>;
+  getVoiceRecordingSettings(userId: string): Promise<VoiceRecordingSettings | undefined>;
+  upsertVoiceRecordingSettings(userId: string, settings: { storeRecordings: boolean; retentionDays: number | null }): Promise<VoiceRecordingSettings>;
+  setVoiceRecordingRetention(userId: string, retentionDays: number | null): Promise<void>;
 
   // Interview scenario operations
   getInterviewScenarios(stage?: string): Promise<InterviewScenarioWithStats[]>;
@@ -159,8 +330,29 @@ export interface IStorage {
   getPracticeReport(sessionId: string): Promise<PracticeReport | undefined>;
   updatePracticeReport(id: string, updates: Partial<InsertPracticeReport>): Promise<PracticeReport>;
   
+  // Practice response evaluations
+  createPracticeResponseEvaluations(evaluations: InsertPracticeResponseEvaluation[]): Promise<PracticeResponseEvaluation[]>;
+  getPracticeResponseEvaluations(sessionId: string): Promise<PracticeResponseEvaluation[]>;
+  
   // Practice overview/analytics
   getPracticeOverview(userId: string): Promise<PracticeSessionOverview>;
+
+  // AI Prepare sessions
+  getUserAiPrepareSessions(userId: string, limit?: number): Promise<AiPrepareSessionWithResponses[]>;
+
+  // Job description library operations
+  createJobDescription(jobDescription: InsertJobDescription): Promise<JobDescription>;
+  getJobDescription(id: string): Promise<JobDescription | undefined>;
+  getUserJobDescriptions(userId: string): Promise<JobDescription[]>;
+  deleteJobDescription(id: string): Promise<void>;
+
+  // Translation memory operations
+  getTranslationMemoryEntry(sourceHash: string, targetLanguage: string): Promise<TranslationMemoryEntry | undefined>;
+  getTranslationMemoryEntryById(id: string): Promise<TranslationMemoryEntry | undefined>;
+  listTranslationMemory(filters: TranslationMemoryFilters): Promise<{ entries: TranslationMemoryEntry[]; total: number }>;
+  upsertTranslationMemoryEntry(entry: InsertTranslationMemoryEntry, options?: { preservePinned?: boolean }): Promise<TranslationMemoryEntry | undefined>;
+  updateTranslationMemoryEntry(id: string, updates: Partial<InsertTranslationMemoryEntry>): Promise<TranslationMemoryEntry | undefined>;
+  recordTranslationMemoryHit(id: string): Promise<void>;
 }
 
 // Simple in-memory cache for question banks
@@ -286,6 +478,492 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async updateUserPassword(userId: string, passwordHash: string): Promise<void> {
+    await db
+      .update(users)
+      .set({ passwordHash, updatedAt: new Date() })
+      .where(eq(users.id, userId));
+  }
+
+  // Password reset tokens
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const [newToken] = await db
+      .insert(passwordResetTokens)
+      .values(token)
+      .returning();
+    return newToken;
+  }
+
+  // Marks the token used and returns it only if it was unused and unexpired, so each token redeems once
+  async consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(passwordResetTokens.tokenHash, tokenHash),
+        isNull(passwordResetTokens.usedAt),
+        gt(passwordResetTokens.expiresAt, new Date())
+      ))
+      .returning();
+    return token;
+  }
+
+  async invalidatePasswordResetTokens(userId: string): Promise<void> {
+    await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(passwordResetTokens.userId, userId),
+        isNull(passwordResetTokens.usedAt)
+      ));
+  }
+
+  // Email verification
+  async createEmailVerificationToken(token: InsertEmailVerificationToken): Promise<EmailVerificationToken> {
+    const [newToken] = await db
+      .insert(emailVerificationTokens)
+      .values(token)
+      .returning();
+    return newToken;
+  }
+
+  async consumeEmailVerificationToken(tokenHash: string): Promise<EmailVerificationToken | undefined> {
+    const [token] = await db
+      .update(emailVerificationTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(emailVerificationTokens.tokenHash, tokenHash),
+        isNull(emailVerificationTokens.usedAt),
+        gt(emailVerificationTokens.expiresAt, new Date())
+      ))
+      .returning();
+    return token;
+  }
+
+  async invalidateEmailVerificationTokens(userId: string): Promise<void> {
+    await db
+      .update(emailVerificationTokens)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(emailVerificationTokens.userId, userId),
+        isNull(emailVerificationTokens.usedAt)
+      ));
+  }
+
+  async markEmailVerified(userId: string): Promise<void> {
+    await db
+      .update(users)
+      .set({ emailVerifiedAt: new Date(), updatedAt: new Date() })
+      .where(eq(users.id, userId));
+  }
+
+  // Account deletion - removes everything the user owns across Prepare, Practice and Perform
+  async deleteUserAccount(userId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      // Interview messages and evaluations reference sessions without a foreign key
+      const userInterviewSessions = await tx
+        .select({ id: interviewSessions.id })
+        .from(interviewSessions)
+        .where(eq(interviewSessions.userId, userId));
+      const interviewSessionIds = userInterviewSessions.map((session) => session.id);
+
+      if (interviewSessionIds.length > 0) {
+        await tx.delete(interviewMessages).where(inArray(interviewMessages.sessionId, interviewSessionIds));
+        await tx.delete(aiEvaluationResults).where(inArray(aiEvaluationResults.sessionId, interviewSessionIds));
+      }
+      await tx.delete(interviewSessions).where(eq(interviewSessions.userId, userId));
+
+      // Practice (messages, reports and evaluations cascade from the session)
+      await tx.delete(practiceReports).where(eq(practiceReports.userId, userId));
+      await tx.delete(practiceSessions).where(eq(practiceSessions.userId, userId));
+
+      // AI Prepare (questions, responses and analytics cascade from the session)
+      await tx.delete(aiPrepareAnalytics).where(eq(aiPrepareAnalytics.userId, userId));
+      await tx.delete(aiPrepareSessions).where(eq(aiPrepareSessions.userId, userId));
+
+      // Preparation, tests and coaching
+      await tx.delete(practiceTestResults).where(eq(practiceTestResults.userId, userId));
+      await tx.delete(starPracticeSessions).where(eq(starPracticeSessions.userId, userId));
+      await tx.delete(preparationProgress).where(eq(preparationProgress.userId, userId));
+      await tx.delete(preparationSessions).where(eq(preparationSessions.userId, userId));
+      await tx.delete(companyResearch).where(eq(companyResearch.userId, userId));
+      await tx.delete(coachingSessions).where(eq(coachingSessions.userId, userId));
+
+      // Shared content the user authored stays, without the author link
+      await tx.update(interviewScenarios).set({ createdBy: null }).where(eq(interviewScenarios.createdBy, userId));
+      await tx.update(preparationResources).set({ createdBy: null }).where(eq(preparationResources.createdBy, userId));
+      await tx.update(practiceTests).set({ createdBy: null }).where(eq(practiceTests.createdBy, userId));
+      await tx.update(industryQuestions).set({ createdBy: null }).where(eq(industryQuestions.createdBy, userId));
+      await tx.update(industryKnowledge).set({ createdBy: null }).where(eq(industryKnowledge.createdBy, userId));
+
+      // Sign the user out everywhere
+      await tx.delete(sessions).where(sql`${sessions.sess}->>'userId' = ${userId}`);
+
+      // Job descriptions, shared report links, voice recordings and auth tokens cascade from the user
+      await tx.delete(users).where(eq(users.id, userId));
+    });
+  }
+
+  // Rate limiting (all time arithmetic uses the database clock)
+  async hitRateLimit(key: string, windowSeconds: number): Promise<RateLimitHit> {
+    const windowExpired = sql`${rateLimitBuckets.windowStartedAt} < now() - ${windowSeconds}::int * interval '1 second'`;
+
+    const [bucket] = await db
+      .insert(rateLimitBuckets)
+      .values({ key, hits: 1, windowStartedAt: sql`now()`, updatedAt: sql`now()` })
+      .onConflictDoUpdate({
+        target: rateLimitBuckets.key,
+        set: {
+          hits: sql`case when ${windowExpired} then 1 else ${rateLimitBuckets.hits} + 1 end`,
+          windowStartedAt: sql`case when ${windowExpired} then now() else ${rateLimitBuckets.windowStartedAt} end`,
+          updatedAt: sql`now()`,
+        },
+      })
+      .returning({
+        hits: rateLimitBuckets.hits,
+        retryAfterSeconds: sql<number>`greatest(ceil(extract(epoch from ${rateLimitBuckets.windowStartedAt} + ${windowSeconds}::int * interval '1 second' - now())), 1)::int`,
+      });
+    return bucket;
+  }
+
+  async getRateLimitLockout(key: string): Promise<number> {
+    const [bucket] = await db
+      .select({
+        retryAfterSeconds: sql<number>`ceil(extract(epoch from ${rateLimitBuckets.lockedUntil} - now()))::int`,
+      })
+      .from(rateLimitBuckets)
+      .where(and(
+        eq(rateLimitBuckets.key, key),
+        sql`${rateLimitBuckets.lockedUntil} > now()`
+      ));
+    return bucket?.retryAfterSeconds ?? 0;
+  }
+
+  async recordRateLimitFailure(key: string, policy: RateLimitBackoffPolicy): Promise<RateLimitFailure> {
+    const failures = sql`case
+      when ${rateLimitBuckets.lastFailureAt} < now() - ${policy.resetAfterSeconds}::int * interval '1 second' then 1
+      else ${rateLimitBuckets.failures} + 1
+    end`;
+    const lockoutSeconds = sql`least(${policy.baseLockoutSeconds}::int * power(2, (${failures}) - ${policy.freeFailures}::int - 1), ${policy.maxLockoutSeconds}::int)`;
+
+    const [bucket] = await db
+      .insert(rateLimitBuckets)
+      .values({ key, failures: 1, lastFailureAt: sql`now()`, updatedAt: sql`now()` })
+      .onConflictDoUpdate({
+        target: rateLimitBuckets.key,
+        set: {
+          failures,
+          lastFailureAt: sql`now()`,
+          lockedUntil: sql`case
+            when (${failures}) > ${policy.freeFailures}::int then now() + ${lockoutSeconds} * interval '1 second'
+            else ${rateLimitBuckets.lockedUntil}
+          end`,
+          updatedAt: sql`now()`,
+        },
+      })
+      .returning({
+        failures: rateLimitBuckets.failures,
+        retryAfterSeconds: sql<number>`coalesce(greatest(ceil(extract(epoch from ${rateLimitBuckets.lockedUntil} - now())), 0), 0)::int`,
+      });
+    return bucket;
+  }
+
+  async clearRateLimit(key: string): Promise<boolean> {
+    const deleted = await db
+      .delete(rateLimitBuckets)
+      .where(eq(rateLimitBuckets.key, key))
+      .returning({ key: rateLimitBuckets.key });
+    return deleted.length > 0;
+  }
+
+  async getLockedRateLimits(): Promise<Array<RateLimitBucket & { retryAfterSeconds: number }>> {
+    return await db
+      .select({
+        key: rateLimitBuckets.key,
+        hits: rateLimitBuckets.hits,
+        windowStartedAt: rateLimitBuckets.windowStartedAt,
+        failures: rateLimitBuckets.failures,
+        lastFailureAt: rateLimitBuckets.lastFailureAt,
+        lockedUntil: rateLimitBuckets.lockedUntil,
+        updatedAt: rateLimitBuckets.updatedAt,
+        retryAfterSeconds: sql<number>`ceil(extract(epoch from ${rateLimitBuckets.lockedUntil} - now()))::int`,
+      })
+      .from(rateLimitBuckets)
+      .where(sql`${rateLimitBuckets.lockedUntil} > now()`)
+      .orderBy(desc(rateLimitBuckets.lockedUntil));
+  }
+
+  // AI usage metering
+  async recordAiUsageEvent(event: InsertAiUsageEvent): Promise<void> {
+    await db.insert(aiUsageEvents).values(event);
+  }
+
+  async getAiUsageTotals(userId: string, since: Date): Promise<AiUsageTotals> {
+    const [totals] = await db
+      .select(this.aiUsageAggregates())
+      .from(aiUsageEvents)
+      .where(and(eq(aiUsageEvents.userId, userId), gte(aiUsageEvents.createdAt, since)));
+    return totals;
+  }
+
+  async getAiUsageReport(from: Date, to: Date): Promise<AiUsageReport> {
+    const inRange = and(gte(aiUsageEvents.createdAt, from), lt(aiUsageEvents.createdAt, to));
+    const aggregates = this.aiUsageAggregates();
+
+    const breakdown = (key: SQL<string>) => db
+      .select({ key, ...aggregates })
+      .from(aiUsageEvents)
+      .where(inRange)
+      .groupBy(key)
+      .orderBy(desc(aggregates.costUsd));
+
+    const day = sql<string>`to_char(date_trunc('day', ${aiUsageEvents.createdAt}), 'YYYY-MM-DD')`;
+
+    const [[totals], byProvider, byDomain, byDay, topUsers] = await Promise.all([
+      db.select(aggregates).from(aiUsageEvents).where(inRange),
+      breakdown(sql<string>`${aiUsageEvents.provider}`),
+      breakdown(sql<string>`${aiUsageEvents.domain}`),
+      db
+        .select({ key: day, ...aggregates })
+        .from(aiUsageEvents)
+        .where(inRange)
+        .groupBy(day)
+        .orderBy(day),
+      db
+        .select({ userId: aiUsageEvents.userId, email: users.email, ...aggregates })
+        .from(aiUsageEvents)
+        .leftJoin(users, eq(aiUsageEvents.userId, users.id))
+        .where(inRange)
+        .groupBy(aiUsageEvents.userId, users.email)
+        .orderBy(desc(aggregates.costUsd))
+        .limit(20),
+    ]);
+
+    return { totals, byProvider, byDomain, byDay, topUsers };
+  }
+
+  private aiUsageAggregates() {
+    return {
+      calls: sql<number>`count(*)::int`,
+      cachedCalls: sql<number>`(count(*) filter (where ${aiUsageEvents.cached}))::int`,
+      tokens: sql<number>`coalesce(sum(${aiUsageEvents.inputTokens} + ${aiUsageEvents.outputTokens}), 0)::int`,
+      costUsd: sql<number>`coalesce(sum(${aiUsageEvents.estimatedCostUsd}), 0)::float8`,
+    };
+  }
+
+  // Error log
+  async recordErrorLog(entry: InsertErrorLog): Promise<void> {
+    await db.insert(errorLogs).values(entry);
+  }
+
+  async listErrorLogs(filters: ErrorLogFilters): Promise<{ entries: ErrorLog[]; total: number }> {
+    const where = this.errorLogConditions(filters);
+
+    const [entries, [{ total }]] = await Promise.all([
+      db.select()
+        .from(errorLogs)
+        .where(where)
+        .orderBy(desc(errorLogs.createdAt))
+        .limit(filters.limit ?? 50)
+        .offset(filters.offset ?? 0),
+      db.select({ total: count() }).from(errorLogs).where(where),
+    ]);
+
+    return { entries, total };
+  }
+
+  async getErrorLogSummary(filters: ErrorLogFilters): Promise<ErrorLogSummary> {
+    const where = this.errorLogConditions(filters);
+    const aggregates = {
+      count: sql<number>`count(*)::int`,
+      fallbacks: sql<number>`(count(*) filter (where ${errorLogs.fallbackUsed}))::int`,
+      lastSeenAt: sql<Date>`max(${errorLogs.createdAt})`.mapWith(errorLogs.createdAt),
+    };
+
+    const breakdown = (key: SQL<string>) => db
+      .select({ key, ...aggregates })
+      .from(errorLogs)
+      .where(where)
+      .groupBy(key);
+
+    const signature = sql<string>`${errorLogs.component} || '.' || ${errorLogs.operation} || ': ' || ${errorLogs.errorType}`;
+    const day = sql<string>`to_char(date_trunc('day', ${errorLogs.createdAt}), 'YYYY-MM-DD')`;
+
+    const [[totals], byComponent, byError, byDay] = await Promise.all([
+      db.select({ total: aggregates.count, fallbacks: aggregates.fallbacks }).from(errorLogs).where(where),
+      breakdown(sql<string>`${errorLogs.component}`).orderBy(desc(aggregates.count)),
+      breakdown(signature).orderBy(desc(aggregates.count)).limit(20),
+      breakdown(day).orderBy(day),
+    ]);
+
+    return { ...totals, byComponent, byError, byDay };
+  }
+
+  async deleteErrorLogsBefore(cutoff: Date): Promise<number> {
+    const deleted = await db
+      .delete(errorLogs)
+      .where(lt(errorLogs.createdAt, cutoff))
+      .returning({ id: errorLogs.id });
+    return deleted.length;
+  }
+
+  private errorLogConditions(filters: ErrorLogFilters): SQL | undefined {
+    const conditions: SQL[] = [];
+    if (filters.component) conditions.push(eq(errorLogs.component, filters.component));
+    if (filters.operation) conditions.push(eq(errorLogs.operation, filters.operation));
+    if (filters.errorType) conditions.push(eq(errorLogs.errorType, filters.errorType));
+    if (filters.userId) conditions.push(eq(errorLogs.userId, filters.userId));
+    if (filters.sessionId) conditions.push(eq(errorLogs.sessionId, filters.sessionId));
+    if (filters.correlationId) conditions.push(eq(errorLogs.correlationId, filters.correlationId));
+    if (filters.fallbackUsed !== undefined) conditions.push(eq(errorLogs.fallbackUsed, filters.fallbackUsed));
+    if (filters.search) conditions.push(ilike(errorLogs.message, `%${filters.search}%`));
+    if (filters.from) conditions.push(gte(errorLogs.createdAt, filters.from));
+    if (filters.to) conditions.push(lt(errorLogs.createdAt, filters.to));
+    return conditions.length > 0 ? and(...conditions) : undefined;
+  }
+
+  // Shared report links
+  async createSharedReport(report: InsertSharedReport): Promise<SharedReport> {
+    const [created] = await db
+      .insert(sharedReports)
+      .values(report)
+      .returning();
+    return created;
+  }
+
+  async getSharedReports(userId: string, sessionId: string): Promise<SharedReport[]> {
+    return db
+      .select()
+      .from(sharedReports)
+      .where(and(eq(sharedReports.userId, userId), eq(sharedReports.sessionId, sessionId)))
+      .orderBy(desc(sharedReports.createdAt));
+  }
+
+  // Counts the view and returns the link only while it is neither revoked nor expired
+  async viewSharedReport(tokenHash: string): Promise<SharedReport | undefined> {
+    const now = new Date();
+    const [report] = await db
+      .update(sharedReports)
+      .set({ viewCount: sql`${sharedReports.viewCount} + 1`, lastViewedAt: now })
+      .where(and(
+        eq(sharedReports.tokenHash, tokenHash),
+        isNull(sharedReports.revokedAt),
+        or(isNull(sharedReports.expiresAt), gt(sharedReports.expiresAt, now))
+      ))
+      .returning();
+    return report;
+  }
+
+  async revokeSharedReport(id: string, userId: string): Promise<boolean> {
+    const revoked = await db
+      .update(sharedReports)
+      .set({ revokedAt: new Date() })
+      .where(and(
+        eq(sharedReports.id, id),
+        eq(sharedReports.userId, userId),
+        isNull(sharedReports.revokedAt)
+      ))
+      .returning({ id: sharedReports.id });
+    return revoked.length > 0;
+  }
+
+  // Recorded voice answers
+  async createVoiceRecording(recording: InsertVoiceRecording): Promise<VoiceRecording> {
+    const [created] = await db
+      .insert(voiceRecordings)
+      .values(recording)
+      .returning();
+    return created;
+  }
+
+  async getVoiceRecording(id: string): Promise<VoiceRecording | undefined> {
+    const [recording] = await db.select().from(voiceRecordings).where(eq(voiceRecordings.id, id));
+    return recording;
+  }
+
+  async getVoiceRecordingsForSession(sessionId: string): Promise<VoiceRecording[]> {
+    return db.select().from(voiceRecordings).where(eq(voiceRecordings.sessionId, sessionId));
+  }
+
+  async getVoiceRecordingsForUser(userId: string): Promise<VoiceRecording[]> {
+    return db.select().from(voiceRecordings).where(eq(voiceRecordings.userId, userId));
+  }
+
+  async getExpiredVoiceRecordings(before: Date, limit: number): Promise<VoiceRecording[]> {
+    return db
+      .select()
+      .from(voiceRecordings)
+      .where(lt(voiceRecordings.expiresAt, before))
+      .orderBy(voiceRecordings.expiresAt)
+      .limit(limit);
+  }
+
+  // Only the recording's owner can link it; false when the recording isn't theirs
+  // A null audioFileUrl attaches the recording but keeps the response's current audio (follow-up answers)
+  async linkVoiceRecordingToResponse(id: string, userId: string, responseId: string, audioFileUrl: string | null): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const linked = await tx
+        .update(voiceRecordings)
+        .set({ responseId })
+        .where(and(eq(voiceRecordings.id, id), eq(voiceRecordings.userId, userId)))
+        .returning({ id: voiceRecordings.id });
+      if (linked.length === 0) return false;
+
+      if (audioFileUrl) {
+        await tx.update(aiPrepareResponses).set({ audioFileUrl }).where(eq(aiPrepareResponses.id, responseId));
+      }
+      return true;
+    });
+  }
+
+  // Removes the row and the response's link to it when it is the response's audio; the caller deletes the audio from the recording store
+  async deleteVoiceRecording(id: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [deleted] = await tx
+        .delete(voiceRecordings)
+        .where(eq(voiceRecordings.id, id))
+        .returning({ responseId: voiceRecordings.responseId });
+      if (deleted?.responseId) {
+        await tx.update(aiPrepareResponses).set({ audioFileUrl: null }).where(and(
+          eq(aiPrepareResponses.id, deleted.responseId),
+          ilike(aiPrepareResponses.audioFileUrl, `%/${id}`)
+        ));
+      }
+    });
+  }
+
+  async getVoiceRecordingSettings(userId: string): Promise<VoiceRecordingSettings | undefined> {
+    const [settings] = await db.select().from(voiceRecordingSettings).where(eq(voiceRecordingSettings.userId, userId));
+    return settings;
+  }
+
+  async upsertVoiceRecordingSettings(
+    userId: string,
+    settings: { storeRecordings: boolean; retentionDays: number | null }
+  ): Promise<VoiceRecordingSettings> {
+    const [saved] = await db
+      .insert(voiceRecordingSettings)
+      .values({ userId, ...settings, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: voiceRecordingSettings.userId,
+        set: { ...settings, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Re-dates the user's existing recordings from their creation time under a new retention period
+  async setVoiceRecordingRetention(userId: string, retentionDays: number | null): Promise<void> {
+    await db
+      .update(voiceRecordings)
+      .set({
+        expiresAt: retentionDays === null
+          ? null
+          : sql`${voiceRecordings.createdAt} + ${retentionDays}::int * interval '1 day'`
+      })
+      .where(eq(voiceRecordings.userId, userId));
+  }
+
   // Interview scenario operations
   async getInterviewScenarios(stage?: string): Promise<InterviewScenarioWithStats[]> {
     const baseQuery = db
@@ -601,6 +1279,12 @@ export class DatabaseStorage implements IStorage {
     return evaluation;
   }
 
+  async updateEvaluationShareableData(sessionId: string, shareableData: AiEvaluationResult['shareableData']): Promise<void> {
+    await db.update(aiEvaluationResults)
+      .set({ shareableData, updatedAt: new Date() })
+      .where(eq(aiEvaluationResults.sessionId, sessionId));
+  }
+
   // Batch version to avoid N+1 queries with safety limits
   async getBatchEvaluationResults(sessionIds: string[]): Promise<AiEvaluationResult[]> {
     if (sessionIds.length === 0) return [];
@@ -1376,6 +2060,26 @@ export class DatabaseStorage implements IStorage {
     return updatedReport;
   }
 
+  // Practice response evaluations
+  async createPracticeResponseEvaluations(evaluations: InsertPracticeResponseEvaluation[]): Promise<PracticeResponseEvaluation[]> {
+    if (evaluations.length === 0) {
+      return [];
+    }
+
+    return await db
+      .insert(practiceResponseEvaluations)
+      .values(evaluations)
+      .returning();
+  }
+
+  async getPracticeResponseEvaluations(sessionId: string): Promise<PracticeResponseEvaluation[]> {
+    return await db
+      .select()
+      .from(practiceResponseEvaluations)
+      .where(eq(practiceResponseEvaluations.sessionId, sessionId))
+      .orderBy(practiceResponseEvaluations.questionNumber);
+  }
+
   // Practice overview/analytics
   async getPracticeOverview(userId: string): Promise<PracticeSessionOverview> {
     const sessions = await db
@@ -1418,6 +2122,137 @@ export class DatabaseStorage implements IStorage {
       improvementTrends,
     };
   }
+
+  // ================================
+  // AI PREPARE SESSION METHODS
+  // ================================
+
+  async getUserAiPrepareSessions(userId: string, limit: number = 20): Promise<AiPrepareSessionWithResponses[]> {
+    return await db.query.aiPrepareSessions.findMany({
+      where: eq(aiPrepareSessions.userId, userId),
+      orderBy: [desc(aiPrepareSessions.createdAt)],
+      limit,
+      with: {
+        responses: true
+      }
+    });
+  }
+
+  // ================================
+  // JOB DESCRIPTION LIBRARY METHODS
+  // ================================
+
+  async createJobDescription(jobDescription: InsertJobDescription): Promise<JobDescription> {
+    const [newJobDescription] = await db
+      .insert(jobDescriptions)
+      .values(jobDescription)
+      .returning();
+    return newJobDescription;
+  }
+
+  async getJobDescription(id: string): Promise<JobDescription | undefined> {
+    const [jobDescription] = await db
+      .select()
+      .from(jobDescriptions)
+      .where(eq(jobDescriptions.id, id));
+    return jobDescription;
+  }
+
+  async getUserJobDescriptions(userId: string): Promise<JobDescription[]> {
+    return await db
+      .select()
+      .from(jobDescriptions)
+      .where(eq(jobDescriptions.userId, userId))
+      .orderBy(desc(jobDescriptions.uploadedAt));
+  }
+
+  async deleteJobDescription(id: string): Promise<void> {
+    await db.delete(jobDescriptions).where(eq(jobDescriptions.id, id));
+  }
+
+  // ================================
+  // TRANSLATION MEMORY METHODS
+  // ================================
+
+  async getTranslationMemoryEntry(sourceHash: string, targetLanguage: string): Promise<TranslationMemoryEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(translationMemory)
+      .where(and(
+        eq(translationMemory.sourceHash, sourceHash),
+        eq(translationMemory.targetLanguage, targetLanguage)
+      ));
+    return entry;
+  }
+
+  async getTranslationMemoryEntryById(id: string): Promise<TranslationMemoryEntry | undefined> {
+    const [entry] = await db.select().from(translationMemory).where(eq(translationMemory.id, id));
+    return entry;
+  }
+
+  async listTranslationMemory(filters: TranslationMemoryFilters): Promise<{ entries: TranslationMemoryEntry[]; total: number }> {
+    const conditions: SQL[] = [];
+    if (filters.targetLanguage) conditions.push(eq(translationMemory.targetLanguage, filters.targetLanguage));
+    if (filters.quality) conditions.push(eq(translationMemory.quality, filters.quality));
+    if (filters.pinned !== undefined) conditions.push(eq(translationMemory.pinned, filters.pinned));
+    if (filters.search) {
+      const pattern = `%${filters.search}%`;
+      conditions.push(or(ilike(translationMemory.sourceText, pattern), ilike(translationMemory.translatedText, pattern))!);
+    }
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [entries, [{ total }]] = await Promise.all([
+      db.select()
+        .from(translationMemory)
+        .where(where)
+        .orderBy(desc(translationMemory.hitCount), desc(translationMemory.updatedAt))
+        .limit(filters.limit ?? 50)
+        .offset(filters.offset ?? 0),
+      db.select({ total: count() }).from(translationMemory).where(where),
+    ]);
+
+    return { entries, total };
+  }
+
+  async upsertTranslationMemoryEntry(
+    entry: InsertTranslationMemoryEntry,
+    options: { preservePinned?: boolean } = {}
+  ): Promise<TranslationMemoryEntry | undefined> {
+    const { sourceHash, targetLanguage, ...updates } = entry;
+    // With preservePinned, a conflicting pinned row is left as is and nothing is returned
+    const [saved] = await db
+      .insert(translationMemory)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: [translationMemory.sourceHash, translationMemory.targetLanguage],
+        set: { ...updates, updatedAt: new Date() },
+        ...(options.preservePinned && { setWhere: eq(translationMemory.pinned, false) }),
+      })
+      .returning();
+    return saved;
+  }
+
+  async updateTranslationMemoryEntry(
+    id: string,
+    updates: Partial<InsertTranslationMemoryEntry>
+  ): Promise<TranslationMemoryEntry | undefined> {
+    const [entry] = await db
+      .update(translationMemory)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(translationMemory.id, id))
+      .returning();
+    return entry;
+  }
+
+  async recordTranslationMemoryHit(id: string): Promise<void> {
+    await db
+      .update(translationMemory)
+      .set({
+        hitCount: sql`${translationMemory.hitCount} + 1`,
+        lastUsedAt: new Date(),
+      })
+      .where(eq(translationMemory.id, id));
+  }
 }
 
 export const storage = new DatabaseStorage();
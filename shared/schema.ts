@@ -8,6 +8,7 @@ import {
   jsonb,
   boolean,
   index,
+  uniqueIndex,
   uuid,
   numeric,
 } from "drizzle-orm/pg-core";
@@ -48,11 +49,109 @@ export const users = pgTable("users", {
   profileImageUrl: varchar("profile_image_url"),
   passwordHash: varchar("password_hash"), // For secure password authentication
   role: varchar("role").default("user"), // user, admin
+  emailVerifiedAt: timestamp("email_verified_at"), // null until the signup verification link is redeemed
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-// Interview scenarios table
+// Password reset tokens (only the SHA-256 hash of the emailed token is stored)
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"), // set once the token has been redeemed
+  requestedIp: varchar("requested_ip", { length: 64 }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_password_reset_tokens_user").on(table.userId)]);
+
+// Email verification tokens issued at signup (hashed like password reset tokens)
+export const emailVerificationTokens = pgTable("email_verification_tokens", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_email_verification_tokens_user").on(table.userId)]);
+
+// Rate limit buckets shared by login brute-force protection and expensive AI endpoints
+// Keys are scoped, e.g. "login:email:jane@example.com", "login:ip:10.0.0.1", "ai-question:user:<id>"
+export const rateLimitBuckets = pgTable("rate_limit_buckets", {
+  key: varchar("key", { length: 255 }).primaryKey(),
+  
+  // Fixed-window request counting
+  hits: integer("hits").notNull().default(0),
+  windowStartedAt: timestamp("window_started_at").defaultNow(),
+  
+  // Failure tracking with exponential backoff lockout
+  failures: integer("failures").notNull().default(0),
+  lastFailureAt: timestamp("last_failure_at"),
+  lockedUntil: timestamp("locked_until"),
+  
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_rate_limit_buckets_locked").on(table.lockedUntil)]);
+
+// One row per AI call (generation, cache hit or transcription), for per-user quotas and spend reporting
+export const aiUsageEvents = pgTable("ai_usage_events", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }), // null for background/system calls
+  sessionId: varchar("session_id"), // Prepare or Practice session the call was made for, when known
+  
+  // What was called
+  provider: varchar("provider", { length: 20 }).notNull(), // sealion, openai, bedrock, anthropic, mock
+  model: varchar("model", { length: 100 }),
+  domain: varchar("domain", { length: 40 }).notNull(), // feature: interview, evaluation, translation, transcription...
+  
+  // Cost (token counts are estimates for providers that don't report usage)
+  inputTokens: integer("input_tokens").notNull().default(0),
+  outputTokens: integer("output_tokens").notNull().default(0),
+  audioSeconds: numeric("audio_seconds", { precision: 10, scale: 2 }),
+  estimatedCostUsd: numeric("estimated_cost_usd", { precision: 12, scale: 6 }).notNull().default("0"),
+  latencyMs: integer("latency_ms").notNull().default(0),
+  cached: boolean("cached").notNull().default(false),
+  
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_ai_usage_events_user_created").on(table.userId, table.createdAt),
+  index("IDX_ai_usage_events_created").on(table.createdAt),
+]);
+
+// Errors recorded by ErrorLogger, kept across restarts for the admin error console
+export const errorLogs = pgTable("error_logs", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  component: varchar("component", { length: 50 }).notNull(), // SeaLion, Authentication, Database, API...
+  operation: varchar("operation", { length: 100 }).notNull(),
+  errorType: varchar("error_type", { length: 100 }).notNull(),
+  message: text("message").notNull(),
+  fallbackUsed: boolean("fallback_used").notNull().default(false),
+  context: jsonb("context"),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+  sessionId: varchar("session_id"),
+  correlationId: varchar("correlation_id", { length: 64 }), // request or socket event that raised the error
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_error_logs_created").on(table.createdAt),
+  index("IDX_error_logs_correlation").on(table.correlationId),
+  index("IDX_error_logs_component_created").on(table.component, table.createdAt),
+]);
+
+// Public read-only links to an anonymized snapshot of an interview evaluation (token stored hashed like auth tokens)
+export const sharedReports = pgTable("shared_reports", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  sessionId: varchar("session_id").notNull(), // interview session the evaluation belongs to
+  snapshot: jsonb("snapshot").notNull(), // anonymized copy taken when the link was created
+  expiresAt: timestamp("expires_at"), // null = never expires
+  revokedAt: timestamp("revoked_at"),
+  viewCount: integer("view_count").notNull().default(0),
+  lastViewedAt: timestamp("last_viewed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("IDX_shared_reports_user_session").on(table.userId, table.sessionId),
+]);
+
 export const interviewScenarios = pgTable("interview_scenarios", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   title: varchar("title", { length: 255 }).notNull(),
@@ -204,6 +303,58 @@ export const aiEvaluationResults = pgTable("ai_evaluation_results", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// ===========================================
+// JOB DESCRIPTION LIBRARY
+// ===========================================
+
+// Uploaded job descriptions with extracted text, reusable across sessions
+export const jobDescriptions = pgTable("job_descriptions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  
+  // Original File
+  fileName: varchar("file_name", { length: 255 }).notNull(),
+  mimeType: varchar("mime_type", { length: 100 }).notNull(),
+  fileSize: integer("file_size").notNull(), // bytes
+  storagePath: text("storage_path").notNull(), // server-side path of the original upload
+  
+  // Extracted Content
+  content: text("content").notNull(), // plain text extracted from the file
+  requirements: jsonb("requirements").default("[]"), // array of strings
+  skills: jsonb("skills").default("[]"), // array of strings
+  responsibilities: jsonb("responsibilities").default("[]"), // array of strings
+  
+  uploadedAt: timestamp("uploaded_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [index("IDX_job_descriptions_user").on(table.userId)]);
+
+// Translation memory: one translation per source text (SHA-256 of the trimmed text) and target language.
+// AI output is stored as "machine"; admins can approve, correct or flag entries, and pinned entries are never overwritten.
+export const translationMemory = pgTable("translation_memory", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  sourceHash: varchar("source_hash", { length: 64 }).notNull(),
+  sourceText: text("source_text").notNull(),
+  targetLanguage: varchar("target_language", { length: 10 }).notNull(),
+  translatedText: text("translated_text").notNull(),
+  
+  // Review State
+  quality: varchar("quality", { length: 20 }).notNull().default("machine"), // machine, approved, corrected, flagged
+  pinned: boolean("pinned").notNull().default(false), // human-approved wording that AI output must not replace
+  translatedBy: varchar("translated_by", { length: 20 }).notNull(), // sealion, openai, admin
+  reviewedBy: varchar("reviewed_by").references(() => users.id, { onDelete: "set null" }),
+  reviewedAt: timestamp("reviewed_at"),
+  
+  // Usage
+  hitCount: integer("hit_count").notNull().default(0),
+  lastUsedAt: timestamp("last_used_at"),
+  
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("IDX_translation_memory_source").on(table.sourceHash, table.targetLanguage),
+  index("IDX_translation_memory_review").on(table.targetLanguage, table.quality),
+]);
+
 // ===========================================
 // PRACTICE MODULE TABLES
 // ===========================================
@@ -220,11 +371,13 @@ export const practiceSessions = pgTable("practice_sessions", {
   interviewStage: varchar("interview_stage", { length: 100 }).notNull(),
   difficultyLevel: varchar("difficulty_level", { length: 20 }).default("intermediate"),
   preferredLanguage: varchar("preferred_language", { length: 10 }).default("en"),
+  jobDescriptionId: uuid("job_description_id").references(() => jobDescriptions.id, { onDelete: "set null" }),
   
   // Session State
   status: varchar("status", { length: 20 }).default("active"), // active, completed, abandoned
   currentQuestionNumber: integer("current_question_number").default(1),
   totalQuestions: integer("total_questions").default(25),
+  followUpsPerQuestion: integer("follow_ups_per_question").default(1), // probes for a weak STAR action or result, 0 turns them off
   
   // Session Timing
   startedAt: timestamp("started_at").defaultNow(),
@@ -242,13 +395,14 @@ export const practiceMessages = pgTable("practice_messages", {
   sessionId: uuid("session_id").notNull().references(() => practiceSessions.id, { onDelete: "cascade" }),
   
   // Message Content
-  messageType: varchar("message_type", { length: 20 }).notNull(), // "ai_question", "user_response"
+  messageType: varchar("message_type", { length: 20 }).notNull(), // "ai_question", "ai_follow_up", "user_response"
   content: text("content").notNull(),
   questionNumber: integer("question_number"),
   
   // Message Metadata
   inputMethod: varchar("input_method", { length: 20 }).default("text"), // "text", "voice"
   language: varchar("language", { length: 10 }).default("en"),
+  probedElement: varchar("probed_element", { length: 10 }), // ProbedStarElement an ai_follow_up targeted
   
   // Timing
   responseTime: integer("response_time"), // seconds for user responses
@@ -292,6 +446,8 @@ export const practiceReports = pgTable("practice_reports", {
   // Performance Insights
   keyInsights: jsonb("key_insights").default("[]"),
   recommendedActions: jsonb("recommended_actions").default("[]"),
+  requirementCoverage: jsonb("requirement_coverage"), // SessionRequirementCoverage when a job description is attached
+  questionEvaluations: jsonb("question_evaluations").default("[]"), // PracticeQuestionEvaluationSummary[], one per answered question
   
   // Report Metadata
   evaluatedBy: varchar("evaluated_by", { length: 50 }).default("ai"), // "ai", "manual"
@@ -301,6 +457,59 @@ export const practiceReports = pgTable("practice_reports", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// The 9-criteria rubric in display order: score column (same name in practice_reports and ai_evaluation_results) and weight in %
+export const RUBRIC_CRITERIA = [
+  { column: 'relevanceScore', label: 'Response Relevance', weight: 15 },
+  { column: 'starStructureScore', label: 'STAR Structure', weight: 15 },
+  { column: 'specificEvidenceScore', label: 'Specific Evidence', weight: 15 },
+  { column: 'roleAlignmentScore', label: 'Role Alignment', weight: 15 },
+  { column: 'outcomeOrientedScore', label: 'Outcome Focus', weight: 15 },
+  { column: 'communicationScore', label: 'Communication', weight: 10 },
+  { column: 'problemSolvingScore', label: 'Problem-Solving', weight: 10 },
+  { column: 'culturalFitScore', label: 'Cultural Fit', weight: 5 },
+  { column: 'learningAgilityScore', label: 'Learning Agility', weight: 5 },
+] as const;
+
+export type RubricColumn = typeof RUBRIC_CRITERIA[number]['column'];
+
+// Practice response evaluations for answer-by-answer drill-down
+export const practiceResponseEvaluations = pgTable("practice_response_evaluations", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: uuid("session_id").notNull().references(() => practiceSessions.id, { onDelete: "cascade" }),
+  messageId: uuid("message_id").references(() => practiceMessages.id, { onDelete: "set null" }), // the user_response that was evaluated
+  
+  // Question and Answer
+  questionNumber: integer("question_number").notNull(),
+  questionText: text("question_text").notNull(),
+  responseText: text("response_text").notNull(),
+  
+  // 9-Criteria Official Rubric Scores (1-5 scale)
+  relevanceScore: numeric("relevance_score", { precision: 5, scale: 2 }),
+  starStructureScore: numeric("star_structure_score", { precision: 5, scale: 2 }),
+  specificEvidenceScore: numeric("specific_evidence_score", { precision: 5, scale: 2 }),
+  roleAlignmentScore: numeric("role_alignment_score", { precision: 5, scale: 2 }),
+  outcomeOrientedScore: numeric("outcome_oriented_score", { precision: 5, scale: 2 }),
+  communicationScore: numeric("communication_score", { precision: 5, scale: 2 }),
+  problemSolvingScore: numeric("problem_solving_score", { precision: 5, scale: 2 }),
+  culturalFitScore: numeric("cultural_fit_score", { precision: 5, scale: 2 }),
+  learningAgilityScore: numeric("learning_agility_score", { precision: 5, scale: 2 }),
+  weightedOverallScore: numeric("weighted_overall_score", { precision: 5, scale: 2 }),
+  overallRating: varchar("overall_rating", { length: 30 }), // Pass, Borderline, Needs Improvement
+  
+  // STAR Breakdown and Feedback
+  starScores: jsonb("star_scores").notNull(), // {situation: 4, task: 3, action: 5, result: 4, overall: 4}
+  detailedFeedback: jsonb("detailed_feedback").notNull(), // {strengths: [], weaknesses: [], suggestions: []}
+  modelAnswer: text("model_answer"),
+  completenessScore: numeric("completeness_score", { precision: 5, scale: 2 }),
+  requirementCoverage: jsonb("requirement_coverage"), // JobRequirementCoverage when a job description is attached
+  followUps: jsonb("follow_ups").default("[]"), // FollowUpExchange[] evaluated together with the answer
+  
+  // Evaluation Metadata
+  evaluatedBy: varchar("evaluated_by", { length: 20 }), // sealion, openai, rule-based
+  
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_practice_response_evaluations_session").on(table.sessionId, table.questionNumber)]);
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   createdScenarios: many(interviewScenarios),
@@ -353,6 +562,18 @@ export const insertUserSchema = createInsertSchema(users).pick({
   role: true,
 });
 
+export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTokens).omit({
+  id: true,
+  usedAt: true,
+  createdAt: true,
+});
+
+export const insertEmailVerificationTokenSchema = createInsertSchema(emailVerificationTokens).omit({
+  id: true,
+  usedAt: true,
+  createdAt: true,
+});
+
 export const insertInterviewScenarioSchema = createInsertSchema(interviewScenarios).omit({
   id: true,
   createdAt: true,
@@ -381,6 +602,17 @@ export const insertAiEvaluationResultSchema = createInsertSchema(aiEvaluationRes
 // Types
 export type UpsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
+export type EmailVerificationToken = typeof emailVerificationTokens.$inferSelect;
+export type InsertEmailVerificationToken = z.infer<typeof insertEmailVerificationTokenSchema>;
+export type RateLimitBucket = typeof rateLimitBuckets.$inferSelect;
+export type AiUsageEvent = typeof aiUsageEvents.$inferSelect;
+export type InsertAiUsageEvent = z.infer<typeof insertAiUsageEventSchema>;
+export type ErrorLog = typeof errorLogs.$inferSelect;
+export type InsertErrorLog = z.infer<typeof insertErrorLogSchema>;
+export type SharedReport = typeof sharedReports.$inferSelect;
+export type InsertSharedReport = z.infer<typeof insertSharedReportSchema>;
 export type InsertInterviewScenario = z.infer<typeof insertInterviewScenarioSchema>;
 export type InterviewScenario = typeof interviewScenarios.$inferSelect;
 export type InsertInterviewSession = z.infer<typeof insertInterviewSessionSchema>;
@@ -407,16 +639,6 @@ export type InterviewType = 'phone-screening' | 'functional-team' | 'hiring-mana
 
 export type InterviewStage = 'setup' | 'practice' | 'evaluation' | 'complete';
 
-export interface JobDescription {
-  id: string;
-  userId: string;
-  fileName: string;
-  content: string;
-  uploadedAt: Date;
-  fileSize?: number;
-  fileUrl?: string;
-}
-
 export interface Question {
   id: string;
   text: string;
@@ -1174,6 +1396,7 @@ export const aiPrepareSessions = pgTable("ai_prepare_sessions", {
   interviewStage: varchar("interview_stage", { length: 50 }).notNull(), // phone-screening, functional-team, etc.
   experienceLevel: varchar("experience_level", { length: 20 }).notNull(), // intermediate, senior, expert
   preferredLanguage: varchar("preferred_language", { length: 10 }).default("en"),
+  jobDescriptionId: uuid("job_description_id").references(() => jobDescriptions.id, { onDelete: "set null" }),
   
   // AI Configuration
   difficultyLevel: varchar("difficulty_level", { length: 20 }).default("adaptive"), // adaptive, beginner, intermediate, advanced
@@ -1181,6 +1404,7 @@ export const aiPrepareSessions = pgTable("ai_prepare_sessions", {
   questionCategories: jsonb("question_categories").default("[]"),
   maxQuestions: integer("max_questions").default(20),
   timeLimitMinutes: integer("time_limit_minutes").default(60),
+  followUpsPerQuestion: integer("follow_ups_per_question").default(1), // probes for a weak STAR action or result, 0 turns them off
   
   // Session State
   status: varchar("status", { length: 20 }).default("active"), // active, completed, paused, abandoned
@@ -1255,7 +1479,9 @@ export const aiPrepareResponses = pgTable("ai_prepare_responses", {
   audioFileUrl: text("audio_file_url"),
   audioDuration: integer("audio_duration"), // seconds
   transcriptionConfidence: numeric("transcription_confidence", { precision: 3, scale: 2 }),
-  
+  deliveryMetrics: jsonb("delivery_metrics"), // DeliveryMetrics: pace, fillers, pauses, speaking time
+  followUps: jsonb("follow_ups").default("[]"), // FollowUpExchange[] asked after this answer and evaluated with it
+
   // AI Evaluation Results
   starScores: jsonb("star_scores").notNull(), // {situation: 4, task: 3, action: 5, result: 4, overall: 4}
   detailedFeedback: jsonb("detailed_feedback").notNull(), // {strengths: [], weaknesses: [], suggestions: []}
@@ -1267,6 +1493,7 @@ export const aiPrepareResponses = pgTable("ai_prepare_responses", {
   communicationScore: numeric("communication_score", { precision: 3, scale: 2 }),
   completenessScore: numeric("completeness_score", { precision: 3, scale: 2 }),
   improvementAreas: jsonb("improvement_areas").default("[]"),
+  requirementCoverage: jsonb("requirement_coverage"), // JobRequirementCoverage when a job description is attached
   
   // Evaluation Metadata
   evaluatedBy: varchar("evaluated_by", { length: 20 }).default("sealion"),
@@ -1310,6 +1537,33 @@ export const aiPrepareAnalytics = pgTable("ai_prepare_analytics", {
   
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [uniqueIndex("IDX_ai_prepare_analytics_session").on(table.sessionId)]);
+
+// Recorded voice answers; the audio itself lives in the recording store (local disk or S3), keyed by storageKey
+export const voiceRecordings = pgTable("voice_recordings", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  sessionId: uuid("session_id").notNull().references(() => aiPrepareSessions.id, { onDelete: "cascade" }),
+  questionId: uuid("question_id"),
+  responseId: uuid("response_id").references(() => aiPrepareResponses.id, { onDelete: "set null" }), // set once the answer is evaluated
+  storageBackend: varchar("storage_backend", { length: 10 }).notNull(), // local, s3
+  storageKey: text("storage_key").notNull(),
+  contentType: varchar("content_type", { length: 100 }).notNull(),
+  sizeBytes: integer("size_bytes").notNull(),
+  durationSeconds: integer("duration_seconds"),
+  expiresAt: timestamp("expires_at"), // null keeps the recording until the user deletes it
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("IDX_voice_recordings_session").on(table.sessionId),
+  index("IDX_voice_recordings_expires").on(table.expiresAt),
+]);
+
+// Per-user choices for keeping recorded answers; users without a row get the server defaults
+export const voiceRecordingSettings = pgTable("voice_recording_settings", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  storeRecordings: boolean("store_recordings").notNull().default(true),
+  retentionDays: integer("retention_days"), // null keeps recordings until deleted
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
 // Relations for AI Prepare Module
@@ -1321,6 +1575,10 @@ export const aiPrepareSessionsRelations = relations(aiPrepareSessions, ({ one, m
   questions: many(aiPrepareQuestions),
   responses: many(aiPrepareResponses),
   analytics: one(aiPrepareAnalytics),
+  jobDescription: one(jobDescriptions, {
+    fields: [aiPrepareSessions.jobDescriptionId],
+    references: [jobDescriptions.id],
+  }),
 }));
 
 export const aiPrepareQuestionsRelations = relations(aiPrepareQuestions, ({ one, many }) => ({
@@ -1361,6 +1619,19 @@ export const practiceSessionsRelations = relations(practiceSessions, ({ one, man
   }),
   messages: many(practiceMessages),
   report: one(practiceReports),
+  responseEvaluations: many(practiceResponseEvaluations),
+  jobDescription: one(jobDescriptions, {
+    fields: [practiceSessions.jobDescriptionId],
+    references: [jobDescriptions.id],
+  }),
+}));
+
+// Job description library relations
+export const jobDescriptionsRelations = relations(jobDescriptions, ({ one }) => ({
+  user: one(users, {
+    fields: [jobDescriptions.userId],
+    references: [users.id],
+  }),
 }));
 
 export const practiceMessagesRelations = relations(practiceMessages, ({ one }) => ({
@@ -1381,6 +1652,17 @@ export const practiceReportsRelations = relations(practiceReports, ({ one }) =>
   }),
 }));
 
+export const practiceResponseEvaluationsRelations = relations(practiceResponseEvaluations, ({ one }) => ({
+  session: one(practiceSessions, {
+    fields: [practiceResponseEvaluations.sessionId],
+    references: [practiceSessions.id],
+  }),
+  message: one(practiceMessages, {
+    fields: [practiceResponseEvaluations.messageId],
+    references: [practiceMessages.id],
+  }),
+}));
+
 // Insert schemas for AI Prepare Module
 export const insertAiPrepareSessionSchema = createInsertSchema(aiPrepareSessions).omit({
   id: true,
@@ -1405,6 +1687,12 @@ export const insertAiPrepareAnalyticsSchema = createInsertSchema(aiPrepareAnalyt
   updatedAt: true,
 });
 
+export const insertVoiceRecordingSchema = createInsertSchema(voiceRecordings).omit({
+  id: true,
+  responseId: true,
+  createdAt: true,
+});
+
 // Insert schemas for Practice Module
 export const insertPracticeSessionSchema = createInsertSchema(practiceSessions).omit({
   id: true,
@@ -1423,6 +1711,48 @@ export const insertPracticeReportSchema = createInsertSchema(practiceReports).om
   updatedAt: true,
 });
 
+export const insertPracticeResponseEvaluationSchema = createInsertSchema(practiceResponseEvaluations).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Insert schema for Job Description Library
+export const insertJobDescriptionSchema = createInsertSchema(jobDescriptions).omit({
+  id: true,
+  uploadedAt: true,
+  updatedAt: true,
+});
+
+// Insert schema for AI usage metering
+export const insertAiUsageEventSchema = createInsertSchema(aiUsageEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Insert schema for the error log
+export const insertErrorLogSchema = createInsertSchema(errorLogs).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Insert schema for shared report links
+export const insertSharedReportSchema = createInsertSchema(sharedReports).omit({
+  id: true,
+  revokedAt: true,
+  viewCount: true,
+  lastViewedAt: true,
+  createdAt: true,
+});
+
+// Insert schema for Translation Memory
+export const insertTranslationMemorySchema = createInsertSchema(translationMemory).omit({
+  id: true,
+  hitCount: true,
+  lastUsedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 // Types for AI Prepare Module
 export type AiPrepareSession = typeof aiPrepareSessions.$inferSelect;
 export type InsertAiPrepareSession = z.infer<typeof insertAiPrepareSessionSchema>;
@@ -1432,6 +1762,9 @@ export type AiPrepareResponse = typeof aiPrepareResponses.$inferSelect;
 export type InsertAiPrepareResponse = z.infer<typeof insertAiPrepareResponseSchema>;
 export type AiPrepareAnalytics = typeof aiPrepareAnalytics.$inferSelect;
 export type InsertAiPrepareAnalytics = z.infer<typeof insertAiPrepareAnalyticsSchema>;
+export type VoiceRecording = typeof voiceRecordings.$inferSelect;
+export type InsertVoiceRecording = z.infer<typeof insertVoiceRecordingSchema>;
+export type VoiceRecordingSettings = typeof voiceRecordingSettings.$inferSelect;
 
 // Extended types for API responses
 export type AiPrepareSessionWithDetails = AiPrepareSession & {
@@ -1447,6 +1780,10 @@ export type AiPrepareQuestionWithResponse = AiPrepareQuestion & {
   nextQuestion?: AiPrepareQuestion;
 };
 
+export type AiPrepareSessionWithResponses = AiPrepareSession & {
+  responses: AiPrepareResponse[];
+};
+
 export type AiPrepareSessionProgress = {
   sessionId: string;
   overallProgress: number;
@@ -1465,6 +1802,8 @@ export type PracticeMessage = typeof practiceMessages.$inferSelect;
 export type InsertPracticeMessage = z.infer<typeof insertPracticeMessageSchema>;
 export type PracticeReport = typeof practiceReports.$inferSelect;
 export type InsertPracticeReport = z.infer<typeof insertPracticeReportSchema>;
+export type PracticeResponseEvaluation = typeof practiceResponseEvaluations.$inferSelect;
+export type InsertPracticeResponseEvaluation = z.infer<typeof insertPracticeResponseEvaluationSchema>;
 
 // Extended types for API responses
 export type PracticeSessionWithMessages = PracticeSession & {
@@ -1472,6 +1811,18 @@ export type PracticeSessionWithMessages = PracticeSession & {
   report?: PracticeReport;
 };
 
+// Per-question result stored on a practice report
+export type PracticeQuestionEvaluationSummary = {
+  questionNumber: number;
+  questionText: string;
+  responseText: string;
+  weightedOverallScore: number;
+  overallRating: 'Pass' | 'Borderline' | 'Needs Improvement';
+  strengths: string[];
+  suggestions: string[];
+  followUps?: FollowUpExchange[];
+};
+
 export type PracticeSessionOverview = {
   totalSessions: number;
   completedSessions: number;
@@ -1484,6 +1835,75 @@ export type PracticeSessionOverview = {
   }[];
 };
 
+// Types for Job Description Library
+export type JobDescription = typeof jobDescriptions.$inferSelect;
+export type InsertJobDescription = z.infer<typeof insertJobDescriptionSchema>;
+
+// Types for Translation Memory
+export type TranslationMemoryEntry = typeof translationMemory.$inferSelect;
+export type InsertTranslationMemoryEntry = z.infer<typeof insertTranslationMemorySchema>;
+export type TranslationQuality = 'machine' | 'approved' | 'corrected' | 'flagged';
+
+// Job description as returned by the API (storage path replaced by a download URL)
+export type JobDescriptionSummary = Omit<JobDescription, 'storagePath'> & {
+  fileUrl: string;
+};
+
+// Job description requirements an answer addressed, and those it did not
+export type JobRequirementCoverage = {
+  covered: string[];
+  missed: string[];
+};
+
+export type SessionRequirementCoverage = JobRequirementCoverage & {
+  answers: (JobRequirementCoverage & {
+    questionNumber: number | null;
+    questionText: string;
+  })[];
+};
+
+// A probe the interviewer asked after a weak STAR element, and the candidate's answer to it
+export type ProbedStarElement = 'action' | 'result';
+
+export type FollowUpExchange = {
+  element?: ProbedStarElement; // the element the probe targeted, when known
+  question: string;
+  answer: string | null;       // null until the candidate answers
+};
+
+// Speech delivery of one voice answer: pace, filler words, pauses and speaking time
+export type DeliveryMetrics = {
+  source: 'audio' | 'timestamps' | 'transcript'; // what speaking time and pauses were measured from
+  durationSeconds: number;
+  wordCount: number;
+  wordsPerMinute: number | null;
+  pace: DeliveryPace | null;
+  speakingSeconds: number | null;   // null when only the transcript was available
+  speakingTimeRatio: number | null; // 0-1, share of the answer spent speaking
+  fillerCount: number;
+  fillerRate: number;               // fillers per 100 words
+  fillers: Record<string, number>;
+  longPauses: number;
+  longestPauseSeconds: number | null;
+  pauses: { start: number; end: number }[]; // long pauses, seconds from the start of the answer
+};
+
+export type DeliveryPace = 'slow' | 'good' | 'fast';
+
+// Delivery across several voice answers
+export type DeliverySummary = {
+  answers: number;
+  totalSeconds: number;
+  wordsPerMinute: number | null;
+  pace: DeliveryPace | null;
+  speakingTimeRatio: number | null;
+  fillerCount: number;
+  fillerRate: number;
+  topFillers: { filler: string; count: number }[];
+  longPauses: number;
+  longPausesPerAnswer: number;
+  longestPauseSeconds: number | null;
+};
 
 // Voice service types
 export type VoiceInputMethod = 'text' | 'voice' | 'hybrid';
@@ -0,0 +1,17 @@
+import { defineConfig } from 'vitest/config';
+import path from 'path';
+
+export default defineConfig({
+  test: {
+    globals: true,
+    environment: 'node',
+    include: ['server/__tests__/**/*.test.ts'],
+    testTimeout: 10000,
+  },
+  resolve: {
+    alias: {
+      '@': path.resolve(import.meta.dirname, './client/src'),
+      '@shared': path.resolve(import.meta.dirname, './shared'),
+    },
+  },
+});